@@ -7,8 +7,36 @@ import {
   vector,
   index,
   integer,
-  jsonb
+  jsonb,
+  customType,
+  AnyPgColumn,
+  unique,
+  real,
+  date
 } from 'drizzle-orm/pg-core'
+import { sql } from 'drizzle-orm'
+import type { SearchFilters } from '../lib/search-filters'
+import type { DegreeLevel, H1bLotteryStatus, VisaType } from '../lib/candidate-profile'
+import type { ParsedResume } from '../services/resume-parser'
+import type { PetitionType } from '../services/sponsor-history'
+import type { PostingVisaStance } from '../services/visa-language'
+import type {
+  SponsorReviewCandidate,
+  SponsorReviewReason,
+  SponsorReviewStatus,
+} from '../services/sponsor-review-rules'
+
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return 'tsvector'
+  },
+})
+
+const bytea = customType<{ data: Buffer }>({
+  dataType() {
+    return 'bytea'
+  },
+})
 
 export const visaSponsors = pgTable(
   'visa_sponsors',
@@ -20,6 +48,9 @@ export const visaSponsors = pgTable(
     sponsorshipTypes: text('sponsorship_types').array(),
     lastYearSponsored: integer('last_year_sponsored'),
     sponsorshipConfidence: integer('sponsorship_confidence').default(50),
+    // null = unknown; STEM OPT requires an E-Verify employer
+    eVerifyEnrolled: boolean('e_verify_enrolled'),
+    capExempt: boolean('cap_exempt'), // universities, nonprofit research orgs: no H-1B lottery
     notes: text('notes'),
     source: text('source'),
     metadata: jsonb('metadata'),
@@ -29,12 +60,86 @@ export const visaSponsors = pgTable(
   (table) => [index('visaSponsorsNormalizedIdx').on(table.normalizedName)]
 )
 
+// USCIS H-1B approvals/denials per sponsor, fiscal year and petition type
+export const sponsorFilingsByYear = pgTable(
+  'sponsor_filings_by_year',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    visaSponsorId: uuid('visa_sponsor_id')
+      .references(() => visaSponsors.id, { onDelete: 'cascade' })
+      .notNull(),
+    fiscalYear: integer('fiscal_year').notNull(),
+    petitionType: text('petition_type').$type<PetitionType>().notNull(),
+    approvals: integer('approvals').default(0).notNull(),
+    denials: integer('denials').default(0).notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => [
+    unique('sponsorFilingsByYearUnique').on(table.visaSponsorId, table.fiscalYear, table.petitionType),
+  ]
+)
+
+// DOL LCA disclosure data rolled up per employer, role, worksite and fiscal year
+export const lcaFilings = pgTable(
+  'lca_filings',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    visaSponsorId: uuid('visa_sponsor_id').references(() => visaSponsors.id, { onDelete: 'set null' }),
+    employerName: text('employer_name').notNull(),
+    employerKey: text('employer_key').notNull(), // normalized name without legal suffixes
+    jobTitle: text('job_title').notNull(),
+    socCode: text('soc_code'),
+    socTitle: text('soc_title'),
+    worksiteCity: text('worksite_city'),
+    worksiteState: text('worksite_state'),
+    wageLevel: text('wage_level'), // 'I' | 'II' | 'III' | 'IV'
+    fiscalYear: integer('fiscal_year').notNull(),
+    filingCount: integer('filing_count').notNull(),
+    certifiedCount: integer('certified_count').notNull(),
+    annualWageMin: integer('annual_wage_min'),
+    annualWageMedian: integer('annual_wage_median'),
+    annualWageMax: integer('annual_wage_max'),
+    importedAt: timestamp('imported_at').defaultNow().notNull(),
+  },
+  (table) => [
+    index('lcaFilingsSponsorIdx').on(table.visaSponsorId, table.fiscalYear),
+    index('lcaFilingsEmployerKeyIdx').on(table.employerKey),
+    index('lcaFilingsFiscalYearIdx').on(table.fiscalYear),
+  ]
+)
+
+// Crawled company names whose sponsor match needs a person; one row per
+// normalized name so the decision applies to every posting and later crawls
+export const sponsorMatchReviews = pgTable(
+  'sponsor_match_reviews',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    normalizedCompany: text('normalized_company').notNull().unique(),
+    companyName: text('company_name').notNull(), // as first seen on a posting
+    status: text('status').$type<SponsorReviewStatus>().default('pending').notNull(),
+    reasons: text('reasons').array().$type<SponsorReviewReason[]>().notNull(),
+    candidates: jsonb('candidates').$type<SponsorReviewCandidate[]>().notNull(), // ranked matcher suggestions
+    suggestedSponsorId: uuid('suggested_sponsor_id').references(() => visaSponsors.id, { onDelete: 'set null' }),
+    matchConfidence: real('match_confidence'),
+    visaSponsorId: uuid('visa_sponsor_id').references(() => visaSponsors.id, { onDelete: 'set null' }), // decided sponsor
+    decidedBy: text('decided_by'),
+    decidedAt: timestamp('decided_at'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [index('sponsorMatchReviewsStatusIdx').on(table.status, table.createdAt)]
+)
+
 export const users = pgTable('users', {
   id: uuid('id').primaryKey().defaultRandom(),
   email: text('email').notNull().unique(),
   authId: text('auth_id').notNull().unique(), // Supabase Auth ID
   profileDescription: text('profile_description'),
   profileEmbedding: vector('profile_embedding', { dimensions: 1536 }),
+  // Match score weighting; null means the default blend
+  scoringWeights: jsonb('scoring_weights').$type<{ similarity: number; recency: number; sponsorship: number }>(),
+  digestFrequency: text('digest_frequency').default('weekly').notNull(), // 'daily' | 'weekly' | 'off'
+  lastDigestAt: timestamp('last_digest_at'),
+  unsubscribeToken: text('unsubscribe_token').unique(), // issued with the first digest
   createdAt: timestamp('created_at').defaultNow(),
 })
 
@@ -49,10 +154,12 @@ export const jobs = pgTable(
     requirements: text('requirements'),
     url: text('url').notNull().unique(),
     salaryRange: text('salary_range'),
+    department: text('department'),
     isRemote: boolean('is_remote').default(false),
     jobType: text('job_type'), // 'new_grad' | 'internship'
     source: text('source'), // 'github', 'greenhouse', etc.
     embedding: vector('embedding', { dimensions: 1536 }),
+    contentHash: text('content_hash'), // sha256 of title/company/source description
     scrapedAt: timestamp('scraped_at').defaultNow(),
     isActive: boolean('is_active').default(true),
     postedAt: timestamp('posted_at'),
@@ -63,16 +170,26 @@ export const jobs = pgTable(
     sponsorshipConfidence: integer('sponsorship_confidence').default(0),
     visaNotes: text('visa_notes'),
     visaSponsorId: uuid('visa_sponsor_id').references(() => visaSponsors.id),
-    visaRequirements: text('visa_requirements'),
+    visaRequirements: text('visa_requirements'), // evidence for visaStance, quoted from the description
+    visaStance: text('visa_stance').$type<PostingVisaStance>(),
     salaryCurrency: text('salary_currency'),
     expiresAt: timestamp('expires_at'),
     manualReview: boolean('manual_review').default(false),
     visaPriorityScore: integer('visa_priority_score'),
+    dedupeKey: text('dedupe_key'), // normalized company + title, see dedupe-rules
+    // Weighted full-text document for the lexical half of hybrid search
+    searchVector: tsvector('search_vector').generatedAlwaysAs(
+      sql`setweight(to_tsvector('english', coalesce(title, '')), 'A') || setweight(to_tsvector('english', coalesce(company, '')), 'B') || setweight(to_tsvector('english', coalesce(description, '')), 'C')`
+    ),
+    canonicalJobId: uuid('canonical_job_id').references((): AnyPgColumn => jobs.id, { onDelete: 'set null' }), // set on cross-source duplicates
   },
   (table) => [
     index('embeddingIndex').using('hnsw', table.embedding.op('vector_cosine_ops')),
     index('jobsVisaStatusIdx').on(table.visaStatus),
     index('jobsLastSeenIdx').on(table.lastSeenAt),
+    index('jobsDedupeKeyIdx').on(table.dedupeKey),
+    index('jobsCanonicalJobIdx').on(table.canonicalJobId),
+    index('jobsSearchVectorIdx').using('gin', table.searchVector),
   ]
 )
 
@@ -85,8 +202,151 @@ export const applications = pgTable('applications', {
   notes: text('notes'),
 })
 
+export const crawlRuns = pgTable(
+  'crawl_runs',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    crawler: text('crawler').notNull(), // 'multi_platform' | 'github'
+    status: text('status').notNull().default('running'), // 'running' | 'succeeded' | 'partial' | 'failed'
+    startedAt: timestamp('started_at').defaultNow().notNull(),
+    finishedAt: timestamp('finished_at'),
+    jobsSeen: integer('jobs_seen').default(0),
+    jobsInserted: integer('jobs_inserted').default(0),
+    jobsUpdated: integer('jobs_updated').default(0),
+    jobsUnchanged: integer('jobs_unchanged').default(0),
+    jobsDeactivated: integer('jobs_deactivated').default(0),
+    httpFailures: integer('http_failures').default(0),
+    errorCount: integer('error_count').default(0),
+    errorMessage: text('error_message'),
+  },
+  (table) => [index('crawlRunsStartedIdx').on(table.startedAt)]
+)
+
+export const crawlSourceResults = pgTable(
+  'crawl_source_results',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    runId: uuid('run_id').references(() => crawlRuns.id, { onDelete: 'cascade' }).notNull(),
+    source: text('source').notNull(), // matches jobs.source, e.g. 'lever_stripe'
+    platform: text('platform').notNull(),
+    startedAt: timestamp('started_at').notNull(),
+    finishedAt: timestamp('finished_at'),
+    jobsSeen: integer('jobs_seen').default(0),
+    jobsInserted: integer('jobs_inserted').default(0),
+    jobsUpdated: integer('jobs_updated').default(0),
+    jobsUnchanged: integer('jobs_unchanged').default(0),
+    jobsDeactivated: integer('jobs_deactivated').default(0),
+    httpFailures: integer('http_failures').default(0),
+    errors: text('errors').array(),
+  },
+  (table) => [
+    index('crawlSourceResultsRunIdx').on(table.runId),
+    index('crawlSourceResultsSourceIdx').on(table.source),
+  ]
+)
+
+export const savedSearches = pgTable(
+  'saved_searches',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+    name: text('name').notNull(),
+    filters: jsonb('filters').$type<SearchFilters>().notNull(), // same shape as /api/jobs/search params
+    lastRunAt: timestamp('last_run_at'), // jobs scraped after this are checked on the next run
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => [index('savedSearchesUserIdx').on(table.userId)]
+)
+
+export const savedSearchMatches = pgTable(
+  'saved_search_matches',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    savedSearchId: uuid('saved_search_id')
+      .references(() => savedSearches.id, { onDelete: 'cascade' })
+      .notNull(),
+    jobId: uuid('job_id').references(() => jobs.id, { onDelete: 'cascade' }).notNull(),
+    matchScore: real('match_score'),
+    matchedAt: timestamp('matched_at').defaultNow().notNull(),
+    seenAt: timestamp('seen_at'), // cleared badge once the user opens the search
+  },
+  (table) => [
+    unique('savedSearchMatchesSearchJobUnique').on(table.savedSearchId, table.jobId),
+    index('savedSearchMatchesUnseenIdx').on(table.savedSearchId, table.seenAt),
+  ]
+)
+
+export const candidateProfiles = pgTable('candidate_profiles', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull().unique(),
+  degree: text('degree').$type<DegreeLevel>(), // 'bachelors' | 'masters' | 'phd'
+  fieldOfStudy: text('field_of_study'),
+  graduationDate: date('graduation_date'), // first of the month when only YYYY-MM is known
+  visaType: text('visa_type').$type<VisaType>(), // 'f1_opt' | 'stem_opt' | 'h1b_transfer'
+  salaryFloor: integer('salary_floor'), // USD per year
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+})
+
+export const candidateProfileItems = pgTable(
+  'candidate_profile_items',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    profileId: uuid('profile_id')
+      .references(() => candidateProfiles.id, { onDelete: 'cascade' })
+      .notNull(),
+    kind: text('kind').notNull(), // 'target_role' | 'skill' | 'preferred_location'
+    value: text('value').notNull(),
+    position: integer('position').default(0).notNull(), // display order within a kind
+  },
+  (table) => [
+    unique('candidateProfileItemsValueUnique').on(table.profileId, table.kind, table.value),
+    index('candidateProfileItemsProfileIdx').on(table.profileId),
+  ]
+)
+
+export const immigrationTimelines = pgTable('immigration_timelines', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull().unique(),
+  programEndDate: date('program_end_date'),
+  optStartDate: date('opt_start_date'),
+  optEndDate: date('opt_end_date'), // EAD end; derived from the start date when null
+  stemOptStartDate: date('stem_opt_start_date'),
+  stemOptEligible: boolean('stem_opt_eligible').default(false).notNull(),
+  unemploymentDaysUsed: integer('unemployment_days_used').default(0).notNull(),
+  unemploymentCountedAt: timestamp('unemployment_counted_at'), // days accrue from here while unemployed
+  currentlyEmployed: boolean('currently_employed').default(false).notNull(),
+  h1bLotteryStatus: text('h1b_lottery_status').$type<H1bLotteryStatus>().default('not_registered').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+})
+
+export const resumes = pgTable('resumes', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull().unique(), // latest upload only
+  fileName: text('file_name').notNull(),
+  format: text('format').notNull(), // 'pdf' | 'docx'
+  sizeBytes: integer('size_bytes').notNull(),
+  content: bytea('content').notNull(),
+  extractedText: text('extracted_text').notNull(),
+  parsed: jsonb('parsed').$type<ParsedResume>().notNull(),
+  uploadedAt: timestamp('uploaded_at').defaultNow().notNull(),
+})
+
 // Type exports
 export type User = typeof users.$inferSelect
 export type Job = typeof jobs.$inferSelect
 export type Application = typeof applications.$inferSelect
 export type VisaSponsor = typeof visaSponsors.$inferSelect
+export type LcaFiling = typeof lcaFilings.$inferSelect
+export type SponsorFilingYear = typeof sponsorFilingsByYear.$inferSelect
+export type SponsorMatchReview = typeof sponsorMatchReviews.$inferSelect
+export type CrawlRun = typeof crawlRuns.$inferSelect
+export type CrawlSourceResult = typeof crawlSourceResults.$inferSelect
+export type SavedSearch = typeof savedSearches.$inferSelect
+export type SavedSearchMatch = typeof savedSearchMatches.$inferSelect
+export type CandidateProfile = typeof candidateProfiles.$inferSelect
+export type CandidateProfileItem = typeof candidateProfileItems.$inferSelect
+export type Resume = typeof resumes.$inferSelect
+export type ImmigrationTimeline = typeof immigrationTimelines.$inferSelect
@@ -6,6 +6,10 @@ import jobsRouter from './routes/jobs'
 import applicationsRouter from './routes/applications'
 import profileRouter from './routes/profile'
 import collateralRouter from './routes/collateral'
+import adminRouter from './routes/admin'
+import savedSearchesRouter from './routes/saved-searches'
+import digestRouter from './routes/digest'
+import sponsorsRouter from './routes/sponsors'
 import type { AppEnv } from './types'
 import { attachUser } from './middleware/auth'
 
@@ -26,6 +30,10 @@ app.route('/api/jobs', jobsRouter)
 app.route('/api/applications', applicationsRouter)
 app.route('/api/profile', profileRouter)
 app.route('/api/collateral', collateralRouter)
+app.route('/api/admin', adminRouter)
+app.route('/api/saved-searches', savedSearchesRouter)
+app.route('/api/digest', digestRouter)
+app.route('/api/sponsors', sponsorsRouter)
 
 // 404 handler
 app.notFound((c) => {
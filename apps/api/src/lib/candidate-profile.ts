@@ -0,0 +1,55 @@
+import { z } from 'zod'
+
+export const DEGREE_LEVELS = ['bachelors', 'masters', 'phd'] as const
+export const VISA_TYPES = ['f1_opt', 'stem_opt', 'h1b_transfer'] as const
+export const H1B_LOTTERY_STATUSES = ['not_registered', 'registered', 'selected', 'not_selected'] as const
+
+export type DegreeLevel = (typeof DEGREE_LEVELS)[number]
+export type VisaType = (typeof VISA_TYPES)[number]
+export type H1bLotteryStatus = (typeof H1B_LOTTERY_STATUSES)[number]
+
+const tagList = z.array(z.string().trim().min(1).max(100)).max(25)
+
+/**
+ * Structured half of the profile. Every field is optional so a partially
+ * filled form still saves; the free-text description stays alongside it.
+ */
+export const candidateProfileSchema = z.object({
+  degree: z.enum(DEGREE_LEVELS).nullable().optional(),
+  fieldOfStudy: z.string().trim().max(200).nullable().optional(),
+  graduationDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}(-\d{2})?$/, 'Expected YYYY-MM or YYYY-MM-DD')
+    .nullable()
+    .optional(),
+  visaType: z.enum(VISA_TYPES).nullable().optional(),
+  targetRoles: tagList.default([]),
+  skills: tagList.default([]),
+  preferredLocations: tagList.default([]),
+  salaryFloor: z.number().int().min(0).max(1_000_000).nullable().optional(),
+})
+
+export type CandidateProfileInput = z.infer<typeof candidateProfileSchema>
+
+const isoDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD')
+  .nullable()
+  .optional()
+
+/**
+ * F-1 work authorization dates the user tracks on their profile. Unemployment
+ * days are as of the moment they are saved; the server keeps counting.
+ */
+export const immigrationTimelineSchema = z.object({
+  programEndDate: isoDate,
+  optStartDate: isoDate,
+  optEndDate: isoDate,
+  stemOptStartDate: isoDate,
+  stemOptEligible: z.boolean().default(false),
+  unemploymentDaysUsed: z.number().int().min(0).max(365).default(0),
+  currentlyEmployed: z.boolean().default(false),
+  h1bLotteryStatus: z.enum(H1B_LOTTERY_STATUSES).default('not_registered'),
+})
+
+export type ImmigrationTimelineUpdate = z.infer<typeof immigrationTimelineSchema>
@@ -0,0 +1,85 @@
+import { mkdir, writeFile } from 'fs/promises'
+import path from 'path'
+import nodemailer from 'nodemailer'
+
+export interface MailMessage {
+  to: string
+  subject: string
+  html: string
+  text: string
+  headers?: Record<string, string>
+}
+
+/**
+ * Anything that can deliver a rendered email. SMTP for real delivery, the
+ * outbox for local testing.
+ */
+export interface MailTransport {
+  name: string
+  send(message: MailMessage): Promise<void>
+}
+
+const DEFAULT_FROM = 'Job Search H1B <digest@localhost>'
+const DEFAULT_OUTBOX_DIR = 'outbox'
+
+export function createSmtpTransport(smtpUrl: string, from = DEFAULT_FROM): MailTransport {
+  const transporter = nodemailer.createTransport(smtpUrl)
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      await transporter.sendMail({
+        from,
+        to: message.to,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        headers: message.headers,
+      })
+    },
+  }
+}
+
+/**
+ * Writes each message as a .json (headers and both bodies) and a .html file
+ * so digests can be previewed in a browser without an SMTP server.
+ */
+export function createOutboxTransport(directory = DEFAULT_OUTBOX_DIR, from = DEFAULT_FROM): MailTransport {
+  return {
+    name: 'outbox',
+    async send(message) {
+      await mkdir(directory, { recursive: true })
+      const slug = message.to.replace(/[^a-z0-9]+/gi, '_')
+      const basename = `${new Date().toISOString().replace(/[:.]/g, '-')}-${slug}`
+
+      await writeFile(
+        path.join(directory, `${basename}.json`),
+        JSON.stringify({ from, ...message }, null, 2)
+      )
+      await writeFile(path.join(directory, `${basename}.html`), message.html)
+    },
+  }
+}
+
+/**
+ * Picks a transport from MAIL_TRANSPORT ('smtp' needs SMTP_URL). Defaults to
+ * the outbox so nothing is emailed by accident from a dev machine.
+ */
+export function createMailTransportFromEnv(): MailTransport {
+  const from = process.env.MAIL_FROM || DEFAULT_FROM
+  const transport = process.env.MAIL_TRANSPORT || 'outbox'
+
+  if (transport === 'smtp') {
+    const smtpUrl = process.env.SMTP_URL
+    if (!smtpUrl) {
+      throw new Error('MAIL_TRANSPORT=smtp requires SMTP_URL')
+    }
+    return createSmtpTransport(smtpUrl, from)
+  }
+
+  if (transport === 'outbox') {
+    return createOutboxTransport(process.env.MAIL_OUTBOX_DIR || DEFAULT_OUTBOX_DIR, from)
+  }
+
+  throw new Error(`Unknown MAIL_TRANSPORT "${transport}" (expected smtp or outbox)`)
+}
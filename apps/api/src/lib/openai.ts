@@ -48,6 +48,8 @@ interface CollateralHighlightInput {
   company: string
   jobDescription: string
   profileSummary: string
+  /** Parsed resume rendered as text; lets the bullets cite real experience */
+  resumeSummary?: string
 }
 
 interface CollateralHighlightResponse {
@@ -63,7 +65,7 @@ export async function generateCollateralHighlights(
     return null
   }
 
-  const { jobTitle, company, jobDescription, profileSummary } = input
+  const { jobTitle, company, jobDescription, profileSummary, resumeSummary } = input
 
   try {
     const response = await openai.chat.completions.create({
@@ -73,13 +75,14 @@ export async function generateCollateralHighlights(
         {
           role: 'system',
           content:
-            'You create concise collateral talking points for early-career job seekers. Respond with JSON containing summary, bullets (array of 3 short strings), and closing. Keep each bullet under 20 words and avoid LaTeX control sequences.',
+            'You create concise collateral talking points for early-career job seekers. Respond with JSON containing summary, bullets (array of 3 short strings), and closing. Keep each bullet under 20 words and avoid LaTeX control sequences. When a resume is provided, ground each bullet in a specific experience or project from it and never invent ones that are not there.',
         },
         {
           role: 'user',
           content: [
             `Role: ${jobTitle} at ${company}`,
             `Profile summary: ${profileSummary || 'Not provided.'}`,
+            `Resume: ${resumeSummary || 'Not provided.'}`,
             `Job description: ${jobDescription || 'Not provided.'}`,
             '',
             'Return JSON with shape {"summary": "...", "bullets": ["..."], "closing": "..."}',
@@ -110,3 +113,44 @@ export async function generateCollateralHighlights(
     return null
   }
 }
+
+interface VisaLanguageResponse {
+  stance?: unknown
+  evidence?: unknown
+}
+
+/**
+ * Asks the model for a posting's sponsorship stance and the sentence that
+ * states it. The answer is unchecked; see checkLlmVisaLanguage.
+ */
+export async function classifyVisaLanguage(description: string): Promise<VisaLanguageResponse | null> {
+  if (!process.env.OPENAI_API_KEY) {
+    return null
+  }
+
+  try {
+    const response = await openai.chat.completions.create({
+      model: 'gpt-4o-mini',
+      response_format: { type: 'json_object' },
+      messages: [
+        {
+          role: 'system',
+          content:
+            'You read job postings for what they say about visa sponsorship for this role. Respond with JSON {"stance": ..., "evidence": ...}. stance is one of "no_sponsorship" (refuses sponsorship now or in the future, or requires citizenship or a clearance), "opt_only" (takes OPT/CPT but will not sponsor a work visa), "sponsors" (offers visa sponsorship), "opt_welcome" (welcomes OPT/CPT candidates) or null when the posting does not say. evidence is the deciding sentence copied verbatim from the posting, or null.',
+        },
+        {
+          role: 'user',
+          content: description.slice(0, 12000),
+        },
+      ],
+      max_tokens: 200,
+      temperature: 0,
+    })
+
+    const content = response.choices[0].message.content
+    return content ? (JSON.parse(content) as VisaLanguageResponse) : null
+  } catch (error) {
+    console.error('OpenAI visa language error:', error)
+    return null
+  }
+}
@@ -0,0 +1,55 @@
+import mammoth from 'mammoth'
+import { extractText, getDocumentProxy } from 'unpdf'
+
+export const RESUME_MIME_TYPES = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+} as const
+
+export type ResumeFormat = keyof typeof RESUME_MIME_TYPES
+
+export class UnsupportedResumeError extends Error {
+  constructor(message = 'Resume must be a PDF or DOCX file') {
+    super(message)
+    this.name = 'UnsupportedResumeError'
+  }
+}
+
+/**
+ * Identifies the format from the file's magic bytes rather than trusting the
+ * browser-supplied MIME type. DOCX files are zip archives ("PK").
+ */
+export function detectResumeFormat(buffer: Uint8Array): ResumeFormat | null {
+  if (buffer.length >= 4 && buffer[0] === 0x25 && buffer[1] === 0x50 && buffer[2] === 0x44 && buffer[3] === 0x46) {
+    return 'pdf'
+  }
+  if (buffer.length >= 4 && buffer[0] === 0x50 && buffer[1] === 0x4b && buffer[2] === 0x03 && buffer[3] === 0x04) {
+    return 'docx'
+  }
+  return null
+}
+
+/**
+ * Pulls plain text out of a resume locally; nothing is sent to a third party.
+ */
+export async function extractResumeText(buffer: Uint8Array, format: ResumeFormat) {
+  if (format === 'pdf') {
+    try {
+      // pdf.js takes ownership of the buffer it is given, so hand it a copy
+      const pdf = await getDocumentProxy(new Uint8Array(buffer))
+      const { text } = await extractText(pdf, { mergePages: true })
+      return text
+    } catch {
+      // A corrupt or truncated file can still start with "%PDF"
+      throw new UnsupportedResumeError('Could not read the PDF file')
+    }
+  }
+
+  try {
+    const { value } = await mammoth.extractRawText({ buffer: Buffer.from(buffer) })
+    return value
+  } catch {
+    // Any other zip (xlsx, a renamed archive) fails here
+    throw new UnsupportedResumeError('Could not read the DOCX file')
+  }
+}
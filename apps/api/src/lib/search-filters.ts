@@ -0,0 +1,40 @@
+import { z } from 'zod'
+
+/**
+ * Filters accepted by /api/jobs/search. Saved searches store exactly this
+ * shape so re-running one matches what the user saw on the dashboard.
+ */
+export const searchFiltersSchema = z.object({
+  description: z.string().optional(),
+  jobType: z.enum(['new_grad', 'internship', 'all']).optional(),
+  isRemote: z.boolean().optional(),
+  location: z.string().optional(),
+  visaStatus: z.enum(['sponsor_verified', 'likely_sponsor', 'unknown', 'no_sponsorship']).optional(),
+  minSponsorshipConfidence: z.coerce.number().min(0).max(100).optional(),
+  requiresVerifiedSponsor: z.boolean().optional(),
+  eVerifyOnly: z.boolean().optional(),
+  capExemptOnly: z.boolean().optional(),
+  postedAfter: z.string().optional(),
+  postedBefore: z.string().optional(),
+  includeInactive: z.boolean().optional(),
+  similarityWeight: z.coerce.number().min(0).max(1).optional(),
+  recencyWeight: z.coerce.number().min(0).max(1).optional(),
+  sponsorshipWeight: z.coerce.number().min(0).max(1).optional(),
+})
+
+export type SearchFilters = z.infer<typeof searchFiltersSchema>
+
+/**
+ * Maps the flat weight fields onto the scoring overrides searchJobs expects.
+ */
+export function toSearchOptions<T extends SearchFilters>(filters: T) {
+  const { similarityWeight, recencyWeight, sponsorshipWeight, ...rest } = filters
+  return {
+    ...rest,
+    weights: {
+      similarity: similarityWeight,
+      recency: recencyWeight,
+      sponsorship: sponsorshipWeight,
+    },
+  }
+}
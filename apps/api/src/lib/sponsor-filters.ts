@@ -0,0 +1,23 @@
+import { z } from 'zod'
+
+export const SPONSOR_SORTS = ['filings', 'confidence', 'recent', 'name'] as const
+export type SponsorSort = (typeof SPONSOR_SORTS)[number]
+
+/**
+ * Filters accepted by the /api/sponsors directory. Industry and state come
+ * from the USCIS metadata kept on each sponsor.
+ */
+export const sponsorDirectorySchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  minConfidence: z.coerce.number().min(0).max(100).optional(),
+  industry: z.string().trim().max(200).optional(),
+  state: z.string().trim().max(50).optional(),
+  visaType: z.string().trim().max(20).optional(),
+  eVerifyOnly: z.boolean().optional(),
+  capExemptOnly: z.boolean().optional(),
+  sort: z.enum(SPONSOR_SORTS).default('filings'),
+  limit: z.coerce.number().int().min(1).max(100).default(30),
+  offset: z.coerce.number().int().min(0).default(0),
+})
+
+export type SponsorDirectoryFilters = z.infer<typeof sponsorDirectorySchema>
@@ -41,3 +41,23 @@ export const requireUser = createMiddleware<AppEnv>(async (c, next) => {
 
   await next()
 })
+
+function getAdminEmails() {
+  return (process.env.ADMIN_EMAILS ?? '')
+    .split(',')
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean)
+}
+
+/**
+ * Restricts a route to users whose email is listed in ADMIN_EMAILS.
+ * Must run after requireUser.
+ */
+export const requireAdmin = createMiddleware<AppEnv>(async (c, next) => {
+  const email = c.get('user')?.email?.toLowerCase()
+  if (!email || !getAdminEmails().includes(email)) {
+    return c.json({ error: 'Admin access required' }, 403)
+  }
+
+  await next()
+})
@@ -0,0 +1,128 @@
+import { Hono } from 'hono'
+import { z } from 'zod'
+import { requireAdmin, requireUser } from '../middleware/auth'
+import { getCrawlRun, getSourceHistory, listCrawlRuns } from '../services/crawl-run-service'
+import { SponsorReviewError, decideSponsorReview, listSponsorReviews } from '../services/sponsor-review-service'
+import { SPONSOR_REVIEW_STATUSES } from '../services/sponsor-review-rules'
+import type { AppEnv } from '../types'
+
+const admin = new Hono<AppEnv>()
+
+admin.use('*', requireUser, requireAdmin)
+
+const listCrawlsSchema = z.object({
+  crawler: z.string().optional(),
+  limit: z.coerce.number().min(1).max(200).optional(),
+})
+
+// GET /api/admin/crawls - Recent crawl runs with rolled-up counts
+admin.get('/crawls', async (c) => {
+  try {
+    const params = listCrawlsSchema.parse(c.req.query())
+    const runs = await listCrawlRuns(params)
+    return c.json({ runs, count: runs.length })
+  } catch (error) {
+    console.error('List crawl runs error:', error)
+    if (error instanceof z.ZodError) {
+      return c.json({ error: 'Invalid parameters', details: error.errors }, 400)
+    }
+    return c.json({ error: 'Failed to fetch crawl runs' }, 500)
+  }
+})
+
+// GET /api/admin/crawls/sources/:source - History for a single source
+admin.get('/crawls/sources/:source', async (c) => {
+  try {
+    const source = c.req.param('source')
+    const limit = z.coerce.number().min(1).max(200).optional().parse(c.req.query('limit'))
+    const results = await getSourceHistory(source, limit)
+    return c.json({ source, results })
+  } catch (error) {
+    console.error('Crawl source history error:', error)
+    if (error instanceof z.ZodError) {
+      return c.json({ error: 'Invalid parameters', details: error.errors }, 400)
+    }
+    return c.json({ error: 'Failed to fetch source history' }, 500)
+  }
+})
+
+// GET /api/admin/crawls/:id - Single run with per-source results
+admin.get('/crawls/:id', async (c) => {
+  try {
+    const id = c.req.param('id')
+    if (!z.string().uuid().safeParse(id).success) {
+      return c.json({ error: 'Invalid crawl run id' }, 400)
+    }
+
+    const run = await getCrawlRun(id)
+    if (!run) {
+      return c.json({ error: 'Crawl run not found' }, 404)
+    }
+
+    return c.json({ run })
+  } catch (error) {
+    console.error('Get crawl run error:', error)
+    return c.json({ error: 'Failed to fetch crawl run' }, 500)
+  }
+})
+
+const listSponsorReviewsSchema = z.object({
+  status: z.enum(SPONSOR_REVIEW_STATUSES).optional(),
+  limit: z.coerce.number().min(1).max(200).optional(),
+  offset: z.coerce.number().min(0).optional(),
+})
+
+const sponsorReviewDecisionSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('approve') }),
+  z.object({ action: z.literal('reject') }),
+  z.object({ action: z.literal('reassign'), visaSponsorId: z.string().uuid() }),
+])
+
+// GET /api/admin/sponsor-reviews - Sponsor matches queued for review (pending by default)
+admin.get('/sponsor-reviews', async (c) => {
+  try {
+    const params = listSponsorReviewsSchema.parse(c.req.query())
+    const reviews = await listSponsorReviews(params)
+    return c.json({ reviews, count: reviews.length })
+  } catch (error) {
+    console.error('List sponsor reviews error:', error)
+    if (error instanceof z.ZodError) {
+      return c.json({ error: 'Invalid parameters', details: error.errors }, 400)
+    }
+    return c.json({ error: 'Failed to fetch sponsor reviews' }, 500)
+  }
+})
+
+// POST /api/admin/sponsor-reviews/:id/:action - Approve, reject or reassign a queued match
+admin.post('/sponsor-reviews/:id/:action', async (c) => {
+  try {
+    const id = c.req.param('id')
+    if (!z.string().uuid().safeParse(id).success) {
+      return c.json({ error: 'Invalid sponsor review id' }, 400)
+    }
+
+    // Only reassign takes a body
+    const body = c.req.param('action') === 'reassign' ? await c.req.json().catch(() => ({})) : {}
+    const decision = sponsorReviewDecisionSchema.parse({ ...body, action: c.req.param('action') })
+    const result = await decideSponsorReview(id, decision.action, {
+      visaSponsorId: decision.action === 'reassign' ? decision.visaSponsorId : undefined,
+      decidedBy: c.get('user')?.email ?? null,
+    })
+    if (!result) {
+      return c.json({ error: 'Sponsor review not found' }, 404)
+    }
+
+    return c.json(result)
+  } catch (error) {
+    console.error('Decide sponsor review error:', error)
+    if (error instanceof z.ZodError) {
+      return c.json({ error: 'Invalid data', details: error.errors }, 400)
+    }
+    if (error instanceof SponsorReviewError) {
+      return c.json({ error: error.message }, 400)
+    }
+    return c.json({ error: 'Failed to update sponsor review' }, 500)
+  }
+})
+
+export default admin
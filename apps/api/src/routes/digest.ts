@@ -0,0 +1,51 @@
+import { Hono } from 'hono'
+import { unsubscribeByToken } from '../services/digest-service'
+import { escapeHtml } from '../utils/html'
+import type { AppEnv } from '../types'
+
+const digest = new Hono<AppEnv>()
+
+function renderUnsubscribePage(message: string, confirmToken?: string) {
+  // Posts back to the same path, so the page works wherever the API is mounted
+  const form = confirmToken
+    ? `<form method="post" action="?token=${escapeHtml(encodeURIComponent(confirmToken))}"><button type="submit" style="padding:8px 16px;border-radius:8px;border:0;background:#0f172a;color:#fff;cursor:pointer">Unsubscribe</button></form>`
+    : ''
+  return `<!doctype html><html><body style="font-family:-apple-system,Segoe UI,sans-serif;max-width:480px;margin:64px auto;color:#0f172a"><p>${escapeHtml(message)}</p>${form}</body></html>`
+}
+
+// GET /api/digest/unsubscribe?token=... - Link in the digest footer (no login needed).
+// Only asks for confirmation: mail scanners and link previews fetch links on
+// their own, so a GET must never change anything.
+digest.get('/unsubscribe', (c) => {
+  const token = c.req.query('token')
+  if (!token) {
+    return c.html(renderUnsubscribePage('This unsubscribe link is invalid or has expired.'), 404)
+  }
+  return c.html(renderUnsubscribePage('Stop receiving job digest emails?', token))
+})
+
+// POST /api/digest/unsubscribe?token=... - The confirmation page's button, and
+// RFC 8058 one-click unsubscribe from mail clients. Browsers get a page back.
+digest.post('/unsubscribe', async (c) => {
+  const wantsHtml = c.req.header('Accept')?.includes('text/html') ?? false
+  try {
+    const token = c.req.query('token')
+    if (!token || !(await unsubscribeByToken(token))) {
+      return wantsHtml
+        ? c.html(renderUnsubscribePage('This unsubscribe link is invalid or has expired.'), 404)
+        : c.json({ error: 'Invalid unsubscribe token' }, 404)
+    }
+    return wantsHtml
+      ? c.html(
+          renderUnsubscribePage('You have been unsubscribed from job digests. You can turn them back on from your profile.')
+        )
+      : c.json({ success: true })
+  } catch (error) {
+    console.error('Digest unsubscribe error:', error)
+    return wantsHtml
+      ? c.html(renderUnsubscribePage('Something went wrong. Please try again later.'), 500)
+      : c.json({ error: 'Failed to unsubscribe' }, 500)
+  }
+})
+
+export default digest
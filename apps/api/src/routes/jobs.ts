@@ -1,6 +1,8 @@
 import { Hono } from 'hono'
 import { z } from 'zod'
 import { searchJobs, getJobById, getTotalJobCount } from '../services/job-service'
+import { decodeSearchCursor } from '../services/search-cursor'
+import { searchFiltersSchema, toSearchOptions } from '../lib/search-filters'
 import type { AppEnv } from '../types'
 
 const jobs = new Hono<AppEnv>()
@@ -14,16 +16,17 @@ jobs.get('/', async (c) => {
       offset: parseInt(query.offset || '0'),
     }
     
-    const [results, totalCount] = await Promise.all([
+    const [page, totalCount] = await Promise.all([
       searchJobs(params),
       getTotalJobCount(params)
     ])
     
     return c.json({ 
-      jobs: results, 
-      count: results.length,
+      jobs: page.jobs, 
+      count: page.jobs.length,
       total: totalCount,
-      hasMore: (params.offset || 0) + results.length < totalCount
+      hasMore: page.nextCursor !== null,
+      nextCursor: page.nextCursor,
     })
   } catch (error) {
     console.error('Jobs listing error:', error)
@@ -31,19 +34,20 @@ jobs.get('/', async (c) => {
   }
 })
 
-const searchSchema = z.object({
-  description: z.string().optional(),
-  jobType: z.enum(['new_grad', 'internship', 'all']).optional(),
-  isRemote: z.boolean().optional(),
-  location: z.string().optional(),
-  visaStatus: z.enum(['sponsor_verified', 'likely_sponsor', 'unknown']).optional(),
-  minSponsorshipConfidence: z.coerce.number().min(0).max(100).optional(),
-  requiresVerifiedSponsor: z.boolean().optional(),
-  postedAfter: z.string().optional(),
-  postedBefore: z.string().optional(),
-  includeInactive: z.boolean().optional(),
+const searchSchema = searchFiltersSchema.extend({
   limit: z.coerce.number().min(1).max(1000).optional(),
   offset: z.coerce.number().min(0).optional(),
+  cursor: z
+    .string()
+    .transform((value, ctx) => {
+      const cursor = decodeSearchCursor(value)
+      if (!cursor) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Invalid cursor' })
+        return z.NEVER
+      }
+      return cursor
+    })
+    .optional(),
   userId: z.string().optional(),
 })
 
@@ -60,24 +64,31 @@ jobs.get('/search', async (c) => {
       visaStatus: query.visaStatus as any,
       minSponsorshipConfidence: query.minSponsorshipConfidence,
       requiresVerifiedSponsor: query.requiresVerifiedSponsor === 'true',
+      eVerifyOnly: query.eVerifyOnly === 'true',
+      capExemptOnly: query.capExemptOnly === 'true',
       postedAfter: query.postedAfter,
       postedBefore: query.postedBefore,
       includeInactive: query.includeInactive === 'true',
       limit: query.limit,
       offset: query.offset,
+      cursor: query.cursor,
       userId: query.userId || c.get('user')?.id,
+      similarityWeight: query.similarityWeight,
+      recencyWeight: query.recencyWeight,
+      sponsorshipWeight: query.sponsorshipWeight,
     })
 
-    const [results, totalCount] = await Promise.all([
-      searchJobs(params),
+    const [page, totalCount] = await Promise.all([
+      searchJobs(toSearchOptions(params)),
       getTotalJobCount(params)
     ])
     
     return c.json({ 
-      jobs: results, 
-      count: results.length,
+      jobs: page.jobs, 
+      count: page.jobs.length,
       total: totalCount,
-      hasMore: (params.offset || 0) + results.length < totalCount
+      hasMore: page.nextCursor !== null,
+      nextCursor: page.nextCursor,
     })
   } catch (error) {
     console.error('Search error:', error)
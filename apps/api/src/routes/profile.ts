@@ -1,15 +1,58 @@
 import { Hono } from 'hono'
+import { bodyLimit } from 'hono/body-limit'
 import { z } from 'zod'
-import { updateUserProfile, getUserProfile } from '../services/profile-service'
+import {
+  updateUserProfile,
+  getUserProfile,
+  updateScoringWeights,
+  refreshProfileEmbedding,
+} from '../services/profile-service'
+import { MAX_RESUME_BYTES, deleteResume, getResume, getResumeFile, saveResume } from '../services/resume-service'
+import { RESUME_MIME_TYPES, UnsupportedResumeError } from '../lib/resume-text'
+import { updateDigestFrequency } from '../services/digest-service'
+import { DIGEST_FREQUENCIES } from '../services/digest-builder'
+import { candidateProfileSchema, immigrationTimelineSchema } from '../lib/candidate-profile'
+import {
+  deleteImmigrationTimeline,
+  getImmigrationTimeline,
+  saveImmigrationTimeline,
+} from '../services/timeline-service'
+import { computeTimeline } from '../services/opt-timeline'
 import { requireUser } from '../middleware/auth'
 import type { AppEnv } from '../types'
 
 const profile = new Hono<AppEnv>()
 
+// Room for the multipart boundaries and headers around the file itself
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024
+const resumeTooLarge = `Resume must be ${MAX_RESUME_BYTES / 1024 / 1024} MB or smaller`
+
 profile.use('*', requireUser)
 
-const updateProfileSchema = z.object({
-  description: z.string().min(10).max(2000),
+const updateProfileSchema = z
+  .object({
+    description: z.string().min(10).max(2000).optional(),
+    candidateProfile: candidateProfileSchema.optional(),
+  })
+  .refine((data) => data.description !== undefined || data.candidateProfile !== undefined, {
+    message: 'Provide a description or a candidate profile',
+  })
+
+const digestSchema = z.object({
+  frequency: z.enum(DIGEST_FREQUENCIES),
+})
+
+const scoringWeightsSchema = z.object({
+  weights: z
+    .object({
+      similarity: z.number().min(0).max(1),
+      recency: z.number().min(0).max(1),
+      sponsorship: z.number().min(0).max(1),
+    })
+    .refine((weights) => weights.similarity + weights.recency + weights.sponsorship > 0, {
+      message: 'At least one weight must be positive',
+    })
+    .nullable(),
 })
 
 // GET /api/profile - Get user profile
@@ -38,6 +81,10 @@ profile.get('/', async (c) => {
         email: user.email ?? null,
         profileDescription: null,
         profileEmbedding: null,
+        scoringWeights: null,
+        candidateProfile: null,
+        resume: null,
+        digestFrequency: user.userRecord?.digestFrequency ?? 'weekly',
         createdAt: user.userRecord?.createdAt ?? null,
       },
     })
@@ -47,7 +94,7 @@ profile.get('/', async (c) => {
   }
 })
 
-// PUT /api/profile - Update user profile and regenerate embedding
+// PUT /api/profile - Update description and/or structured profile, regenerate embedding
 profile.put('/', async (c) => {
   try {
     const body = await c.req.json()
@@ -58,7 +105,7 @@ profile.put('/', async (c) => {
       return c.json({ error: 'Authentication required' }, 401)
     }
 
-    const userProfile = await updateUserProfile(user.authId, user.email ?? undefined, data.description)
+    const userProfile = await updateUserProfile(user.authId, user.email ?? undefined, data)
 
     return c.json({ profile: userProfile })
   } catch (error) {
@@ -70,4 +117,223 @@ profile.put('/', async (c) => {
   }
 })
 
+// PUT /api/profile/scoring-weights - Store match score weighting (null resets to default)
+profile.put('/scoring-weights', async (c) => {
+  try {
+    const body = await c.req.json()
+    const data = scoringWeightsSchema.parse(body)
+
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Authentication required' }, 401)
+    }
+
+    const userProfile = await updateScoringWeights(user.authId, user.email ?? undefined, data.weights)
+
+    return c.json({ scoringWeights: userProfile?.scoringWeights ?? null })
+  } catch (error) {
+    console.error('Update scoring weights error:', error)
+    if (error instanceof z.ZodError) {
+      return c.json({ error: 'Invalid data', details: error.errors }, 400)
+    }
+    return c.json({ error: 'Failed to update scoring weights' }, 500)
+  }
+})
+
+// PUT /api/profile/digest - Set how often the email digest is sent
+profile.put('/digest', async (c) => {
+  try {
+    const body = await c.req.json()
+    const data = digestSchema.parse(body)
+
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Authentication required' }, 401)
+    }
+
+    const digest = await updateDigestFrequency(user.id, data.frequency)
+
+    return c.json({ digest })
+  } catch (error) {
+    console.error('Update digest preferences error:', error)
+    if (error instanceof z.ZodError) {
+      return c.json({ error: 'Invalid data', details: error.errors }, 400)
+    }
+    return c.json({ error: 'Failed to update digest preferences' }, 500)
+  }
+})
+
+// Re-embedding needs OpenAI; a failure there should not lose the upload
+async function refreshEmbeddingQuietly(userId: string) {
+  try {
+    await refreshProfileEmbedding(userId)
+    return true
+  } catch (error) {
+    console.error('Failed to refresh profile embedding:', error)
+    return false
+  }
+}
+
+// POST /api/profile/resume - Upload a PDF or DOCX resume (multipart field "file")
+// The body limit rejects oversized uploads before parseBody buffers them
+profile.post(
+  '/resume',
+  bodyLimit({
+    maxSize: MAX_RESUME_BYTES + MULTIPART_OVERHEAD_BYTES,
+    onError: (c) => c.json({ error: resumeTooLarge }, 413),
+  }),
+  async (c) => {
+    try {
+      const user = c.get('user')
+      if (!user) {
+        return c.json({ error: 'Authentication required' }, 401)
+      }
+
+      const body = await c.req.parseBody()
+      const file = body.file
+      if (!(file instanceof File)) {
+        return c.json({ error: 'Attach the resume as a "file" field' }, 400)
+      }
+      if (file.size > MAX_RESUME_BYTES) {
+        return c.json({ error: resumeTooLarge }, 413)
+      }
+
+      const resume = await saveResume(user.id, file.name, new Uint8Array(await file.arrayBuffer()))
+      const embeddingUpdated = await refreshEmbeddingQuietly(user.id)
+
+      return c.json({ resume, embeddingUpdated }, 201)
+    } catch (error) {
+      console.error('Upload resume error:', error)
+      if (error instanceof UnsupportedResumeError) {
+        return c.json({ error: error.message }, 415)
+      }
+      return c.json({ error: 'Failed to upload resume' }, 500)
+    }
+  }
+)
+
+// GET /api/profile/resume - Parsed sections of the current resume
+profile.get('/resume', async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Authentication required' }, 401)
+    }
+
+    const resume = await getResume(user.id)
+    if (!resume) {
+      return c.json({ error: 'No resume uploaded' }, 404)
+    }
+
+    return c.json({ resume })
+  } catch (error) {
+    console.error('Get resume error:', error)
+    return c.json({ error: 'Failed to fetch resume' }, 500)
+  }
+})
+
+// GET /api/profile/resume/file - Download the original upload
+profile.get('/resume/file', async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Authentication required' }, 401)
+    }
+
+    const resume = await getResumeFile(user.id)
+    if (!resume) {
+      return c.json({ error: 'No resume uploaded' }, 404)
+    }
+
+    return c.body(new Uint8Array(resume.content), 200, {
+      'Content-Type': RESUME_MIME_TYPES[resume.format],
+      'Content-Disposition': `attachment; filename="${resume.fileName.replace(/["\\\r\n]/g, '')}"`,
+    })
+  } catch (error) {
+    console.error('Download resume error:', error)
+    return c.json({ error: 'Failed to download resume' }, 500)
+  }
+})
+
+// DELETE /api/profile/resume - Remove the resume and re-embed without it
+profile.delete('/resume', async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Authentication required' }, 401)
+    }
+
+    const deleted = await deleteResume(user.id)
+    if (!deleted) {
+      return c.json({ error: 'No resume uploaded' }, 404)
+    }
+
+    const embeddingUpdated = await refreshEmbeddingQuietly(user.id)
+    return c.json({ success: true, embeddingUpdated })
+  } catch (error) {
+    console.error('Delete resume error:', error)
+    return c.json({ error: 'Failed to delete resume' }, 500)
+  }
+})
+
+// GET /api/profile/timeline - OPT/STEM OPT dates with remaining days and key deadlines
+profile.get('/timeline', async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Authentication required' }, 401)
+    }
+
+    const timeline = await getImmigrationTimeline(user.id)
+
+    return c.json({ timeline, summary: timeline ? computeTimeline(timeline) : null })
+  } catch (error) {
+    console.error('Get timeline error:', error)
+    return c.json({ error: 'Failed to fetch timeline' }, 500)
+  }
+})
+
+// PUT /api/profile/timeline - Save the timeline; unemployment days count from now
+profile.put('/timeline', async (c) => {
+  try {
+    const body = await c.req.json()
+    const data = immigrationTimelineSchema.parse(body)
+
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Authentication required' }, 401)
+    }
+
+    const timeline = await saveImmigrationTimeline(user.id, data)
+
+    return c.json({ timeline, summary: computeTimeline(timeline) })
+  } catch (error) {
+    console.error('Update timeline error:', error)
+    if (error instanceof z.ZodError) {
+      return c.json({ error: 'Invalid data', details: error.errors }, 400)
+    }
+    return c.json({ error: 'Failed to update timeline' }, 500)
+  }
+})
+
+// DELETE /api/profile/timeline - Stop tracking and drop deadline-aware ranking
+profile.delete('/timeline', async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Authentication required' }, 401)
+    }
+
+    const deleted = await deleteImmigrationTimeline(user.id)
+    if (!deleted) {
+      return c.json({ error: 'No timeline saved' }, 404)
+    }
+
+    return c.json({ success: true })
+  } catch (error) {
+    console.error('Delete timeline error:', error)
+    return c.json({ error: 'Failed to delete timeline' }, 500)
+  }
+})
+
 export default profile
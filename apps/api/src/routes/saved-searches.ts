@@ -0,0 +1,160 @@
+import { Hono } from 'hono'
+import { z } from 'zod'
+import {
+  createSavedSearch,
+  deleteSavedSearch,
+  getSavedSearchMatches,
+  listSavedSearches,
+  markMatchesSeen,
+  updateSavedSearch,
+} from '../services/saved-search-service'
+import { searchFiltersSchema } from '../lib/search-filters'
+import { requireUser } from '../middleware/auth'
+import type { AppEnv } from '../types'
+
+const savedSearchesRouter = new Hono<AppEnv>()
+
+savedSearchesRouter.use('*', requireUser)
+
+const createSavedSearchSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  filters: searchFiltersSchema,
+})
+
+const updateSavedSearchSchema = createSavedSearchSchema.partial()
+
+// GET /api/saved-searches - List saved searches with unseen match counts
+savedSearchesRouter.get('/', async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Authentication required' }, 401)
+    }
+
+    const savedSearches = await listSavedSearches(user.id)
+    const newMatchCount = savedSearches.reduce((sum, search) => sum + search.newMatchCount, 0)
+
+    return c.json({ savedSearches, count: savedSearches.length, newMatchCount })
+  } catch (error) {
+    console.error('Get saved searches error:', error)
+    return c.json({ error: 'Failed to fetch saved searches' }, 500)
+  }
+})
+
+// POST /api/saved-searches - Save the current search filters
+savedSearchesRouter.post('/', async (c) => {
+  try {
+    const body = await c.req.json()
+    const data = createSavedSearchSchema.parse(body)
+
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Authentication required' }, 401)
+    }
+
+    const savedSearch = await createSavedSearch(user.id, data)
+
+    return c.json({ savedSearch }, 201)
+  } catch (error) {
+    console.error('Create saved search error:', error)
+    if (error instanceof z.ZodError) {
+      return c.json({ error: 'Invalid data', details: error.errors }, 400)
+    }
+    return c.json({ error: 'Failed to create saved search' }, 500)
+  }
+})
+
+// PATCH /api/saved-searches/:id - Rename or change filters
+savedSearchesRouter.patch('/:id', async (c) => {
+  try {
+    const id = c.req.param('id')
+    const body = await c.req.json()
+    const data = updateSavedSearchSchema.parse(body)
+
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Authentication required' }, 401)
+    }
+
+    const savedSearch = await updateSavedSearch(id, user.id, data)
+
+    if (!savedSearch) {
+      return c.json({ error: 'Saved search not found' }, 404)
+    }
+
+    return c.json({ savedSearch })
+  } catch (error) {
+    console.error('Update saved search error:', error)
+    if (error instanceof z.ZodError) {
+      return c.json({ error: 'Invalid data', details: error.errors }, 400)
+    }
+    return c.json({ error: 'Failed to update saved search' }, 500)
+  }
+})
+
+// DELETE /api/saved-searches/:id
+savedSearchesRouter.delete('/:id', async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Authentication required' }, 401)
+    }
+
+    const deleted = await deleteSavedSearch(c.req.param('id'), user.id)
+
+    if (!deleted) {
+      return c.json({ error: 'Saved search not found' }, 404)
+    }
+
+    return c.json({ success: true })
+  } catch (error) {
+    console.error('Delete saved search error:', error)
+    return c.json({ error: 'Failed to delete saved search' }, 500)
+  }
+})
+
+// GET /api/saved-searches/:id/matches - Jobs found by scheduled runs
+savedSearchesRouter.get('/:id/matches', async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Authentication required' }, 401)
+    }
+
+    const matches = await getSavedSearchMatches(c.req.param('id'), user.id, {
+      unseenOnly: c.req.query('unseen') === 'true',
+    })
+
+    if (!matches) {
+      return c.json({ error: 'Saved search not found' }, 404)
+    }
+
+    return c.json({ matches, count: matches.length })
+  } catch (error) {
+    console.error('Get saved search matches error:', error)
+    return c.json({ error: 'Failed to fetch saved search matches' }, 500)
+  }
+})
+
+// POST /api/saved-searches/:id/matches/seen - Clear the new-match badge
+savedSearchesRouter.post('/:id/matches/seen', async (c) => {
+  try {
+    const user = c.get('user')
+    if (!user) {
+      return c.json({ error: 'Authentication required' }, 401)
+    }
+
+    const updated = await markMatchesSeen(c.req.param('id'), user.id)
+
+    if (updated === null) {
+      return c.json({ error: 'Saved search not found' }, 404)
+    }
+
+    return c.json({ updated })
+  } catch (error) {
+    console.error('Mark saved search matches seen error:', error)
+    return c.json({ error: 'Failed to update saved search matches' }, 500)
+  }
+})
+
+export default savedSearchesRouter
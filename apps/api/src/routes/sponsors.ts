@@ -0,0 +1,76 @@
+import { Hono } from 'hono'
+import { z } from 'zod'
+import { getSponsorHistory, getSponsorWithJobs, listSponsors } from '../services/sponsor-service'
+import { sponsorDirectorySchema } from '../lib/sponsor-filters'
+import type { AppEnv } from '../types'
+
+const sponsors = new Hono<AppEnv>()
+
+const sponsorIdSchema = z.string().uuid()
+
+// GET /api/sponsors - Search and filter the sponsor directory
+sponsors.get('/', async (c) => {
+  try {
+    const query = c.req.query()
+
+    const filters = sponsorDirectorySchema.parse({
+      q: query.q || undefined,
+      minConfidence: query.minConfidence,
+      industry: query.industry || undefined,
+      state: query.state || undefined,
+      visaType: query.visaType || undefined,
+      eVerifyOnly: query.eVerifyOnly === 'true',
+      capExemptOnly: query.capExemptOnly === 'true',
+      sort: query.sort,
+      limit: query.limit,
+      offset: query.offset,
+    })
+
+    const result = await listSponsors(filters)
+
+    return c.json(result)
+  } catch (error) {
+    console.error('List sponsors error:', error)
+    if (error instanceof z.ZodError) {
+      return c.json({ error: 'Invalid parameters', details: error.errors }, 400)
+    }
+    return c.json({ error: 'Failed to fetch sponsors' }, 500)
+  }
+})
+
+// GET /api/sponsors/:id - Sponsor details with its active jobs
+sponsors.get('/:id', async (c) => {
+  try {
+    const id = c.req.param('id')
+    const result = sponsorIdSchema.safeParse(id).success ? await getSponsorWithJobs(id) : null
+
+    if (!result) {
+      return c.json({ error: 'Sponsor not found' }, 404)
+    }
+
+    return c.json(result)
+  } catch (error) {
+    console.error('Get sponsor error:', error)
+    return c.json({ error: 'Failed to fetch sponsor' }, 500)
+  }
+})
+
+// GET /api/sponsors/:id/history - USCIS filings per fiscal year with a growth trend
+sponsors.get('/:id/history', async (c) => {
+  try {
+    const id = c.req.param('id')
+    // Landing Club-only sponsors carry a non-UUID id and have no stored history
+    const history = sponsorIdSchema.safeParse(id).success ? await getSponsorHistory(id) : null
+
+    if (!history) {
+      return c.json({ error: 'Sponsor not found' }, 404)
+    }
+
+    return c.json(history)
+  } catch (error) {
+    console.error('Get sponsor history error:', error)
+    return c.json({ error: 'Failed to fetch sponsor history' }, 500)
+  }
+})
+
+export default sponsors
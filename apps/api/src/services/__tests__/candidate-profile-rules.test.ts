@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest'
+import {
+  PROFILE_FIT_WEIGHT,
+  blendProfileFit,
+  buildProfileEmbeddingText,
+  deriveSearchPreferences,
+  normalizeCandidateProfile,
+} from '../../services/candidate-profile-rules'
+import type { CandidateProfileInput } from '../../lib/candidate-profile'
+
+const profile = (overrides: Partial<CandidateProfileInput> = {}): CandidateProfileInput => ({
+  targetRoles: [],
+  skills: [],
+  preferredLocations: [],
+  ...overrides,
+})
+
+describe('normalizeCandidateProfile', () => {
+  it('dedupes tags case-insensitively and pads month-only graduation dates', () => {
+    const normalized = normalizeCandidateProfile(
+      profile({
+        graduationDate: '2026-05',
+        skills: ['TypeScript', ' typescript ', 'Go'],
+        fieldOfStudy: '  ',
+      })
+    )
+    expect(normalized.graduationDate).toBe('2026-05-01')
+    expect(normalized.skills).toEqual(['TypeScript', 'Go'])
+    expect(normalized.fieldOfStudy).toBeNull()
+  })
+})
+
+describe('buildProfileEmbeddingText', () => {
+  it('puts structured fields ahead of the description', () => {
+    const text = buildProfileEmbeddingText(
+      'I enjoy distributed systems.',
+      profile({
+        degree: 'masters',
+        fieldOfStudy: 'Computer Science',
+        graduationDate: '2026-05-01',
+        visaType: 'stem_opt',
+        targetRoles: ['Backend Engineer'],
+        skills: ['Go', 'PostgreSQL'],
+        preferredLocations: ['Seattle', 'Remote'],
+      })
+    )
+    expect(text).toBe(
+      [
+        'Target roles: Backend Engineer',
+        'Skills: Go, PostgreSQL',
+        "Education: Master's in Computer Science, graduating May 2026",
+        'Preferred locations: Seattle, Remote',
+        'Work authorization: STEM OPT extension, needs visa sponsorship',
+        'I enjoy distributed systems.',
+      ].join('\n')
+    )
+  })
+
+  it('appends the resume summary after the description', () => {
+    expect(buildProfileEmbeddingText('Backend roles.', null, 'Experience:\nIntern, Stripe')).toBe(
+      'Backend roles.\nExperience:\nIntern, Stripe'
+    )
+  })
+
+  it('returns null when there is nothing to embed', () => {
+    expect(buildProfileEmbeddingText('  ', profile())).toBeNull()
+    expect(buildProfileEmbeddingText(null, null)).toBeNull()
+  })
+})
+
+describe('deriveSearchPreferences', () => {
+  const now = new Date('2026-06-15T00:00:00Z')
+
+  it('excludes internships only once the candidate has graduated', () => {
+    expect(deriveSearchPreferences(profile({ graduationDate: '2026-05-01' }), now)?.excludeInternships).toBe(true)
+    expect(deriveSearchPreferences(profile({ graduationDate: '2026-12-01' }), now)).toBeNull()
+  })
+
+  it('treats remote as a flag rather than a location', () => {
+    const preferences = deriveSearchPreferences(profile({ preferredLocations: ['NYC', 'remote'] }), now)
+    expect(preferences?.preferredLocations).toEqual(['NYC'])
+    expect(preferences?.remoteOk).toBe(true)
+  })
+
+  it('ignores a zero salary floor', () => {
+    expect(deriveSearchPreferences(profile({ salaryFloor: 0 }), now)).toBeNull()
+    expect(deriveSearchPreferences(profile({ salaryFloor: 90000 }), now)?.salaryFloor).toBe(90000)
+  })
+})
+
+describe('blendProfileFit', () => {
+  it('leaves the score alone without a fit and stays within 0..1', () => {
+    expect(blendProfileFit(0.7, null)).toBe(0.7)
+    expect(blendProfileFit(1, 1)).toBeCloseTo(1)
+    expect(blendProfileFit(0.5, 0)).toBeCloseTo(0.5 * (1 - PROFILE_FIT_WEIGHT))
+  })
+})
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest'
+import {
+  ACCEPT_MATCH_CONFIDENCE,
+  MIN_MATCH_CONFIDENCE,
+  addCompanyName,
+  buildCompanyIndex,
+  companyCoreName,
+  matchCompany,
+  trigramSimilarity,
+} from '../../services/company-matcher'
+
+// Employer names as they appear in USCIS data, keyed by a short id
+const SPONSORS = [
+  { id: 'meta', companyName: 'Meta Platforms, Inc.', aliases: ['facebook', 'instagram'] },
+  { id: 'google', companyName: 'Google LLC', aliases: ['alphabet'] },
+  { id: 'amazon', companyName: 'Amazon.com Services LLC' },
+  { id: 'aws', companyName: 'Amazon Web Services, Inc.' },
+  { id: 'ibm', companyName: 'International Business Machines Corporation' },
+  { id: 'jpm', companyName: 'JPMorgan Chase & Co.' },
+  { id: 'ey', companyName: 'Ernst & Young U.S. LLP' },
+  { id: 'deloitte-consulting', companyName: 'Deloitte Consulting LLP' },
+  { id: 'deloitte-touche', companyName: 'Deloitte & Touche LLP' },
+  { id: 'apple', companyName: 'Apple Inc.' },
+  { id: 'apple-hospitality', companyName: 'Apple Hospitality REIT, Inc.' },
+  { id: 'disney', companyName: 'The Walt Disney Company' },
+  { id: 'accenture', companyName: 'Accenture LLP' },
+  { id: 'att', companyName: 'AT&T Services, Inc.' },
+  { id: 'stanford', companyName: 'The Board of Trustees of the Leland Stanford Junior University', aliases: ['Stanford University'] },
+]
+
+describe('companyCoreName', () => {
+  it('drops legal suffixes, a leading "the" and punctuation', () => {
+    expect(companyCoreName('The Walt Disney Company')).toBe('walt disney')
+    expect(companyCoreName('Meta Platforms, Inc.')).toBe('meta platforms')
+    expect(companyCoreName('Siemens AG')).toBe('siemens')
+  })
+
+  it('joins initials and spells out ampersands', () => {
+    expect(companyCoreName('The J.P. Morgan Chase & Co.')).toBe('jp morgan chase')
+    expect(companyCoreName('Ernst & Young U.S. L.L.C.')).toBe('ernst and young us')
+  })
+
+  it('keeps a name that is only a suffix', () => {
+    expect(companyCoreName('Company')).toBe('company')
+    expect(companyCoreName('  ')).toBe('')
+  })
+})
+
+describe('trigramSimilarity', () => {
+  it('is 1 for names with the same core', () => {
+    expect(trigramSimilarity('Accenture LLP', 'ACCENTURE')).toBe(1)
+  })
+
+  it('tolerates a typo but not a different word', () => {
+    expect(trigramSimilarity('Acenture', 'Accenture')).toBeGreaterThan(0.8)
+    expect(trigramSimilarity('Meta', 'Metabase')).toBeLessThan(MIN_MATCH_CONFIDENCE)
+  })
+})
+
+describe('matchCompany', () => {
+  const index = buildCompanyIndex(SPONSORS)
+  const match = (name: string) => matchCompany(name, index)
+
+  it.each([
+    ['Meta Platforms Inc', 'meta'],
+    ['GOOGLE', 'google'],
+    ['Amazon Web Services', 'aws'],
+    ['J.P. Morgan Chase', 'jpm'],
+    ['Walt Disney Co.', 'disney'],
+    ['Accenture', 'accenture'],
+  ])('matches "%s" exactly once suffixes are stripped', (name, id) => {
+    expect(match(name)).toMatchObject({ candidate: { id }, confidence: 1, method: 'exact' })
+  })
+
+  it.each([
+    ['Facebook', 'meta'],
+    ['Alphabet Inc.', 'google'],
+    ['Stanford University', 'stanford'],
+  ])('matches "%s" through an alias', (name, id) => {
+    expect(match(name)).toMatchObject({ candidate: { id }, confidence: 1, method: 'alias' })
+  })
+
+  it('accepts a name that only drops a generic word', () => {
+    const result = match('Meta')
+    expect(result?.candidate.id).toBe('meta')
+    expect(result?.method).toBe('fuzzy')
+    expect(result?.confidence).toBeGreaterThanOrEqual(ACCEPT_MATCH_CONFIDENCE)
+    expect(match('AT&T')?.candidate.id).toBe('att')
+  })
+
+  it('links looser variants without accepting them', () => {
+    for (const [name, id] of [
+      ['Google Cloud', 'google'],
+      ['JPMorgan', 'jpm'],
+      ['Acenture', 'accenture'],
+      ['Apple Hospitality', 'apple-hospitality'],
+    ]) {
+      const result = match(name)
+      expect(result?.candidate.id).toBe(id)
+      expect(result?.confidence).toBeGreaterThanOrEqual(MIN_MATCH_CONFIDENCE)
+      expect(result?.confidence).toBeLessThan(ACCEPT_MATCH_CONFIDENCE)
+    }
+  })
+
+  it('matches acronyms in both directions with limited confidence', () => {
+    expect(match('IBM')).toMatchObject({ candidate: { id: 'ibm' }, method: 'acronym' })
+    expect(match('EY')).toMatchObject({ candidate: { id: 'ey' }, method: 'acronym' })
+    expect(match('IBM')?.confidence).toBeLessThan(ACCEPT_MATCH_CONFIDENCE)
+
+    const acronymOnly = buildCompanyIndex([{ id: 'pwc', companyName: 'PwC' }])
+    expect(matchCompany('P.W.C. LLP', acronymOnly)?.method).toBe('exact')
+    expect(matchCompany('Price Waterhouse Coopers', acronymOnly)?.method).toBe('acronym')
+  })
+
+  it('prefers the closer of two sponsors sharing a word', () => {
+    expect(match('Apple')?.candidate.id).toBe('apple')
+    expect(match('Amazon')?.candidate.id).toBe('amazon')
+  })
+
+  it('caps confidence when two sponsors are equally close', () => {
+    const result = match('Deloitte')
+    expect(result?.candidate.id).toMatch(/^deloitte-/)
+    expect(result?.confidence).toBeLessThan(ACCEPT_MATCH_CONFIDENCE)
+  })
+
+  it('does not match brand renames, prefixes or generic words without an alias', () => {
+    expect(match('Metabase')).toBeNull()
+    expect(match('Acme Robotics')).toBeNull()
+    expect(match('Global Services')).toBeNull()
+    expect(match('YouTube')).toBeNull()
+    expect(match('')).toBeNull()
+  })
+
+  it('matches a learned alias exactly', () => {
+    const learned = buildCompanyIndex(SPONSORS)
+    const google = SPONSORS.find((sponsor) => sponsor.id === 'google')!
+    addCompanyName(learned, google, 'YouTube')
+    expect(matchCompany('YouTube LLC', learned)).toMatchObject({ candidate: { id: 'google' }, method: 'alias' })
+  })
+})
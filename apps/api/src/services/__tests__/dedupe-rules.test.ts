@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DedupeCandidate,
+  assignCanonicalJobs,
+  buildDedupeKey,
+  cosineSimilarity,
+  locationsCompatible,
+} from '../../services/dedupe-rules'
+
+function candidate(overrides: Partial<DedupeCandidate> & { id: string }): DedupeCandidate {
+  return {
+    dedupeKey: buildDedupeKey({ company: 'Acme', title: 'Software Engineer, New Grad' }),
+    location: 'New York, NY',
+    source: 'greenhouse_acme',
+    descriptionLength: 1000,
+    scrapedAt: new Date('2024-05-01T00:00:00Z'),
+    embedding: null,
+    ...overrides,
+  }
+}
+
+describe('buildDedupeKey', () => {
+  it('ignores legal suffixes, word order, punctuation and years', () => {
+    expect(buildDedupeKey({ company: 'Acme, Inc.', title: 'Software Engineer, New Grad (2025)' })).toBe(
+      buildDedupeKey({ company: 'ACME', title: 'New Grad - Software Engineer' })
+    )
+  })
+
+  it('keeps different roles apart', () => {
+    expect(buildDedupeKey({ company: 'Acme', title: 'Software Engineer Intern' })).not.toBe(
+      buildDedupeKey({ company: 'Acme', title: 'Software Engineer, New Grad' })
+    )
+  })
+})
+
+describe('locationsCompatible', () => {
+  it('matches city aliases and multi-location postings', () => {
+    expect(locationsCompatible('NYC', 'New York, NY, United States')).toBe(true)
+    expect(locationsCompatible('Seattle, WA | New York, NY', 'New York City')).toBe(true)
+  })
+
+  it('treats unknown locations as compatible', () => {
+    expect(locationsCompatible('Not specified', 'Austin, TX')).toBe(true)
+    expect(locationsCompatible(null, 'Remote')).toBe(true)
+  })
+
+  it('rejects disjoint cities', () => {
+    expect(locationsCompatible('Seattle, WA', 'New York, NY')).toBe(false)
+    expect(locationsCompatible('Remote - US', 'Austin, TX')).toBe(false)
+  })
+})
+
+describe('cosineSimilarity', () => {
+  it('handles identical, orthogonal and mismatched vectors', () => {
+    expect(cosineSimilarity([1, 2, 3], [1, 2, 3])).toBeCloseTo(1)
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0)
+    expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0)
+  })
+})
+
+describe('assignCanonicalJobs', () => {
+  it('prefers the ATS posting over the README row', () => {
+    const assignments = assignCanonicalJobs([
+      candidate({ id: 'readme', source: 'github_simplify_new_grad', descriptionLength: 80 }),
+      candidate({ id: 'ats', source: 'greenhouse_acme' }),
+    ])
+
+    expect(assignments.get('ats')).toBeNull()
+    expect(assignments.get('readme')).toBe('ats')
+  })
+
+  it('falls back to the richer description, then the earliest scrape', () => {
+    const assignments = assignCanonicalJobs([
+      candidate({ id: 'short', source: 'lever_acme', descriptionLength: 200 }),
+      candidate({ id: 'long-late', source: 'ashby_acme', scrapedAt: new Date('2024-05-03T00:00:00Z') }),
+      candidate({ id: 'long-early', source: 'workday_acme.wd5/External' }),
+    ])
+
+    expect(assignments.get('long-early')).toBeNull()
+    expect(assignments.get('long-late')).toBe('long-early')
+    expect(assignments.get('short')).toBe('long-early')
+  })
+
+  it('keeps postings in different cities separate', () => {
+    const assignments = assignCanonicalJobs([
+      candidate({ id: 'nyc', location: 'New York, NY' }),
+      candidate({ id: 'sea', location: 'Seattle, WA', source: 'lever_acme' }),
+    ])
+
+    expect(assignments.get('nyc')).toBeNull()
+    expect(assignments.get('sea')).toBeNull()
+  })
+
+  it('does not chain clusters through a vague location', () => {
+    const assignments = assignCanonicalJobs([
+      candidate({ id: 'nyc', location: 'New York, NY' }),
+      candidate({ id: 'sea', location: 'Seattle, WA', descriptionLength: 900 }),
+      candidate({ id: 'vague', location: 'Not specified', source: 'github_simplify_new_grad' }),
+    ])
+
+    expect(assignments.get('vague')).toBe('nyc')
+    expect(assignments.get('sea')).toBeNull()
+  })
+
+  it('requires embedding agreement when both sides have one', () => {
+    const assignments = assignCanonicalJobs([
+      candidate({ id: 'a', embedding: [1, 0, 0] }),
+      candidate({ id: 'b', source: 'lever_acme', embedding: [0, 1, 0] }),
+      candidate({ id: 'c', source: 'lever_acme', embedding: [0.95, 0.05, 0] }),
+    ])
+
+    expect(assignments.get('b')).toBeNull()
+    expect(assignments.get('c')).toBe('a')
+  })
+
+  it('leaves unique keys untouched', () => {
+    const assignments = assignCanonicalJobs([
+      candidate({ id: 'solo' }),
+      candidate({ id: 'other', dedupeKey: buildDedupeKey({ company: 'Globex', title: 'Data Analyst' }) }),
+    ])
+
+    expect(assignments.get('solo')).toBeNull()
+    expect(assignments.get('other')).toBeNull()
+  })
+})
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import { isDigestDue, renderDigestEmail, selectDigestJobs } from '../../services/digest-builder'
+
+const now = new Date('2024-05-08T09:00:00Z')
+const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000)
+
+describe('isDigestDue', () => {
+  it('respects frequency and the last digest', () => {
+    expect(isDigestDue({ digestFrequency: 'daily', lastDigestAt: null }, now)).toBe(true)
+    expect(isDigestDue({ digestFrequency: 'daily', lastDigestAt: hoursAgo(12) }, now)).toBe(false)
+    expect(isDigestDue({ digestFrequency: 'weekly', lastDigestAt: hoursAgo(24 * 3) }, now)).toBe(false)
+    expect(isDigestDue({ digestFrequency: 'weekly', lastDigestAt: hoursAgo(24 * 7) }, now)).toBe(true)
+  })
+
+  it('tolerates a scheduler that fires a little early', () => {
+    expect(isDigestDue({ digestFrequency: 'daily', lastDigestAt: hoursAgo(23.5) }, now)).toBe(true)
+  })
+
+  it('never sends when turned off', () => {
+    expect(isDigestDue({ digestFrequency: 'off', lastDigestAt: null }, now)).toBe(false)
+    expect(isDigestDue({ digestFrequency: null, lastDigestAt: null }, now)).toBe(false)
+  })
+})
+
+describe('selectDigestJobs', () => {
+  const job = (id: string, visaStatus: string | null, matchScore: number) => ({
+    id,
+    title: `Role ${id}`,
+    company: 'Acme',
+    location: null,
+    url: `https://jobs.example.com/${id}`,
+    visaStatus,
+    matchScore,
+  })
+
+  it('keeps sponsor-friendly jobs ordered by match score', () => {
+    const selected = selectDigestJobs([
+      job('a', 'unknown', 0.99),
+      job('b', 'likely_sponsor', 0.6),
+      job('c', 'sponsor_verified', 0.8),
+      job('d', null, 0.9),
+    ])
+    expect(selected.map((entry) => entry.id)).toEqual(['c', 'b'])
+  })
+
+  it('caps the number of jobs', () => {
+    const many = Array.from({ length: 15 }, (_, index) => job(String(index), 'sponsor_verified', index / 15))
+    expect(selectDigestJobs(many, 3).map((entry) => entry.id)).toEqual(['14', '13', '12'])
+  })
+})
+
+describe('renderDigestEmail', () => {
+  const content = {
+    recipientEmail: 'student@example.com',
+    since: new Date('2024-05-01T00:00:00Z'),
+    jobs: [
+      {
+        id: '1',
+        title: 'Backend Engineer <New Grad>',
+        company: 'Acme & Co',
+        location: 'NYC',
+        url: 'https://jobs.example.com/1?ref=a&b=c',
+        visaStatus: 'sponsor_verified',
+        matchScore: 0.823,
+      },
+    ],
+    savedSearches: [
+      { name: 'Rust roles', jobs: [{ id: '2', title: 'Systems Engineer', company: 'Ferro', url: 'https://jobs.example.com/2' }] },
+    ],
+    dashboardUrl: 'https://app.example.com/dashboard',
+    unsubscribeUrl: 'https://app.example.com/api/digest/unsubscribe?token=abc',
+    preferencesUrl: 'https://app.example.com/profile',
+  }
+
+  it('renders matching HTML and plaintext bodies', () => {
+    const email = renderDigestEmail(content)
+
+    expect(email.subject).toBe('1 new sponsor-friendly match for you')
+    expect(email.text).toContain('- Backend Engineer <New Grad> (Acme & Co · NYC · Verified sponsor · 82% match)')
+    expect(email.text).toContain('Saved search: Rust roles')
+    expect(email.text).toContain('Unsubscribe: https://app.example.com/api/digest/unsubscribe?token=abc')
+    expect(email.html).toContain('Backend Engineer &lt;New Grad&gt;')
+    expect(email.html).toContain('href="https://jobs.example.com/1?ref=a&amp;b=c"')
+    expect(email.html).toContain('token=abc')
+  })
+
+  it('falls back to a saved-search subject when there are no top matches', () => {
+    expect(renderDigestEmail({ ...content, jobs: [] }).subject).toBe('1 new job from your saved searches')
+  })
+})
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest'
+import {
+  classifyCapExempt,
+  employerMatchKey,
+  indexEVerifyEntries,
+  lookupEVerify,
+  parseEVerifyRow,
+} from '../../services/employer-flags'
+
+describe('employerMatchKey', () => {
+  it('drops trailing legal suffixes', () => {
+    expect(employerMatchKey('Acme, Inc.')).toBe('acme')
+    expect(employerMatchKey('ACME LLC')).toBe('acme')
+    expect(employerMatchKey('The Home Depot Co')).toBe('the home depot')
+  })
+
+  it('keeps a name that is only a suffix', () => {
+    expect(employerMatchKey('Company')).toBe('company')
+  })
+})
+
+describe('parseEVerifyRow', () => {
+  it('reads loosely named columns', () => {
+    expect(
+      parseEVerifyRow({ 'Employer Name ': 'Acme Inc', 'Doing Business As': 'Acme Robotics', 'Account Status': 'Open' })
+    ).toEqual({ employerName: 'Acme Inc', doingBusinessAs: 'Acme Robotics', enrolled: true })
+  })
+
+  it('treats terminated accounts as not enrolled', () => {
+    expect(parseEVerifyRow({ 'Employer Name': 'Globex', 'Account Status': 'Terminated' })?.enrolled).toBe(false)
+    expect(parseEVerifyRow({ 'Employer Name': 'Globex', 'Termination Date': '2024-02-01' })?.enrolled).toBe(false)
+  })
+
+  it('skips rows without an employer', () => {
+    expect(parseEVerifyRow({ 'Workforce Size': '100' })).toBeNull()
+  })
+})
+
+describe('lookupEVerify', () => {
+  const index = indexEVerifyEntries([
+    { employerName: 'Acme LLC', doingBusinessAs: null, enrolled: false },
+    { employerName: 'Acme Inc', doingBusinessAs: null, enrolled: true },
+    { employerName: 'Initech Corp', doingBusinessAs: 'Initrode', enrolled: false },
+  ])
+
+  it('counts an employer as enrolled when any account is active', () => {
+    expect(lookupEVerify(index, ['ACME, Inc.'])).toBe(true)
+  })
+
+  it('matches on aliases and doing-business-as names', () => {
+    expect(lookupEVerify(index, ['Initrode Holdings', 'Initrode'])).toBe(false)
+  })
+
+  it('returns null for employers not on the list', () => {
+    expect(lookupEVerify(index, ['Hooli', null])).toBeNull()
+  })
+})
+
+describe('classifyCapExempt', () => {
+  it('flags universities by name and industry', () => {
+    expect(
+      classifyCapExempt({ companyName: 'Stanford University', industry: 'Educational Services' }).capExempt
+    ).toBe(true)
+    expect(classifyCapExempt({ companyName: 'Massachusetts Institute of Technology' }).capExempt).toBe(true)
+  })
+
+  it('flags nonprofit research organizations', () => {
+    expect(classifyCapExempt({ companyName: 'Lawrence Livermore National Laboratory' }).capExempt).toBe(true)
+    expect(classifyCapExempt({ companyName: 'Simons Foundation', naicsCode: '541715' }).capExempt).toBe(true)
+  })
+
+  it('rules out for-profit names even in education', () => {
+    const result = classifyCapExempt({ companyName: 'University Tutors LLC', industry: 'Educational Services' })
+    expect(result.capExempt).toBe(false)
+    expect(result.reason).toMatch(/for-profit/i)
+  })
+
+  it('leaves ambiguous education employers unknown', () => {
+    expect(classifyCapExempt({ companyName: 'Bright Horizons Academy', industry: 'Educational Services' }).capExempt).toBeNull()
+  })
+
+  it('defaults ordinary companies to not exempt', () => {
+    expect(classifyCapExempt({ companyName: 'Stripe', industry: 'Information' }).capExempt).toBe(false)
+  })
+})
@@ -0,0 +1,264 @@
+import { describe, expect, it } from 'vitest'
+import {
+  VISA_STATUS_THRESHOLDS,
+  aliasToLearn,
+  buildSponsorFields,
+  buildSponsorIndex,
+  computeJobContentHash,
+  deriveVisaStatus,
+  getMissingGraceMs,
+  isClosedSince,
+  matchSponsor,
+  matchSponsorWithConfidence,
+  planSponsorResolution,
+} from '../../services/ingestion-rules'
+
+describe('deriveVisaStatus', () => {
+  it('pins the shared thresholds', () => {
+    expect(VISA_STATUS_THRESHOLDS).toEqual({ verified: 80, likely: 50 })
+  })
+
+  it('classifies confidence at and around each boundary', () => {
+    expect(deriveVisaStatus(100)).toBe('sponsor_verified')
+    expect(deriveVisaStatus(80)).toBe('sponsor_verified')
+    expect(deriveVisaStatus(79)).toBe('likely_sponsor')
+    expect(deriveVisaStatus(50)).toBe('likely_sponsor')
+    expect(deriveVisaStatus(49)).toBe('unknown')
+    expect(deriveVisaStatus(0)).toBe('unknown')
+  })
+
+  it('treats missing confidence as unknown', () => {
+    expect(deriveVisaStatus(null)).toBe('unknown')
+    expect(deriveVisaStatus(undefined)).toBe('unknown')
+  })
+})
+
+describe('matchSponsor', () => {
+  const index = buildSponsorIndex([
+    {
+      id: 'sp-1',
+      companyName: 'Google LLC',
+      normalizedName: 'google llc ',
+      aliases: ['Alphabet', 'Google'],
+      sponsorshipConfidence: 95,
+    },
+    {
+      id: 'sp-2',
+      companyName: 'Stripe, Inc.',
+      normalizedName: 'stripe inc',
+      aliases: null,
+      sponsorshipConfidence: null,
+    },
+  ])
+
+  it('matches normalized names even when the stored key has stray whitespace', () => {
+    expect(matchSponsor('Google LLC', index)?.id).toBe('sp-1')
+  })
+
+  it('matches aliases case- and punctuation-insensitively', () => {
+    expect(matchSponsor('ALPHABET', index)?.id).toBe('sp-1')
+    expect(matchSponsor('Stripe, Inc', index)?.id).toBe('sp-2')
+  })
+
+  it('falls back to significant word overlap', () => {
+    expect(matchSponsor('Stripe Payments', index)?.id).toBe('sp-2')
+  })
+
+  it('returns null when nothing overlaps', () => {
+    expect(matchSponsor('Acme Robotics', index)).toBeNull()
+    expect(matchSponsor('   ', index)).toBeNull()
+  })
+
+  it('defaults missing confidence to zero', () => {
+    expect(matchSponsor('Stripe Inc', index)?.sponsorshipConfidence).toBe(0)
+  })
+})
+
+describe('aliasToLearn', () => {
+  const index = buildSponsorIndex([
+    { id: 'sp-1', companyName: 'Meta Platforms, Inc.', aliases: ['facebook'] },
+    { id: 'sp-2', companyName: 'Stripe, Inc.' },
+  ])
+
+  it('learns confident fuzzy matches as normalized aliases', () => {
+    expect(aliasToLearn('Meta', matchSponsorWithConfidence('Meta', index))).toBe('meta')
+  })
+
+  it('skips names that already match exactly or by alias', () => {
+    expect(aliasToLearn('Facebook', matchSponsorWithConfidence('Facebook', index))).toBeNull()
+    expect(aliasToLearn('Stripe', matchSponsorWithConfidence('Stripe', index))).toBeNull()
+  })
+
+  it('skips matches below the accept threshold', () => {
+    const match = matchSponsorWithConfidence('Stripe Payments', index)
+    expect(match?.candidate.id).toBe('sp-2')
+    expect(aliasToLearn('Stripe Payments', match)).toBeNull()
+    expect(aliasToLearn('Acme', null)).toBeNull()
+  })
+})
+
+describe('planSponsorResolution', () => {
+  const sponsors = [
+    { id: 'sp-1', companyName: 'Meta Platforms, Inc.', sponsorshipConfidence: 90 },
+    { id: 'sp-2', companyName: 'Deloitte Consulting LLP' },
+    { id: 'sp-3', companyName: 'Deloitte & Touche LLP' },
+    { id: 'sp-4', companyName: 'Stripe, Inc.' },
+  ]
+  const index = buildSponsorIndex(sponsors)
+
+  it('links trusted matches without review and learns confident fuzzy ones', () => {
+    expect(planSponsorResolution('Stripe', index)).toMatchObject({
+      sponsor: { id: 'sp-4' },
+      manualReview: false,
+      review: null,
+      learnAlias: null,
+    })
+    expect(planSponsorResolution('Meta', index)).toMatchObject({ sponsor: { id: 'sp-1' }, learnAlias: 'meta' })
+    expect(planSponsorResolution('Acme Robotics', index)).toEqual({
+      sponsor: null,
+      manualReview: false,
+      review: null,
+      learnAlias: null,
+    })
+  })
+
+  it('queues weak and contested matches with their candidates', () => {
+    const result = planSponsorResolution('Deloitte', index)
+    expect(result.manualReview).toBe(true)
+    expect(result.learnAlias).toBeNull()
+    expect(result.review?.reasons).toEqual(['low_confidence', 'multiple_candidates'])
+    expect(result.review?.candidates.map((candidate) => candidate.id).sort()).toEqual(['sp-2', 'sp-3'])
+  })
+
+  it('queues staffing agencies even without a sponsor match', () => {
+    const result = planSponsorResolution('Acme Staffing Group', index)
+    expect(result).toMatchObject({ sponsor: null, manualReview: true })
+    expect(result.review).toEqual({ reasons: ['staffing_agency'], candidates: [] })
+  })
+
+  it('keeps a queued company flagged without queueing it again', () => {
+    const pending = buildSponsorIndex(sponsors, [
+      { normalizedCompany: 'deloitte', status: 'pending', visaSponsorId: null },
+    ])
+    const result = planSponsorResolution('Deloitte', pending)
+    expect(result.manualReview).toBe(true)
+    expect(result.review).toBeNull()
+    expect(result.sponsor?.id).toMatch(/^sp-[23]$/)
+  })
+
+  it('reuses a reviewer decision', () => {
+    const decided = buildSponsorIndex(sponsors, [
+      { normalizedCompany: 'deloitte', status: 'reassigned', visaSponsorId: 'sp-3' },
+      { normalizedCompany: 'acme staffing group', status: 'rejected', visaSponsorId: null },
+    ])
+    expect(planSponsorResolution('DELOITTE', decided)).toEqual({
+      sponsor: expect.objectContaining({ id: 'sp-3' }),
+      manualReview: false,
+      review: null,
+      learnAlias: null,
+    })
+    expect(planSponsorResolution('Acme Staffing Group', decided)).toMatchObject({ sponsor: null, manualReview: false })
+  })
+})
+
+describe('buildSponsorFields', () => {
+  it('derives visa columns from the matched sponsor', () => {
+    expect(
+      buildSponsorFields({ id: 'sp-1', companyName: 'Google LLC', sponsorshipConfidence: 65 })
+    ).toEqual({
+      visaSponsorId: 'sp-1',
+      visaStatus: 'likely_sponsor',
+      sponsorshipConfidence: 65,
+      visaNotes: 'Matched to Google LLC',
+    })
+  })
+
+  it('clears visa columns without a sponsor', () => {
+    expect(buildSponsorFields(null)).toEqual({
+      visaSponsorId: null,
+      visaStatus: 'unknown',
+      sponsorshipConfidence: 0,
+      visaNotes: null,
+    })
+  })
+
+  it("applies the posting's own stance to the status", () => {
+    const sponsor = { id: 'sp-1', companyName: 'Google LLC', sponsorshipConfidence: 95 }
+    expect(buildSponsorFields(sponsor, 'no_sponsorship')).toMatchObject({
+      visaSponsorId: 'sp-1',
+      visaStatus: 'no_sponsorship',
+      sponsorshipConfidence: 95,
+    })
+    expect(buildSponsorFields(sponsor, 'opt_only').visaStatus).toBe('unknown')
+    expect(buildSponsorFields(sponsor, 'opt_welcome').visaStatus).toBe('sponsor_verified')
+    expect(buildSponsorFields(null, 'sponsors').visaStatus).toBe('unknown')
+  })
+})
+
+describe('computeJobContentHash', () => {
+  const base = {
+    title: 'Software Engineer, New Grad',
+    company: 'Acme',
+    description: 'Build payments infrastructure.',
+  }
+
+  it('is stable across whitespace and casing differences', () => {
+    expect(
+      computeJobContentHash({
+        title: '  software engineer,   new grad ',
+        company: 'ACME',
+        description: 'Build payments\n infrastructure.',
+      })
+    ).toBe(computeJobContentHash(base))
+  })
+
+  it('treats missing and empty descriptions the same', () => {
+    expect(computeJobContentHash({ ...base, description: undefined })).toBe(
+      computeJobContentHash({ ...base, description: '' })
+    )
+  })
+
+  it('changes when any hashed field changes', () => {
+    const original = computeJobContentHash(base)
+    expect(computeJobContentHash({ ...base, title: 'Software Engineer Intern' })).not.toBe(original)
+    expect(computeJobContentHash({ ...base, company: 'Acme Labs' })).not.toBe(original)
+    expect(computeJobContentHash({ ...base, description: 'Build ledgers.' })).not.toBe(original)
+  })
+
+  it('does not let fields bleed into each other', () => {
+    expect(computeJobContentHash({ title: 'ab', company: 'c' })).not.toBe(
+      computeJobContentHash({ title: 'a', company: 'bc' })
+    )
+  })
+})
+
+describe('job lifecycle', () => {
+  const DAY_MS = 24 * 60 * 60 * 1000
+
+  it('gives README sources a longer grace period than ATS boards', () => {
+    expect(getMissingGraceMs('github')).toBe(30 * DAY_MS)
+    expect(getMissingGraceMs('greenhouse')).toBe(3 * DAY_MS)
+    expect(getMissingGraceMs('workday')).toBe(3 * DAY_MS)
+  })
+
+  it('flags jobs that expired after they were saved', () => {
+    expect(
+      isClosedSince({ isActive: false, expiresAt: '2024-05-10T00:00:00Z' }, '2024-05-01T00:00:00Z')
+    ).toBe(true)
+  })
+
+  it('ignores jobs that were already expired when saved', () => {
+    expect(
+      isClosedSince({ isActive: false, expiresAt: '2024-04-20T00:00:00Z' }, '2024-05-01T00:00:00Z')
+    ).toBe(false)
+  })
+
+  it('treats inactive jobs without an expiry as closed', () => {
+    expect(isClosedSince({ isActive: false, expiresAt: null }, '2024-05-01T00:00:00Z')).toBe(true)
+  })
+
+  it('does not flag active or missing jobs', () => {
+    expect(isClosedSince({ isActive: true, expiresAt: '2024-05-10T00:00:00Z' }, '2024-05-01T00:00:00Z')).toBe(false)
+    expect(isClosedSince(null, '2024-05-01T00:00:00Z')).toBe(false)
+  })
+})
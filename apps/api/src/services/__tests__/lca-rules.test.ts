@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest'
+import {
+  aggregateLcaRows,
+  annualizeWage,
+  describeLcaFiling,
+  parseLcaRecord,
+  rankLcaEvidence,
+} from '../../services/lca-rules'
+
+const record = (overrides: Record<string, unknown> = {}) => ({
+  CASE_NUMBER: 'I-200-24001-000001',
+  CASE_STATUS: 'Certified',
+  RECEIVED_DATE: '2023-09-20',
+  DECISION_DATE: '2023-10-02',
+  VISA_CLASS: 'H-1B',
+  JOB_TITLE: 'SOFTWARE ENGINEER',
+  SOC_CODE: '15-1252.00',
+  SOC_TITLE: 'Software Developers',
+  EMPLOYER_NAME: 'ACME, INC.',
+  WORKSITE_CITY: 'SEATTLE',
+  WORKSITE_STATE: 'WA',
+  WAGE_RATE_OF_PAY_FROM: '$140,000.00',
+  WAGE_RATE_OF_PAY_TO: '',
+  WAGE_UNIT_OF_PAY: 'Year',
+  PW_WAGE_LEVEL: 'II',
+  ...overrides,
+})
+
+describe('parseLcaRecord', () => {
+  it('maps the disclosure columns', () => {
+    const row = parseLcaRecord(record())!
+    expect(row.employerName).toBe('ACME, INC.')
+    expect(row.wageFrom).toBe(140000)
+    expect(row.wageTo).toBeNull()
+    expect(row.wageLevel).toBe('II')
+    // Decision date wins over received date for the fiscal year
+    expect(row.decisionDate?.toISOString().slice(0, 10)).toBe('2023-10-02')
+  })
+
+  it('accepts typed XLSX cells', () => {
+    const row = parseLcaRecord(record({ DECISION_DATE: new Date('2024-01-15T00:00:00Z'), WAGE_RATE_OF_PAY_FROM: 95.5 }))!
+    expect(row.decisionDate?.getUTCFullYear()).toBe(2024)
+    expect(row.wageFrom).toBe(95.5)
+  })
+
+  it('skips rows without an employer or title', () => {
+    expect(parseLcaRecord(record({ EMPLOYER_NAME: ' ' }))).toBeNull()
+    expect(parseLcaRecord(record({ JOB_TITLE: undefined }))).toBeNull()
+  })
+})
+
+describe('annualizeWage', () => {
+  it('converts pay periods to yearly amounts', () => {
+    expect(annualizeWage(60, 'Hour')).toBe(124800)
+    expect(annualizeWage(10000, 'Month')).toBe(120000)
+    expect(annualizeWage(120000, null)).toBe(120000)
+  })
+
+  it('drops implausible amounts', () => {
+    expect(annualizeWage(120000, 'Hour')).toBeNull()
+    expect(annualizeWage(12, 'Year')).toBeNull()
+    expect(annualizeWage(100, 'Fortnight')).toBeNull()
+  })
+})
+
+describe('aggregateLcaRows', () => {
+  const rows = [
+    record(),
+    record({ WAGE_RATE_OF_PAY_FROM: '180000', CASE_STATUS: 'Certified - Withdrawn' }),
+    record({ WAGE_RATE_OF_PAY_FROM: '160000', CASE_STATUS: 'Denied', EMPLOYER_NAME: 'Acme LLC' }),
+    record({ VISA_CLASS: 'E-3 Australian' }),
+    record({ WORKSITE_CITY: 'Austin', WORKSITE_STATE: 'TX' }),
+  ].map((entry) => parseLcaRecord(entry)!)
+
+  it('groups by employer, role, worksite and fiscal year', () => {
+    const aggregates = aggregateLcaRows(rows)
+    expect(aggregates).toHaveLength(2)
+
+    const seattle = aggregates.find((aggregate) => aggregate.worksiteCity === 'Seattle')!
+    expect(seattle.employerKey).toBe('acme')
+    expect(seattle.jobTitle).toBe('Software Engineer')
+    expect(seattle.fiscalYear).toBe(2024)
+    expect(seattle.filingCount).toBe(3)
+    expect(seattle.certifiedCount).toBe(2)
+    expect(seattle.annualWageMin).toBe(140000)
+    expect(seattle.annualWageMedian).toBe(160000)
+    expect(seattle.annualWageMax).toBe(180000)
+  })
+
+  it('falls back to the file fiscal year when rows have no dates', () => {
+    const undated = parseLcaRecord(record({ DECISION_DATE: '', RECEIVED_DATE: '' }))!
+    expect(aggregateLcaRows([undated])).toHaveLength(0)
+    expect(aggregateLcaRows([undated], 2022)[0].fiscalYear).toBe(2022)
+  })
+})
+
+describe('describeLcaFiling', () => {
+  it('reads like a sentence', () => {
+    expect(
+      describeLcaFiling({
+        jobTitle: 'Software Engineer',
+        worksiteCity: 'Seattle',
+        worksiteState: 'WA',
+        fiscalYear: 2024,
+        filingCount: 12,
+        annualWageMin: 140000,
+        annualWageMax: 185000,
+        wageLevel: 'II',
+      })
+    ).toBe('Filed 12 LCAs for Software Engineer in Seattle, WA at $140k–$185k (FY2024, wage level II)')
+  })
+})
+
+describe('rankLcaEvidence', () => {
+  const filing = (jobTitle: string, worksiteCity: string, worksiteState: string, fiscalYear = 2024, filingCount = 5) => ({
+    jobTitle,
+    worksiteCity,
+    worksiteState,
+    fiscalYear,
+    filingCount,
+    annualWageMin: null,
+    annualWageMax: null,
+    wageLevel: null,
+  })
+
+  it('prefers matching titles, then the posting location', () => {
+    const ranked = rankLcaEvidence({ title: 'Software Engineer I', location: 'Seattle, WA' }, [
+      filing('Data Analyst', 'Seattle', 'WA', 2024, 200),
+      filing('Software Engineer', 'Austin', 'TX'),
+      filing('Software Engineer', 'Seattle', 'WA'),
+    ])
+    expect(ranked.map((entry) => entry.worksiteCity)).toEqual(['Seattle', 'Austin'])
+    expect(ranked[0].jobTitle).toBe('Software Engineer')
+  })
+
+  it('falls back to any filing when no title matches', () => {
+    const ranked = rankLcaEvidence({ title: 'Product Designer' }, [filing('Data Analyst', 'Seattle', 'WA')])
+    expect(ranked).toHaveLength(1)
+  })
+})
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest'
+import {
+  ImmigrationTimelineInput,
+  OPT_UNEMPLOYMENT_LIMIT,
+  STEM_OPT_UNEMPLOYMENT_LIMIT,
+  blendDeadlineBoost,
+  computeTimeline,
+  deadlineBoostFor,
+  nextLotterySeason,
+} from '../../services/opt-timeline'
+
+const base = (overrides: Partial<ImmigrationTimelineInput> = {}): ImmigrationTimelineInput => ({
+  programEndDate: '2026-05-15',
+  optStartDate: null,
+  stemOptEligible: false,
+  unemploymentDaysUsed: 0,
+  currentlyEmployed: false,
+  h1bLotteryStatus: 'not_registered',
+  ...overrides,
+})
+
+describe('computeTimeline', () => {
+  it('has no deadline pressure while still in the program', () => {
+    const summary = computeTimeline(base(), new Date('2026-01-10T12:00:00Z'))
+    expect(summary.phase).toBe('in_program')
+    expect(summary.urgency).toBe('none')
+    expect(summary.keyDates.map((date) => date.key)).toContain('opt_filing_closes')
+  })
+
+  it('counts down the 60-day window to file for OPT after program end', () => {
+    const summary = computeTimeline(base(), new Date('2026-06-20T00:00:00Z'))
+    expect(summary.phase).toBe('post_completion')
+    expect(summary.daysUntilDeadline).toBe(24)
+    expect(summary.urgency).toBe('critical')
+  })
+
+  it('accrues unemployment days since they were last recorded', () => {
+    const summary = computeTimeline(
+      base({
+        optStartDate: '2026-07-01',
+        unemploymentDaysUsed: 20,
+        unemploymentCountedAt: '2026-08-01T00:00:00Z',
+      }),
+      new Date('2026-08-31T00:00:00Z')
+    )
+    expect(summary.phase).toBe('opt')
+    expect(summary.unemploymentLimit).toBe(OPT_UNEMPLOYMENT_LIMIT)
+    expect(summary.unemploymentDaysUsed).toBe(50)
+    expect(summary.unemploymentDaysRemaining).toBe(40)
+    expect(summary.urgency).toBe('high')
+    expect(summary.authorizationEndDate).toBe('2027-06-30')
+  })
+
+  it('stops the clock while employed', () => {
+    const summary = computeTimeline(
+      base({
+        optStartDate: '2026-07-01',
+        unemploymentDaysUsed: 10,
+        unemploymentCountedAt: '2026-07-11T00:00:00Z',
+        currentlyEmployed: true,
+      }),
+      new Date('2026-12-01T00:00:00Z')
+    )
+    expect(summary.unemploymentDaysUsed).toBe(10)
+    expect(summary.urgency).toBe('none')
+  })
+
+  it('raises the limit to 150 days on STEM OPT', () => {
+    const summary = computeTimeline(
+      base({
+        optStartDate: '2026-07-01',
+        stemOptStartDate: '2027-07-01',
+        stemOptEligible: true,
+        unemploymentDaysUsed: 80,
+        unemploymentCountedAt: '2027-08-01T00:00:00Z',
+      }),
+      new Date('2027-08-01T00:00:00Z')
+    )
+    expect(summary.phase).toBe('stem_opt')
+    expect(summary.unemploymentLimit).toBe(STEM_OPT_UNEMPLOYMENT_LIMIT)
+    expect(summary.unemploymentDaysRemaining).toBe(70)
+    expect(summary.authorizationEndDate).toBe('2029-06-30')
+  })
+
+  it('lists the STEM filing window for eligible OPT holders', () => {
+    const summary = computeTimeline(
+      base({ optStartDate: '2026-07-01', stemOptEligible: true, currentlyEmployed: true }),
+      new Date('2026-09-01T00:00:00Z')
+    )
+    const filing = summary.keyDates.find((date) => date.key === 'stem_filing_opens')
+    expect(filing?.date).toBe('2027-04-01')
+  })
+
+  it("uses this year's cap season for a candidate selected in the spring lottery", () => {
+    const summary = computeTimeline(base({ h1bLotteryStatus: 'selected' }), new Date('2026-05-10T00:00:00Z'))
+    const dateOf = (key: string) => summary.keyDates.find((date) => date.key === key)?.date
+
+    expect(dateOf('h1b_petition_filing')).toBe('2026-04-01')
+    expect(dateOf('h1b_start')).toBe('2026-10-01')
+    expect(dateOf('h1b_registration')).toBeUndefined()
+  })
+})
+
+describe('nextLotterySeason', () => {
+  it('rolls over to next year once the March season has passed', () => {
+    expect(nextLotterySeason(new Date('2026-02-10T00:00:00Z')).registrationOpens.toISOString()).toBe(
+      '2026-03-01T00:00:00.000Z'
+    )
+    expect(nextLotterySeason(new Date('2026-05-10T00:00:00Z')).capStart.toISOString()).toBe(
+      '2027-10-01T00:00:00.000Z'
+    )
+  })
+})
+
+describe('deadlineBoostFor', () => {
+  const summary = computeTimeline(
+    base({ optStartDate: '2026-07-01', unemploymentDaysUsed: 75, unemploymentCountedAt: '2026-10-01T00:00:00Z' }),
+    new Date('2026-10-01T00:00:00Z')
+  )
+
+  it('only boosts when the clock is short', () => {
+    expect(deadlineBoostFor(computeTimeline(base(), new Date('2026-01-10T00:00:00Z')))).toBeNull()
+    expect(deadlineBoostFor(summary)?.weight).toBeGreaterThan(0)
+  })
+
+  it('leans on E-Verify for candidates who will need STEM OPT', () => {
+    const stem = deadlineBoostFor({ ...summary, stemOptEligible: true })!
+    const plain = deadlineBoostFor(summary)!
+    expect(stem.eVerify).toBeGreaterThan(plain.eVerify)
+    expect(stem.eVerify + stem.capExempt + stem.nearStart).toBeCloseTo(1)
+  })
+
+  it('ranks an E-Verify employer above an otherwise equal one', () => {
+    const boost = deadlineBoostFor({ ...summary, stemOptEligible: true })
+    const withEVerify = blendDeadlineBoost(0.6, boost, { eVerify: 1, capExempt: 0, nearStart: 0 })
+    const without = blendDeadlineBoost(0.6, boost, { eVerify: 0, capExempt: 0, nearStart: 0 })
+    expect(withEVerify).toBeGreaterThan(without)
+    expect(blendDeadlineBoost(0.6, null, null)).toBe(0.6)
+  })
+})
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest'
+import { formatResumeSummary, hasParsedContent, parseResumeText } from '../../services/resume-parser'
+
+const RESUME = `Priya Raman
+priya@example.com | github.com/priya
+
+SUMMARY
+Backend engineer focused on data-heavy services.
+
+Education
+M.S. Computer Science, Georgia Tech
+Expected May 2026
+
+B.Tech Information Technology, Anna University
+
+Work Experience:
+Software Engineering Intern, Stripe
+Jun 2025 – Aug 2025
+• Built a ledger reconciliation service in Go
+• Cut batch runtime by 40%
+Research Assistant, Georgia Tech
+- Trained retrieval models on 2M documents
+
+Projects
+Job Radar
+• Crawled 50 career sites with polite rate limits
+
+Technical Skills
+Languages: Python, Go, TypeScript
+Tools: PostgreSQL, Docker, python
+
+Awards
+Dean's list 2024
+`
+
+describe('parseResumeText', () => {
+  const parsed = parseResumeText(RESUME)
+
+  it('ignores the contact block and reads the summary', () => {
+    expect(parsed.summary).toBe('Backend engineer focused on data-heavy services.')
+  })
+
+  it('groups education entries on blank lines', () => {
+    expect(parsed.education).toEqual([
+      { title: 'M.S. Computer Science, Georgia Tech | Expected May 2026', details: [] },
+      { title: 'B.Tech Information Technology, Anna University', details: [] },
+    ])
+  })
+
+  it('starts a new experience entry after a run of bullets', () => {
+    expect(parsed.experience).toEqual([
+      {
+        title: 'Software Engineering Intern, Stripe | Jun 2025 – Aug 2025',
+        details: ['Built a ledger reconciliation service in Go', 'Cut batch runtime by 40%'],
+      },
+      { title: 'Research Assistant, Georgia Tech', details: ['Trained retrieval models on 2M documents'] },
+    ])
+    expect(parsed.projects).toEqual([
+      { title: 'Job Radar', details: ['Crawled 50 career sites with polite rate limits'] },
+    ])
+  })
+
+  it('splits skills, drops category labels and dedupes', () => {
+    expect(parsed.skills).toEqual(['Python', 'Go', 'TypeScript', 'PostgreSQL', 'Docker'])
+  })
+
+  it('stops a section at an unrelated heading', () => {
+    expect(parsed.skills).not.toContain("Dean's list 2024")
+  })
+
+  it('reports text with no recognised sections as empty', () => {
+    expect(hasParsedContent(parseResumeText('Just a name\nand a phone number'))).toBe(false)
+    expect(hasParsedContent(parsed)).toBe(true)
+  })
+})
+
+describe('formatResumeSummary', () => {
+  it('renders sections in priority order within the size cap', () => {
+    const summary = formatResumeSummary(parseResumeText(RESUME))
+    expect(summary.indexOf('Experience:')).toBeLessThan(summary.indexOf('Education:'))
+    expect(summary).toContain('Skills: Python, Go, TypeScript, PostgreSQL, Docker')
+
+    const capped = formatResumeSummary(parseResumeText(RESUME), 60)
+    expect(capped.length).toBeLessThanOrEqual(60)
+    expect(capped.endsWith('…')).toBe(true)
+  })
+})
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest'
+import { UnsupportedResumeError, detectResumeFormat, extractResumeText } from '../../lib/resume-text'
+
+describe('extractResumeText', () => {
+  it('rejects a truncated PDF as unsupported', async () => {
+    const truncated = new TextEncoder().encode('%PDF-1.7\n1 0 obj\n<< /Type /Catalog /Pages 2 0 R')
+    expect(detectResumeFormat(truncated)).toBe('pdf')
+
+    await expect(extractResumeText(truncated, 'pdf')).rejects.toBeInstanceOf(UnsupportedResumeError)
+  })
+
+  it('rejects a zip that is not a DOCX as unsupported', async () => {
+    const zip = new Uint8Array([0x50, 0x4b, 0x03, 0x04, 0x00, 0x00, 0x00, 0x00])
+    expect(detectResumeFormat(zip)).toBe('docx')
+
+    await expect(extractResumeText(zip, 'docx')).rejects.toBeInstanceOf(UnsupportedResumeError)
+  })
+})
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest'
+import { compactFilters, isAlertWorthy } from '../../services/saved-search-rules'
+
+describe('isAlertWorthy', () => {
+  it('accepts every new job for filter-only searches', () => {
+    expect(isAlertWorthy({ scoreDetails: { similarity: 0 } }, { location: 'NYC' })).toBe(true)
+    expect(isAlertWorthy({}, { description: '  ' })).toBe(true)
+  })
+
+  it('requires a keyword hit or close embedding for text queries', () => {
+    const filters = { description: 'rust backend' }
+    expect(isAlertWorthy({ scoreDetails: { similarity: 0.2, lexicalRank: 4 } }, filters)).toBe(true)
+    expect(isAlertWorthy({ scoreDetails: { similarity: 0.45, lexicalRank: null } }, filters)).toBe(true)
+    expect(isAlertWorthy({ scoreDetails: { similarity: 0.2, lexicalRank: null } }, filters)).toBe(false)
+    expect(isAlertWorthy({}, filters)).toBe(false)
+  })
+})
+
+describe('compactFilters', () => {
+  it('drops blank and default values', () => {
+    expect(
+      compactFilters({
+        description: '',
+        jobType: 'all',
+        location: 'Seattle',
+        isRemote: false,
+        visaStatus: undefined,
+      })
+    ).toEqual({ location: 'Seattle', isRemote: false })
+  })
+})
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_SCORING_WEIGHTS,
+  computeMatchScore,
+  normalizeScoringWeights,
+  rankScoreContributions,
+  resolveScoringWeights,
+} from '../../services/scoring-weights'
+
+describe('normalizeScoringWeights', () => {
+  it('scales weights to sum to 1', () => {
+    const weights = normalizeScoringWeights({ similarity: 20, recency: 20, sponsorship: 60 })
+    expect(weights.sponsorship).toBeCloseTo(0.6)
+    expect(weights.similarity + weights.recency + weights.sponsorship).toBeCloseTo(1)
+  })
+
+  it('falls back to defaults for missing, negative or all-zero weights', () => {
+    expect(normalizeScoringWeights(null)).toEqual(DEFAULT_SCORING_WEIGHTS)
+    expect(normalizeScoringWeights({ similarity: 0, recency: 0, sponsorship: 0 })).toEqual(DEFAULT_SCORING_WEIGHTS)
+    expect(normalizeScoringWeights({ recency: -1 }).recency).toBe(0)
+  })
+})
+
+describe('resolveScoringWeights', () => {
+  it('uses the stored profile when there are no overrides', () => {
+    const stored = { similarity: 0.2, recency: 0.2, sponsorship: 0.6 }
+    expect(resolveScoringWeights(stored)).toEqual(normalizeScoringWeights(stored))
+    expect(resolveScoringWeights(stored, { recency: undefined })).toEqual(normalizeScoringWeights(stored))
+  })
+
+  it('lets overrides replace individual components', () => {
+    const weights = resolveScoringWeights({ similarity: 0.5, recency: 0.5, sponsorship: 0 }, { sponsorship: 1 })
+    expect(weights.sponsorship).toBeCloseTo(0.5)
+    expect(weights.similarity).toBeCloseTo(0.25)
+  })
+})
+
+describe('score composition', () => {
+  const scores = { similarity: 0.4, recency: 1, sponsorship: 0.9 }
+
+  it('reproduces the default blend', () => {
+    expect(computeMatchScore(scores, DEFAULT_SCORING_WEIGHTS)).toBeCloseTo(0.4 * 0.6 + 0.25 + 0.9 * 0.15)
+  })
+
+  it('orders reasons by weighted contribution and drops zero-weight components', () => {
+    const sponsorFirst = normalizeScoringWeights({ similarity: 1, recency: 0, sponsorship: 3 })
+    expect(rankScoreContributions(scores, sponsorFirst)).toEqual(['sponsorship', 'similarity'])
+    expect(rankScoreContributions(scores, DEFAULT_SCORING_WEIGHTS)[0]).toBe('recency')
+  })
+})
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildNextCursor,
+  decodeSearchCursor,
+  encodeSearchCursor,
+  paginateRanked,
+} from '../../services/search-cursor'
+
+const asOf = new Date('2024-05-01T00:00:00Z')
+
+describe('search cursors', () => {
+  it('round-trips through the encoded form', () => {
+    const cursor = { score: 0.6180339887498949, id: 'b', asOf: asOf.toISOString() }
+    expect(decodeSearchCursor(encodeSearchCursor(cursor))).toEqual(cursor)
+  })
+
+  it('rejects malformed cursors', () => {
+    expect(decodeSearchCursor('not-a-cursor')).toBeNull()
+    expect(decodeSearchCursor(Buffer.from('{"score":"1","id":"a"}').toString('base64url'))).toBeNull()
+  })
+})
+
+describe('paginateRanked', () => {
+  const items = [
+    { id: 'c', rankScore: 0.5 },
+    { id: 'a', rankScore: 0.9 },
+    { id: 'e', rankScore: 0.2 },
+    { id: 'b', rankScore: 0.5 },
+    { id: 'd', rankScore: 0.7 },
+  ]
+
+  it('walks every item exactly once in score order', () => {
+    const seen: string[] = []
+    let cursor: string | null = null
+
+    do {
+      const rows: typeof items = paginateRanked(items, { cursor: cursor ? decodeSearchCursor(cursor) : null, limit: 2 })
+      seen.push(...rows.slice(0, 2).map((row) => row.id))
+      cursor = buildNextCursor(rows, 2, asOf)
+    } while (cursor)
+
+    expect(seen).toEqual(['a', 'd', 'b', 'c', 'e'])
+  })
+
+  it('resumes right after the last served item when scores shift between pages', () => {
+    const firstPage = paginateRanked(items, { limit: 2 })
+    const cursor = decodeSearchCursor(buildNextCursor(firstPage, 2, asOf)!)
+
+    // "a" drops below the cursor after page one was served
+    const rescored = items.map((item) => (item.id === 'a' ? { ...item, rankScore: 0.1 } : item))
+    const secondPage = paginateRanked(rescored, { cursor, limit: 2 }).map((row) => row.id)
+
+    expect(secondPage).toEqual(['b', 'c', 'e'])
+    expect(buildNextCursor(paginateRanked(items, { offset: 4, limit: 2 }), 2, asOf)).toBeNull()
+  })
+})
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest'
+import { fuseRankings } from '../../services/search-ranking'
+
+describe('fuseRankings', () => {
+  it('scores a document first in both lists as 1', () => {
+    const fused = fuseRankings(['a', 'b'], ['a', 'c'])
+    expect(fused.get('a')).toEqual({ score: 1, vectorRank: 1, lexicalRank: 1 })
+  })
+
+  it('records ranks from whichever lists a document appears in', () => {
+    const fused = fuseRankings(['a', 'b'], ['c'])
+    expect(fused.get('b')).toMatchObject({ vectorRank: 2, lexicalRank: null })
+    expect(fused.get('c')).toMatchObject({ vectorRank: null, lexicalRank: 1 })
+    expect(fused.get('c')!.score).toBeCloseTo(0.5)
+  })
+
+  it('rewards agreement over a single top rank', () => {
+    // "rust" is only an exact keyword hit, "systems" is decent in both lists
+    const fused = fuseRankings(['embedded', 'systems', 'backend'], ['rust', 'systems'])
+    const score = (id: string) => fused.get(id)!.score
+
+    expect(score('systems')).toBeGreaterThan(score('embedded'))
+    expect(score('systems')).toBeGreaterThan(score('rust'))
+    expect(score('rust')).toBeGreaterThan(score('backend'))
+  })
+})
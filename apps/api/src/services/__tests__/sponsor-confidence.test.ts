@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest'
+import { fiscalYearOf, normalizeFilingHistory, scoreSponsorConfidence } from '../../services/sponsor-confidence'
+
+const steady = (approvals: number, denials = 0, from = 2021, to = 2025) =>
+  Array.from({ length: to - from + 1 }, (_, index) => ({ fiscalYear: from + index, approvals, denials }))
+
+describe('fiscalYearOf', () => {
+  it('rolls over on October 1', () => {
+    expect(fiscalYearOf(new Date('2025-09-30T12:00:00Z'))).toBe(2025)
+    expect(fiscalYearOf(new Date('2025-10-01T00:00:00Z'))).toBe(2026)
+  })
+})
+
+describe('normalizeFilingHistory', () => {
+  it('merges duplicate years and drops junk', () => {
+    expect(
+      normalizeFilingHistory([
+        { fiscalYear: 2024, approvals: 3, denials: 1 },
+        { fiscalYear: '2023', approvals: '2', denials: -4 },
+        { fiscalYear: 2024, approvals: 2, denials: 0 },
+        { fiscalYear: 'n/a', approvals: 9 },
+        null,
+      ])
+    ).toEqual([
+      { fiscalYear: 2023, approvals: 2, denials: 0 },
+      { fiscalYear: 2024, approvals: 5, denials: 1 },
+    ])
+    expect(normalizeFilingHistory({ fiscalYear: 2024 })).toEqual([])
+  })
+})
+
+describe('scoreSponsorConfidence', () => {
+  it('returns null without any filings', () => {
+    expect(scoreSponsorConfidence([], 2025)).toBeNull()
+    expect(scoreSponsorConfidence([{ fiscalYear: 2024, approvals: 0, denials: 0 }], 2025)).toBeNull()
+  })
+
+  it('rates a large, steady sponsor near the top', () => {
+    const result = scoreSponsorConfidence(steady(500), 2025)!
+    expect(result.confidence).toBeGreaterThanOrEqual(90)
+    expect(result.confidence).toBeLessThanOrEqual(99)
+    expect(result.lastYearSponsored).toBe(2025)
+  })
+
+  it('ranks more filings above fewer', () => {
+    const big = scoreSponsorConfidence(steady(50), 2025)!
+    const small = scoreSponsorConfidence(steady(2), 2025)!
+    expect(big.confidence).toBeGreaterThan(small.confidence)
+  })
+
+  it('penalizes denials at the same volume', () => {
+    const clean = scoreSponsorConfidence(steady(20, 0), 2025)!
+    const denied = scoreSponsorConfidence(steady(20, 20), 2025)!
+    expect(denied.components.approvalRate).toBeLessThan(clean.components.approvalRate)
+    expect(denied.confidence).toBeLessThan(clean.confidence)
+  })
+
+  it('does not let one filing swing the approval rate to an extreme', () => {
+    const approved = scoreSponsorConfidence([{ fiscalYear: 2025, approvals: 1, denials: 0 }], 2025)!
+    const denied = scoreSponsorConfidence([{ fiscalYear: 2025, approvals: 0, denials: 1 }], 2025)!
+    expect(approved.components.approvalRate).toBeLessThan(1)
+    expect(denied.components.approvalRate).toBeGreaterThan(0.5)
+  })
+
+  it('bottoms out when nothing was ever approved', () => {
+    const result = scoreSponsorConfidence(steady(0, 10), 2025)!
+    expect(result.lastYearSponsored).toBeNull()
+    expect(result.confidence).toBe(1)
+  })
+
+  it('decays sponsors that stopped filing', () => {
+    const current = scoreSponsorConfidence(steady(40, 0, 2019, 2023), 2025)!
+    const stale = scoreSponsorConfidence(steady(40, 0, 2015, 2019), 2025)!
+    expect(current.components.recency).toBe(1)
+    expect(stale.components.recency).toBeLessThan(1)
+    expect(stale.confidence).toBeLessThan(current.confidence)
+  })
+
+  it('rewards a growing program over a shrinking one', () => {
+    const growing = [5, 10, 20, 40].map((approvals, index) => ({ fiscalYear: 2022 + index, approvals, denials: 0 }))
+    const shrinking = [40, 20, 10, 5].map((approvals, index) => ({ fiscalYear: 2022 + index, approvals, denials: 0 }))
+    const up = scoreSponsorConfidence(growing, 2025)!
+    const down = scoreSponsorConfidence(shrinking, 2025)!
+    expect(up.components.trend).toBeGreaterThan(0)
+    expect(down.components.trend).toBeLessThan(0)
+    expect(up.confidence).toBeGreaterThan(down.confidence)
+  })
+
+  it('reports no trend for a single year of data', () => {
+    expect(scoreSponsorConfidence([{ fiscalYear: 2025, approvals: 30, denials: 1 }], 2025)!.components.trend).toBe(0)
+  })
+
+  it('ignores fiscal years after the scoring year', () => {
+    const result = scoreSponsorConfidence([...steady(5, 0, 2023, 2024), { fiscalYear: 2030, approvals: 900, denials: 0 }], 2025)!
+    expect(result.totalApprovals).toBe(10)
+    expect(result.lastYearSponsored).toBe(2024)
+  })
+})
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest'
+import { buildSponsorHistory, filingRowsFromHistory } from '../../services/sponsor-history'
+
+describe('filingRowsFromHistory', () => {
+  it('splits each year by petition type', () => {
+    const rows = filingRowsFromHistory([
+      {
+        fiscalYear: 2024,
+        approvals: 12,
+        denials: 1,
+        byPetitionType: {
+          new_employment: { approvals: 8, denials: 1 },
+          continuation: { approvals: 4, denials: 0 },
+        },
+      },
+    ])
+    expect(rows).toEqual([
+      { fiscalYear: 2024, petitionType: 'new_employment', approvals: 8, denials: 1 },
+      { fiscalYear: 2024, petitionType: 'continuation', approvals: 4, denials: 0 },
+    ])
+  })
+
+  it('keeps counts without a breakdown as unspecified', () => {
+    const rows = filingRowsFromHistory([
+      { fiscalYear: 2023, approvals: 5, denials: 2 },
+      { fiscalYear: 2024, approvals: 6, denials: 0, byPetitionType: { amended: { approvals: 2, denials: 0 }, bogus: {} } },
+    ])
+    expect(rows).toEqual([
+      { fiscalYear: 2023, petitionType: 'unspecified', approvals: 5, denials: 2 },
+      { fiscalYear: 2024, petitionType: 'amended', approvals: 2, denials: 0 },
+      { fiscalYear: 2024, petitionType: 'unspecified', approvals: 4, denials: 0 },
+    ])
+  })
+
+  it('ignores anything that is not a history array', () => {
+    expect(filingRowsFromHistory(undefined)).toEqual([])
+    expect(filingRowsFromHistory([{ fiscalYear: 'soon', approvals: 3 }])).toEqual([])
+  })
+})
+
+describe('buildSponsorHistory', () => {
+  const row = (fiscalYear: number, approvals: number, petitionType = 'new_employment' as const) => ({
+    fiscalYear,
+    petitionType,
+    approvals,
+    denials: 0,
+  })
+
+  it('totals petition types per year', () => {
+    const history = buildSponsorHistory(
+      [row(2024, 3), { ...row(2024, 2), petitionType: 'continuation' }, row(2025, 4)],
+      2025
+    )
+    expect(history.years.map((year) => [year.fiscalYear, year.approvals])).toEqual([
+      [2024, 5],
+      [2025, 4],
+    ])
+    expect(history.years[0].byPetitionType.continuation).toEqual({ approvals: 2, denials: 0 })
+  })
+
+  it('labels growing and shrinking programs', () => {
+    expect(buildSponsorHistory([row(2022, 5), row(2023, 5), row(2024, 20), row(2025, 30)], 2025).trend.direction).toBe(
+      'growing'
+    )
+    expect(buildSponsorHistory([row(2022, 30), row(2023, 20), row(2024, 5), row(2025, 5)], 2025).trend.direction).toBe(
+      'shrinking'
+    )
+    expect(buildSponsorHistory([row(2022, 10), row(2023, 10), row(2024, 10), row(2025, 10)], 2025).trend.direction).toBe(
+      'steady'
+    )
+  })
+
+  it('calls out sponsors that stopped', () => {
+    const history = buildSponsorHistory([row(2018, 40), row(2019, 40)], 2025)
+    expect(history.trend.direction).toBe('stopped')
+    expect(history.lastYearSponsored).toBe(2019)
+  })
+
+  it('has nothing to say without data', () => {
+    expect(buildSponsorHistory([], 2025).trend.direction).toBe('insufficient_data')
+    expect(buildSponsorHistory([row(2025, 3)], 2025).trend.direction).toBe('insufficient_data')
+  })
+})
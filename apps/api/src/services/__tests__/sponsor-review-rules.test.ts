@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { buildCompanyIndex, rankCompanyMatches } from '../../services/company-matcher'
+import { looksLikeStaffingAgency, sponsorReviewReasons, toReviewCandidates } from '../../services/sponsor-review-rules'
+
+const index = buildCompanyIndex([
+  { id: 'google', companyName: 'Google LLC' },
+  { id: 'ibm', companyName: 'International Business Machines Corporation' },
+  { id: 'deloitte-consulting', companyName: 'Deloitte Consulting LLP' },
+  { id: 'deloitte-touche', companyName: 'Deloitte & Touche LLP' },
+  { id: 'tcs', companyName: 'Tata Consultancy Services Limited' },
+])
+const reasonsFor = (company: string) => sponsorReviewReasons(company, rankCompanyMatches(company, index))
+
+describe('looksLikeStaffingAgency', () => {
+  it.each(['Robert Half Staffing', 'Insight Global Recruiting', 'Apex IT Solutions Inc.', 'Mastech InfoTech', 'TEKsystems Talent Solutions'])(
+    'flags "%s"',
+    (company) => {
+      expect(looksLikeStaffingAgency(company)).toBe(true)
+    }
+  )
+
+  it.each(['Google', 'Deloitte Consulting LLP', 'Accenture Federal Services', 'Stripe'])('does not flag "%s"', (company) => {
+    expect(looksLikeStaffingAgency(company)).toBe(false)
+  })
+})
+
+describe('sponsorReviewReasons', () => {
+  it('trusts exact and confident matches', () => {
+    expect(reasonsFor('Google')).toEqual([])
+    expect(reasonsFor('Acme Robotics')).toEqual([])
+  })
+
+  it('flags matches below the accept threshold', () => {
+    expect(reasonsFor('IBM')).toEqual(['low_confidence'])
+    expect(reasonsFor('Google Cloud')).toEqual(['low_confidence'])
+  })
+
+  it('flags names close to more than one sponsor', () => {
+    expect(reasonsFor('Deloitte')).toContain('multiple_candidates')
+  })
+
+  it('flags staffing agencies even when they match a sponsor exactly', () => {
+    expect(reasonsFor('Tata Consultancy Services')).toEqual(['staffing_agency'])
+  })
+})
+
+describe('toReviewCandidates', () => {
+  it('keeps the id, name, confidence and method of each candidate', () => {
+    expect(toReviewCandidates(rankCompanyMatches('IBM', index))).toEqual([
+      { id: 'ibm', companyName: 'International Business Machines Corporation', confidence: 0.8, method: 'acronym' },
+    ])
+  })
+})
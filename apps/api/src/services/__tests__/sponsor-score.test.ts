@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest'
+import { PgDialect } from 'drizzle-orm/pg-core'
+import { sponsorScoreSql } from '../../services/sponsor-score'
+
+describe('sponsorScoreSql', () => {
+  const { sql, params } = new PgDialect().sqlToQuery(sponsorScoreSql())
+  const branches = sql.split(/\bwhen\b/).slice(1)
+
+  it('scores postings that rule out sponsorship 0 before reading company confidence', () => {
+    expect(branches[0]).toMatch(/"jobs"\."visa_stance" in \(\$1, \$2\).* then 0\s*$/s)
+    expect(params.slice(0, 2)).toEqual(['no_sponsorship', 'opt_only'])
+    expect(branches.findIndex((branch) => branch.includes('sponsorship_confidence'))).toBeGreaterThan(0)
+  })
+
+  it('ranks verified sponsors above confidence tiers', () => {
+    expect(branches[1]).toMatch(/"jobs"\."visa_status" = 'sponsor_verified' then 1/)
+  })
+})
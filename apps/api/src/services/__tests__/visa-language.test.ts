@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest'
+import {
+  applyPostingStance,
+  checkLlmVisaLanguage,
+  mentionsWorkAuthorization,
+  readPostingVisaLanguage,
+  splitSentences,
+} from '../../services/visa-language'
+
+const posting = (...sentences: string[]) =>
+  ['We are looking for a new grad software engineer to join our payments team.', ...sentences].join(' ')
+
+describe('splitSentences', () => {
+  it('splits on sentence ends, list items and line breaks without breaking "U.S."', () => {
+    expect(
+      splitSentences('<p>Build APIs.</p><ul><li>Must be a U.S. citizen</li><li>Go, SQL</li></ul>Apply today! Thanks')
+    ).toEqual(['Build APIs.', 'Must be a US citizen', 'Go, SQL', 'Apply today!', 'Thanks'])
+  })
+
+  it('decodes escaped HTML', () => {
+    expect(splitSentences('&lt;p&gt;No visa sponsorship&amp;relocation.&lt;/p&gt;')).toEqual([
+      'No visa sponsorship&relocation.',
+    ])
+  })
+})
+
+describe('readPostingVisaLanguage', () => {
+  it.each([
+    'We are unable to sponsor H-1B visas for this position.',
+    'Candidates must be authorized to work in the United States without the need for employer sponsorship, now or in the future.',
+    'This company will not sponsor applicants for work visa status.',
+    'Visa sponsorship is not available for this role.',
+    'No visa sponsorship available.',
+    'We are not able to provide visa sponsorship for this role.',
+    'Sponsorship cannot be provided for this position.',
+    'Applicants must be a U.S. citizen due to government contract requirements.',
+    'Active Secret clearance is required.',
+    'Due to ITAR, this position is open to U.S. persons only.',
+  ])('reads a refusal in "%s"', (sentence) => {
+    expect(readPostingVisaLanguage(posting(sentence))).toEqual({
+      stance: 'no_sponsorship',
+      evidence: sentence.replace('U.S.', 'US'),
+    })
+  })
+
+  it.each([
+    ['We sponsor H1B visas for qualified candidates.', 'sponsors'],
+    ['Visa sponsorship is available for this position.', 'sponsors'],
+    ['Our company is happy to provide visa sponsorship.', 'sponsors'],
+    ['OPT/CPT candidates are welcome to apply.', 'opt_welcome'],
+    ['We welcome international students on STEM OPT.', 'opt_welcome'],
+  ])('reads "%s" as %s', (sentence, stance) => {
+    expect(readPostingVisaLanguage(posting(sentence))).toEqual({ stance, evidence: sentence })
+  })
+
+  it.each([
+    'Relocation is not offered but visa sponsorship is available.',
+    'Visa sponsorship is not an issue for us.',
+    "Don't worry about your visa, we sponsor H-1B visas for new grads.",
+    'This role is not remote, and we sponsor H-1B visas for the right candidate.',
+    'You will work without a sponsor on the team for the first month.',
+    'No sponsorship required for current employees moving teams.',
+  ])('does not read "%s" as a refusal', (sentence) => {
+    expect(readPostingVisaLanguage(posting(sentence))?.stance).not.toBe('no_sponsorship')
+  })
+
+  it('reads OPT welcome alongside a refusal as OPT only', () => {
+    expect(
+      readPostingVisaLanguage(posting('OPT and CPT students are welcome.', 'We cannot sponsor an H-1B for this role.'))
+    ).toEqual({
+      stance: 'opt_only',
+      evidence: 'We cannot sponsor an H-1B for this role. … OPT and CPT students are welcome.',
+    })
+  })
+
+  it('lets a refusal win over a positive statement', () => {
+    expect(
+      readPostingVisaLanguage(posting('We sponsor visas for senior roles.', 'This role does not offer sponsorship.'))?.stance
+    ).toBe('no_sponsorship')
+  })
+
+  it('ignores boilerplate and unrelated uses of the same words', () => {
+    expect(readPostingVisaLanguage(posting('Must be authorized to work in the United States.'))).toBeNull()
+    expect(readPostingVisaLanguage(posting('We sponsor hackathons and meetups.'))).toBeNull()
+    expect(readPostingVisaLanguage(posting('You can opt out of the benefits plan, all are welcome.'))).toBeNull()
+    expect(readPostingVisaLanguage(posting('Candidates on OPT are not eligible.'))).toBeNull()
+    expect(readPostingVisaLanguage('')).toBeNull()
+    expect(readPostingVisaLanguage(null)).toBeNull()
+  })
+
+  it('clips long evidence at a word boundary', () => {
+    const sentence = `We are unable to sponsor visas ${'for this very long and winding role '.repeat(8)}.`
+    const evidence = readPostingVisaLanguage(sentence)?.evidence ?? ''
+    expect(evidence.length).toBeLessThanOrEqual(201)
+    expect(evidence.endsWith('…')).toBe(true)
+    expect(evidence.startsWith('We are unable to sponsor visas')).toBe(true)
+  })
+})
+
+describe('applyPostingStance', () => {
+  it('overrides on refusal, downgrades OPT-only postings and keeps the rest', () => {
+    expect(applyPostingStance('sponsor_verified', 'no_sponsorship')).toBe('no_sponsorship')
+    expect(applyPostingStance('likely_sponsor', 'opt_only')).toBe('unknown')
+    expect(applyPostingStance('likely_sponsor', 'sponsors')).toBe('likely_sponsor')
+    expect(applyPostingStance('unknown', 'opt_welcome')).toBe('unknown')
+    expect(applyPostingStance('sponsor_verified', null)).toBe('sponsor_verified')
+  })
+})
+
+describe('LLM fallback', () => {
+  const description = posting('Work authorization: candidates need permanent US work authorization for this role.')
+
+  it('only runs on descriptions that talk about work authorization', () => {
+    expect(mentionsWorkAuthorization(description)).toBe(true)
+    expect(mentionsWorkAuthorization(posting('Great benefits and a friendly team.'))).toBe(false)
+  })
+
+  it('accepts a known stance quoted from the description', () => {
+    expect(
+      checkLlmVisaLanguage(description, {
+        stance: 'no_sponsorship',
+        evidence: 'candidates need permanent  US work authorization for this role.',
+      })
+    ).toEqual({ stance: 'no_sponsorship', evidence: 'candidates need permanent US work authorization for this role.' })
+  })
+
+  it('rejects unknown stances and quotes that are not in the description', () => {
+    expect(checkLlmVisaLanguage(description, { stance: 'maybe', evidence: 'Work authorization' })).toBeNull()
+    expect(checkLlmVisaLanguage(description, { stance: 'no_sponsorship', evidence: 'We never sponsor.' })).toBeNull()
+    expect(checkLlmVisaLanguage(description, { stance: null, evidence: null })).toBeNull()
+    expect(checkLlmVisaLanguage(description, null)).toBeNull()
+  })
+})
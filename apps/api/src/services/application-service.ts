@@ -1,6 +1,7 @@
 import { db } from '../db'
 import { applications, jobs } from '../db/schema'
 import { eq, and, desc } from 'drizzle-orm'
+import { isClosedSince } from './ingestion-rules'
 
 export async function getUserApplications(userId: string) {
   const apps = await db
@@ -16,13 +17,19 @@ export async function getUserApplications(userId: string) {
         url: jobs.url,
         visaStatus: jobs.visaStatus,
         sponsorshipConfidence: jobs.sponsorshipConfidence,
+        isActive: jobs.isActive,
+        expiresAt: jobs.expiresAt,
       },
     })
     .from(applications)
     .leftJoin(jobs, eq(applications.jobId, jobs.id))
     .where(eq(applications.userId, userId))
     .orderBy(desc(applications.appliedAt))
-  return apps
+
+  return apps.map((app) => ({
+    ...app,
+    closedSinceSaved: isClosedSince(app.job, app.appliedAt),
+  }))
 }
 
 interface CreateApplicationData {
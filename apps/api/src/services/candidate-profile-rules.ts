@@ -0,0 +1,166 @@
+import type { CandidateProfileInput, DegreeLevel, VisaType } from '../lib/candidate-profile'
+
+/**
+ * Share of the composite score given to how well a job fits the structured
+ * profile. The rest keeps the user's similarity/recency/sponsorship blend.
+ */
+export const PROFILE_FIT_WEIGHT = 0.15
+
+const DEGREE_LABELS: Record<DegreeLevel, string> = {
+  bachelors: "Bachelor's",
+  masters: "Master's",
+  phd: 'PhD',
+}
+
+const VISA_LABELS: Record<VisaType, string> = {
+  f1_opt: 'F-1 OPT',
+  stem_opt: 'STEM OPT extension',
+  h1b_transfer: 'H-1B transfer',
+}
+
+const REMOTE_PATTERN = /^(remote|anywhere)$/i
+
+export interface ProfileSearchPreferences {
+  /** Hard: graduates cannot take internships that require enrollment */
+  excludeInternships: boolean
+  /** Hard: jobs with a published USD salary below this are dropped */
+  salaryFloor: number | null
+  /** Soft: each list adds to the profile fit score when it matches */
+  targetRoles: string[]
+  skills: string[]
+  preferredLocations: string[]
+  remoteOk: boolean
+}
+
+function dedupe(values: string[] | undefined) {
+  const seen = new Set<string>()
+  const result: string[] = []
+  for (const value of values ?? []) {
+    const trimmed = value.trim()
+    const key = trimmed.toLowerCase()
+    if (!trimmed || seen.has(key)) continue
+    seen.add(key)
+    result.push(trimmed)
+  }
+  return result
+}
+
+/**
+ * Stores YYYY-MM as the first of the month so it fits a date column.
+ */
+export function normalizeGraduationDate(value: string | null | undefined) {
+  if (!value) return null
+  return /^\d{4}-\d{2}$/.test(value) ? `${value}-01` : value
+}
+
+export function normalizeCandidateProfile(profile: CandidateProfileInput): CandidateProfileInput {
+  return {
+    ...profile,
+    fieldOfStudy: profile.fieldOfStudy?.trim() || null,
+    graduationDate: normalizeGraduationDate(profile.graduationDate),
+    targetRoles: dedupe(profile.targetRoles),
+    skills: dedupe(profile.skills),
+    preferredLocations: dedupe(profile.preferredLocations),
+  }
+}
+
+function formatGraduation(date: string) {
+  const parsed = new Date(`${normalizeGraduationDate(date)}T00:00:00Z`)
+  if (Number.isNaN(parsed.getTime())) return date
+  return parsed.toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' })
+}
+
+/**
+ * Text embedded as the profile vector. Structured fields come first so they
+ * dominate a short description, then the resume summary if one was uploaded.
+ * Returns null when there is nothing to embed.
+ */
+export function buildProfileEmbeddingText(
+  description: string | null | undefined,
+  profile: CandidateProfileInput | null | undefined,
+  resumeSummary?: string | null
+) {
+  const lines: string[] = []
+
+  if (profile) {
+    if (profile.targetRoles.length) {
+      lines.push(`Target roles: ${profile.targetRoles.join(', ')}`)
+    }
+    if (profile.skills.length) {
+      lines.push(`Skills: ${profile.skills.join(', ')}`)
+    }
+    if (profile.degree || profile.fieldOfStudy) {
+      const degree = [profile.degree && DEGREE_LABELS[profile.degree], profile.fieldOfStudy]
+        .filter(Boolean)
+        .join(' in ')
+      const graduation = profile.graduationDate ? `, graduating ${formatGraduation(profile.graduationDate)}` : ''
+      lines.push(`Education: ${degree}${graduation}`)
+    }
+    if (profile.preferredLocations.length) {
+      lines.push(`Preferred locations: ${profile.preferredLocations.join(', ')}`)
+    }
+    if (profile.visaType) {
+      lines.push(`Work authorization: ${VISA_LABELS[profile.visaType]}, needs visa sponsorship`)
+    }
+  }
+
+  const trimmed = description?.trim()
+  if (trimmed) {
+    lines.push(trimmed)
+  }
+
+  const resume = resumeSummary?.trim()
+  if (resume) {
+    lines.push(resume)
+  }
+
+  return lines.length ? lines.join('\n') : null
+}
+
+/**
+ * Splits the structured profile into hard filters and soft preferences for
+ * search. Returns null when the profile has nothing that affects ranking.
+ */
+export function deriveSearchPreferences(
+  profile: CandidateProfileInput | null | undefined,
+  now = new Date()
+): ProfileSearchPreferences | null {
+  if (!profile) return null
+
+  const graduation = profile.graduationDate
+    ? new Date(`${normalizeGraduationDate(profile.graduationDate)}T00:00:00Z`)
+    : null
+  const locations = dedupe(profile.preferredLocations)
+
+  const preferences: ProfileSearchPreferences = {
+    excludeInternships: Boolean(graduation && graduation.getTime() <= now.getTime()),
+    salaryFloor: profile.salaryFloor && profile.salaryFloor > 0 ? profile.salaryFloor : null,
+    targetRoles: dedupe(profile.targetRoles),
+    skills: dedupe(profile.skills),
+    preferredLocations: locations.filter((location) => !REMOTE_PATTERN.test(location)),
+    remoteOk: locations.some((location) => REMOTE_PATTERN.test(location)),
+  }
+
+  return hasSearchPreferences(preferences) ? preferences : null
+}
+
+export function hasSoftPreferences(preferences: ProfileSearchPreferences) {
+  return (
+    preferences.targetRoles.length > 0 ||
+    preferences.skills.length > 0 ||
+    preferences.preferredLocations.length > 0 ||
+    preferences.remoteOk
+  )
+}
+
+function hasSearchPreferences(preferences: ProfileSearchPreferences) {
+  return preferences.excludeInternships || preferences.salaryFloor !== null || hasSoftPreferences(preferences)
+}
+
+/**
+ * Blends the weighted component score with profile fit (both 0..1).
+ */
+export function blendProfileFit(score: number, fit: number | null | undefined) {
+  if (fit === null || fit === undefined) return score
+  return (1 - PROFILE_FIT_WEIGHT) * score + PROFILE_FIT_WEIGHT * fit
+}
@@ -7,6 +7,10 @@ import {
   type CollateralHighlights,
 } from './collateral-builder'
 import { generateCollateralHighlights } from '../lib/openai'
+import { formatResumeSummary } from './resume-parser'
+
+// Keeps the resume portion of the prompt well inside the model's context
+const PROMPT_RESUME_CHARS = 3000
 
 export async function generateLatexCollateral(user: AuthUserContext, jobId: string) {
   const job = await getJobById(jobId)
@@ -15,7 +19,9 @@ export async function generateLatexCollateral(user: AuthUserContext, jobId: stri
   }
 
   const profile = await getUserProfile(user.authId)
-  const profileDescription = profile?.profileDescription ?? null
+  const resume = profile?.resume?.parsed ?? null
+  // Fall back to the resume's own summary when nothing was typed
+  const profileDescription = profile?.profileDescription ?? resume?.summary ?? null
 
   let highlights: CollateralHighlights
   try {
@@ -25,6 +31,7 @@ export async function generateLatexCollateral(user: AuthUserContext, jobId: stri
         company: job.company,
         jobDescription: job.description ?? '',
         profileSummary: profileDescription ?? '',
+        resumeSummary: resume ? formatResumeSummary(resume, PROMPT_RESUME_CHARS) : undefined,
       })) ?? defaultHighlights(profileDescription, job.title, job.company)
   } catch (error) {
     console.error('Failed to generate AI collateral highlights:', error)
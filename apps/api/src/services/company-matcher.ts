@@ -0,0 +1,318 @@
+import { normalizeCompanyName } from '../lib/normalize'
+
+/**
+ * Fuzzy employer-name matching for linking postings to visa sponsors.
+ * Names are reduced to a core (legal suffixes and a leading "the" dropped,
+ * initials joined), then compared by exact core, acronym, weighted token
+ * overlap and character trigrams. Brand renames such as Facebook → Meta
+ * Platforms can only match through a sponsor's aliases.
+ */
+
+export const LEGAL_SUFFIXES = new Set([
+  'inc',
+  'incorporated',
+  'llc',
+  'llp',
+  'lp',
+  'ltd',
+  'limited',
+  'corp',
+  'corporation',
+  'co',
+  'company',
+  'plc',
+  'pc',
+  'pllc',
+  'gmbh',
+  'ag',
+  'sa',
+  'bv',
+  'nv',
+  'pte',
+  'pvt',
+])
+
+// Words that say little about which company a name refers to
+const GENERIC_TOKENS = new Set([
+  'and',
+  'of',
+  'the',
+  'com',
+  'group',
+  'holdings',
+  'holding',
+  'technologies',
+  'technology',
+  'tech',
+  'services',
+  'service',
+  'solutions',
+  'systems',
+  'software',
+  'labs',
+  'platforms',
+  'international',
+  'global',
+  'usa',
+  'us',
+  'america',
+  'americas',
+  'north',
+])
+const GENERIC_WEIGHT = 0.25
+
+const ACRONYM_SKIP = new Set(['and', 'of', 'the', 'for', 'us', 'usa'])
+
+/** At or above this a match is trusted enough to be learned as an alias */
+export const ACCEPT_MATCH_CONFIDENCE = 0.85
+/** Below this nothing is linked */
+export const MIN_MATCH_CONFIDENCE = 0.6
+// Acronyms collide often ("GE", "EY"), so they never clear the accept bar alone
+const ACRONYM_CONFIDENCE = 0.8
+// Share of the input's trigrams a name must have to be scored on spelling alone
+const TRIGRAM_PREFILTER = 0.4
+// A different sponsor scoring this close to the best makes the match ambiguous
+const AMBIGUITY_MARGIN = 0.05
+
+export type CompanyMatchMethod = 'exact' | 'alias' | 'acronym' | 'fuzzy'
+
+export interface CompanyCandidate {
+  companyName: string
+  normalizedName?: string | null
+  aliases?: string[] | null
+}
+
+export interface CompanyMatch<T> {
+  candidate: T
+  /** 0–1 */
+  confidence: number
+  method: CompanyMatchMethod
+  /** The sponsor name or alias the input matched */
+  matchedName: string
+}
+
+interface IndexedName<T> {
+  candidate: T
+  name: string
+  isAlias: boolean
+  core: string
+  compact: string
+  tokens: string[]
+  acronym: string | null
+  trigrams: Set<string>
+}
+
+export interface CompanyIndex<T> {
+  byCompact: Map<string, IndexedName<T>[]>
+  byToken: Map<string, IndexedName<T>[]>
+  byAcronym: Map<string, IndexedName<T>[]>
+  byTrigram: Map<string, IndexedName<T>[]>
+}
+
+/**
+ * Core of a company name for comparison: "The J.P. Morgan Chase & Co." →
+ * "jp morgan chase". Dotted initials are joined first so "U.S." and
+ * "L.L.C." survive punctuation stripping as one token each.
+ */
+export function companyCoreName(name: string) {
+  const spelled = name.replace(/\b(?:[a-z]\.){2,}/gi, (initials) => ` ${initials.replace(/\./g, '')} `).replace(/&/g, ' and ')
+  const tokens = normalizeCompanyName(spelled).split(' ').filter(Boolean)
+
+  if (tokens.length > 1 && tokens[0] === 'the') tokens.shift()
+  while (tokens.length > 1 && (LEGAL_SUFFIXES.has(tokens[tokens.length - 1]) || tokens[tokens.length - 1] === 'and')) {
+    tokens.pop()
+  }
+  return tokens.join(' ')
+}
+
+function isDistinctive(token: string) {
+  return !GENERIC_TOKENS.has(token)
+}
+
+function tokenWeight(token: string) {
+  return isDistinctive(token) ? 1 : GENERIC_WEIGHT
+}
+
+function acronymOf(tokens: string[]) {
+  const initials = tokens.filter((token) => !ACRONYM_SKIP.has(token))
+  return initials.length >= 2 ? initials.map((token) => token[0]).join('') : null
+}
+
+function trigramsOf(compact: string) {
+  const padded = `  ${compact} `
+  const trigrams = new Set<string>()
+  for (let i = 0; i < padded.length - 2; i += 1) {
+    trigrams.add(padded.slice(i, i + 3))
+  }
+  return trigrams
+}
+
+/** Dice coefficient over padded character trigrams, as pg_trgm does */
+export function trigramSimilarity(a: string, b: string) {
+  const left = trigramsOf(companyCoreName(a).replace(/ /g, ''))
+  const right = trigramsOf(companyCoreName(b).replace(/ /g, ''))
+  return diceOf(left, right)
+}
+
+function diceOf(left: Set<string>, right: Set<string>) {
+  if (!left.size || !right.size) return 0
+  let shared = 0
+  for (const trigram of left) {
+    if (right.has(trigram)) shared += 1
+  }
+  return (2 * shared) / (left.size + right.size)
+}
+
+/**
+ * Weighted token overlap, averaging Jaccard with containment so a posting
+ * that adds a word to the sponsor's name ("Stripe Payments" vs "Stripe")
+ * still scores well. Needs at least one shared distinctive token.
+ */
+function tokenSimilarity(left: string[], right: string[]) {
+  const rightSet = new Set(right)
+  let shared = 0
+  let sharedDistinctive = false
+  for (const token of new Set(left)) {
+    if (!rightSet.has(token)) continue
+    shared += tokenWeight(token)
+    if (isDistinctive(token)) sharedDistinctive = true
+  }
+  if (!sharedDistinctive) return 0
+
+  const weigh = (tokens: Iterable<string>) => [...new Set(tokens)].reduce((sum, token) => sum + tokenWeight(token), 0)
+  const leftWeight = weigh(left)
+  const rightWeight = weigh(right)
+  const jaccard = shared / (leftWeight + rightWeight - shared)
+  const containment = shared / Math.min(leftWeight, rightWeight)
+  return (jaccard + containment) / 2
+}
+
+function indexName<T>(candidate: T, name: string, isAlias: boolean): IndexedName<T> | null {
+  const core = companyCoreName(name)
+  if (!core) return null
+  const tokens = core.split(' ')
+  const compact = tokens.join('')
+  return { candidate, name, isAlias, core, compact, tokens, acronym: acronymOf(tokens), trigrams: trigramsOf(compact) }
+}
+
+function push<K, V>(map: Map<K, V[]>, key: K, value: V) {
+  const list = map.get(key)
+  if (list) list.push(value)
+  else map.set(key, [value])
+}
+
+export function createCompanyIndex<T>(): CompanyIndex<T> {
+  return { byCompact: new Map(), byToken: new Map(), byAcronym: new Map(), byTrigram: new Map() }
+}
+
+export function addCompanyName<T>(index: CompanyIndex<T>, candidate: T, name: string, isAlias = true) {
+  const entry = indexName(candidate, name, isAlias)
+  if (!entry) return
+  push(index.byCompact, entry.compact, entry)
+  for (const token of new Set(entry.tokens)) {
+    if (isDistinctive(token)) push(index.byToken, token, entry)
+  }
+  if (entry.acronym) push(index.byAcronym, entry.acronym, entry)
+  for (const trigram of entry.trigrams) push(index.byTrigram, trigram, entry)
+}
+
+/**
+ * Indexes each candidate under its company name, stored normalized name and
+ * every alias.
+ */
+export function buildCompanyIndex<T extends CompanyCandidate>(candidates: T[]): CompanyIndex<T> {
+  const index = createCompanyIndex<T>()
+  for (const candidate of candidates) {
+    addCompanyName(index, candidate, candidate.companyName, false)
+    if (candidate.normalizedName) addCompanyName(index, candidate, candidate.normalizedName, false)
+    for (const alias of candidate.aliases ?? []) {
+      addCompanyName(index, candidate, alias)
+    }
+  }
+  return index
+}
+
+function scoreEntry<T>(query: IndexedName<T | null>, entry: IndexedName<T>) {
+  const fuzzy = Math.max(tokenSimilarity(query.tokens, entry.tokens), diceOf(query.trigrams, entry.trigrams))
+  if (query.tokens.length === 1 && query.compact === entry.acronym && fuzzy < ACRONYM_CONFIDENCE) {
+    return { confidence: ACRONYM_CONFIDENCE, method: 'acronym' as const }
+  }
+  if (entry.tokens.length === 1 && entry.compact === query.acronym && fuzzy < ACRONYM_CONFIDENCE) {
+    return { confidence: ACRONYM_CONFIDENCE, method: 'acronym' as const }
+  }
+  return { confidence: fuzzy, method: 'fuzzy' as const }
+}
+
+/**
+ * Candidates for a company name, best first, down to MIN_MATCH_CONFIDENCE.
+ * Exact core matches (ignoring spaces, so "JPMorgan" meets "J.P. Morgan")
+ * score 1 and end the search; otherwise candidates sharing a distinctive
+ * token, an acronym or enough trigrams are scored.
+ */
+export function rankCompanyMatches<T>(name: string, index: CompanyIndex<T>, limit = 3): CompanyMatch<T>[] {
+  const query = indexName<T | null>(null, name, false)
+  if (!query) return []
+
+  const exact = index.byCompact.get(query.compact)
+  if (exact?.length) {
+    // Prefer the sponsor's own name over an alias another sponsor also carries
+    const entry = exact.find((candidate) => !candidate.isAlias) ?? exact[0]
+    return [{ candidate: entry.candidate, confidence: 1, method: entry.isAlias ? 'alias' : 'exact', matchedName: entry.name }]
+  }
+
+  const pool = new Set<IndexedName<T>>()
+  for (const token of query.tokens) {
+    for (const entry of index.byToken.get(token) ?? []) pool.add(entry)
+  }
+  if (query.tokens.length === 1) {
+    for (const entry of index.byAcronym.get(query.compact) ?? []) pool.add(entry)
+  }
+  if (query.acronym) {
+    for (const entry of index.byCompact.get(query.acronym) ?? []) pool.add(entry)
+  }
+  // Misspellings share no token, so also take names close on trigrams
+  const sharedTrigrams = new Map<IndexedName<T>, number>()
+  for (const trigram of query.trigrams) {
+    for (const entry of index.byTrigram.get(trigram) ?? []) {
+      sharedTrigrams.set(entry, (sharedTrigrams.get(entry) ?? 0) + 1)
+    }
+  }
+  for (const [entry, shared] of sharedTrigrams) {
+    if (shared >= query.trigrams.size * TRIGRAM_PREFILTER) pool.add(entry)
+  }
+
+  // Each candidate keeps its best-scoring name
+  const byCandidate = new Map<T, CompanyMatch<T>>()
+  for (const entry of pool) {
+    const { confidence, method } = scoreEntry(query, entry)
+    const current = byCandidate.get(entry.candidate)
+    if (!current || confidence > current.confidence) {
+      byCandidate.set(entry.candidate, { candidate: entry.candidate, confidence, method, matchedName: entry.name })
+    }
+  }
+
+  return [...byCandidate.values()]
+    .filter((match) => match.confidence >= MIN_MATCH_CONFIDENCE)
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, limit)
+    .map((match) => ({ ...match, confidence: Math.round(match.confidence * 100) / 100 }))
+}
+
+/**
+ * The top ranked candidate, with its confidence capped below
+ * ACCEPT_MATCH_CONFIDENCE when a different candidate scored within a hair
+ * of it.
+ */
+export function pickCompanyMatch<T>(ranked: CompanyMatch<T>[]): CompanyMatch<T> | null {
+  const [best, runnerUp] = ranked
+  if (!best) return null
+  if (runnerUp && best.confidence - runnerUp.confidence < AMBIGUITY_MARGIN) {
+    return { ...best, confidence: Math.min(best.confidence, ACCEPT_MATCH_CONFIDENCE - 0.01) }
+  }
+  return best
+}
+
+/** Best candidate for a company name, or null below MIN_MATCH_CONFIDENCE */
+export function matchCompany<T>(name: string, index: CompanyIndex<T>): CompanyMatch<T> | null {
+  return pickCompanyMatch(rankCompanyMatches(name, index, 2))
+}
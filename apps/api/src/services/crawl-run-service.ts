@@ -0,0 +1,148 @@
+import { desc, eq } from 'drizzle-orm'
+import { db } from '../db'
+import { crawlRuns, crawlSourceResults } from '../db/schema'
+
+const MAX_ERRORS_PER_SOURCE = 20
+const MAX_ERROR_LENGTH = 500
+
+export type CrawlRunStatus = 'running' | 'succeeded' | 'partial' | 'failed'
+
+/**
+ * In-memory counters a crawler fills in while processing one source
+ * (a GitHub README, a Lever board, a Workday tenant, ...).
+ */
+export interface CrawlSourceStats {
+  source: string
+  platform: string
+  startedAt: Date
+  finishedAt?: Date
+  jobsSeen: number
+  jobsInserted: number
+  jobsUpdated: number
+  /** Seen again with an identical content hash; enrichment and embedding were skipped. */
+  jobsUnchanged: number
+  jobsDeactivated: number
+  httpFailures: number
+  errors: string[]
+}
+
+export function createSourceStats(source: string, platform: string): CrawlSourceStats {
+  return {
+    source,
+    platform,
+    startedAt: new Date(),
+    jobsSeen: 0,
+    jobsInserted: 0,
+    jobsUpdated: 0,
+    jobsUnchanged: 0,
+    jobsDeactivated: 0,
+    httpFailures: 0,
+    errors: [],
+  }
+}
+
+export function recordSourceError(stats: CrawlSourceStats, error: unknown) {
+  if (stats.errors.length >= MAX_ERRORS_PER_SOURCE) return
+  const message = error instanceof Error ? error.message : String(error)
+  stats.errors.push(message.slice(0, MAX_ERROR_LENGTH))
+}
+
+export async function startCrawlRun(crawler: string) {
+  const [run] = await db.insert(crawlRuns).values({ crawler }).returning({ id: crawlRuns.id })
+  return run.id
+}
+
+function deriveStatus(sources: CrawlSourceStats[], fatalError?: unknown): CrawlRunStatus {
+  if (fatalError) return 'failed'
+  const hasProblems = sources.some((source) => source.errors.length > 0 || source.httpFailures > 0)
+  return hasProblems ? 'partial' : 'succeeded'
+}
+
+/**
+ * Persists per-source results and rolls them up onto the run row.
+ */
+export async function finishCrawlRun(runId: string, sources: CrawlSourceStats[], fatalError?: unknown) {
+  const finishedAt = new Date()
+
+  if (sources.length) {
+    await db.insert(crawlSourceResults).values(
+      sources.map((source) => ({
+        runId,
+        source: source.source,
+        platform: source.platform,
+        startedAt: source.startedAt,
+        finishedAt: source.finishedAt ?? finishedAt,
+        jobsSeen: source.jobsSeen,
+        jobsInserted: source.jobsInserted,
+        jobsUpdated: source.jobsUpdated,
+        jobsUnchanged: source.jobsUnchanged,
+        jobsDeactivated: source.jobsDeactivated,
+        httpFailures: source.httpFailures,
+        errors: source.errors.length ? source.errors : null,
+      }))
+    )
+  }
+
+  const sum = (pick: (source: CrawlSourceStats) => number) =>
+    sources.reduce((total, source) => total + pick(source), 0)
+
+  await db
+    .update(crawlRuns)
+    .set({
+      status: deriveStatus(sources, fatalError),
+      finishedAt,
+      jobsSeen: sum((source) => source.jobsSeen),
+      jobsInserted: sum((source) => source.jobsInserted),
+      jobsUpdated: sum((source) => source.jobsUpdated),
+      jobsUnchanged: sum((source) => source.jobsUnchanged),
+      jobsDeactivated: sum((source) => source.jobsDeactivated),
+      httpFailures: sum((source) => source.httpFailures),
+      errorCount: sum((source) => source.errors.length),
+      errorMessage: fatalError
+        ? (fatalError instanceof Error ? fatalError.message : String(fatalError)).slice(0, MAX_ERROR_LENGTH)
+        : null,
+    })
+    .where(eq(crawlRuns.id, runId))
+}
+
+interface ListCrawlRunsParams {
+  crawler?: string
+  limit?: number
+}
+
+export async function listCrawlRuns({ crawler, limit = 20 }: ListCrawlRunsParams = {}) {
+  return db
+    .select()
+    .from(crawlRuns)
+    .where(crawler ? eq(crawlRuns.crawler, crawler) : undefined)
+    .orderBy(desc(crawlRuns.startedAt))
+    .limit(limit)
+}
+
+export async function getCrawlRun(id: string) {
+  const [run] = await db.select().from(crawlRuns).where(eq(crawlRuns.id, id)).limit(1)
+  if (!run) {
+    return null
+  }
+
+  const sources = await db
+    .select()
+    .from(crawlSourceResults)
+    .where(eq(crawlSourceResults.runId, id))
+    .orderBy(crawlSourceResults.source)
+
+  return { ...run, sources }
+}
+
+/**
+ * Recent results for one source, newest first. Useful for spotting a board
+ * that used to return jobs and suddenly returns none.
+ */
+export async function getSourceHistory(source: string, limit = 20) {
+  return db
+    .select()
+    .from(crawlSourceResults)
+    .where(eq(crawlSourceResults.source, source))
+    .orderBy(desc(crawlSourceResults.startedAt))
+    .limit(limit)
+}
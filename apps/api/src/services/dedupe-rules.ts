@@ -0,0 +1,167 @@
+import { normalizeCompanyName } from '../lib/normalize'
+
+const ATS_PLATFORMS = ['lever', 'greenhouse', 'smartrecruiters', 'workable', 'ashby', 'workday']
+
+const LEGAL_SUFFIXES = new Set(['inc', 'llc', 'ltd', 'corp', 'corporation', 'co', 'company', 'plc', 'gmbh', 'lp'])
+
+const TITLE_STOPWORDS = new Set(['the', 'and', 'of', 'for', 'a', 'an', 'in', 'at', 'to', 'with'])
+
+const CITY_ALIASES: Record<string, string> = {
+  nyc: 'new york',
+  'new york city': 'new york',
+  sf: 'san francisco',
+  'sf bay area': 'san francisco',
+  'san francisco bay area': 'san francisco',
+}
+
+/**
+ * Embedding similarity two postings must reach before being merged. The
+ * text differs across sources (README rows only have a meta description),
+ * so this confirms rather than discovers duplicates.
+ */
+export const DUPLICATE_SIMILARITY_THRESHOLD = 0.8
+
+export interface DedupeCandidate {
+  id: string
+  dedupeKey: string | null
+  location: string | null
+  source: string | null
+  descriptionLength: number
+  scrapedAt: Date | null
+  embedding?: number[] | null
+}
+
+function tokens(value: string) {
+  return normalizeCompanyName(value.replace(/&/g, ' and ')).split(' ').filter(Boolean)
+}
+
+function normalizeCompanyForDedupe(company: string) {
+  const words = tokens(company)
+  while (words.length > 1 && LEGAL_SUFFIXES.has(words[words.length - 1])) {
+    words.pop()
+  }
+  return words.join(' ')
+}
+
+/**
+ * Order-insensitive title fingerprint so "Software Engineer, New Grad (2025)"
+ * and "New Grad Software Engineer" land in the same bucket.
+ */
+function normalizeTitleForDedupe(title: string) {
+  const words = tokens(title).filter((word) => !TITLE_STOPWORDS.has(word) && !/^20\d\d$/.test(word))
+  return Array.from(new Set(words)).sort().join(' ')
+}
+
+export function buildDedupeKey(job: { company: string; title: string }) {
+  return `${normalizeCompanyForDedupe(job.company)}|${normalizeTitleForDedupe(job.title)}`
+}
+
+export function parseLocationSet(location: string | null | undefined) {
+  const result = new Set<string>()
+  if (!location) return result
+
+  for (const part of location.split(/\s*(?:\||;|\/|\bor\b)\s*/i)) {
+    const lower = part.toLowerCase()
+    if (!lower || lower.includes('not specified')) continue
+    if (lower.includes('remote')) {
+      result.add('remote')
+      continue
+    }
+    const city = normalizeCompanyName(lower.split(',')[0] ?? '')
+    if (city) {
+      result.add(CITY_ALIASES[city] ?? city)
+    }
+  }
+
+  return result
+}
+
+/**
+ * Unknown locations are compatible with anything; otherwise the postings
+ * must share at least one city (or both be remote).
+ */
+export function locationsCompatible(a: string | null, b: string | null) {
+  const left = parseLocationSet(a)
+  const right = parseLocationSet(b)
+  if (!left.size || !right.size) return true
+  for (const entry of left) {
+    if (right.has(entry)) return true
+  }
+  return false
+}
+
+export function cosineSimilarity(a: number[], b: number[]) {
+  if (a.length !== b.length || !a.length) return 0
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let index = 0; index < a.length; index++) {
+    dot += a[index] * b[index]
+    normA += a[index] * a[index]
+    normB += b[index] * b[index]
+  }
+  if (!normA || !normB) return 0
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB))
+}
+
+function sourceRank(source: string | null) {
+  const platform = (source ?? '').split('_')[0].toLowerCase()
+  return ATS_PLATFORMS.includes(platform) ? 0 : 1
+}
+
+/**
+ * Canonical preference: direct ATS postings over aggregator rows, then the
+ * richer description, then whichever we saw first.
+ */
+export function compareCanonicalPriority(a: DedupeCandidate, b: DedupeCandidate) {
+  return (
+    sourceRank(a.source) - sourceRank(b.source) ||
+    b.descriptionLength - a.descriptionLength ||
+    (a.scrapedAt?.getTime() ?? Infinity) - (b.scrapedAt?.getTime() ?? Infinity) ||
+    a.id.localeCompare(b.id)
+  )
+}
+
+function isDuplicateOf(candidate: DedupeCandidate, canonical: DedupeCandidate) {
+  if (!locationsCompatible(candidate.location, canonical.location)) return false
+  if (!candidate.embedding || !canonical.embedding) return true
+  return cosineSimilarity(candidate.embedding, canonical.embedding) >= DUPLICATE_SIMILARITY_THRESHOLD
+}
+
+/**
+ * Groups candidates sharing a dedupe key into clusters and returns, for each
+ * candidate, the id of its canonical job (null when it is canonical itself).
+ * Candidates are only compared against a cluster's canonical, so a vague
+ * location cannot chain "New York" and "Seattle" postings together.
+ */
+export function assignCanonicalJobs(candidates: DedupeCandidate[]) {
+  const byKey = new Map<string, DedupeCandidate[]>()
+  const assignments = new Map<string, string | null>()
+
+  for (const candidate of candidates) {
+    assignments.set(candidate.id, null)
+    if (!candidate.dedupeKey) continue
+    const bucket = byKey.get(candidate.dedupeKey)
+    if (bucket) {
+      bucket.push(candidate)
+    } else {
+      byKey.set(candidate.dedupeKey, [candidate])
+    }
+  }
+
+  for (const bucket of byKey.values()) {
+    if (bucket.length < 2) continue
+    const canonicals: DedupeCandidate[] = []
+
+    for (const candidate of [...bucket].sort(compareCanonicalPriority)) {
+      const canonical = canonicals.find((entry) => isDuplicateOf(candidate, entry))
+      if (canonical) {
+        assignments.set(candidate.id, canonical.id)
+      } else {
+        canonicals.push(candidate)
+      }
+    }
+  }
+
+  return assignments
+}
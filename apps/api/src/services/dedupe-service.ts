@@ -0,0 +1,101 @@
+import { and, eq, inArray, isNotNull, isNull, or, sql } from 'drizzle-orm'
+import { db } from '../db'
+import { jobs } from '../db/schema'
+import { assignCanonicalJobs, buildDedupeKey } from './dedupe-rules'
+
+export interface DedupeResult {
+  candidates: number
+  duplicates: number
+  updated: number
+}
+
+async function backfillDedupeKeys() {
+  const rows = await db
+    .select({ id: jobs.id, title: jobs.title, company: jobs.company })
+    .from(jobs)
+    .where(isNull(jobs.dedupeKey))
+
+  for (const row of rows) {
+    await db.update(jobs).set({ dedupeKey: buildDedupeKey(row) }).where(eq(jobs.id, row.id))
+  }
+
+  return rows.length
+}
+
+/**
+ * Clusters active jobs that share a dedupe key and points every duplicate at
+ * its cluster's canonical job. Jobs whose cluster dissolved (the canonical
+ * expired, or titles diverged) are released back to canonical.
+ */
+export async function dedupeJobs(): Promise<DedupeResult> {
+  await backfillDedupeKeys()
+
+  const sharedKeys = db
+    .select({ dedupeKey: jobs.dedupeKey })
+    .from(jobs)
+    .where(and(eq(jobs.isActive, true), isNotNull(jobs.dedupeKey)))
+    .groupBy(jobs.dedupeKey)
+    .having(sql`count(*) > 1`)
+
+  const candidates = await db
+    .select({
+      id: jobs.id,
+      dedupeKey: jobs.dedupeKey,
+      location: jobs.location,
+      source: jobs.source,
+      descriptionLength: sql<number>`coalesce(length(${jobs.description}), 0)::int`,
+      scrapedAt: jobs.scrapedAt,
+      embedding: jobs.embedding,
+      canonicalJobId: jobs.canonicalJobId,
+    })
+    .from(jobs)
+    .where(
+      and(
+        eq(jobs.isActive, true),
+        or(inArray(jobs.dedupeKey, sharedKeys), isNotNull(jobs.canonicalJobId))
+      )
+    )
+
+  const assignments = assignCanonicalJobs(candidates)
+  let duplicates = 0
+  let updated = 0
+
+  for (const candidate of candidates) {
+    const canonicalJobId = assignments.get(candidate.id) ?? null
+    if (canonicalJobId) duplicates++
+    if (canonicalJobId === candidate.canonicalJobId) continue
+
+    await db.update(jobs).set({ canonicalJobId }).where(eq(jobs.id, candidate.id))
+    updated++
+  }
+
+  return { candidates: candidates.length, duplicates, updated }
+}
+
+export interface AlternateLink {
+  url: string
+  source: string | null
+}
+
+/**
+ * Active duplicate postings for each canonical job id, so search can show
+ * one card per role with the other places it is listed.
+ */
+export async function getAlternateLinks(canonicalJobIds: string[]) {
+  const linksByJob = new Map<string, AlternateLink[]>()
+  if (!canonicalJobIds.length) return linksByJob
+
+  const rows = await db
+    .select({ canonicalJobId: jobs.canonicalJobId, url: jobs.url, source: jobs.source })
+    .from(jobs)
+    .where(and(inArray(jobs.canonicalJobId, canonicalJobIds), eq(jobs.isActive, true)))
+
+  for (const row of rows) {
+    if (!row.canonicalJobId) continue
+    const links = linksByJob.get(row.canonicalJobId) ?? []
+    links.push({ url: row.url, source: row.source })
+    linksByJob.set(row.canonicalJobId, links)
+  }
+
+  return linksByJob
+}
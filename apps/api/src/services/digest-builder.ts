@@ -0,0 +1,156 @@
+import { escapeHtml } from '../utils/html'
+import type { VisaStatus } from './ingestion-rules'
+
+export const DIGEST_FREQUENCIES = ['daily', 'weekly', 'off'] as const
+
+export type DigestFrequency = (typeof DIGEST_FREQUENCIES)[number]
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const DIGEST_INTERVAL_MS: Record<Exclude<DigestFrequency, 'off'>, number> = {
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+}
+
+// Runs are scheduled on the hour, so allow a little slack before "due"
+const DUE_TOLERANCE_MS = 60 * 60 * 1000
+
+export const DIGEST_JOB_LIMIT = 10
+
+export const SPONSOR_FRIENDLY_STATUSES: VisaStatus[] = ['sponsor_verified', 'likely_sponsor']
+const sponsorFriendly = new Set<string>(SPONSOR_FRIENDLY_STATUSES)
+
+export interface DigestJob {
+  id: string
+  title: string
+  company: string
+  location: string | null
+  url: string
+  visaStatus?: string | null
+  matchScore?: number
+}
+
+export interface SavedSearchDigestSection {
+  name: string
+  jobs: Pick<DigestJob, 'id' | 'title' | 'company' | 'url'>[]
+}
+
+export interface DigestContent {
+  recipientEmail: string
+  since: Date
+  jobs: DigestJob[]
+  savedSearches: SavedSearchDigestSection[]
+  dashboardUrl: string
+  unsubscribeUrl: string
+  preferencesUrl: string
+}
+
+export interface RenderedEmail {
+  subject: string
+  html: string
+  text: string
+}
+
+export function isDigestDue(
+  user: { digestFrequency: string | null; lastDigestAt: Date | null },
+  now: Date
+) {
+  const frequency = user.digestFrequency as DigestFrequency | null
+  if (!frequency || frequency === 'off' || !(frequency in DIGEST_INTERVAL_MS)) {
+    return false
+  }
+  if (!user.lastDigestAt) {
+    return true
+  }
+  const elapsed = now.getTime() - user.lastDigestAt.getTime()
+  return elapsed >= DIGEST_INTERVAL_MS[frequency] - DUE_TOLERANCE_MS
+}
+
+/**
+ * Top sponsor-friendly jobs by match score; anything without a verified or
+ * likely sponsor is left for the dashboard.
+ */
+export function selectDigestJobs<T extends DigestJob>(jobs: T[], limit = DIGEST_JOB_LIMIT) {
+  return jobs
+    .filter((job) => job.visaStatus && sponsorFriendly.has(job.visaStatus))
+    .sort((a, b) => (b.matchScore ?? 0) - (a.matchScore ?? 0))
+    .slice(0, limit)
+}
+
+function formatVisaLabel(visaStatus?: string | null) {
+  return visaStatus === 'sponsor_verified' ? 'Verified sponsor' : 'Likely sponsor'
+}
+
+function formatMatch(matchScore?: number) {
+  return matchScore !== undefined ? `${Math.round(matchScore * 100)}% match` : null
+}
+
+export function renderDigestEmail(content: DigestContent): RenderedEmail {
+  const { jobs, savedSearches, since, dashboardUrl, unsubscribeUrl, preferencesUrl } = content
+  const savedCount = savedSearches.reduce((sum, section) => sum + section.jobs.length, 0)
+  const sinceLabel = since.toISOString().split('T')[0]
+
+  const subject =
+    jobs.length > 0
+      ? `${jobs.length} new sponsor-friendly ${jobs.length === 1 ? 'match' : 'matches'} for you`
+      : `${savedCount} new ${savedCount === 1 ? 'job' : 'jobs'} from your saved searches`
+
+  const textLines = [`New visa-friendly roles since ${sinceLabel}`, '']
+  for (const job of jobs) {
+    const details = [job.company, job.location, formatVisaLabel(job.visaStatus), formatMatch(job.matchScore)]
+      .filter(Boolean)
+      .join(' · ')
+    textLines.push(`- ${job.title} (${details})`, `  ${job.url}`)
+  }
+  for (const section of savedSearches) {
+    textLines.push('', `Saved search: ${section.name}`)
+    for (const job of section.jobs) {
+      textLines.push(`- ${job.title} at ${job.company}`, `  ${job.url}`)
+    }
+  }
+  textLines.push(
+    '',
+    `See everything on your dashboard: ${dashboardUrl}`,
+    `Change how often you get this email: ${preferencesUrl}`,
+    `Unsubscribe: ${unsubscribeUrl}`
+  )
+
+  const jobRows = jobs
+    .map((job) => {
+      const details = [job.company, job.location, formatVisaLabel(job.visaStatus), formatMatch(job.matchScore)]
+        .filter((value): value is string => Boolean(value))
+        .map(escapeHtml)
+        .join(' &middot; ')
+      return `<li style="margin-bottom:12px"><a href="${escapeHtml(job.url)}" style="font-weight:600;color:#0369a1">${escapeHtml(job.title)}</a><br><span style="color:#64748b;font-size:13px">${details}</span></li>`
+    })
+    .join('')
+
+  const savedSections = savedSearches
+    .map((section) => {
+      const items = section.jobs
+        .map(
+          (job) =>
+            `<li><a href="${escapeHtml(job.url)}" style="color:#0369a1">${escapeHtml(job.title)}</a> at ${escapeHtml(job.company)}</li>`
+        )
+        .join('')
+      return `<h3 style="font-size:15px;margin:20px 0 8px">Saved search: ${escapeHtml(section.name)}</h3><ul style="padding-left:18px">${items}</ul>`
+    })
+    .join('')
+
+  const html = `<!doctype html>
+<html>
+<body style="font-family:-apple-system,Segoe UI,sans-serif;color:#0f172a;max-width:600px;margin:0 auto;padding:24px">
+<h2 style="font-size:20px;margin:0 0 4px">New visa-friendly roles</h2>
+<p style="color:#64748b;font-size:13px;margin:0 0 20px">Since ${escapeHtml(sinceLabel)}</p>
+${jobRows ? `<ul style="padding-left:18px">${jobRows}</ul>` : ''}
+${savedSections}
+<p style="margin-top:24px"><a href="${escapeHtml(dashboardUrl)}" style="color:#0369a1">Open your dashboard</a></p>
+<p style="color:#94a3b8;font-size:12px;margin-top:32px">
+<a href="${escapeHtml(preferencesUrl)}" style="color:#94a3b8">Email preferences</a> &middot;
+<a href="${escapeHtml(unsubscribeUrl)}" style="color:#94a3b8">Unsubscribe</a>
+</p>
+</body>
+</html>`
+
+  return { subject, html, text: textLines.join('\n') }
+}
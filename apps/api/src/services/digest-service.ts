@@ -0,0 +1,168 @@
+import { randomBytes } from 'crypto'
+import { and, desc, eq, gt, ne, notLike } from 'drizzle-orm'
+import { db } from '../db'
+import { jobs, savedSearchMatches, savedSearches, users, User } from '../db/schema'
+import { MailMessage, MailTransport } from '../lib/mail'
+import { searchJobs } from './job-service'
+import {
+  DIGEST_INTERVAL_MS,
+  DigestFrequency,
+  SPONSOR_FRIENDLY_STATUSES,
+  SavedSearchDigestSection,
+  isDigestDue,
+  renderDigestEmail,
+  selectDigestJobs,
+} from './digest-builder'
+
+// Sponsor-friendly candidates pulled from ranked search
+const DIGEST_CANDIDATE_LIMIT = 100
+const SAVED_SEARCH_JOBS_PER_SECTION = 5
+
+function getAppUrl() {
+  return (process.env.APP_URL || 'http://localhost:5173').replace(/\/+$/, '')
+}
+
+export function buildUnsubscribeUrl(token: string) {
+  return `${getAppUrl()}/api/digest/unsubscribe?token=${encodeURIComponent(token)}`
+}
+
+async function ensureUnsubscribeToken(user: User) {
+  if (user.unsubscribeToken) {
+    return user.unsubscribeToken
+  }
+
+  const token = randomBytes(24).toString('base64url')
+  await db.update(users).set({ unsubscribeToken: token }).where(eq(users.id, user.id))
+  return token
+}
+
+async function loadSavedSearchSections(userId: string, since: Date): Promise<SavedSearchDigestSection[]> {
+  const rows = await db
+    .select({
+      savedSearchId: savedSearches.id,
+      name: savedSearches.name,
+      job: {
+        id: jobs.id,
+        title: jobs.title,
+        company: jobs.company,
+        url: jobs.url,
+      },
+    })
+    .from(savedSearchMatches)
+    .innerJoin(savedSearches, eq(savedSearchMatches.savedSearchId, savedSearches.id))
+    .innerJoin(jobs, eq(savedSearchMatches.jobId, jobs.id))
+    .where(and(eq(savedSearches.userId, userId), gt(savedSearchMatches.matchedAt, since)))
+    .orderBy(desc(savedSearchMatches.matchScore))
+
+  const sections = new Map<string, SavedSearchDigestSection>()
+  for (const row of rows) {
+    const section = sections.get(row.savedSearchId) ?? { name: row.name, jobs: [] }
+    if (section.jobs.length < SAVED_SEARCH_JOBS_PER_SECTION) {
+      section.jobs.push(row.job)
+    }
+    sections.set(row.savedSearchId, section)
+  }
+  return Array.from(sections.values())
+}
+
+/**
+ * Renders the user's digest covering everything since their last one, or
+ * null when there is nothing worth sending.
+ */
+export async function buildDigestForUser(user: User, now = new Date()): Promise<MailMessage | null> {
+  const frequency = (user.digestFrequency === 'daily' ? 'daily' : 'weekly') as Exclude<DigestFrequency, 'off'>
+  const since = user.lastDigestAt ?? new Date(now.getTime() - DIGEST_INTERVAL_MS[frequency])
+
+  const page = await searchJobs({
+    userId: user.id,
+    scrapedAfter: since,
+    visaStatuses: SPONSOR_FRIENDLY_STATUSES,
+    limit: DIGEST_CANDIDATE_LIMIT,
+  })
+  const digestJobs = selectDigestJobs(page.jobs)
+  const sections = await loadSavedSearchSections(user.id, since)
+
+  if (!digestJobs.length && !sections.length) {
+    return null
+  }
+
+  const unsubscribeUrl = buildUnsubscribeUrl(await ensureUnsubscribeToken(user))
+  const email = renderDigestEmail({
+    recipientEmail: user.email,
+    since,
+    jobs: digestJobs,
+    savedSearches: sections,
+    dashboardUrl: `${getAppUrl()}/dashboard`,
+    preferencesUrl: `${getAppUrl()}/profile`,
+    unsubscribeUrl,
+  })
+
+  return {
+    to: user.email,
+    ...email,
+    headers: {
+      'List-Unsubscribe': `<${unsubscribeUrl}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    },
+  }
+}
+
+export interface DigestRunResult {
+  checked: number
+  sent: number
+  empty: number
+  failures: { userId: string; error: string }[]
+}
+
+export async function sendDueDigests(transport: MailTransport, now = new Date()): Promise<DigestRunResult> {
+  const recipients = await db
+    .select()
+    .from(users)
+    .where(and(ne(users.digestFrequency, 'off'), notLike(users.email, '%@placeholder.supabase.local')))
+
+  const result: DigestRunResult = { checked: 0, sent: 0, empty: 0, failures: [] }
+
+  for (const user of recipients) {
+    if (!isDigestDue(user, now)) continue
+    result.checked++
+
+    try {
+      const message = await buildDigestForUser(user, now)
+      if (!message) {
+        result.empty++
+        continue
+      }
+
+      await transport.send(message)
+      await db.update(users).set({ lastDigestAt: now }).where(eq(users.id, user.id))
+      result.sent++
+    } catch (error) {
+      result.failures.push({
+        userId: user.id,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+  }
+
+  return result
+}
+
+export async function unsubscribeByToken(token: string) {
+  const updated = await db
+    .update(users)
+    .set({ digestFrequency: 'off' })
+    .where(eq(users.unsubscribeToken, token))
+    .returning({ id: users.id })
+
+  return updated.length > 0
+}
+
+export async function updateDigestFrequency(userId: string, frequency: DigestFrequency) {
+  const [updated] = await db
+    .update(users)
+    .set({ digestFrequency: frequency })
+    .where(eq(users.id, userId))
+    .returning({ digestFrequency: users.digestFrequency, lastDigestAt: users.lastDigestAt })
+
+  return updated ?? null
+}
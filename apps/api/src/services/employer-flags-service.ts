@@ -0,0 +1,89 @@
+import { eq } from 'drizzle-orm'
+import { db } from '../db'
+import { visaSponsors } from '../db/schema'
+import { EVerifyEntry, classifyCapExempt, indexEVerifyEntries, lookupEVerify } from './employer-flags'
+
+export interface FlagUpdateResult {
+  checked: number
+  matched: number
+  updated: number
+}
+
+function sponsorNames(sponsor: { companyName: string; aliases: string[] | null }) {
+  return [sponsor.companyName, ...(sponsor.aliases ?? [])]
+}
+
+/**
+ * Sets e_verify_enrolled on every sponsor found in the list. Sponsors the
+ * list does not mention keep their current value rather than becoming false,
+ * since a missed name match is far more likely than a missing employer.
+ */
+export async function applyEVerifyList(entries: EVerifyEntry[]): Promise<FlagUpdateResult> {
+  const index = indexEVerifyEntries(entries)
+  const sponsors = await db
+    .select({
+      id: visaSponsors.id,
+      companyName: visaSponsors.companyName,
+      aliases: visaSponsors.aliases,
+      eVerifyEnrolled: visaSponsors.eVerifyEnrolled,
+    })
+    .from(visaSponsors)
+
+  let matched = 0
+  let updated = 0
+  for (const sponsor of sponsors) {
+    const enrolled = lookupEVerify(index, sponsorNames(sponsor))
+    if (enrolled === null) continue
+    matched += 1
+    if (enrolled === sponsor.eVerifyEnrolled) continue
+
+    await db
+      .update(visaSponsors)
+      .set({ eVerifyEnrolled: enrolled, updatedAt: new Date() })
+      .where(eq(visaSponsors.id, sponsor.id))
+    updated += 1
+  }
+
+  return { checked: sponsors.length, matched, updated }
+}
+
+/**
+ * Re-runs the cap-exempt classifier over every sponsor using the USCIS
+ * industry (and NAICS code when present) kept in metadata. The reason is
+ * stored next to it so a wrong call is easy to trace.
+ */
+export async function classifySponsorsCapExempt(): Promise<FlagUpdateResult> {
+  const sponsors = await db
+    .select({
+      id: visaSponsors.id,
+      companyName: visaSponsors.companyName,
+      capExempt: visaSponsors.capExempt,
+      metadata: visaSponsors.metadata,
+    })
+    .from(visaSponsors)
+
+  let matched = 0
+  let updated = 0
+  for (const sponsor of sponsors) {
+    const metadata = (sponsor.metadata ?? {}) as Record<string, unknown>
+    const classification = classifyCapExempt({
+      companyName: sponsor.companyName,
+      industry: typeof metadata.industry === 'string' ? metadata.industry : null,
+      naicsCode: typeof metadata.naicsCode === 'string' ? metadata.naicsCode : null,
+    })
+    if (classification.capExempt) matched += 1
+    if (classification.capExempt === sponsor.capExempt && metadata.capExemptReason === classification.reason) continue
+
+    await db
+      .update(visaSponsors)
+      .set({
+        capExempt: classification.capExempt,
+        metadata: { ...metadata, capExemptReason: classification.reason },
+        updatedAt: new Date(),
+      })
+      .where(eq(visaSponsors.id, sponsor.id))
+    updated += 1
+  }
+
+  return { checked: sponsors.length, matched, updated }
+}
@@ -0,0 +1,154 @@
+import { normalizeCompanyName } from '../lib/normalize'
+import { LEGAL_SUFFIXES } from './company-matcher'
+
+/**
+ * Employer flags that matter for F-1 candidates beyond plain sponsorship:
+ * E-Verify enrollment (required to employ someone on STEM OPT) and H-1B cap
+ * exemption (universities and nonprofit research orgs skip the lottery).
+ */
+
+/**
+ * Normalized name with trailing legal suffixes dropped, so "Acme, Inc." on
+ * one list lines up with "ACME LLC" on another.
+ */
+export function employerMatchKey(name: string) {
+  const tokens = normalizeCompanyName(name).split(' ').filter(Boolean)
+  while (tokens.length > 1 && LEGAL_SUFFIXES.has(tokens[tokens.length - 1])) {
+    tokens.pop()
+  }
+  return tokens.join(' ')
+}
+
+export interface EVerifyEntry {
+  employerName: string
+  doingBusinessAs: string | null
+  enrolled: boolean
+}
+
+function findColumn(record: Record<string, string>, predicate: (key: string) => boolean) {
+  for (const [rawKey, value] of Object.entries(record)) {
+    if (predicate(rawKey.trim().toLowerCase())) {
+      return value?.trim() || null
+    }
+  }
+  return null
+}
+
+const INACTIVE_STATUS = /terminat|closed|inactive|suspend/i
+
+/**
+ * Maps one row of the E-Verify employer list onto an entry. Column names
+ * vary between exports, so they are matched loosely. Accounts that were
+ * terminated or closed no longer count as enrolled.
+ */
+export function parseEVerifyRow(record: Record<string, string>): EVerifyEntry | null {
+  const employerName =
+    findColumn(record, (key) => key === 'employer name' || key === 'employer' || key === 'company name') ??
+    findColumn(record, (key) => key.includes('employer') && key.includes('name'))
+  if (!employerName) return null
+
+  const doingBusinessAs = findColumn(record, (key) => key.includes('doing business') || key === 'dba')
+  const status = findColumn(record, (key) => key.includes('status'))
+  const terminatedOn = findColumn(record, (key) => key.includes('termination') && key.includes('date'))
+
+  return {
+    employerName,
+    doingBusinessAs,
+    enrolled: !terminatedOn && !(status && INACTIVE_STATUS.test(status)),
+  }
+}
+
+/**
+ * Folds list entries into one flag per match key. An employer with any
+ * active account is enrolled even if older accounts were closed.
+ */
+export function indexEVerifyEntries(entries: EVerifyEntry[]) {
+  const index = new Map<string, boolean>()
+  for (const entry of entries) {
+    for (const name of [entry.employerName, entry.doingBusinessAs]) {
+      if (!name) continue
+      const key = employerMatchKey(name)
+      if (!key) continue
+      index.set(key, (index.get(key) ?? false) || entry.enrolled)
+    }
+  }
+  return index
+}
+
+/**
+ * E-Verify flag for a sponsor, trying its name then each alias. Null when
+ * the sponsor is not on the list at all.
+ */
+export function lookupEVerify(index: Map<string, boolean>, names: Array<string | null | undefined>) {
+  let found: boolean | null = null
+  for (const name of names) {
+    if (!name) continue
+    const enrolled = index.get(employerMatchKey(name))
+    if (enrolled === undefined) continue
+    if (enrolled) return true
+    found = false
+  }
+  return found
+}
+
+export interface CapExemptInput {
+  companyName: string
+  industry?: string | null
+  naicsCode?: string | null
+}
+
+export interface CapExemptClassification {
+  /** null when nothing points either way */
+  capExempt: boolean | null
+  reason: string
+}
+
+// 6113: colleges, universities and professional schools
+const HIGHER_EDUCATION_NAICS = /^6113/
+// 5417: scientific research and development services
+const RESEARCH_NAICS = /^5417/
+
+const HIGHER_EDUCATION_NAME = /\b(university|college|institute of technology|polytechnic|school of medicine)\b/
+const RESEARCH_NAME =
+  /\b(national laborator(y|ies)|research (institute|foundation|center)|medical center|cancer center|children s hospital|howard hughes|smithsonian|national institutes? of health)\b/
+const NONPROFIT_NAME = /\b(foundation|nonprofit|non profit|trust|society|association)\b/
+const FOR_PROFIT_SUFFIX = /\b(inc|incorporated|llc|llp|ltd|corp|corporation|plc)$/
+
+/**
+ * Heuristic cap-exempt classifier. Institutions of higher education and the
+ * nonprofit research orgs affiliated with them are exempt by statute; names
+ * with a for-profit suffix are ruled out even in educational industries
+ * (for-profit training companies, ed-tech).
+ */
+export function classifyCapExempt(input: CapExemptInput): CapExemptClassification {
+  const name = normalizeCompanyName(input.companyName)
+  const industry = input.industry?.toLowerCase() ?? ''
+  const naics = input.naicsCode?.trim() ?? ''
+
+  if (FOR_PROFIT_SUFFIX.test(name)) {
+    return { capExempt: false, reason: 'For-profit legal suffix' }
+  }
+
+  const educationIndustry = HIGHER_EDUCATION_NAICS.test(naics) || industry.includes('educational services')
+
+  if (HIGHER_EDUCATION_NAME.test(name)) {
+    return {
+      capExempt: true,
+      reason: educationIndustry ? 'Higher education institution (industry and name)' : 'Higher education institution (name)',
+    }
+  }
+
+  if (RESEARCH_NAME.test(name)) {
+    return { capExempt: true, reason: 'Nonprofit or governmental research organization (name)' }
+  }
+
+  if (RESEARCH_NAICS.test(naics) && NONPROFIT_NAME.test(name)) {
+    return { capExempt: true, reason: 'Nonprofit research organization (NAICS and name)' }
+  }
+
+  if (educationIndustry) {
+    return { capExempt: null, reason: 'Educational industry but not clearly a college or university' }
+  }
+
+  return { capExempt: false, reason: 'No cap-exempt signals' }
+}
@@ -0,0 +1,232 @@
+import { createHash } from 'crypto'
+import { normalizeCompanyName } from '../lib/normalize'
+import {
+  ACCEPT_MATCH_CONFIDENCE,
+  CompanyIndex,
+  CompanyMatch,
+  addCompanyName,
+  createCompanyIndex,
+  matchCompany,
+  pickCompanyMatch,
+  rankCompanyMatches,
+} from './company-matcher'
+import {
+  SponsorReviewCandidate,
+  SponsorReviewReason,
+  SponsorReviewStatus,
+  sponsorReviewReasons,
+  toReviewCandidates,
+} from './sponsor-review-rules'
+import { PostingVisaStance, applyPostingStance } from './visa-language'
+
+/** no_sponsorship only comes from the posting's own wording, see visa-language */
+export type VisaStatus = 'sponsor_verified' | 'likely_sponsor' | 'unknown' | 'no_sponsorship'
+
+/**
+ * Sponsorship confidence cut-offs used everywhere a job's visa status is
+ * derived: crawlers, on-demand sponsor linking and the backfill script.
+ */
+export const VISA_STATUS_THRESHOLDS = {
+  verified: 80,
+  likely: 50,
+} as const
+
+export function deriveVisaStatus(confidence: number | null | undefined): VisaStatus {
+  if (confidence == null) return 'unknown'
+  if (confidence >= VISA_STATUS_THRESHOLDS.verified) return 'sponsor_verified'
+  if (confidence >= VISA_STATUS_THRESHOLDS.likely) return 'likely_sponsor'
+  return 'unknown'
+}
+
+export interface SponsorMatch {
+  id: string
+  companyName: string
+  sponsorshipConfidence: number
+  sponsorshipTypes?: string[]
+  lastYearSponsored?: number
+}
+
+export interface SponsorRow {
+  id: string
+  companyName: string
+  normalizedName?: string | null
+  aliases?: string[] | null
+  sponsorshipConfidence?: number | null
+  sponsorshipTypes?: string[] | null
+  lastYearSponsored?: number | null
+}
+
+/** A reviewer's call on a company name, reused by every later crawl */
+export interface SponsorDecision {
+  normalizedCompany: string
+  status: SponsorReviewStatus
+  visaSponsorId: string | null
+}
+
+export interface SponsorIndex {
+  sponsors: SponsorMatch[]
+  byId: Map<string, SponsorMatch>
+  names: CompanyIndex<SponsorMatch>
+  decisions: Map<string, SponsorDecision>
+}
+
+/**
+ * Indexes sponsors by company name, stored normalized name and every alias,
+ * along with review decisions keyed by normalized company name.
+ */
+export function buildSponsorIndex(rows: SponsorRow[], decisions: SponsorDecision[] = []): SponsorIndex {
+  const sponsors: SponsorMatch[] = []
+  const byId = new Map<string, SponsorMatch>()
+  const names = createCompanyIndex<SponsorMatch>()
+
+  for (const row of rows) {
+    const sponsor: SponsorMatch = {
+      id: row.id,
+      companyName: row.companyName,
+      sponsorshipConfidence: row.sponsorshipConfidence ?? 0,
+      sponsorshipTypes: row.sponsorshipTypes ?? [],
+      lastYearSponsored: row.lastYearSponsored ?? undefined,
+    }
+    sponsors.push(sponsor)
+    byId.set(sponsor.id, sponsor)
+
+    addCompanyName(names, sponsor, row.companyName, false)
+    if (row.normalizedName) addCompanyName(names, sponsor, row.normalizedName, false)
+    for (const alias of row.aliases ?? []) {
+      addCompanyName(names, sponsor, alias)
+    }
+  }
+
+  return {
+    sponsors,
+    byId,
+    names,
+    decisions: new Map(decisions.map((decision) => [decision.normalizedCompany, decision])),
+  }
+}
+
+/**
+ * Best sponsor for a posting's company name with the match confidence; see
+ * matchCompany for how names are compared.
+ */
+export function matchSponsorWithConfidence(company: string, index: SponsorIndex): CompanyMatch<SponsorMatch> | null {
+  return matchCompany(company, index.names)
+}
+
+export function matchSponsor(company: string, index: SponsorIndex): SponsorMatch | null {
+  return matchSponsorWithConfidence(company, index)?.candidate ?? null
+}
+
+/**
+ * The alias to store for a fuzzy match confident enough to trust next time
+ * without scoring, or null. Aliases are kept normalized like normalizedName.
+ */
+export function aliasToLearn(company: string, match: CompanyMatch<SponsorMatch> | null) {
+  if (!match || match.method !== 'fuzzy' || match.confidence < ACCEPT_MATCH_CONFIDENCE) return null
+  return normalizeCompanyName(company) || null
+}
+
+export interface SponsorResolution {
+  sponsor: SponsorMatch | null
+  manualReview: boolean
+  /** Set when the company is not queued yet and should be */
+  review: { reasons: SponsorReviewReason[]; candidates: SponsorReviewCandidate[] } | null
+  learnAlias: string | null
+}
+
+/**
+ * Decides how a crawled posting is linked. A reviewer's decision wins; a
+ * company already waiting for review keeps its best guess and stays flagged;
+ * otherwise the match is flagged and queued when it is weak, contested or
+ * the name looks like a staffing agency, and a confident fuzzy match is
+ * learned as an alias.
+ */
+export function planSponsorResolution(company: string, index: SponsorIndex): SponsorResolution {
+  const decision = index.decisions.get(normalizeCompanyName(company))
+  if (decision && decision.status !== 'pending') {
+    const sponsor = decision.visaSponsorId ? index.byId.get(decision.visaSponsorId) ?? null : null
+    return { sponsor, manualReview: false, review: null, learnAlias: null }
+  }
+
+  const ranked = rankCompanyMatches(company, index.names)
+  const match = pickCompanyMatch(ranked)
+  const sponsor = match?.candidate ?? null
+  if (decision) {
+    return { sponsor, manualReview: true, review: null, learnAlias: null }
+  }
+
+  const reasons = sponsorReviewReasons(company, ranked)
+  if (reasons.length) {
+    return { sponsor, manualReview: true, review: { reasons, candidates: toReviewCandidates(ranked) }, learnAlias: null }
+  }
+  return { sponsor, manualReview: false, review: null, learnAlias: aliasToLearn(company, match) }
+}
+
+/**
+ * Visa columns written onto a job for a (possibly missing) sponsor match,
+ * with the posting's own stance applied to the status.
+ */
+export function buildSponsorFields(sponsor: SponsorMatch | null, stance?: PostingVisaStance | null) {
+  const companyStatus: VisaStatus = sponsor ? deriveVisaStatus(sponsor.sponsorshipConfidence) : 'unknown'
+  return {
+    visaSponsorId: sponsor?.id ?? null,
+    visaStatus: applyPostingStance(companyStatus, stance),
+    sponsorshipConfidence: sponsor?.sponsorshipConfidence ?? 0,
+    visaNotes: sponsor ? `Matched to ${sponsor.companyName}` : null,
+  }
+}
+
+export interface HashableJob {
+  title: string
+  company: string
+  description?: string | null
+}
+
+function normalizeHashField(value?: string | null) {
+  return (value ?? '').replace(/\s+/g, ' ').trim().toLowerCase()
+}
+
+/**
+ * Fingerprint of the fields that feed a job's embedding. Compared with the
+ * stored hash to skip page enrichment and embedding regeneration when a
+ * posting has not changed since the last crawl.
+ *
+ * Only source-provided content is hashed (for GitHub README rows that means
+ * no description), so the value is stable regardless of what enrichment returns.
+ */
+export function computeJobContentHash(job: HashableJob) {
+  return createHash('sha256')
+    .update([job.title, job.company, job.description].map(normalizeHashField).join('\u0000'))
+    .digest('hex')
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * How long a job may be missing from its source before it expires. ATS APIs
+ * are authoritative so a short grace only absorbs flaky runs; community
+ * READMEs churn formatting and get a longer window.
+ */
+export const MISSING_GRACE_DAYS: Record<string, number> = {
+  github: 30,
+  default: 3,
+}
+
+export function getMissingGraceMs(platform: string) {
+  return (MISSING_GRACE_DAYS[platform] ?? MISSING_GRACE_DAYS.default) * DAY_MS
+}
+
+export interface JobLifecycleFields {
+  isActive: boolean | null
+  expiresAt: Date | string | null
+}
+
+/**
+ * A saved job is "closed since you saved it" when it went inactive and did
+ * not already expire before the application was created.
+ */
+export function isClosedSince(job: JobLifecycleFields | null, savedAt: Date | string | null) {
+  if (!job || job.isActive !== false) return false
+  if (!job.expiresAt || !savedAt) return true
+  return new Date(job.expiresAt).getTime() >= new Date(savedAt).getTime()
+}
@@ -0,0 +1,214 @@
+import { and, eq, isNull, lte, notInArray, sql } from 'drizzle-orm'
+import { db } from '../db'
+import { jobs, visaSponsors } from '../db/schema'
+import { normalizeCompanyName } from '../lib/normalize'
+import { generateEmbedding } from '../lib/openai'
+import {
+  SponsorIndex,
+  SponsorMatch,
+  buildSponsorFields,
+  buildSponsorIndex,
+  computeJobContentHash,
+  getMissingGraceMs,
+  planSponsorResolution,
+} from './ingestion-rules'
+import { addCompanyName } from './company-matcher'
+import { recordSponsorAlias } from './sponsor-service'
+import { loadSponsorDecisions, queueSponsorReview } from './sponsor-review-service'
+import { extractPostingVisaLanguage } from './visa-language-service'
+import { buildDedupeKey } from './dedupe-rules'
+
+export interface IngestJob {
+  title: string
+  company: string
+  location: string
+  url: string
+  description?: string
+  postedAt?: Date
+  jobType?: 'new_grad' | 'internship'
+  isRemote?: boolean
+  department?: string
+  salaryRange?: string
+  salaryCurrency?: string
+}
+
+export interface PageEnrichment {
+  description?: string
+  linkActive: boolean
+}
+
+export interface UpsertJobOptions {
+  source: string
+  sponsor: SponsorMatch | null
+  /** Set when the sponsor match is waiting for an admin to confirm it */
+  manualReview?: boolean
+  /**
+   * Optional page fetch for sources that only list title/company/link.
+   * Only called when the job is new or its content hash changed.
+   */
+  enrich?: (job: IngestJob) => Promise<PageEnrichment>
+}
+
+export type UpsertOutcome = 'inserted' | 'updated' | 'unchanged'
+
+export async function loadSponsorIndex(): Promise<SponsorIndex> {
+  const rows = await db
+    .select({
+      id: visaSponsors.id,
+      companyName: visaSponsors.companyName,
+      normalizedName: visaSponsors.normalizedName,
+      aliases: visaSponsors.aliases,
+      sponsorshipConfidence: visaSponsors.sponsorshipConfidence,
+      sponsorshipTypes: visaSponsors.sponsorshipTypes,
+      lastYearSponsored: visaSponsors.lastYearSponsored,
+    })
+    .from(visaSponsors)
+
+  return buildSponsorIndex(rows, await loadSponsorDecisions())
+}
+
+/**
+ * Matches a posting's company to a sponsor (see planSponsorResolution). A
+ * confident fuzzy match is stored as an alias and a doubtful one is queued
+ * for admin review; both are mirrored in the in-memory index so the rest of
+ * the crawl reuses them. Spread the result into upsertJob's options.
+ */
+export async function resolveSponsor(
+  company: string,
+  index: SponsorIndex
+): Promise<{ sponsor: SponsorMatch | null; manualReview: boolean }> {
+  const { sponsor, manualReview, review, learnAlias } = planSponsorResolution(company, index)
+  if (sponsor && learnAlias) {
+    await recordSponsorAlias(sponsor.id, learnAlias)
+    addCompanyName(index.names, sponsor, learnAlias)
+  }
+  if (review) {
+    await queueSponsorReview(company, review)
+    const normalizedCompany = normalizeCompanyName(company)
+    index.decisions.set(normalizedCompany, { normalizedCompany, status: 'pending', visaSponsorId: null })
+  }
+  return { sponsor, manualReview }
+}
+
+/**
+ * Inserts or refreshes a crawled job keyed by URL. When the content hash is
+ * unchanged only liveness and sponsor columns are touched, keeping the stored
+ * description, embedding and visa stance. Otherwise the description is read
+ * for its own sponsorship wording, which can override the sponsor's status.
+ */
+export async function upsertJob(job: IngestJob, options: UpsertJobOptions): Promise<UpsertOutcome> {
+  const { source, sponsor, enrich } = options
+  const now = new Date()
+  const contentHash = computeJobContentHash(job)
+
+  const listingFields = {
+    location: job.location,
+    postedAt: job.postedAt,
+    lastSeenAt: now,
+    isActive: true,
+    expiresAt: null,
+    isRemote: job.isRemote ?? job.location.toLowerCase().includes('remote'),
+    jobType: job.jobType ?? 'new_grad',
+    department: job.department ?? null,
+    salaryRange: job.salaryRange ?? null,
+    salaryCurrency: job.salaryCurrency ?? null,
+    source,
+    manualReview: options.manualReview ?? false,
+  }
+
+  // A job coming back after expiring is live again; otherwise keep whatever
+  // link state enrichment or the link checker last recorded.
+  const reactivatedLink = {
+    isLinkActive: sql<boolean>`case when ${jobs.isActive} then ${jobs.isLinkActive} else true end`,
+  }
+
+  const [existing] = await db
+    .select({
+      id: jobs.id,
+      contentHash: jobs.contentHash,
+      visaStance: jobs.visaStance,
+      hasEmbedding: sql<boolean>`${jobs.embedding} is not null`,
+    })
+    .from(jobs)
+    .where(eq(jobs.url, job.url))
+    .limit(1)
+
+  if (existing && existing.contentHash === contentHash && existing.hasEmbedding) {
+    await db
+      .update(jobs)
+      .set({ ...listingFields, ...buildSponsorFields(sponsor, existing.visaStance), ...reactivatedLink })
+      .where(eq(jobs.id, existing.id))
+    return 'unchanged'
+  }
+
+  const enrichment = enrich ? await enrich(job) : null
+  const description = job.description || enrichment?.description || ''
+  const visaLanguage = await extractPostingVisaLanguage(description)
+  const embedding = await generateEmbedding(`${job.title} ${job.company} ${description}`)
+
+  const contentFields = {
+    ...listingFields,
+    ...buildSponsorFields(sponsor, visaLanguage?.stance),
+    visaStance: visaLanguage?.stance ?? null,
+    visaRequirements: visaLanguage?.evidence ?? null,
+    title: job.title,
+    company: job.company,
+    description,
+    embedding,
+    contentHash,
+    dedupeKey: buildDedupeKey(job),
+    ...(enrichment && { linkCheckedAt: now, isLinkActive: enrichment.linkActive }),
+  }
+
+  const [result] = await db
+    .insert(jobs)
+    .values({ ...contentFields, url: job.url })
+    .onConflictDoUpdate({ target: jobs.url, set: { ...reactivatedLink, ...contentFields } })
+    // xmax is only zero for rows created by this statement
+    .returning({ inserted: sql<boolean>`(xmax = 0)` })
+
+  return result?.inserted ? 'inserted' : 'updated'
+}
+
+export interface MissingJobsResult {
+  missing: number
+  expired: number
+}
+
+/**
+ * Lifecycle for jobs a source no longer lists: seen -> missing -> expired.
+ * Missing jobs stay active but get an expiresAt of lastSeenAt plus the
+ * platform's grace period; once that passes they are deactivated.
+ *
+ * Skipped when nothing was seen, since an empty listing is more likely a
+ * parser or API regression than every role closing at once.
+ */
+export async function markMissingJobs(
+  source: string,
+  platform: string,
+  seenUrls: Set<string>,
+  now = new Date()
+): Promise<MissingJobsResult> {
+  if (seenUrls.size === 0) {
+    return { missing: 0, expired: 0 }
+  }
+
+  const notSeen = and(eq(jobs.source, source), eq(jobs.isActive, true), notInArray(jobs.url, Array.from(seenUrls)))
+  const graceSeconds = Math.round(getMissingGraceMs(platform) / 1000)
+
+  const missing = await db
+    .update(jobs)
+    .set({
+      expiresAt: sql`coalesce(${jobs.lastSeenAt}, ${now}) + make_interval(secs => ${graceSeconds})`,
+    })
+    .where(and(notSeen, isNull(jobs.expiresAt)))
+    .returning({ id: jobs.id })
+
+  const expired = await db
+    .update(jobs)
+    .set({ isActive: false, isLinkActive: false })
+    .where(and(notSeen, lte(jobs.expiresAt, now)))
+    .returning({ id: jobs.id })
+
+  return { missing: missing.length, expired: expired.length }
+}
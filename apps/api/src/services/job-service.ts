@@ -1,5 +1,6 @@
+import type { PgSelect } from 'drizzle-orm/pg-core'
 import { db } from '../db'
-import { jobs, users } from '../db/schema'
+import { jobs, users, visaSponsors } from '../db/schema'
 import {
   eq,
   desc,
@@ -7,27 +8,80 @@ import {
   cosineDistance,
   and,
   ilike,
+  gt,
   gte,
   lte,
-  isNotNull
+  isNotNull,
+  isNull,
+  inArray,
+  asc,
+  or,
+  notInArray,
+  SQL
 } from 'drizzle-orm'
 import { generateEmbedding } from '../lib/openai'
 import { enrichJobsWithSponsors, SponsorSummary, getSponsorSummaryForCompany } from './visa-service'
+import { AlternateLink, getAlternateLinks } from './dedupe-service'
+import { FusedRank, fuseRankings } from './search-ranking'
+import { sponsorScoreSql } from './sponsor-score'
+import { SearchCursor, buildNextCursor, paginateRanked } from './search-cursor'
+import {
+  ScoreComponent,
+  ScoringWeights,
+  computeMatchScore,
+  rankScoreContributions,
+  resolveScoringWeights,
+} from './scoring-weights'
+import { getCandidateProfile } from './profile-service'
+import {
+  PROFILE_FIT_WEIGHT,
+  ProfileSearchPreferences,
+  blendProfileFit,
+  deriveSearchPreferences,
+  hasSoftPreferences,
+} from './candidate-profile-rules'
+import { getTimelineSummary } from './timeline-service'
+import { DeadlineBoost, blendDeadlineBoost, deadlineBoostFor } from './opt-timeline'
+import { getLcaEvidence } from './lca-service'
+import type { VisaStatus } from './ingestion-rules'
+import { NON_SPONSORING_STANCES, PostingVisaStance } from './visa-language'
+
+// Candidates pulled from each ranking before fusing in hybrid search
+const HYBRID_CANDIDATE_POOL = 200
+
+function limitToPool<T extends PgSelect>(query: T, pool: number | null) {
+  return pool === null ? query : query.limit(pool)
+}
+
+// Postings that signal the role can start right away
+const NEAR_START_QUERY = '"immediate start" or "start immediately" or "immediately available" or asap or "rolling start"'
 
 interface SearchParams {
   description?: string
   jobType?: 'new_grad' | 'internship' | 'all'
   isRemote?: boolean
   location?: string
-  visaStatus?: 'sponsor_verified' | 'likely_sponsor' | 'unknown'
+  visaStatus?: VisaStatus
+  /** Any of these statuses, e.g. the sponsor-friendly ones a digest covers */
+  visaStatuses?: VisaStatus[]
   minSponsorshipConfidence?: number
   requiresVerifiedSponsor?: boolean
+  /** Only jobs whose matched sponsor is enrolled in E-Verify */
+  eVerifyOnly?: boolean
+  /** Only jobs whose matched sponsor is H-1B cap-exempt */
+  capExemptOnly?: boolean
   postedAfter?: string
   postedBefore?: string
+  /** Only jobs first scraped after this instant (saved-search alerts) */
+  scrapedAfter?: Date
   includeInactive?: boolean
   limit?: number
   offset?: number
   userId?: string
+  /** Per-search overrides of the user's stored scoring weights */
+  weights?: Partial<ScoringWeights>
+  /** Resume after the last row of a previous page; takes precedence over offset */
+  cursor?: SearchCursor | null
 }
 
 export interface JobSearchResult {
@@ -45,6 +99,9 @@ export interface JobSearchResult {
   visaStatus?: string | null
   sponsorshipConfidence?: number | null
   visaNotes?: string | null
+  /** What the posting itself says about sponsorship, with the sentence it says it in */
+  visaStance?: PostingVisaStance | null
+  visaRequirements?: string | null
   similarity?: number
   visaSponsor?: SponsorSummary | null
   matchScore?: number
@@ -52,59 +109,229 @@ export interface JobSearchResult {
     similarity: number
     recency: number
     sponsorship: number
+    /** Reciprocal rank fusion of lexical and vector ranks; present for text queries. */
+    fused?: number
+    vectorRank?: number | null
+    lexicalRank?: number | null
+    /** How well the job fits the structured profile's roles, skills and locations */
+    profileFit?: number
+    /** Deadline signals (0/1) used when the user's OPT clock is short */
+    deadline?: {
+      eVerify: number
+      capExempt: number
+      nearStart: number
+    }
+    weights: ScoringWeights
   }
   matchReasons?: string[]
+  alternateLinks?: AlternateLink[]
 }
 
-function computeRecencyScore(postedAt: Date | null): number {
-  if (!postedAt) return 0
-  const now = Date.now()
-  const postedTime = postedAt.getTime()
-  const diffInDays = (now - postedTime) / (1000 * 60 * 60 * 24)
-  if (diffInDays <= 3) return 1
-  if (diffInDays <= 7) return 0.8
-  if (diffInDays <= 14) return 0.6
-  if (diffInDays <= 30) return 0.4
-  if (diffInDays <= 60) return 0.2
-  return 0
+export interface JobSearchPage {
+  jobs: JobSearchResult[]
+  nextCursor: string | null
 }
 
-function computeSponsorScore(job: {
-  visaStatus?: string | null
-  sponsorshipConfidence?: number | null
-  visaSponsor?: SponsorSummary | null
-}): number {
-  const visaStatus = job.visaStatus ?? null
-  const confidence =
-    job.visaSponsor?.sponsorshipConfidence ?? job.sponsorshipConfidence ?? null
-
-  if (visaStatus === 'sponsor_verified') return 1
-  if (confidence !== null && confidence >= 80) return 0.9
-  if (confidence !== null && confidence >= 60) return 0.6
-  if (visaStatus === 'likely_sponsor') return 0.5
-  if (confidence !== null && confidence >= 40) return 0.3
-  return 0
+// Rows as they come out of ranking, before scoreDetails are attached
+type RankedJobRow = Omit<JobSearchResult, 'similarity'> & {
+  similarity: number
+  recencyScore: number
+  sponsorshipScore: number
+  rankScore: number
+  profileFit: number | null
+  eVerifySignal: number | null
+  capExemptSignal: number | null
+  nearStartSignal: number | null
+  fusion?: FusedRank
+}
+
+const jobSelection = {
+  id: jobs.id,
+  title: jobs.title,
+  company: jobs.company,
+  location: jobs.location,
+  description: jobs.description,
+  url: jobs.url,
+  isRemote: jobs.isRemote,
+  jobType: jobs.jobType,
+  source: jobs.source,
+  scrapedAt: jobs.scrapedAt,
+  postedAt: jobs.postedAt,
+  visaStatus: jobs.visaStatus,
+  sponsorshipConfidence: jobs.sponsorshipConfidence,
+  visaNotes: jobs.visaNotes,
+  visaStance: jobs.visaStance,
+  visaRequirements: jobs.visaRequirements,
+}
+
+// Score components are computed in SQL so the composite score can order and
+// paginate the whole result set rather than being re-sorted page by page.
+function similaritySql(searchEmbedding: number[] | null) {
+  if (!searchEmbedding) {
+    return sql<number>`0::float8`
+  }
+  return sql<number>`greatest(0, least(1, 1 - (${cosineDistance(jobs.embedding, searchEmbedding)})))::float8`
+}
+
+function recencyScoreSql(asOf: Date) {
+  const now = sql`${asOf.toISOString()}::timestamp`
+  return sql<number>`(case
+    when ${jobs.postedAt} is null then 0
+    when ${jobs.postedAt} >= ${now} - interval '3 days' then 1
+    when ${jobs.postedAt} >= ${now} - interval '7 days' then 0.8
+    when ${jobs.postedAt} >= ${now} - interval '14 days' then 0.6
+    when ${jobs.postedAt} >= ${now} - interval '30 days' then 0.4
+    when ${jobs.postedAt} >= ${now} - interval '60 days' then 0.2
+    else 0
+  end)::float8`
 }
 
-function buildMatchReasons(job: JobSearchResult, scores: { similarity: number; recency: number; sponsorship: number }) {
-  const reasons: string[] = []
-  if (scores.similarity >= 0.75) {
-    reasons.push('Strong alignment with your profile preferences')
-  } else if (scores.similarity >= 0.5) {
-    reasons.push('Good match to your stated interests')
+// Top of the published range in USD per year; hourly rates are annualized
+function salaryMaxSql() {
+  return sql<number | null>`(
+    select max(case
+      when m[2] is not null then m[1]::numeric * 1000
+      when m[1]::numeric < 1000 then m[1]::numeric * 2080
+      else m[1]::numeric
+    end)
+    from regexp_matches(replace(${jobs.salaryRange}, ',', ''), '(\\d+(?:\\.\\d+)?)\\s*([kK])?', 'g') as m
+  )`
+}
+
+// Jobs without a (USD) salary are kept; the floor only rules out known lowballs
+function profileHardFilters(preferences: ProfileSearchPreferences, jobType: SearchParams['jobType']) {
+  const filters: SQL[] = []
+
+  if (preferences.excludeInternships && (!jobType || jobType === 'all')) {
+    filters.push(sql`${jobs.jobType} is distinct from 'internship'`)
+  }
+
+  if (preferences.salaryFloor !== null) {
+    filters.push(sql`(
+      ${jobs.salaryRange} is null
+      or coalesce(${jobs.salaryCurrency}, 'USD') <> 'USD'
+      or coalesce(${salaryMaxSql()}, ${preferences.salaryFloor}) >= ${preferences.salaryFloor}
+    )`)
+  }
+
+  return filters
+}
+
+// Average of the soft preference matches, each 0..1; skills count the share matched
+function profileFitSql(preferences: ProfileSearchPreferences) {
+  if (!hasSoftPreferences(preferences)) {
+    return null
+  }
+
+  const parts: SQL[] = []
+
+  if (preferences.targetRoles.length) {
+    const roleMatch = or(...preferences.targetRoles.map((role) => ilike(jobs.title, `%${role}%`)))
+    parts.push(sql`(case when ${roleMatch} then 1 else 0 end)`)
+  }
+
+  if (preferences.skills.length) {
+    const skillHits = preferences.skills.map(
+      (skill) => sql`(case when ${jobs.searchVector} @@ plainto_tsquery('english', ${skill}) then 1 else 0 end)`
+    )
+    parts.push(sql`((${sql.join(skillHits, sql` + `)})::float8 / ${preferences.skills.length})`)
   }
 
-  if (scores.recency >= 0.6) {
-    reasons.push('Recently posted opportunity')
+  if (preferences.preferredLocations.length || preferences.remoteOk) {
+    const locationMatch = or(
+      ...preferences.preferredLocations.map((location) => ilike(jobs.location, `%${location}%`)),
+      ...(preferences.remoteOk ? [eq(jobs.isRemote, true)] : [])
+    )
+    parts.push(sql`(case when ${locationMatch} then 1 else 0 end)`)
   }
 
-  if (scores.sponsorship >= 0.6) {
-    if (job.visaStatus === 'sponsor_verified' || job.visaSponsor?.sponsorshipConfidence) {
-      reasons.push('High confidence visa sponsorship')
-    } else {
-      reasons.push('Likely to sponsor work visas')
+  return sql<number>`((${sql.join(parts, sql` + `)})::float8 / ${parts.length})`
+}
+
+function sponsorFlagSql(flag: typeof visaSponsors.eVerifyEnrolled | typeof visaSponsors.capExempt) {
+  return sql<number>`coalesce(
+    (select case when ${flag} then 1 else 0 end from ${visaSponsors} where ${visaSponsors.id} = ${jobs.visaSponsorId}),
+    0
+  )::float8`
+}
+
+// Unknown flags (null) never pass, so the filter only keeps confirmed employers
+function sponsorFlagFilter(flag: typeof visaSponsors.eVerifyEnrolled | typeof visaSponsors.capExempt) {
+  return sql`exists (select 1 from ${visaSponsors} where ${visaSponsors.id} = ${jobs.visaSponsorId} and ${flag} is true)`
+}
+
+// The company's confidence says nothing for a posting that rules out sponsorship itself
+function minSponsorshipConfidenceFilter(min: number) {
+  return and(
+    gte(jobs.sponsorshipConfidence, min),
+    or(isNull(jobs.visaStance), notInArray(jobs.visaStance, NON_SPONSORING_STANCES))
+  )
+}
+
+// Only computed when a deadline boost applies; otherwise selected as nulls
+function deadlineSignalSql(boost: DeadlineBoost | null) {
+  if (!boost) {
+    return {
+      eVerifySignal: sql<number | null>`null`,
+      capExemptSignal: sql<number | null>`null`,
+      nearStartSignal: sql<number | null>`null`,
     }
   }
+  return {
+    eVerifySignal: sponsorFlagSql(visaSponsors.eVerifyEnrolled),
+    capExemptSignal: sponsorFlagSql(visaSponsors.capExempt),
+    nearStartSignal: sql<number>`(case when ${jobs.searchVector} @@ websearch_to_tsquery('english', ${NEAR_START_QUERY}) then 1 else 0 end)::float8`,
+  }
+}
+
+function deadlineSignalsOf(row: Pick<RankedJobRow, 'eVerifySignal' | 'capExemptSignal' | 'nearStartSignal'>) {
+  if (row.eVerifySignal === null || row.capExemptSignal === null || row.nearStartSignal === null) {
+    return null
+  }
+  return { eVerify: row.eVerifySignal, capExempt: row.capExemptSignal, nearStart: row.nearStartSignal }
+}
+
+function describeComponent(job: JobSearchResult, component: ScoreComponent, score: number): string | null {
+  switch (component) {
+    case 'similarity':
+      if (score >= 0.75) return 'Strong alignment with your profile preferences'
+      if (score >= 0.5) return 'Good match to your stated interests'
+      return null
+    case 'recency':
+      return score >= 0.6 ? 'Recently posted opportunity' : null
+    case 'sponsorship':
+      if (score < 0.6) return null
+      return job.visaStatus === 'sponsor_verified' || job.visaSponsor?.sponsorshipConfidence
+        ? 'High confidence visa sponsorship'
+        : 'Likely to sponsor work visas'
+  }
+}
+
+// Reasons are listed in order of how much each component moved the score
+// under the user's weights, so the first reason reflects what they care about.
+function buildMatchReasons(
+  job: JobSearchResult,
+  scores: ScoringWeights,
+  weights: ScoringWeights,
+  profileFit: number | null,
+  deadline: { eVerify: number; capExempt: number; nearStart: number } | null
+) {
+  const reasons = rankScoreContributions(scores, weights)
+    .map((component) => describeComponent(job, component, scores[component]))
+    .filter((reason): reason is string => Boolean(reason))
+
+  // Deadline reasons lead: with a short clock they matter more than fit
+  if (deadline) {
+    const urgent: string[] = []
+    if (deadline.eVerify) urgent.push('E-Verify employer (keeps STEM OPT open)')
+    if (deadline.capExempt) urgent.push('Cap-exempt employer, no H-1B lottery')
+    if (deadline.nearStart) urgent.push('Can start soon')
+    reasons.unshift(...urgent)
+  }
+
+  if (profileFit !== null && profileFit >= 0.5) {
+    reasons.push('Fits your target roles, skills and locations')
+  }
 
   if (!reasons.length) {
     reasons.push('Matches your filters')
@@ -113,59 +340,100 @@ function buildMatchReasons(job: JobSearchResult, scores: { similarity: number; r
   return reasons
 }
 
-function applyScoring(results: JobSearchResult[]): JobSearchResult[] {
-  return results
-    .map((job) => {
-      const similarityScore = typeof job.similarity === 'number' ? Math.max(0, Math.min(1, job.similarity)) : 0
-      const postedAt = job.postedAt ? new Date(job.postedAt) : null
-      const recencyScore = computeRecencyScore(postedAt)
-      const sponsorshipScore = computeSponsorScore(job)
-
-      // Weighted composite score
-      const matchScore =
-        similarityScore * 0.6 +
-        recencyScore * 0.25 +
-        sponsorshipScore * 0.15
-
-      const scoreDetails = {
-        similarity: Number(similarityScore.toFixed(3)),
-        recency: Number(recencyScore.toFixed(3)),
-        sponsorship: Number(sponsorshipScore.toFixed(3)),
-      }
+async function attachAlternateLinks<T extends { id: string }>(results: T[]) {
+  const linksByJob = await getAlternateLinks(results.map((job) => job.id))
+  return results.map((job) => ({
+    ...job,
+    alternateLinks: linksByJob.get(job.id) ?? [],
+  }))
+}
 
-      const matchReasons = buildMatchReasons(job, scoreDetails)
+function applyScoring(rows: RankedJobRow[], weights: ScoringWeights): JobSearchResult[] {
+  return rows.map(({
+    fusion,
+    recencyScore,
+    sponsorshipScore,
+    rankScore,
+    profileFit,
+    eVerifySignal,
+    capExemptSignal,
+    nearStartSignal,
+    ...job
+  }) => {
+    const deadline = deadlineSignalsOf({ eVerifySignal, capExemptSignal, nearStartSignal })
+    // Text queries rank relevance by the fused score so exact keyword hits
+    // are not buried by a weak embedding match.
+    const scores = {
+      similarity: fusion ? fusion.score : job.similarity,
+      recency: recencyScore,
+      sponsorship: sponsorshipScore,
+    }
 
-      return {
-        ...job,
-        matchScore: Number(matchScore.toFixed(3)),
-        scoreDetails,
-        matchReasons,
-      }
-    })
-    .sort((a, b) => (b.matchScore ?? 0) - (a.matchScore ?? 0))
+    const scoreDetails = {
+      similarity: Number(job.similarity.toFixed(3)),
+      recency: Number(recencyScore.toFixed(3)),
+      sponsorship: Number(sponsorshipScore.toFixed(3)),
+      ...(fusion && {
+        fused: Number(fusion.score.toFixed(3)),
+        vectorRank: fusion.vectorRank,
+        lexicalRank: fusion.lexicalRank,
+      }),
+      ...(profileFit !== null && { profileFit: Number(profileFit.toFixed(3)) }),
+      ...(deadline && { deadline }),
+      weights: {
+        similarity: Number(weights.similarity.toFixed(3)),
+        recency: Number(weights.recency.toFixed(3)),
+        sponsorship: Number(weights.sponsorship.toFixed(3)),
+      },
+    }
+
+    return {
+      ...job,
+      matchScore: Number(rankScore.toFixed(3)),
+      scoreDetails,
+      matchReasons: buildMatchReasons(job, scores, weights, profileFit, deadline),
+    }
+  })
+}
+
+async function finalizePage(rows: RankedJobRow[], limit: number, asOf: Date, weights: ScoringWeights) {
+  const nextCursor = buildNextCursor(rows, limit, asOf)
+  const enriched = await enrichJobsWithSponsors(rows.slice(0, limit))
+  return {
+    jobs: applyScoring(await attachAlternateLinks(enriched), weights),
+    nextCursor,
+  }
 }
 
-export async function searchJobs(params: SearchParams): Promise<JobSearchResult[]> {
+export async function searchJobs(params: SearchParams): Promise<JobSearchPage> {
   const {
     description,
     jobType,
     isRemote,
     location,
     visaStatus,
+    visaStatuses,
     minSponsorshipConfidence,
     requiresVerifiedSponsor,
+    eVerifyOnly,
+    capExemptOnly,
     postedAfter,
     postedBefore,
+    scrapedAfter,
     includeInactive = false,
     limit = 50,
     offset = 0,
     userId,
+    weights: weightOverrides,
+    cursor,
   } = params
 
-  const baseFilters = [] as any[]
+  // Cross-source duplicates are folded into their canonical job's card
+  const baseFilters = [isNull(jobs.canonicalJobId)] as any[]
 
   if (!includeInactive) {
     baseFilters.push(eq(jobs.isActive, true))
+    baseFilters.push(sql`${jobs.isLinkActive} is not false`)
   }
 
   if (jobType && jobType !== 'all') {
@@ -184,13 +452,25 @@ export async function searchJobs(params: SearchParams): Promise<JobSearchResult[
     baseFilters.push(eq(jobs.visaStatus, visaStatus))
   }
 
+  if (visaStatuses?.length) {
+    baseFilters.push(inArray(jobs.visaStatus, visaStatuses))
+  }
+
   if (requiresVerifiedSponsor) {
     baseFilters.push(eq(jobs.visaStatus, 'sponsor_verified'))
     baseFilters.push(isNotNull(jobs.visaSponsorId))
   }
 
+  if (eVerifyOnly) {
+    baseFilters.push(sponsorFlagFilter(visaSponsors.eVerifyEnrolled))
+  }
+
+  if (capExemptOnly) {
+    baseFilters.push(sponsorFlagFilter(visaSponsors.capExempt))
+  }
+
   if (minSponsorshipConfidence !== undefined) {
-    baseFilters.push(gte(jobs.sponsorshipConfidence, minSponsorshipConfidence))
+    baseFilters.push(minSponsorshipConfidenceFilter(minSponsorshipConfidence))
   }
 
   if (postedAfter) {
@@ -201,102 +481,180 @@ export async function searchJobs(params: SearchParams): Promise<JobSearchResult[
     baseFilters.push(lte(jobs.postedAt, sql`CAST(${postedBefore} AS timestamp)`))
   }
 
-  const whereClause = baseFilters.length ? and(...baseFilters) : undefined
+  if (scrapedAfter) {
+    baseFilters.push(gt(jobs.scrapedAt, scrapedAfter))
+  }
 
   // Determine what to use for vector similarity search
   let searchEmbedding: number[] | null = null
+  let storedWeights: Partial<ScoringWeights> | null = null
+  let preferences: ProfileSearchPreferences | null = null
+  let deadlineBoost: DeadlineBoost | null = null
+
+  // Recency is pinned to the first page's clock so pages stay consistent
+  const asOf = cursor ? new Date(cursor.asOf) : new Date()
   
   console.log('Search params - description:', description, 'userId:', userId)
-  
-  if (description) {
-    // Use explicit search description
-    console.log('Using description for search')
-    searchEmbedding = await generateEmbedding(description)
-  } else if (userId) {
-    // Use user's profile for automatic ranking
+
+  if (userId) {
+    // The profile supplies stored scoring weights, and the embedding when there is no query
     console.log('Looking up user profile for userId:', userId)
     try {
       console.log('Executing user lookup query...')
       const [userProfile] = await db
-        .select({ profileEmbedding: users.profileEmbedding })
+        .select({ profileEmbedding: users.profileEmbedding, scoringWeights: users.scoringWeights })
         .from(users)
         .where(eq(users.id, userId))
         .limit(1)
       
-      console.log('User profile query result:', userProfile)
-      if (userProfile?.profileEmbedding) {
-        searchEmbedding = userProfile.profileEmbedding
-        console.log('Using profile embedding for search, length:', searchEmbedding.length)
-      } else {
-        console.log('No profile embedding found in result:', userProfile)
+      storedWeights = userProfile?.scoringWeights ?? null
+      preferences = deriveSearchPreferences(await getCandidateProfile(userId), asOf)
+      deadlineBoost = deadlineBoostFor(await getTimelineSummary(userId, asOf))
+      if (!description) {
+        if (userProfile?.profileEmbedding) {
+          searchEmbedding = userProfile.profileEmbedding
+          console.log('Using profile embedding for search, length:', searchEmbedding.length)
+        } else {
+          console.log('No profile embedding found for user')
+        }
       }
     } catch (error) {
       console.error('Error looking up user profile:', error)
     }
   }
+  
+  if (description) {
+    // Use explicit search description
+    console.log('Using description for search')
+    searchEmbedding = await generateEmbedding(description)
+  }
+
+  const weights = resolveScoringWeights(storedWeights, weightOverrides)
+
+  // The structured profile narrows results (hard filters) and nudges ranking (fit)
+  if (preferences) {
+    baseFilters.push(...profileHardFilters(preferences, jobType))
+  }
+  const whereClause = baseFilters.length ? and(...baseFilters) : undefined
+
+  const recencyScore = recencyScoreSql(asOf)
+  const sponsorshipScore = sponsorScoreSql()
+  const similarity = similaritySql(searchEmbedding)
+  const fitSql = preferences ? profileFitSql(preferences) : null
+  const profileFit = fitSql ?? sql<number | null>`null`
+  const deadlineSignals = deadlineSignalSql(deadlineBoost)
+
+  // A text query gets hybrid keyword + vector ranking
+  if (searchEmbedding && description) {
+    const tsQuery = sql`websearch_to_tsquery('english', ${description})`
+    // A scrapedAfter window (saved-search alerts) is small and must be seen
+    // in full, so only open-ended searches are cut down to the pool
+    const candidatePool = scrapedAfter ? null : HYBRID_CANDIDATE_POOL
+
+    const [vectorRows, lexicalRows] = await Promise.all([
+      limitToPool(
+        db.select({ id: jobs.id }).from(jobs).where(whereClause).orderBy(desc(similarity)).$dynamic(),
+        candidatePool
+      ),
+      limitToPool(
+        db
+          .select({ id: jobs.id })
+          .from(jobs)
+          .where(and(whereClause, sql`${jobs.searchVector} @@ ${tsQuery}`))
+          .orderBy(desc(sql`ts_rank_cd(${jobs.searchVector}, ${tsQuery})`))
+          .$dynamic(),
+        candidatePool
+      ),
+    ])
+
+    const fused = fuseRankings(
+      vectorRows.map((row) => row.id),
+      lexicalRows.map((row) => row.id)
+    )
+    if (!fused.size) {
+      return { jobs: [], nextCursor: null }
+    }
+
+    // Score the whole candidate pool before paginating it
+    const candidates = await db
+      .select({ id: jobs.id, similarity, recencyScore, sponsorshipScore, profileFit, ...deadlineSignals })
+      .from(jobs)
+      .where(inArray(jobs.id, Array.from(fused.keys())))
+    const ranked = candidates.map((candidate) => ({
+      ...candidate,
+      rankScore: blendDeadlineBoost(
+        blendProfileFit(
+          computeMatchScore(
+            {
+              similarity: fused.get(candidate.id)!.score,
+              recency: candidate.recencyScore,
+              sponsorship: candidate.sponsorshipScore,
+            },
+            weights
+          ),
+          candidate.profileFit
+        ),
+        deadlineBoost,
+        deadlineSignalsOf(candidate)
+      ),
+    }))
+    const page = paginateRanked(ranked, { cursor, offset, limit })
+    if (!page.length) {
+      return { jobs: [], nextCursor: null }
+    }
+
+    const rows = await db
+      .select(jobSelection)
+      .from(jobs)
+      .where(inArray(jobs.id, page.map((entry) => entry.id)))
+    const rowsById = new Map(rows.map((row) => [row.id, row]))
+    const rawResults = page.flatMap((entry) => {
+      const row = rowsById.get(entry.id)
+      return row ? [{ ...row, ...entry, fusion: fused.get(entry.id) }] : []
+    })
+
+    return finalizePage(rawResults, limit, asOf, weights)
+  }
 
-  // If we have an embedding (either from description or profile), use vector similarity search
   if (searchEmbedding) {
     console.log('Using search embedding, length:', searchEmbedding.length)
-    const similarity = sql<number>`1 - (${cosineDistance(jobs.embedding, searchEmbedding)})`
-    
-    const rawResults = await db
-      .select({
-        id: jobs.id,
-        title: jobs.title,
-        company: jobs.company,
-        location: jobs.location,
-        description: jobs.description,
-        url: jobs.url,
-        isRemote: jobs.isRemote,
-        jobType: jobs.jobType,
-        source: jobs.source,
-        scrapedAt: jobs.scrapedAt,
-        postedAt: jobs.postedAt,
-        visaStatus: jobs.visaStatus,
-        sponsorshipConfidence: jobs.sponsorshipConfidence,
-        visaNotes: jobs.visaNotes,
-        similarity,
-      })
-      .from(jobs)
-      .where(whereClause ?? sql`true`)
-      .orderBy((t) => desc(t.similarity))
-      .limit(limit)
-      .offset(offset)
-
-    console.log('Vector search results count:', rawResults.length)
-    const enriched = await enrichJobsWithSponsors(rawResults)
-    return applyScoring(enriched)
   } else {
+    // Without an embedding, ranking falls back to recency and sponsorship
     console.log('No search embedding available')
   }
 
-  // Otherwise, just filter without vector search (fallback)
+  const componentScore = sql<number>`(
+    ${weights.similarity}::float8 * ${similarity} +
+    ${weights.recency}::float8 * ${recencyScore} +
+    ${weights.sponsorship}::float8 * ${sponsorshipScore}
+  )`
+  // Mirrors blendProfileFit and blendDeadlineBoost so both ranking paths produce the same scores
+  const fittedScore = fitSql
+    ? sql<number>`(${1 - PROFILE_FIT_WEIGHT}::float8 * ${componentScore} + ${PROFILE_FIT_WEIGHT}::float8 * ${fitSql})`
+    : componentScore
+  const rankScore = deadlineBoost
+    ? sql<number>`(
+      ${1 - deadlineBoost.weight}::float8 * ${fittedScore} +
+      ${deadlineBoost.weight}::float8 * (
+        ${deadlineBoost.eVerify}::float8 * ${deadlineSignals.eVerifySignal} +
+        ${deadlineBoost.capExempt}::float8 * ${deadlineSignals.capExemptSignal} +
+        ${deadlineBoost.nearStart}::float8 * ${deadlineSignals.nearStartSignal}
+      )
+    )`
+    : fittedScore
+  const afterCursor = cursor
+    ? sql`(${rankScore} < ${cursor.score}::float8 or (${rankScore} = ${cursor.score}::float8 and ${jobs.id} > ${cursor.id}::uuid))`
+    : undefined
+
   const rawResults = await db
-    .select({
-      id: jobs.id,
-      title: jobs.title,
-      company: jobs.company,
-      location: jobs.location,
-      description: jobs.description,
-      url: jobs.url,
-      isRemote: jobs.isRemote,
-      jobType: jobs.jobType,
-      source: jobs.source,
-      scrapedAt: jobs.scrapedAt,
-      postedAt: jobs.postedAt,
-      visaStatus: jobs.visaStatus,
-      sponsorshipConfidence: jobs.sponsorshipConfidence,
-      visaNotes: jobs.visaNotes,
-    })
+    .select({ ...jobSelection, similarity, recencyScore, sponsorshipScore, rankScore, profileFit, ...deadlineSignals })
     .from(jobs)
-    .where(whereClause ?? sql`true`)
-    .orderBy(desc(jobs.scrapedAt))
-    .limit(limit)
-    .offset(offset)
-  
-  const enriched = await enrichJobsWithSponsors(rawResults)
-  return applyScoring(enriched)
+    .where(and(whereClause, afterCursor))
+    .orderBy(desc(rankScore), asc(jobs.id))
+    .limit(limit + 1)
+    .offset(cursor ? 0 : offset)
+
+  return finalizePage(rawResults, limit, asOf, weights)
 }
 
 export async function getJobById(id: string) {
@@ -305,9 +663,13 @@ export async function getJobById(id: string) {
     return null
   }
   const visaSponsor = job.company ? await getSponsorSummaryForCompany(job.company) : null
+  const alternateLinks = await getAlternateLinks([job.id])
+  const lcaEvidence = await getLcaEvidence(job)
   return {
     ...job,
     visaSponsor,
+    alternateLinks: alternateLinks.get(job.id) ?? [],
+    lcaEvidence,
   }
 }
 
@@ -317,17 +679,23 @@ export async function getTotalJobCount(filters: Omit<SearchParams, 'limit' | 'of
     isRemote,
     location,
     visaStatus,
+    visaStatuses,
     minSponsorshipConfidence,
     requiresVerifiedSponsor,
+    eVerifyOnly,
+    capExemptOnly,
     postedAfter,
     postedBefore,
     includeInactive = false,
+    userId,
   } = filters
 
-  const baseFilters = [] as any[]
+  // Cross-source duplicates are folded into their canonical job's card
+  const baseFilters = [isNull(jobs.canonicalJobId)] as any[]
 
   if (!includeInactive) {
     baseFilters.push(eq(jobs.isActive, true))
+    baseFilters.push(sql`${jobs.isLinkActive} is not false`)
   }
 
   if (jobType && jobType !== 'all') {
@@ -346,13 +714,25 @@ export async function getTotalJobCount(filters: Omit<SearchParams, 'limit' | 'of
     baseFilters.push(eq(jobs.visaStatus, visaStatus))
   }
 
+  if (visaStatuses?.length) {
+    baseFilters.push(inArray(jobs.visaStatus, visaStatuses))
+  }
+
   if (requiresVerifiedSponsor) {
     baseFilters.push(eq(jobs.visaStatus, 'sponsor_verified'))
     baseFilters.push(isNotNull(jobs.visaSponsorId))
   }
 
+  if (eVerifyOnly) {
+    baseFilters.push(sponsorFlagFilter(visaSponsors.eVerifyEnrolled))
+  }
+
+  if (capExemptOnly) {
+    baseFilters.push(sponsorFlagFilter(visaSponsors.capExempt))
+  }
+
   if (minSponsorshipConfidence !== undefined) {
-    baseFilters.push(gte(jobs.sponsorshipConfidence, minSponsorshipConfidence))
+    baseFilters.push(minSponsorshipConfidenceFilter(minSponsorshipConfidence))
   }
 
   if (postedAfter) {
@@ -363,6 +743,12 @@ export async function getTotalJobCount(filters: Omit<SearchParams, 'limit' | 'of
     baseFilters.push(lte(jobs.postedAt, sql`CAST(${postedBefore} AS timestamp)`))
   }
 
+  // Same profile hard filters as searchJobs so the total matches the pages
+  const preferences = userId ? deriveSearchPreferences(await getCandidateProfile(userId)) : null
+  if (preferences) {
+    baseFilters.push(...profileHardFilters(preferences, jobType))
+  }
+
   const whereClause = baseFilters.length ? and(...baseFilters) : undefined
 
   const [result] = await db
@@ -0,0 +1,298 @@
+import { fiscalYearOf } from './sponsor-confidence'
+import { employerMatchKey } from './employer-flags'
+
+/**
+ * Department of Labor LCA disclosure rows, reduced to what the app shows:
+ * which roles an employer filed Labor Condition Applications for, where,
+ * at what wage level and pay.
+ */
+
+export interface LcaRow {
+  caseStatus: string
+  visaClass: string | null
+  employerName: string
+  jobTitle: string
+  socCode: string | null
+  socTitle: string | null
+  worksiteCity: string | null
+  worksiteState: string | null
+  wageFrom: number | null
+  wageTo: number | null
+  wageUnit: string | null
+  wageLevel: string | null
+  decisionDate: Date | null
+}
+
+export interface LcaAggregate {
+  employerName: string
+  employerKey: string
+  jobTitle: string
+  socCode: string | null
+  socTitle: string | null
+  worksiteCity: string | null
+  worksiteState: string | null
+  wageLevel: string | null
+  fiscalYear: number
+  filingCount: number
+  certifiedCount: number
+  annualWageMin: number | null
+  annualWageMedian: number | null
+  annualWageMax: number | null
+}
+
+const HOURS_PER_YEAR = 2080
+const ANNUAL_MULTIPLIERS: Record<string, number> = {
+  year: 1,
+  month: 12,
+  'bi-weekly': 26,
+  week: 52,
+  hour: HOURS_PER_YEAR,
+}
+// Anything outside this range is a unit mix-up in the source data
+const MIN_ANNUAL_WAGE = 15_000
+const MAX_ANNUAL_WAGE = 1_500_000
+
+const WAGE_LEVELS = new Set(['I', 'II', 'III', 'IV'])
+
+function text(value: unknown) {
+  if (value === null || value === undefined) return null
+  if (value instanceof Date) return value.toISOString()
+  const trimmed = String(value).trim()
+  return trimmed || null
+}
+
+// XLSX cells keep their type (dates, numbers); CSV cells are all strings.
+// Names are tried in order, so list the preferred column first.
+function rawColumn(record: Record<string, unknown>, names: string[]) {
+  const byKey = new Map(Object.entries(record).map(([key, value]) => [key.trim().toLowerCase(), value]))
+  for (const name of names) {
+    const value = byKey.get(name)
+    if (text(value)) return value
+  }
+  return null
+}
+
+function column(record: Record<string, unknown>, ...names: string[]) {
+  return text(rawColumn(record, names))
+}
+
+function money(value: string | null) {
+  if (!value) return null
+  const parsed = Number(value.replace(/[$,\s]/g, ''))
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null
+}
+
+function parseDate(value: unknown) {
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value
+  const raw = text(value)
+  if (!raw) return null
+  const date = new Date(raw)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+function normalizeWageLevel(value: string | null) {
+  if (!value) return null
+  const level = value.toUpperCase().replace(/^LEVEL\s*/, '').trim()
+  return WAGE_LEVELS.has(level) ? level : null
+}
+
+// DOL titles are usually upper case; title-case them for display
+function displayTitle(value: string) {
+  return value
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase()
+    .replace(/\b([a-z])/g, (letter) => letter.toUpperCase())
+}
+
+/**
+ * Maps one disclosure row (CSV or XLSX, any fiscal year's column naming)
+ * onto an LcaRow. Rows without an employer or job title are skipped.
+ */
+export function parseLcaRecord(record: Record<string, unknown>): LcaRow | null {
+  const employerName = column(record, 'employer_name', 'employer name', 'lca_case_employer_name')
+  const jobTitle = column(record, 'job_title', 'job title', 'lca_case_job_title')
+  if (!employerName || !jobTitle) return null
+
+  return {
+    caseStatus: column(record, 'case_status', 'status') ?? '',
+    visaClass: column(record, 'visa_class', 'visa class'),
+    employerName,
+    jobTitle,
+    socCode: column(record, 'soc_code', 'lca_case_soc_code'),
+    socTitle: column(record, 'soc_title', 'soc_name', 'lca_case_soc_name'),
+    worksiteCity: column(record, 'worksite_city', 'worksite_city_1', 'lca_case_workloc1_city'),
+    worksiteState: column(record, 'worksite_state', 'worksite_state_1', 'lca_case_workloc1_state'),
+    wageFrom: money(column(record, 'wage_rate_of_pay_from', 'wage_rate_of_pay_from_1', 'lca_case_wage_rate_from')),
+    wageTo: money(column(record, 'wage_rate_of_pay_to', 'wage_rate_of_pay_to_1', 'lca_case_wage_rate_to')),
+    wageUnit: column(record, 'wage_unit_of_pay', 'wage_unit_of_pay_1', 'lca_case_wage_rate_unit'),
+    wageLevel: normalizeWageLevel(column(record, 'pw_wage_level', 'pw_wage_level_1', 'wage_level')),
+    decisionDate: parseDate(rawColumn(record, ['decision_date', 'decision date', 'received_date', 'case_submitted'])),
+  }
+}
+
+/** Annual pay for a wage quoted per hour/week/month; null when unusable */
+export function annualizeWage(amount: number | null, unit: string | null) {
+  if (amount === null) return null
+  const multiplier = ANNUAL_MULTIPLIERS[(unit ?? 'year').trim().toLowerCase()] ?? null
+  if (multiplier === null) return null
+  const annual = Math.round(amount * multiplier)
+  return annual >= MIN_ANNUAL_WAGE && annual <= MAX_ANNUAL_WAGE ? annual : null
+}
+
+export function isCertified(status: string) {
+  return /^certified/i.test(status.trim())
+}
+
+function wageRange(values: number[]) {
+  if (!values.length) return { annualWageMin: null, annualWageMedian: null, annualWageMax: null }
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return {
+    annualWageMin: sorted[0],
+    annualWageMedian: sorted.length % 2 ? sorted[middle] : Math.round((sorted[middle - 1] + sorted[middle]) / 2),
+    annualWageMax: sorted[sorted.length - 1],
+  }
+}
+
+/**
+ * Rolls H-1B rows up to one entry per employer, title, SOC code, worksite,
+ * wage level and fiscal year as they stream in, so a full disclosure file
+ * never has to sit in memory. Wages use the bottom of each offered range.
+ */
+export function createLcaAggregator(fallbackFiscalYear?: number) {
+  const groups = new Map<string, LcaAggregate & { wages: number[] }>()
+
+  const add = (row: LcaRow) => {
+    if (row.visaClass && !/^h-?1b$/i.test(row.visaClass)) return false
+    const employerKey = employerMatchKey(row.employerName)
+    const fiscalYear = row.decisionDate ? fiscalYearOf(row.decisionDate) : fallbackFiscalYear
+    if (!employerKey || !fiscalYear) return false
+
+    const jobTitle = displayTitle(row.jobTitle)
+    const city = row.worksiteCity ? displayTitle(row.worksiteCity) : null
+    const state = row.worksiteState?.toUpperCase() ?? null
+    const key = [employerKey, jobTitle.toLowerCase(), row.socCode, city, state, row.wageLevel, fiscalYear].join('|')
+
+    let group = groups.get(key)
+    if (!group) {
+      group = {
+        employerName: row.employerName,
+        employerKey,
+        jobTitle,
+        socCode: row.socCode,
+        socTitle: row.socTitle,
+        worksiteCity: city,
+        worksiteState: state,
+        wageLevel: row.wageLevel,
+        fiscalYear,
+        filingCount: 0,
+        certifiedCount: 0,
+        annualWageMin: null,
+        annualWageMedian: null,
+        annualWageMax: null,
+        wages: [],
+      }
+      groups.set(key, group)
+    }
+
+    group.filingCount += 1
+    if (isCertified(row.caseStatus)) group.certifiedCount += 1
+    const wage = annualizeWage(row.wageFrom, row.wageUnit)
+    if (wage !== null) group.wages.push(wage)
+    return true
+  }
+
+  const results = (): LcaAggregate[] =>
+    [...groups.values()].map(({ wages, ...group }) => ({ ...group, ...wageRange(wages) }))
+
+  return { add, results }
+}
+
+export function aggregateLcaRows(rows: Iterable<LcaRow>, fallbackFiscalYear?: number) {
+  const aggregator = createLcaAggregator(fallbackFiscalYear)
+  for (const row of rows) aggregator.add(row)
+  return aggregator.results()
+}
+
+function formatThousands(amount: number) {
+  return `$${Math.round(amount / 1000)}k`
+}
+
+type LcaSummaryInput = Pick<
+  LcaAggregate,
+  'jobTitle' | 'worksiteCity' | 'worksiteState' | 'fiscalYear' | 'filingCount' | 'annualWageMin' | 'annualWageMax' | 'wageLevel'
+>
+
+/**
+ * One-line description for job details, e.g.
+ * "Filed 12 LCAs for Software Engineer in Seattle, WA at $140k–$185k (FY2024)".
+ */
+export function describeLcaFiling(filing: LcaSummaryInput) {
+  const place = [filing.worksiteCity, filing.worksiteState].filter(Boolean).join(', ')
+  const count = filing.filingCount === 1 ? 'an LCA' : `${filing.filingCount} LCAs`
+  let pay = ''
+  if (filing.annualWageMin !== null && filing.annualWageMax !== null) {
+    pay =
+      filing.annualWageMin === filing.annualWageMax
+        ? ` at ${formatThousands(filing.annualWageMin)}`
+        : ` at ${formatThousands(filing.annualWageMin)}–${formatThousands(filing.annualWageMax)}`
+  }
+  const level = filing.wageLevel ? `, wage level ${filing.wageLevel}` : ''
+  return `Filed ${count} for ${filing.jobTitle}${place ? ` in ${place}` : ''}${pay} (FY${filing.fiscalYear}${level})`
+}
+
+const TITLE_STOPWORDS = new Set(['i', 'ii', 'iii', 'iv', 'sr', 'senior', 'jr', 'junior', 'the', 'of', 'and', '-', '&'])
+
+function titleTokens(title: string) {
+  return new Set(
+    title
+      .toLowerCase()
+      .split(/[^a-z0-9+#]+/)
+      .filter((token) => token && !TITLE_STOPWORDS.has(token))
+  )
+}
+
+export function titleSimilarity(a: string, b: string) {
+  const left = titleTokens(a)
+  const right = titleTokens(b)
+  if (!left.size || !right.size) return 0
+  let shared = 0
+  for (const token of left) {
+    if (right.has(token)) shared += 1
+  }
+  return shared / (left.size + right.size - shared)
+}
+
+/**
+ * Picks the filings most relevant to a posting: similar title first, then
+ * same city or state, then the most recent and largest. Filings that share
+ * nothing with the title are kept only when nothing better exists.
+ */
+export function rankLcaEvidence<T extends LcaSummaryInput>(
+  job: { title: string; location?: string | null },
+  filings: T[],
+  limit = 3
+) {
+  const location = job.location?.toLowerCase() ?? ''
+  const newestYear = Math.max(0, ...filings.map((filing) => filing.fiscalYear))
+
+  const scored = filings.map((filing) => {
+    const similarity = titleSimilarity(job.title, filing.jobTitle)
+    const sameCity = !!filing.worksiteCity && location.includes(filing.worksiteCity.toLowerCase())
+    const sameState =
+      !!filing.worksiteState && new RegExp(`\\b${filing.worksiteState.toLowerCase()}\\b`).test(location)
+    const score =
+      similarity * 4 +
+      (sameCity ? 1 : sameState ? 0.5 : 0) +
+      Math.min(1, Math.log10(1 + filing.filingCount) / 2) * 0.5 -
+      (newestYear - filing.fiscalYear) * 0.25
+    return { filing, similarity, score }
+  })
+
+  const relevant = scored.some((entry) => entry.similarity > 0) ? scored.filter((entry) => entry.similarity > 0) : scored
+  return relevant
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map((entry) => entry.filing)
+}
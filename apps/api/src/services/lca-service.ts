@@ -0,0 +1,86 @@
+import { desc, eq, inArray } from 'drizzle-orm'
+import { db } from '../db'
+import { lcaFilings, visaSponsors } from '../db/schema'
+import { employerMatchKey } from './employer-flags'
+import { LcaAggregate, describeLcaFiling, rankLcaEvidence } from './lca-rules'
+
+const INSERT_BATCH_SIZE = 1000
+// Filings considered when picking evidence for a single job
+const EVIDENCE_CANDIDATES = 300
+
+export interface LcaImportResult {
+  fiscalYears: number[]
+  filings: number
+  linked: number
+}
+
+async function loadSponsorKeys() {
+  const sponsors = await db
+    .select({ id: visaSponsors.id, companyName: visaSponsors.companyName, aliases: visaSponsors.aliases })
+    .from(visaSponsors)
+
+  const byKey = new Map<string, string>()
+  for (const sponsor of sponsors) {
+    for (const name of [sponsor.companyName, ...(sponsor.aliases ?? [])]) {
+      const key = employerMatchKey(name)
+      if (key && !byKey.has(key)) byKey.set(key, sponsor.id)
+    }
+  }
+  return byKey
+}
+
+/**
+ * Replaces every stored filing for the fiscal years present in the import,
+ * so re-running with the same files is safe. Employers are linked to visa
+ * sponsors by name or alias; unmatched employers are kept unlinked.
+ */
+export async function replaceLcaFilings(aggregates: LcaAggregate[]): Promise<LcaImportResult> {
+  const fiscalYears = [...new Set(aggregates.map((aggregate) => aggregate.fiscalYear))].sort()
+  const sponsorIds = await loadSponsorKeys()
+
+  let linked = 0
+  const rows = aggregates.map((aggregate) => {
+    const visaSponsorId = sponsorIds.get(aggregate.employerKey) ?? null
+    if (visaSponsorId) linked += 1
+    return { ...aggregate, visaSponsorId }
+  })
+
+  await db.transaction(async (tx) => {
+    if (fiscalYears.length) {
+      await tx.delete(lcaFilings).where(inArray(lcaFilings.fiscalYear, fiscalYears))
+    }
+    for (let start = 0; start < rows.length; start += INSERT_BATCH_SIZE) {
+      await tx.insert(lcaFilings).values(rows.slice(start, start + INSERT_BATCH_SIZE))
+    }
+  })
+
+  return { fiscalYears, filings: rows.length, linked }
+}
+
+/**
+ * The sponsor's LCA filings most relevant to a posting, each with a one-line
+ * summary for the job details panel.
+ */
+export async function getLcaEvidence(job: { visaSponsorId: string | null; title: string; location?: string | null }) {
+  if (!job.visaSponsorId) return []
+
+  const filings = await db
+    .select({
+      jobTitle: lcaFilings.jobTitle,
+      socCode: lcaFilings.socCode,
+      worksiteCity: lcaFilings.worksiteCity,
+      worksiteState: lcaFilings.worksiteState,
+      wageLevel: lcaFilings.wageLevel,
+      fiscalYear: lcaFilings.fiscalYear,
+      filingCount: lcaFilings.filingCount,
+      annualWageMin: lcaFilings.annualWageMin,
+      annualWageMedian: lcaFilings.annualWageMedian,
+      annualWageMax: lcaFilings.annualWageMax,
+    })
+    .from(lcaFilings)
+    .where(eq(lcaFilings.visaSponsorId, job.visaSponsorId))
+    .orderBy(desc(lcaFilings.fiscalYear), desc(lcaFilings.filingCount))
+    .limit(EVIDENCE_CANDIDATES)
+
+  return rankLcaEvidence(job, filings).map((filing) => ({ ...filing, summary: describeLcaFiling(filing) }))
+}
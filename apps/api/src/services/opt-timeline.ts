@@ -0,0 +1,263 @@
+/**
+ * F-1 post-completion work authorization rules, simplified to what a job
+ * search needs: how long the candidate can stay unemployed and which dates
+ * are coming up. Not legal advice; DSOs have the final word.
+ */
+
+import type { H1bLotteryStatus } from '../lib/candidate-profile'
+
+export const OPT_UNEMPLOYMENT_LIMIT = 90
+// STEM OPT adds 60 days on top of the 90 from regular OPT
+export const STEM_OPT_UNEMPLOYMENT_LIMIT = 150
+
+const OPT_MONTHS = 12
+const STEM_OPT_MONTHS = 24
+// OPT can be requested 90 days before and up to 60 days after program end
+const OPT_FILING_LEAD_DAYS = 90
+const GRACE_PERIOD_DAYS = 60
+// The STEM extension can be filed up to 90 days before the OPT EAD expires
+const STEM_FILING_LEAD_DAYS = 90
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type TimelinePhase = 'in_program' | 'post_completion' | 'opt' | 'stem_opt' | 'expired'
+export type TimelineUrgency = 'none' | 'moderate' | 'high' | 'critical'
+
+export interface ImmigrationTimelineInput {
+  programEndDate: string | null
+  optStartDate: string | null
+  /** EAD end date when known; otherwise 12 months from the OPT start */
+  optEndDate?: string | null
+  stemOptStartDate?: string | null
+  stemOptEligible: boolean
+  unemploymentDaysUsed: number
+  /** When unemploymentDaysUsed was last recorded; days since then accrue while unemployed */
+  unemploymentCountedAt?: Date | string | null
+  currentlyEmployed: boolean
+  h1bLotteryStatus: H1bLotteryStatus
+}
+
+export interface TimelineDate {
+  key: string
+  label: string
+  date: string
+  daysFromNow: number
+}
+
+export interface TimelineSummary {
+  phase: TimelinePhase
+  urgency: TimelineUrgency
+  /** Days until the tightest deadline that applies right now, if any */
+  daysUntilDeadline: number | null
+  unemploymentLimit: number
+  unemploymentDaysUsed: number
+  unemploymentDaysRemaining: number
+  authorizationEndDate: string | null
+  stemOptEligible: boolean
+  keyDates: TimelineDate[]
+}
+
+function parseDate(value: string | null | undefined) {
+  if (!value) return null
+  const date = new Date(`${value.slice(0, 10)}T00:00:00Z`)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+function startOfDay(date: Date) {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+}
+
+function addDays(date: Date, days: number) {
+  return new Date(date.getTime() + days * DAY_MS)
+}
+
+// EAD end dates are the day before the same date N months later
+function addMonths(date: Date, months: number) {
+  const next = new Date(date)
+  next.setUTCMonth(next.getUTCMonth() + months)
+  return addDays(next, -1)
+}
+
+function daysBetween(from: Date, to: Date) {
+  return Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / DAY_MS)
+}
+
+function formatDate(date: Date) {
+  return date.toISOString().slice(0, 10)
+}
+
+function urgencyFor(days: number | null): TimelineUrgency {
+  if (days === null) return 'none'
+  if (days <= 30) return 'critical'
+  if (days <= 60) return 'high'
+  if (days <= 90) return 'moderate'
+  return 'none'
+}
+
+/**
+ * One H-1B cap season: registration opens in March, selections are announced
+ * by March 31 and cap employment starts October 1.
+ */
+function lotterySeason(year: number) {
+  return {
+    registrationOpens: new Date(Date.UTC(year, 2, 1)),
+    selectionsAnnounced: new Date(Date.UTC(year, 2, 31)),
+    petitionFilingOpens: new Date(Date.UTC(year, 3, 1)),
+    capStart: new Date(Date.UTC(year, 9, 1)),
+  }
+}
+
+/** The next cap season relative to now, for candidates still entering the lottery */
+export function nextLotterySeason(now: Date) {
+  return lotterySeason(now.getUTCMonth() >= 3 ? now.getUTCFullYear() + 1 : now.getUTCFullYear())
+}
+
+/** The season of the most recent lottery, whose selections a candidate may already hold */
+function latestLotterySeason(now: Date) {
+  return lotterySeason(now.getUTCMonth() >= 3 ? now.getUTCFullYear() : now.getUTCFullYear() - 1)
+}
+
+export function computeTimeline(input: ImmigrationTimelineInput, now = new Date()): TimelineSummary {
+  const today = startOfDay(now)
+  const programEnd = parseDate(input.programEndDate)
+  const optStart = parseDate(input.optStartDate)
+  const optEnd = parseDate(input.optEndDate) ?? (optStart ? addMonths(optStart, OPT_MONTHS) : null)
+  const stemStart = parseDate(input.stemOptStartDate)
+  const stemEnd = stemStart ? addMonths(stemStart, STEM_OPT_MONTHS) : null
+
+  let phase: TimelinePhase = 'in_program'
+  if (stemStart && stemEnd && today >= stemStart) {
+    phase = today <= stemEnd ? 'stem_opt' : 'expired'
+  } else if (optStart && optEnd && today >= optStart) {
+    phase = today <= optEnd ? 'opt' : 'expired'
+  } else if (programEnd && today > programEnd) {
+    phase = addDays(programEnd, GRACE_PERIOD_DAYS) >= today || optStart ? 'post_completion' : 'expired'
+  }
+
+  const unemploymentLimit = stemStart ? STEM_OPT_UNEMPLOYMENT_LIMIT : OPT_UNEMPLOYMENT_LIMIT
+  const onClock = phase === 'opt' || phase === 'stem_opt'
+
+  let unemploymentDaysUsed = input.unemploymentDaysUsed
+  const countedAt = input.unemploymentCountedAt ? new Date(input.unemploymentCountedAt) : null
+  if (onClock && !input.currentlyEmployed && countedAt && optStart) {
+    const accrualStart = countedAt > optStart ? countedAt : optStart
+    unemploymentDaysUsed += Math.max(0, daysBetween(accrualStart, today))
+  }
+  const unemploymentDaysRemaining = Math.max(0, unemploymentLimit - unemploymentDaysUsed)
+
+  const authorizationEnd = phase === 'stem_opt' ? stemEnd : optEnd
+
+  const deadlines: number[] = []
+  if (onClock && !input.currentlyEmployed) {
+    deadlines.push(unemploymentDaysRemaining)
+  }
+  if (onClock && authorizationEnd) {
+    deadlines.push(daysBetween(today, authorizationEnd))
+  }
+  if (phase === 'post_completion' && programEnd && !optStart) {
+    deadlines.push(daysBetween(today, addDays(programEnd, GRACE_PERIOD_DAYS)))
+  }
+  const daysUntilDeadline = deadlines.length ? Math.max(0, Math.min(...deadlines)) : null
+
+  const keyDates: TimelineDate[] = []
+  const addKeyDate = (key: string, label: string, date: Date | null) => {
+    if (date) {
+      keyDates.push({ key, label, date: formatDate(date), daysFromNow: daysBetween(today, date) })
+    }
+  }
+
+  if (programEnd) {
+    if (!optStart) {
+      addKeyDate('opt_filing_opens', 'OPT filing window opens', addDays(programEnd, -OPT_FILING_LEAD_DAYS))
+      addKeyDate('opt_filing_closes', 'Last day to file for OPT', addDays(programEnd, GRACE_PERIOD_DAYS))
+    }
+    addKeyDate('program_end', 'Program end date', programEnd)
+  }
+  addKeyDate('opt_start', 'OPT start', optStart)
+  addKeyDate('opt_end', 'OPT end', optEnd)
+  if (input.stemOptEligible && optEnd && !stemStart) {
+    addKeyDate('stem_filing_opens', 'STEM OPT extension filing opens', addDays(optEnd, -STEM_FILING_LEAD_DAYS))
+  }
+  addKeyDate('stem_opt_start', 'STEM OPT start', stemStart)
+  addKeyDate('stem_opt_end', 'STEM OPT end', stemEnd)
+  if (onClock && !input.currentlyEmployed) {
+    addKeyDate('unemployment_limit', 'Unemployment days run out', addDays(today, unemploymentDaysRemaining))
+  }
+
+  if (input.h1bLotteryStatus === 'selected') {
+    const season = latestLotterySeason(today)
+    addKeyDate('h1b_petition_filing', 'H-1B petition filing opens', season.petitionFilingOpens)
+    addKeyDate('h1b_start', 'H-1B cap employment can start', season.capStart)
+  } else {
+    const season = nextLotterySeason(today)
+    addKeyDate('h1b_registration', 'H-1B lottery registration opens', season.registrationOpens)
+    addKeyDate('h1b_selection', 'H-1B lottery selections announced', season.selectionsAnnounced)
+  }
+
+  keyDates.sort((a, b) => a.date.localeCompare(b.date))
+
+  return {
+    phase,
+    urgency: phase === 'expired' ? 'critical' : urgencyFor(daysUntilDeadline),
+    daysUntilDeadline,
+    unemploymentLimit,
+    unemploymentDaysUsed,
+    unemploymentDaysRemaining,
+    authorizationEndDate: authorizationEnd ? formatDate(authorizationEnd) : null,
+    stemOptEligible: input.stemOptEligible,
+    keyDates,
+  }
+}
+
+// Share of the composite score handed to deadline signals as the clock runs down
+const DEADLINE_BOOST_WEIGHT: Record<TimelineUrgency, number> = {
+  none: 0,
+  moderate: 0.05,
+  high: 0.1,
+  critical: 0.15,
+}
+
+export interface DeadlineBoost {
+  /** Share of the final score given to the boost (0..1) */
+  weight: number
+  /** Relative importance of each signal; sums to 1 */
+  eVerify: number
+  capExempt: number
+  nearStart: number
+}
+
+/**
+ * How much a short clock should pull ranking toward employers the candidate
+ * can actually use: E-Verify (required for STEM OPT), cap-exempt (no lottery)
+ * and roles that can start right away. Null when there is no pressure.
+ */
+export function deadlineBoostFor(summary: TimelineSummary | null): DeadlineBoost | null {
+  if (!summary) return null
+  const weight = DEADLINE_BOOST_WEIGHT[summary.urgency]
+  if (!weight) return null
+
+  const needsEVerify = summary.phase === 'stem_opt' || (summary.phase === 'opt' && summary.stemOptEligible)
+  const raw = {
+    eVerify: needsEVerify ? 0.45 : 0.1,
+    capExempt: 0.3,
+    nearStart: 0.3,
+  }
+  const total = raw.eVerify + raw.capExempt + raw.nearStart
+
+  return {
+    weight,
+    eVerify: raw.eVerify / total,
+    capExempt: raw.capExempt / total,
+    nearStart: raw.nearStart / total,
+  }
+}
+
+export function blendDeadlineBoost(
+  score: number,
+  boost: DeadlineBoost | null,
+  signals: { eVerify: number; capExempt: number; nearStart: number } | null | undefined
+) {
+  if (!boost || !signals) return score
+  const value = boost.eVerify * signals.eVerify + boost.capExempt * signals.capExempt + boost.nearStart * signals.nearStart
+  return (1 - boost.weight) * score + boost.weight * value
+}
@@ -1,19 +1,150 @@
 import { db } from '../db'
-import { users } from '../db/schema'
-import { eq } from 'drizzle-orm'
+import { candidateProfileItems, candidateProfiles, users } from '../db/schema'
+import { asc, eq } from 'drizzle-orm'
 import { generateEmbedding } from '../lib/openai'
+import type { CandidateProfileInput } from '../lib/candidate-profile'
 import { ensureUser } from './user-service'
+import { ScoringWeights, normalizeScoringWeights } from './scoring-weights'
+import { buildProfileEmbeddingText, normalizeCandidateProfile } from './candidate-profile-rules'
+import { formatResumeSummary } from './resume-parser'
+import { getParsedResume, getResume } from './resume-service'
+
+type ProfileItemKind = 'target_role' | 'skill' | 'preferred_location'
+
+const ITEM_FIELDS: Record<ProfileItemKind, 'targetRoles' | 'skills' | 'preferredLocations'> = {
+  target_role: 'targetRoles',
+  skill: 'skills',
+  preferred_location: 'preferredLocations',
+}
 
 export async function getUserProfile(authId: string) {
   const [user] = await db.select().from(users).where(eq(users.authId, authId)).limit(1)
-  return user || null
+  if (!user) {
+    return null
+  }
+  const [candidateProfile, resume] = await Promise.all([getCandidateProfile(user.id), getResume(user.id)])
+  return { ...user, candidateProfile, resume }
+}
+
+export async function getCandidateProfile(userId: string): Promise<CandidateProfileInput | null> {
+  const [profile] = await db
+    .select()
+    .from(candidateProfiles)
+    .where(eq(candidateProfiles.userId, userId))
+    .limit(1)
+  if (!profile) {
+    return null
+  }
+
+  const items = await db
+    .select({ kind: candidateProfileItems.kind, value: candidateProfileItems.value })
+    .from(candidateProfileItems)
+    .where(eq(candidateProfileItems.profileId, profile.id))
+    .orderBy(asc(candidateProfileItems.position))
+
+  const result: CandidateProfileInput = {
+    degree: profile.degree,
+    fieldOfStudy: profile.fieldOfStudy,
+    graduationDate: profile.graduationDate,
+    visaType: profile.visaType,
+    salaryFloor: profile.salaryFloor,
+    targetRoles: [],
+    skills: [],
+    preferredLocations: [],
+  }
+  for (const item of items) {
+    const field = ITEM_FIELDS[item.kind as ProfileItemKind]
+    if (field) {
+      result[field].push(item.value)
+    }
+  }
+  return result
+}
+
+async function saveCandidateProfile(userId: string, input: CandidateProfileInput) {
+  const profile = normalizeCandidateProfile(input)
+  const fields = {
+    degree: profile.degree ?? null,
+    fieldOfStudy: profile.fieldOfStudy ?? null,
+    graduationDate: profile.graduationDate ?? null,
+    visaType: profile.visaType ?? null,
+    salaryFloor: profile.salaryFloor ?? null,
+    updatedAt: new Date(),
+  }
+
+  await db.transaction(async (tx) => {
+    const [saved] = await tx
+      .insert(candidateProfiles)
+      .values({ userId, ...fields })
+      .onConflictDoUpdate({ target: candidateProfiles.userId, set: fields })
+      .returning({ id: candidateProfiles.id })
+
+    // Lists are replaced wholesale; the form always submits the full set
+    await tx.delete(candidateProfileItems).where(eq(candidateProfileItems.profileId, saved.id))
+    const items = (Object.keys(ITEM_FIELDS) as ProfileItemKind[]).flatMap((kind) =>
+      profile[ITEM_FIELDS[kind]].map((value, position) => ({ profileId: saved.id, kind, value, position }))
+    )
+    if (items.length) {
+      await tx.insert(candidateProfileItems).values(items)
+    }
+  })
+
+  return profile
+}
+
+// Embeds everything known about the candidate: structured fields, free text and resume
+async function buildProfileEmbedding(
+  userId: string,
+  description: string | null,
+  candidateProfile: CandidateProfileInput | null
+) {
+  const resume = await getParsedResume(userId)
+  const embeddingText = buildProfileEmbeddingText(
+    description,
+    candidateProfile,
+    resume ? formatResumeSummary(resume) : null
+  )
+  return embeddingText ? generateEmbedding(embeddingText) : null
 }
 
-export async function updateUserProfile(authId: string, email: string | undefined, description: string) {
+/**
+ * Re-embeds the profile after something outside the profile form changed,
+ * such as a resume upload or removal.
+ */
+export async function refreshProfileEmbedding(userId: string) {
+  const [user] = await db
+    .select({ profileDescription: users.profileDescription })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1)
+  if (!user) {
+    return null
+  }
+
+  const embedding = await buildProfileEmbedding(userId, user.profileDescription, await getCandidateProfile(userId))
+  await db.update(users).set({ profileEmbedding: embedding }).where(eq(users.id, userId))
+  return embedding
+}
+
+interface ProfileUpdate {
+  description?: string
+  candidateProfile?: CandidateProfileInput
+}
+
+/**
+ * Saves whichever parts of the profile were sent and re-embeds the combined
+ * structured + free-text profile so vector matching sees both.
+ */
+export async function updateUserProfile(authId: string, email: string | undefined, update: ProfileUpdate) {
   const userRecord = await ensureUser(authId, email)
-  // Generate embedding for the user's job preferences
-  const embedding = await generateEmbedding(description)
-  
+
+  const candidateProfile = update.candidateProfile
+    ? await saveCandidateProfile(userRecord.id, update.candidateProfile)
+    : await getCandidateProfile(userRecord.id)
+  const description = update.description ?? userRecord.profileDescription
+
+  const embedding = await buildProfileEmbedding(userRecord.id, description, candidateProfile)
+
   const [updated] = await db
     .update(users)
     .set({
@@ -24,7 +155,7 @@ export async function updateUserProfile(authId: string, email: string | undefine
     .returning()
   
   if (updated) {
-    return updated
+    return { ...updated, candidateProfile }
   }
   
   // Fallback in the unlikely event the record was removed between ensureUser and update
@@ -39,5 +170,21 @@ export async function updateUserProfile(authId: string, email: string | undefine
     })
     .returning()
 
-  return newUser
+  return { ...newUser, candidateProfile }
+}
+
+export async function updateScoringWeights(
+  authId: string,
+  email: string | undefined,
+  weights: Partial<ScoringWeights> | null
+) {
+  const userRecord = await ensureUser(authId, email)
+
+  const [updated] = await db
+    .update(users)
+    .set({ scoringWeights: weights ? normalizeScoringWeights(weights) : null })
+    .where(eq(users.id, userRecord.id))
+    .returning()
+
+  return updated ?? null
 }
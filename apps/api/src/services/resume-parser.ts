@@ -0,0 +1,189 @@
+export const RESUME_SECTIONS = ['education', 'experience', 'projects', 'skills'] as const
+export type ResumeSection = (typeof RESUME_SECTIONS)[number]
+
+export interface ResumeEntry {
+  /** First line(s) of the entry: role and company, school and degree, project name */
+  title: string
+  details: string[]
+}
+
+export interface ParsedResume {
+  summary: string | null
+  education: ResumeEntry[]
+  experience: ResumeEntry[]
+  projects: ResumeEntry[]
+  skills: string[]
+}
+
+const HEADINGS: Record<ResumeSection | 'summary' | 'other', string[]> = {
+  summary: ['summary', 'profile', 'objective', 'about me', 'professional summary'],
+  education: ['education', 'academic background', 'academics', 'education and training'],
+  experience: [
+    'experience',
+    'work experience',
+    'professional experience',
+    'relevant experience',
+    'employment',
+    'employment history',
+    'work history',
+    'internships',
+  ],
+  projects: ['projects', 'personal projects', 'selected projects', 'academic projects', 'research projects'],
+  skills: [
+    'skills',
+    'technical skills',
+    'skills and interests',
+    'skills & interests',
+    'technologies',
+    'tools and technologies',
+    'core competencies',
+  ],
+  // Recognised so their content is not appended to the previous section
+  other: [
+    'awards',
+    'honors',
+    'honors and awards',
+    'certifications',
+    'publications',
+    'leadership',
+    'activities',
+    'interests',
+    'volunteering',
+    'references',
+  ],
+}
+
+const HEADING_LOOKUP = new Map(
+  Object.entries(HEADINGS).flatMap(([section, names]) => names.map((name) => [name, section] as const))
+)
+
+const BULLET_PATTERN = /^[•▪●‣⁃–\-*·]\s*/
+
+// Upper bound on text fed to embeddings and prompts
+const MAX_SUMMARY_CHARS = 4000
+
+function matchHeading(line: string) {
+  const normalized = line
+    .replace(/[:\s]+$/, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase()
+  if (!normalized || normalized.length > 40) return null
+  return HEADING_LOOKUP.get(normalized) ?? null
+}
+
+function groupEntries(lines: string[]): ResumeEntry[] {
+  const entries: ResumeEntry[] = []
+  let current: ResumeEntry | null = null
+
+  for (const raw of lines) {
+    const line = raw.trim()
+    if (!line) {
+      current = null
+      continue
+    }
+
+    if (BULLET_PATTERN.test(line)) {
+      const detail = line.replace(BULLET_PATTERN, '').trim()
+      if (!detail) continue
+      if (!current) {
+        current = { title: detail, details: [] }
+        entries.push(current)
+      } else {
+        current.details.push(detail)
+      }
+      continue
+    }
+
+    // A plain line after bullets starts the next entry; before any bullets it
+    // continues the title (e.g. "Company, Role" then a date line)
+    if (!current || current.details.length) {
+      current = { title: line, details: [] }
+      entries.push(current)
+    } else {
+      current.title = `${current.title} | ${line}`
+    }
+  }
+
+  return entries
+}
+
+function splitSkills(lines: string[]) {
+  const seen = new Set<string>()
+  const skills: string[] = []
+
+  for (const raw of lines) {
+    // "Languages: Python, Go" -> drop the category label
+    const line = raw.replace(BULLET_PATTERN, '').replace(/^[^:,]{1,30}:\s*/, '')
+    for (const part of line.split(/[,;|•·]/)) {
+      const skill = part.replace(/\s+/g, ' ').trim()
+      const key = skill.toLowerCase()
+      if (!skill || skill.length > 50 || seen.has(key)) continue
+      seen.add(key)
+      skills.push(skill)
+    }
+  }
+
+  return skills
+}
+
+/**
+ * Splits extracted resume text into the sections the profile uses. Text
+ * before the first recognised heading (name, contact line) is ignored.
+ */
+export function parseResumeText(text: string): ParsedResume {
+  const buckets: Record<string, string[]> = {}
+  let section: string | null = null
+
+  for (const line of text.replace(/\r\n?/g, '\n').split('\n')) {
+    const heading = matchHeading(line)
+    if (heading) {
+      section = heading
+      buckets[section] ??= []
+      continue
+    }
+    if (section) {
+      buckets[section].push(line)
+    }
+  }
+
+  const summary = (buckets.summary ?? [])
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .join(' ')
+
+  return {
+    summary: summary || null,
+    education: groupEntries(buckets.education ?? []),
+    experience: groupEntries(buckets.experience ?? []),
+    projects: groupEntries(buckets.projects ?? []),
+    skills: splitSkills(buckets.skills ?? []),
+  }
+}
+
+export function hasParsedContent(resume: ParsedResume) {
+  return Boolean(resume.summary || RESUME_SECTIONS.some((section) => resume[section].length > 0))
+}
+
+function formatEntries(entries: ResumeEntry[]) {
+  return entries
+    .map((entry) => (entry.details.length ? `${entry.title}: ${entry.details.join('; ')}` : entry.title))
+    .join('\n')
+}
+
+/**
+ * Compact plain-text rendering of the parsed resume for embeddings and
+ * LLM prompts, capped so a long CV cannot crowd out everything else.
+ */
+export function formatResumeSummary(resume: ParsedResume, maxChars = MAX_SUMMARY_CHARS) {
+  const blocks = [
+    resume.summary && `Summary: ${resume.summary}`,
+    resume.experience.length && `Experience:\n${formatEntries(resume.experience)}`,
+    resume.projects.length && `Projects:\n${formatEntries(resume.projects)}`,
+    resume.education.length && `Education:\n${formatEntries(resume.education)}`,
+    resume.skills.length && `Skills: ${resume.skills.join(', ')}`,
+  ].filter((block): block is string => Boolean(block))
+
+  const text = blocks.join('\n\n')
+  return text.length > maxChars ? `${text.slice(0, maxChars - 1).trimEnd()}…` : text
+}
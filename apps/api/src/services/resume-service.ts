@@ -0,0 +1,74 @@
+import { eq } from 'drizzle-orm'
+import { db } from '../db'
+import { resumes } from '../db/schema'
+import { ResumeFormat, UnsupportedResumeError, detectResumeFormat, extractResumeText } from '../lib/resume-text'
+import { parseResumeText } from './resume-parser'
+
+export const MAX_RESUME_BYTES = 5 * 1024 * 1024
+
+const resumeMetadata = {
+  id: resumes.id,
+  fileName: resumes.fileName,
+  format: resumes.format,
+  sizeBytes: resumes.sizeBytes,
+  parsed: resumes.parsed,
+  uploadedAt: resumes.uploadedAt,
+}
+
+export async function getResume(userId: string) {
+  const [resume] = await db.select(resumeMetadata).from(resumes).where(eq(resumes.userId, userId)).limit(1)
+  return resume ?? null
+}
+
+export async function getParsedResume(userId: string) {
+  return (await getResume(userId))?.parsed ?? null
+}
+
+export async function getResumeFile(userId: string) {
+  const [resume] = await db
+    .select({ fileName: resumes.fileName, format: resumes.format, content: resumes.content })
+    .from(resumes)
+    .where(eq(resumes.userId, userId))
+    .limit(1)
+  return resume ? { ...resume, format: resume.format as ResumeFormat } : null
+}
+
+/**
+ * Extracts and parses an uploaded resume, replacing any previous one. Throws
+ * UnsupportedResumeError for files that are not a readable PDF or DOCX.
+ */
+export async function saveResume(userId: string, fileName: string, content: Uint8Array) {
+  const format = detectResumeFormat(content)
+  if (!format) {
+    throw new UnsupportedResumeError()
+  }
+
+  const extractedText = (await extractResumeText(content, format)).trim()
+  if (!extractedText) {
+    // Scanned PDFs have no text layer and would need OCR
+    throw new UnsupportedResumeError('No text found in the resume; scanned documents are not supported')
+  }
+
+  const values = {
+    fileName,
+    format,
+    sizeBytes: content.byteLength,
+    content: Buffer.from(content),
+    extractedText,
+    parsed: parseResumeText(extractedText),
+    uploadedAt: new Date(),
+  }
+
+  const [saved] = await db
+    .insert(resumes)
+    .values({ userId, ...values })
+    .onConflictDoUpdate({ target: resumes.userId, set: values })
+    .returning(resumeMetadata)
+
+  return saved
+}
+
+export async function deleteResume(userId: string) {
+  const deleted = await db.delete(resumes).where(eq(resumes.userId, userId)).returning({ id: resumes.id })
+  return deleted.length > 0
+}
@@ -0,0 +1,38 @@
+import type { SearchFilters } from '../lib/search-filters'
+
+/**
+ * Text queries always return a full candidate pool, so a new job only counts
+ * as a match when it hit the keywords or is reasonably close semantically.
+ */
+export const MIN_ALERT_SIMILARITY = 0.4
+
+export interface AlertCandidate {
+  scoreDetails?: {
+    similarity: number
+    lexicalRank?: number | null
+  }
+}
+
+export function isAlertWorthy(job: AlertCandidate, filters: SearchFilters) {
+  // Filter-only searches match every new job that passes the filters
+  if (!filters.description?.trim()) {
+    return true
+  }
+  const details = job.scoreDetails
+  if (!details) return false
+  return (details.lexicalRank ?? null) !== null || details.similarity >= MIN_ALERT_SIMILARITY
+}
+
+/**
+ * Drops unset and blank values so stored filters stay minimal and two saves
+ * of the same dashboard state compare equal.
+ */
+export function compactFilters(filters: SearchFilters): SearchFilters {
+  const entries = Object.entries(filters).filter(([key, value]) => {
+    if (value === undefined || value === null) return false
+    if (typeof value === 'string' && value.trim() === '') return false
+    if (key === 'jobType' && value === 'all') return false
+    return true
+  })
+  return Object.fromEntries(entries) as SearchFilters
+}
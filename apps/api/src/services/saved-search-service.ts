@@ -0,0 +1,211 @@
+import { and, desc, eq, isNull, sql } from 'drizzle-orm'
+import { db } from '../db'
+import { jobs, savedSearchMatches, savedSearches, SavedSearch } from '../db/schema'
+import { SearchFilters, toSearchOptions } from '../lib/search-filters'
+import { JobSearchResult, searchJobs } from './job-service'
+import { SearchCursor, decodeSearchCursor } from './search-cursor'
+import { compactFilters, isAlertWorthy } from './saved-search-rules'
+
+// Page size while collecting a run's matches; every page is read
+const MATCH_PAGE_SIZE = 50
+
+interface SavedSearchInput {
+  name: string
+  filters: SearchFilters
+}
+
+export async function listSavedSearches(userId: string) {
+  const unseenCount = sql<number>`(
+    select count(*)::int from ${savedSearchMatches}
+    where ${savedSearchMatches.savedSearchId} = ${savedSearches.id}
+      and ${savedSearchMatches.seenAt} is null
+  )`
+
+  return db
+    .select({
+      id: savedSearches.id,
+      name: savedSearches.name,
+      filters: savedSearches.filters,
+      lastRunAt: savedSearches.lastRunAt,
+      createdAt: savedSearches.createdAt,
+      updatedAt: savedSearches.updatedAt,
+      newMatchCount: unseenCount,
+    })
+    .from(savedSearches)
+    .where(eq(savedSearches.userId, userId))
+    .orderBy(desc(savedSearches.createdAt))
+}
+
+export async function createSavedSearch(userId: string, data: SavedSearchInput) {
+  const [savedSearch] = await db
+    .insert(savedSearches)
+    .values({
+      userId,
+      name: data.name,
+      filters: compactFilters(data.filters),
+    })
+    .returning()
+
+  return savedSearch
+}
+
+export async function updateSavedSearch(id: string, userId: string, data: Partial<SavedSearchInput>) {
+  const [savedSearch] = await db
+    .update(savedSearches)
+    .set({
+      ...(data.name !== undefined && { name: data.name }),
+      ...(data.filters !== undefined && { filters: compactFilters(data.filters) }),
+      updatedAt: new Date(),
+    })
+    .where(and(eq(savedSearches.id, id), eq(savedSearches.userId, userId)))
+    .returning()
+
+  return savedSearch ?? null
+}
+
+export async function deleteSavedSearch(id: string, userId: string) {
+  const deleted = await db
+    .delete(savedSearches)
+    .where(and(eq(savedSearches.id, id), eq(savedSearches.userId, userId)))
+    .returning({ id: savedSearches.id })
+
+  return deleted.length > 0
+}
+
+async function findOwnedSavedSearch(id: string, userId: string) {
+  const [savedSearch] = await db
+    .select({ id: savedSearches.id })
+    .from(savedSearches)
+    .where(and(eq(savedSearches.id, id), eq(savedSearches.userId, userId)))
+    .limit(1)
+  return savedSearch ?? null
+}
+
+export async function getSavedSearchMatches(id: string, userId: string, { unseenOnly = false } = {}) {
+  if (!(await findOwnedSavedSearch(id, userId))) {
+    return null
+  }
+
+  const filters = [eq(savedSearchMatches.savedSearchId, id)]
+  if (unseenOnly) {
+    filters.push(isNull(savedSearchMatches.seenAt))
+  }
+
+  return db
+    .select({
+      id: savedSearchMatches.id,
+      matchScore: savedSearchMatches.matchScore,
+      matchedAt: savedSearchMatches.matchedAt,
+      seenAt: savedSearchMatches.seenAt,
+      job: {
+        id: jobs.id,
+        title: jobs.title,
+        company: jobs.company,
+        location: jobs.location,
+        url: jobs.url,
+        visaStatus: jobs.visaStatus,
+        postedAt: jobs.postedAt,
+      },
+    })
+    .from(savedSearchMatches)
+    .innerJoin(jobs, eq(savedSearchMatches.jobId, jobs.id))
+    .where(and(...filters))
+    .orderBy(desc(savedSearchMatches.matchedAt), desc(savedSearchMatches.matchScore))
+}
+
+export async function markMatchesSeen(id: string, userId: string) {
+  if (!(await findOwnedSavedSearch(id, userId))) {
+    return null
+  }
+
+  const updated = await db
+    .update(savedSearchMatches)
+    .set({ seenAt: new Date() })
+    .where(and(eq(savedSearchMatches.savedSearchId, id), isNull(savedSearchMatches.seenAt)))
+    .returning({ id: savedSearchMatches.id })
+
+  return updated.length
+}
+
+export interface SavedSearchRunResult {
+  savedSearchId: string
+  userId: string
+  name: string
+  newMatches: { jobId: string; title: string; company: string; url: string }[]
+}
+
+/**
+ * Every alert-worthy job scraped since `since`. All pages are read because
+ * the next run starts where this one ends, so a job left out now is never
+ * matched.
+ */
+async function findNewMatches(savedSearch: SavedSearch, since: Date) {
+  const matches: JobSearchResult[] = []
+  let cursor: SearchCursor | null = null
+
+  do {
+    const page = await searchJobs({
+      ...toSearchOptions(savedSearch.filters),
+      userId: savedSearch.userId,
+      scrapedAfter: since,
+      cursor,
+      limit: MATCH_PAGE_SIZE,
+    })
+    matches.push(...page.jobs.filter((job) => isAlertWorthy(job, savedSearch.filters)))
+    cursor = page.nextCursor ? decodeSearchCursor(page.nextCursor) : null
+  } while (cursor)
+
+  return matches
+}
+
+/**
+ * Runs one saved search against jobs scraped since its previous run and
+ * stores the new matches. The window starts at creation for the first run.
+ */
+export async function runSavedSearch(savedSearch: SavedSearch, now = new Date()): Promise<SavedSearchRunResult> {
+  const matches = await findNewMatches(savedSearch, savedSearch.lastRunAt ?? savedSearch.createdAt)
+  const inserted = matches.length
+    ? await db
+        .insert(savedSearchMatches)
+        .values(
+          matches.map((job) => ({
+            savedSearchId: savedSearch.id,
+            jobId: job.id,
+            matchScore: job.matchScore ?? null,
+          }))
+        )
+        .onConflictDoNothing()
+        .returning({ jobId: savedSearchMatches.jobId })
+    : []
+
+  await db.update(savedSearches).set({ lastRunAt: now }).where(eq(savedSearches.id, savedSearch.id))
+
+  const insertedIds = new Set(inserted.map((row) => row.jobId))
+  return {
+    savedSearchId: savedSearch.id,
+    userId: savedSearch.userId,
+    name: savedSearch.name,
+    newMatches: matches
+      .filter((job) => insertedIds.has(job.id))
+      .map((job) => ({ jobId: job.id, title: job.title, company: job.company, url: job.url })),
+  }
+}
+
+export async function runAllSavedSearches(now = new Date()) {
+  const searches = await db.select().from(savedSearches).orderBy(savedSearches.createdAt)
+  const results: SavedSearchRunResult[] = []
+  const failures: { savedSearchId: string; error: string }[] = []
+
+  for (const savedSearch of searches) {
+    try {
+      results.push(await runSavedSearch(savedSearch, now))
+    } catch (error) {
+      failures.push({
+        savedSearchId: savedSearch.id,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+  }
+
+  return { results, failures }
+}
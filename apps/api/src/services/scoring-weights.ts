@@ -0,0 +1,69 @@
+/**
+ * Weighting of the match score components. Users can store their own
+ * profile (e.g. "sponsorship matters most") and override it per search;
+ * weights are always normalized so match scores stay on a 0..1 scale.
+ */
+
+export type ScoreComponent = 'similarity' | 'recency' | 'sponsorship'
+
+export type ScoringWeights = Record<ScoreComponent, number>
+
+export const SCORE_COMPONENTS: ScoreComponent[] = ['similarity', 'recency', 'sponsorship']
+
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+  similarity: 0.6,
+  recency: 0.25,
+  sponsorship: 0.15,
+}
+
+/**
+ * Scales weights to sum to 1. Missing or invalid components fall back to the
+ * defaults; if everything is zero the defaults are used as-is.
+ */
+export function normalizeScoringWeights(weights: Partial<ScoringWeights> | null | undefined): ScoringWeights {
+  const merged = { ...DEFAULT_SCORING_WEIGHTS }
+  for (const component of SCORE_COMPONENTS) {
+    const value = weights?.[component]
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      merged[component] = Math.max(0, value)
+    }
+  }
+
+  const total = SCORE_COMPONENTS.reduce((sum, component) => sum + merged[component], 0)
+  if (total <= 0) {
+    return { ...DEFAULT_SCORING_WEIGHTS }
+  }
+
+  return {
+    similarity: merged.similarity / total,
+    recency: merged.recency / total,
+    sponsorship: merged.sponsorship / total,
+  }
+}
+
+/**
+ * Per-search overrides win over the user's stored profile, component by
+ * component. Overrides are read on the same 0..1 scale as stored weights.
+ */
+export function resolveScoringWeights(
+  stored: Partial<ScoringWeights> | null | undefined,
+  overrides?: Partial<ScoringWeights>
+): ScoringWeights {
+  const base = normalizeScoringWeights(stored)
+  const hasOverrides = SCORE_COMPONENTS.some((component) => overrides?.[component] !== undefined)
+  return hasOverrides ? normalizeScoringWeights({ ...base, ...overrides }) : base
+}
+
+export function computeMatchScore(scores: ScoringWeights, weights: ScoringWeights) {
+  return SCORE_COMPONENTS.reduce((sum, component) => sum + scores[component] * weights[component], 0)
+}
+
+/**
+ * Components ordered by how much they contributed to the score. Components
+ * the user weighted at zero are left out.
+ */
+export function rankScoreContributions(scores: ScoringWeights, weights: ScoringWeights) {
+  return SCORE_COMPONENTS.filter((component) => weights[component] > 0).sort(
+    (a, b) => scores[b] * weights[b] - scores[a] * weights[a] || weights[b] - weights[a]
+  )
+}
@@ -0,0 +1,75 @@
+/**
+ * Keyset cursors for ranked job search. Results are ordered by composite
+ * score (descending) then id, and a cursor pins the last row of a page plus
+ * the instant recency was scored at, so later pages neither repeat nor skip
+ * jobs while the user pages through.
+ */
+
+export interface SearchCursor {
+  score: number
+  id: string
+  /** ISO timestamp that recency scores were computed against */
+  asOf: string
+}
+
+export interface RankedItem {
+  id: string
+  rankScore: number
+}
+
+export function encodeSearchCursor(cursor: SearchCursor) {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url')
+}
+
+export function decodeSearchCursor(value: string): SearchCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'))
+    if (
+      typeof parsed?.score !== 'number' ||
+      !Number.isFinite(parsed.score) ||
+      typeof parsed.id !== 'string' ||
+      typeof parsed.asOf !== 'string' ||
+      Number.isNaN(Date.parse(parsed.asOf))
+    ) {
+      return null
+    }
+    return { score: parsed.score, id: parsed.id, asOf: parsed.asOf }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Same order as the SQL `order by score desc, id asc`; uuids compare
+ * bytewise in Postgres, which matches plain string comparison of their
+ * lowercase hex form.
+ */
+export function compareRanked(a: RankedItem, b: RankedItem) {
+  if (a.rankScore !== b.rankScore) return b.rankScore - a.rankScore
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0
+}
+
+export function isAfterCursor(item: RankedItem, cursor: SearchCursor) {
+  return item.rankScore < cursor.score || (item.rankScore === cursor.score && item.id > cursor.id)
+}
+
+/**
+ * Slices one page out of a fully ranked list. Callers fetch `limit + 1`
+ * rows so they can tell whether another page exists.
+ */
+export function paginateRanked<T extends RankedItem>(
+  items: T[],
+  { cursor, offset = 0, limit }: { cursor?: SearchCursor | null; offset?: number; limit: number }
+) {
+  const ordered = [...items].sort(compareRanked)
+  const remaining = cursor ? ordered.filter((item) => isAfterCursor(item, cursor)) : ordered.slice(offset)
+  return remaining.slice(0, limit + 1)
+}
+
+export function buildNextCursor<T extends RankedItem>(rows: T[], limit: number, asOf: Date) {
+  if (rows.length <= limit) {
+    return null
+  }
+  const last = rows[limit - 1]
+  return encodeSearchCursor({ score: last.rankScore, id: last.id, asOf: asOf.toISOString() })
+}
@@ -0,0 +1,34 @@
+/**
+ * Reciprocal rank fusion for hybrid search. Each ranking contributes
+ * 1 / (k + rank), so agreement between the lexical and vector lists matters
+ * more than the raw scores, which live on incomparable scales.
+ */
+
+export const RRF_K = 60
+
+export interface FusedRank {
+  /** Normalized to 0..1, where 1 means first in every ranking. */
+  score: number
+  vectorRank: number | null
+  lexicalRank: number | null
+}
+
+export function fuseRankings(vectorIds: string[], lexicalIds: string[], k = RRF_K) {
+  const fused = new Map<string, FusedRank>()
+  const rankings: [string[], 'vectorRank' | 'lexicalRank'][] = [
+    [vectorIds, 'vectorRank'],
+    [lexicalIds, 'lexicalRank'],
+  ]
+  const maxScore = rankings.length / (k + 1)
+
+  for (const [ids, field] of rankings) {
+    ids.forEach((id, index) => {
+      const entry = fused.get(id) ?? { score: 0, vectorRank: null, lexicalRank: null }
+      entry[field] = index + 1
+      entry.score += 1 / (k + index + 1) / maxScore
+      fused.set(id, entry)
+    })
+  }
+
+  return fused
+}
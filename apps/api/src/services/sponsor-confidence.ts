@@ -0,0 +1,143 @@
+/**
+ * Sponsorship confidence from USCIS filing history.
+ *
+ * The score (0-100) blends four signals:
+ * - volume: approvals on a log scale, with older fiscal years counting less
+ *   (each year back weighs VOLUME_YEAR_DECAY of the one after it)
+ * - approval rate: approvals / (approvals + denials), pulled toward
+ *   PRIOR_APPROVAL_RATE so a single lucky or unlucky filing doesn't dominate
+ * - trend: recent years against the years before them, worth up to
+ *   ±TREND_POINTS
+ * - recency: the whole score decays once lastYearSponsored falls more than
+ *   RECENCY_GRACE_YEARS behind, since USCIS data lags by about that much
+ */
+
+export interface FilingYear {
+  fiscalYear: number
+  approvals: number
+  denials: number
+}
+
+export interface SponsorConfidence {
+  confidence: number
+  lastYearSponsored: number | null
+  totalApprovals: number
+  totalDenials: number
+  components: {
+    volume: number
+    approvalRate: number
+    trend: number
+    recency: number
+  }
+}
+
+const FLOOR = 20
+const SPAN = 75
+const VOLUME_SHARE = 0.6
+const RATE_SHARE = 0.4
+// Weighted approvals at which volume saturates
+const VOLUME_SATURATION = 200
+const VOLUME_YEAR_DECAY = 0.7
+const PRIOR_APPROVAL_RATE = 0.85
+const PRIOR_STRENGTH = 10
+const TREND_YEARS = 2
+const TREND_POINTS = 5
+const RECENCY_GRACE_YEARS = 2
+const RECENCY_DECAY = 0.85
+const MIN_CONFIDENCE = 1
+const MAX_CONFIDENCE = 99
+
+/** US federal fiscal years start October 1 */
+export function fiscalYearOf(date: Date) {
+  return date.getUTCMonth() >= 9 ? date.getUTCFullYear() + 1 : date.getUTCFullYear()
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, value))
+}
+
+function count(value: unknown) {
+  const parsed = typeof value === 'string' ? Number(value) : value
+  return typeof parsed === 'number' && Number.isFinite(parsed) ? Math.max(0, Math.round(parsed)) : 0
+}
+
+/**
+ * Merges duplicate years, drops negative or non-numeric counts and sorts
+ * oldest first. Accepts whatever was stored in sponsor metadata.
+ */
+export function normalizeFilingHistory(value: unknown): FilingYear[] {
+  if (!Array.isArray(value)) return []
+
+  const byYear = new Map<number, FilingYear>()
+  for (const entry of value) {
+    if (!entry || typeof entry !== 'object') continue
+    const record = entry as Record<string, unknown>
+    const fiscalYear = count(record.fiscalYear)
+    if (fiscalYear < 1900) continue
+
+    const existing = byYear.get(fiscalYear) ?? { fiscalYear, approvals: 0, denials: 0 }
+    existing.approvals += count(record.approvals)
+    existing.denials += count(record.denials)
+    byYear.set(fiscalYear, existing)
+  }
+
+  return [...byYear.values()].sort((a, b) => a.fiscalYear - b.fiscalYear)
+}
+
+function trendOf(history: FilingYear[], lastYear: number) {
+  const total = (from: number, to: number) =>
+    history
+      .filter((year) => year.fiscalYear > from && year.fiscalYear <= to)
+      .reduce((sum, year) => sum + year.approvals, 0)
+
+  const recent = total(lastYear - TREND_YEARS, lastYear)
+  const earlier = total(lastYear - TREND_YEARS * 2, lastYear - TREND_YEARS)
+  // One stretch of history gives nothing to compare against
+  if (recent + earlier === 0 || !history.some((year) => year.fiscalYear <= lastYear - TREND_YEARS)) return 0
+  return (recent - earlier) / (recent + earlier)
+}
+
+/**
+ * Scores a sponsor from its per-year filings as of the given fiscal year.
+ * Returns null when there are no filings to score; callers keep whatever
+ * confidence they already had (curated entries, Landing Club).
+ */
+export function scoreSponsorConfidence(history: FilingYear[], asOfYear = fiscalYearOf(new Date())): SponsorConfidence | null {
+  const years = normalizeFilingHistory(history).filter((year) => year.fiscalYear <= asOfYear)
+  const totalApprovals = years.reduce((sum, year) => sum + year.approvals, 0)
+  const totalDenials = years.reduce((sum, year) => sum + year.denials, 0)
+  if (totalApprovals + totalDenials === 0) return null
+
+  const approvedYears = years.filter((year) => year.approvals > 0)
+  const lastYearSponsored = approvedYears.length ? approvedYears[approvedYears.length - 1].fiscalYear : null
+  const latestYear = years[years.length - 1].fiscalYear
+
+  const weightedApprovals = years.reduce(
+    (sum, year) => sum + year.approvals * VOLUME_YEAR_DECAY ** (latestYear - year.fiscalYear),
+    0
+  )
+  const volume = Math.min(1, Math.log10(1 + weightedApprovals) / Math.log10(1 + VOLUME_SATURATION))
+  const approvalRate =
+    (totalApprovals + PRIOR_APPROVAL_RATE * PRIOR_STRENGTH) / (totalApprovals + totalDenials + PRIOR_STRENGTH)
+  const trend = trendOf(years, latestYear)
+
+  // Measured from the last approval: a run of denials-only years is not sponsorship
+  const yearsSince = lastYearSponsored === null ? Infinity : asOfYear - lastYearSponsored
+  const recency = yearsSince <= RECENCY_GRACE_YEARS ? 1 : RECENCY_DECAY ** (yearsSince - RECENCY_GRACE_YEARS)
+
+  const base = FLOOR + SPAN * (VOLUME_SHARE * volume + RATE_SHARE * approvalRate)
+  const confidence = clamp(Math.round(base * recency + TREND_POINTS * trend), MIN_CONFIDENCE, MAX_CONFIDENCE)
+
+  return {
+    confidence,
+    lastYearSponsored,
+    totalApprovals,
+    totalDenials,
+    components: {
+      volume: Number(volume.toFixed(3)),
+      approvalRate: Number(approvalRate.toFixed(3)),
+      trend: Number(trend.toFixed(3)),
+      recency: Number(recency.toFixed(3)),
+    },
+  }
+}
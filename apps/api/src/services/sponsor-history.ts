@@ -0,0 +1,148 @@
+import { FilingYear, fiscalYearOf, normalizeFilingHistory, scoreSponsorConfidence } from './sponsor-confidence'
+
+/**
+ * USCIS H-1B petition categories as they appear in the employer disclosure
+ * data. 'unspecified' holds counts from sources without the breakdown.
+ */
+export const PETITION_TYPES = [
+  'new_employment',
+  'continuation',
+  'change_same_employer',
+  'new_concurrent',
+  'change_employer',
+  'amended',
+  'unspecified',
+] as const
+
+export type PetitionType = (typeof PETITION_TYPES)[number]
+
+export interface PetitionCounts {
+  approvals: number
+  denials: number
+}
+
+/** One fiscal year of history as stored in sponsor metadata by the USCIS generator */
+export type FilingHistoryEntry = FilingYear & {
+  byPetitionType?: Partial<Record<PetitionType, PetitionCounts>>
+}
+
+export interface SponsorFilingRow {
+  fiscalYear: number
+  petitionType: PetitionType
+  approvals: number
+  denials: number
+}
+
+export type TrendDirection = 'growing' | 'steady' | 'shrinking' | 'stopped' | 'insufficient_data'
+
+export interface SponsorHistory {
+  years: Array<FilingYear & { byPetitionType: Partial<Record<PetitionType, PetitionCounts>> }>
+  lastYearSponsored: number | null
+  trend: {
+    direction: TrendDirection
+    /** -1 (all filings in earlier years) to 1 (all in recent years) */
+    change: number
+  }
+}
+
+// Trend beyond this share counts as growing or shrinking
+const TREND_THRESHOLD = 0.15
+// Matches the confidence model's grace for USCIS publishing lag
+const STOPPED_AFTER_YEARS = 2
+
+function isPetitionType(value: unknown): value is PetitionType {
+  return typeof value === 'string' && (PETITION_TYPES as readonly string[]).includes(value)
+}
+
+function count(value: unknown) {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.max(0, Math.round(value)) : 0
+}
+
+/**
+ * Flattens metadata.filingHistory into one row per fiscal year and petition
+ * type. Years without a breakdown (or whose breakdown doesn't add up to the
+ * year's totals) put the remainder under 'unspecified'.
+ */
+export function filingRowsFromHistory(value: unknown): SponsorFilingRow[] {
+  if (!Array.isArray(value)) return []
+
+  const rows = new Map<string, SponsorFilingRow>()
+  const add = (fiscalYear: number, petitionType: PetitionType, approvals: number, denials: number) => {
+    if (approvals + denials === 0) return
+    const key = `${fiscalYear}:${petitionType}`
+    const row = rows.get(key) ?? { fiscalYear, petitionType, approvals: 0, denials: 0 }
+    row.approvals += approvals
+    row.denials += denials
+    rows.set(key, row)
+  }
+
+  for (const entry of value) {
+    if (!entry || typeof entry !== 'object') continue
+    const record = entry as Record<string, unknown>
+    const [year] = normalizeFilingHistory([record])
+    if (!year) continue
+
+    let typedApprovals = 0
+    let typedDenials = 0
+    const breakdown = record.byPetitionType
+    if (breakdown && typeof breakdown === 'object') {
+      for (const [petitionType, counts] of Object.entries(breakdown)) {
+        if (!isPetitionType(petitionType) || !counts || typeof counts !== 'object') continue
+        const approvals = count((counts as Record<string, unknown>).approvals)
+        const denials = count((counts as Record<string, unknown>).denials)
+        add(year.fiscalYear, petitionType, approvals, denials)
+        typedApprovals += approvals
+        typedDenials += denials
+      }
+    }
+    add(
+      year.fiscalYear,
+      'unspecified',
+      Math.max(0, year.approvals - typedApprovals),
+      Math.max(0, year.denials - typedDenials)
+    )
+  }
+
+  return [...rows.values()].sort(
+    (a, b) => a.fiscalYear - b.fiscalYear || PETITION_TYPES.indexOf(a.petitionType) - PETITION_TYPES.indexOf(b.petitionType)
+  )
+}
+
+/**
+ * Rolls stored rows back up into per-year totals and labels the trend:
+ * stopped when nothing was approved recently, otherwise growing, steady or
+ * shrinking by the confidence model's recent-vs-earlier comparison.
+ */
+export function buildSponsorHistory(rows: SponsorFilingRow[], asOfYear = fiscalYearOf(new Date())): SponsorHistory {
+  const byYear = new Map<number, SponsorHistory['years'][number]>()
+  for (const row of rows) {
+    const year = byYear.get(row.fiscalYear) ?? { fiscalYear: row.fiscalYear, approvals: 0, denials: 0, byPetitionType: {} }
+    year.approvals += row.approvals
+    year.denials += row.denials
+    const counts = year.byPetitionType[row.petitionType] ?? { approvals: 0, denials: 0 }
+    counts.approvals += row.approvals
+    counts.denials += row.denials
+    year.byPetitionType[row.petitionType] = counts
+    byYear.set(row.fiscalYear, year)
+  }
+  const years = [...byYear.values()].sort((a, b) => a.fiscalYear - b.fiscalYear)
+
+  const scored = scoreSponsorConfidence(years, asOfYear)
+  if (!scored) {
+    return { years, lastYearSponsored: null, trend: { direction: 'insufficient_data', change: 0 } }
+  }
+
+  const change = scored.components.trend
+  let direction: TrendDirection = 'steady'
+  if (scored.lastYearSponsored === null || asOfYear - scored.lastYearSponsored > STOPPED_AFTER_YEARS) {
+    direction = 'stopped'
+  } else if (years.length < 2) {
+    direction = 'insufficient_data'
+  } else if (change > TREND_THRESHOLD) {
+    direction = 'growing'
+  } else if (change < -TREND_THRESHOLD) {
+    direction = 'shrinking'
+  }
+
+  return { years, lastYearSponsored: scored.lastYearSponsored, trend: { direction, change } }
+}
@@ -0,0 +1,63 @@
+import { normalizeCompanyName } from '../lib/normalize'
+import { ACCEPT_MATCH_CONFIDENCE, CompanyMatch, CompanyMatchMethod } from './company-matcher'
+
+/**
+ * Which sponsor matches need a person to confirm them. Reviews are keyed by
+ * the posting's normalized company name, so one decision covers every job
+ * from that company in this and future crawls.
+ */
+
+export const SPONSOR_REVIEW_STATUSES = ['pending', 'approved', 'rejected', 'reassigned'] as const
+export type SponsorReviewStatus = (typeof SPONSOR_REVIEW_STATUSES)[number]
+
+export const SPONSOR_REVIEW_REASONS = ['low_confidence', 'multiple_candidates', 'staffing_agency'] as const
+export type SponsorReviewReason = (typeof SPONSOR_REVIEW_REASONS)[number]
+
+export interface SponsorReviewCandidate {
+  id: string
+  companyName: string
+  confidence: number
+  method: CompanyMatchMethod
+}
+
+// A second sponsor within this much of the best one needs a person to pick
+const COMPETING_CANDIDATE_MARGIN = 0.1
+
+// Agencies post on behalf of clients, so the sponsor is rarely the name on
+// the posting. Plain "consulting" is left out: most such firms hire directly.
+const STAFFING_PATTERN =
+  /\b(staffing|recruit(ing|ment|ers)?|talent (acquisition|solutions|partners)|consultancy|consultants|infotech|infosystems|workforce solutions|manpower|placements?|(it|tech|software|technology) solutions)\b/
+
+export function looksLikeStaffingAgency(company: string) {
+  return STAFFING_PATTERN.test(normalizeCompanyName(company))
+}
+
+/**
+ * Reasons to queue a posting's sponsor match for review, given the ranked
+ * candidates from rankCompanyMatches (uncapped). Empty when the match can
+ * be trusted, including when nothing matched a plain company name.
+ */
+export function sponsorReviewReasons<T>(company: string, ranked: CompanyMatch<T>[]): SponsorReviewReason[] {
+  const reasons: SponsorReviewReason[] = []
+  const [best, second] = ranked
+
+  if (best && best.confidence < ACCEPT_MATCH_CONFIDENCE) {
+    reasons.push('low_confidence')
+  }
+  if (best && second && best.confidence - second.confidence <= COMPETING_CANDIDATE_MARGIN) {
+    reasons.push('multiple_candidates')
+  }
+  if (looksLikeStaffingAgency(company)) {
+    reasons.push('staffing_agency')
+  }
+  return reasons
+}
+
+export function toReviewCandidates(ranked: CompanyMatch<{ id: string; companyName: string }>[]): SponsorReviewCandidate[] {
+  return ranked.map((match) => ({
+    id: match.candidate.id,
+    companyName: match.candidate.companyName,
+    confidence: match.confidence,
+    method: match.method,
+  }))
+}
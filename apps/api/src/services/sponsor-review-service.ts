@@ -0,0 +1,169 @@
+import { and, asc, desc, eq, inArray, sql } from 'drizzle-orm'
+import { db } from '../db'
+import { jobs, sponsorMatchReviews, visaSponsors } from '../db/schema'
+import { normalizeCompanyName } from '../lib/normalize'
+import { SponsorDecision, SponsorResolution, buildSponsorFields } from './ingestion-rules'
+import type { SponsorReviewStatus } from './sponsor-review-rules'
+import { recordSponsorAlias } from './sponsor-service'
+import { postingVisaStatusSql } from './visa-language-service'
+
+export class SponsorReviewError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SponsorReviewError'
+  }
+}
+
+export type SponsorReviewAction = 'approve' | 'reject' | 'reassign'
+
+const ACTION_STATUS: Record<SponsorReviewAction, SponsorReviewStatus> = {
+  approve: 'approved',
+  reject: 'rejected',
+  reassign: 'reassigned',
+}
+
+// Same result as normalizeCompanyName, so postings can be found by a review's key
+const normalizedJobCompany = sql<string>`btrim(regexp_replace(lower(${jobs.company}), '[^a-z0-9]+', ' ', 'g'))`
+
+export async function loadSponsorDecisions(): Promise<SponsorDecision[]> {
+  return db
+    .select({
+      normalizedCompany: sponsorMatchReviews.normalizedCompany,
+      status: sponsorMatchReviews.status,
+      visaSponsorId: sponsorMatchReviews.visaSponsorId,
+    })
+    .from(sponsorMatchReviews)
+}
+
+/** Queues a company for review; a company already in the queue is left as is */
+export async function queueSponsorReview(company: string, review: NonNullable<SponsorResolution['review']>) {
+  const [suggested] = review.candidates
+  await db
+    .insert(sponsorMatchReviews)
+    .values({
+      normalizedCompany: normalizeCompanyName(company),
+      companyName: company,
+      reasons: review.reasons,
+      candidates: review.candidates,
+      suggestedSponsorId: suggested?.id ?? null,
+      matchConfidence: suggested?.confidence ?? null,
+    })
+    .onConflictDoNothing({ target: sponsorMatchReviews.normalizedCompany })
+}
+
+export interface ListSponsorReviewsParams {
+  status?: SponsorReviewStatus
+  limit?: number
+  offset?: number
+}
+
+/**
+ * Reviews in one status with the decided sponsor's name and how many active
+ * postings each covers. Pending reviews come oldest first.
+ */
+export async function listSponsorReviews({ status = 'pending', limit = 50, offset = 0 }: ListSponsorReviewsParams) {
+  const reviews = await db
+    .select({
+      id: sponsorMatchReviews.id,
+      companyName: sponsorMatchReviews.companyName,
+      normalizedCompany: sponsorMatchReviews.normalizedCompany,
+      status: sponsorMatchReviews.status,
+      reasons: sponsorMatchReviews.reasons,
+      candidates: sponsorMatchReviews.candidates,
+      suggestedSponsorId: sponsorMatchReviews.suggestedSponsorId,
+      matchConfidence: sponsorMatchReviews.matchConfidence,
+      visaSponsorId: sponsorMatchReviews.visaSponsorId,
+      visaSponsorName: visaSponsors.companyName,
+      decidedBy: sponsorMatchReviews.decidedBy,
+      decidedAt: sponsorMatchReviews.decidedAt,
+      createdAt: sponsorMatchReviews.createdAt,
+    })
+    .from(sponsorMatchReviews)
+    .leftJoin(visaSponsors, eq(visaSponsors.id, sponsorMatchReviews.visaSponsorId))
+    .where(eq(sponsorMatchReviews.status, status))
+    .orderBy(status === 'pending' ? asc(sponsorMatchReviews.createdAt) : desc(sponsorMatchReviews.decidedAt))
+    .limit(limit)
+    .offset(offset)
+
+  if (!reviews.length) return []
+
+  const counts = await db
+    .select({ normalizedCompany: normalizedJobCompany, count: sql<number>`count(*)::int` })
+    .from(jobs)
+    .where(and(eq(jobs.isActive, true), inArray(normalizedJobCompany, reviews.map((review) => review.normalizedCompany))))
+    .groupBy(normalizedJobCompany)
+  const countByCompany = new Map(counts.map((row) => [row.normalizedCompany, row.count]))
+
+  return reviews.map((review) => ({ ...review, activeJobCount: countByCompany.get(review.normalizedCompany) ?? 0 }))
+}
+
+/**
+ * Records a decision and relinks every posting from the company: approve
+ * keeps the suggested sponsor, reassign picks another and reject unlinks.
+ * Approved and reassigned names are also stored as sponsor aliases so the
+ * on-demand lookups find them. Null when the review does not exist.
+ */
+export async function decideSponsorReview(
+  reviewId: string,
+  action: SponsorReviewAction,
+  options: { visaSponsorId?: string; decidedBy: string | null }
+) {
+  const [review] = await db.select().from(sponsorMatchReviews).where(eq(sponsorMatchReviews.id, reviewId)).limit(1)
+  if (!review) return null
+
+  let sponsorId: string | null = null
+  if (action === 'approve') {
+    if (!review.suggestedSponsorId) {
+      throw new SponsorReviewError('Nothing was suggested for this company; reassign or reject it instead')
+    }
+    sponsorId = review.suggestedSponsorId
+  } else if (action === 'reassign') {
+    if (!options.visaSponsorId) throw new SponsorReviewError('visaSponsorId is required to reassign')
+    sponsorId = options.visaSponsorId
+  }
+
+  const [sponsor] = sponsorId
+    ? await db
+        .select({
+          id: visaSponsors.id,
+          companyName: visaSponsors.companyName,
+          sponsorshipConfidence: visaSponsors.sponsorshipConfidence,
+        })
+        .from(visaSponsors)
+        .where(eq(visaSponsors.id, sponsorId))
+        .limit(1)
+    : []
+  if (sponsorId && !sponsor) {
+    throw new SponsorReviewError('Sponsor not found')
+  }
+
+  const sponsorFields = buildSponsorFields(
+    sponsor ? { ...sponsor, sponsorshipConfidence: sponsor.sponsorshipConfidence ?? 0 } : null
+  )
+
+  const result = await db.transaction(async (tx) => {
+    const [updated] = await tx
+      .update(sponsorMatchReviews)
+      .set({
+        status: ACTION_STATUS[action],
+        visaSponsorId: sponsor?.id ?? null,
+        decidedBy: options.decidedBy,
+        decidedAt: new Date(),
+      })
+      .where(eq(sponsorMatchReviews.id, reviewId))
+      .returning()
+
+    const relinked = await tx
+      .update(jobs)
+      .set({ ...sponsorFields, visaStatus: postingVisaStatusSql(sponsorFields.visaStatus), manualReview: false })
+      .where(sql`${normalizedJobCompany} = ${review.normalizedCompany}`)
+      .returning({ id: jobs.id })
+
+    return { review: updated, jobsUpdated: relinked.length }
+  })
+
+  if (sponsor) {
+    await recordSponsorAlias(sponsor.id, review.normalizedCompany)
+  }
+  return result
+}
@@ -0,0 +1,25 @@
+import { inArray, sql } from 'drizzle-orm'
+import { jobs, visaSponsors } from '../db/schema'
+import { NON_SPONSORING_STANCES } from './visa-language'
+
+/**
+ * Sponsorship component of the match score, in SQL so it can order the whole
+ * result set. A posting whose own text rules out sponsorship for the role
+ * (a refusal, or OPT only) scores 0 before the company's confidence is
+ * looked at.
+ */
+export function sponsorScoreSql() {
+  const confidence = sql`coalesce(
+    (select ${visaSponsors.sponsorshipConfidence} from ${visaSponsors} where ${visaSponsors.id} = ${jobs.visaSponsorId}),
+    ${jobs.sponsorshipConfidence}
+  )`
+  return sql<number>`(case
+    when ${inArray(jobs.visaStance, NON_SPONSORING_STANCES)} or ${jobs.visaStatus} = 'no_sponsorship' then 0
+    when ${jobs.visaStatus} = 'sponsor_verified' then 1
+    when ${confidence} >= 80 then 0.9
+    when ${confidence} >= 60 then 0.6
+    when ${jobs.visaStatus} = 'likely_sponsor' then 0.5
+    when ${confidence} >= 40 then 0.3
+    else 0
+  end)::float8`
+}
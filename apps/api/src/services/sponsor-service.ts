@@ -0,0 +1,209 @@
+import { SQL, and, asc, desc, eq, gte, ilike, isNull, or, sql } from 'drizzle-orm'
+import { db } from '../db'
+import { jobs, sponsorFilingsByYear, visaSponsors } from '../db/schema'
+import { normalizeCompanyName } from '../lib/normalize'
+import type { SponsorDirectoryFilters } from '../lib/sponsor-filters'
+import { escapeLike } from '../utils/like'
+import { buildSponsorHistory } from './sponsor-history'
+import { fiscalYearOf } from './sponsor-confidence'
+
+const SPONSOR_JOB_LIMIT = 50
+
+// Drizzle leaves select-list columns unqualified on single-table queries,
+// which would bind the correlated subqueries below to their own table
+const outerSponsorId = sql`${visaSponsors}.${sql.identifier(visaSponsors.id.name)}`
+
+// Stored per-year filings win; older seeds only have the aggregate in metadata
+const totalFilingsSql = sql<number>`coalesce(
+  (select sum(${sponsorFilingsByYear.approvals} + ${sponsorFilingsByYear.denials})
+    from ${sponsorFilingsByYear} where ${sponsorFilingsByYear.visaSponsorId} = ${outerSponsorId}),
+  case when ${visaSponsors.metadata}->>'filings' ~ '^[0-9]+$' then (${visaSponsors.metadata}->>'filings')::bigint end,
+  0
+)::int`
+
+function activeJobFilters() {
+  return [eq(jobs.isActive, true), sql`${jobs.isLinkActive} is not false`, isNull(jobs.canonicalJobId)]
+}
+
+const activeJobCountSql = sql<number>`(
+  select count(*) from ${jobs}
+  where ${jobs.visaSponsorId} = ${outerSponsorId} and ${and(...activeJobFilters())}
+)::int`
+
+const directoryColumns = {
+  id: visaSponsors.id,
+  companyName: visaSponsors.companyName,
+  sponsorshipConfidence: visaSponsors.sponsorshipConfidence,
+  lastYearSponsored: visaSponsors.lastYearSponsored,
+  visaTypes: visaSponsors.sponsorshipTypes,
+  eVerifyEnrolled: visaSponsors.eVerifyEnrolled,
+  capExempt: visaSponsors.capExempt,
+  industry: sql<string | null>`${visaSponsors.metadata}->>'industry'`,
+  city: sql<string | null>`${visaSponsors.metadata}->>'city'`,
+  state: sql<string | null>`${visaSponsors.metadata}->>'state'`,
+  totalFilings: totalFilingsSql,
+  activeJobCount: activeJobCountSql,
+}
+
+function directoryFilters(filters: SponsorDirectoryFilters) {
+  const conditions: SQL[] = []
+
+  if (filters.q) {
+    const normalized = normalizeCompanyName(filters.q)
+    conditions.push(
+      or(
+        ilike(visaSponsors.companyName, `%${escapeLike(filters.q)}%`),
+        ilike(visaSponsors.normalizedName, `%${normalized}%`),
+        sql`${normalized} = any(${visaSponsors.aliases})`
+      )!
+    )
+  }
+
+  if (filters.minConfidence !== undefined) {
+    conditions.push(gte(visaSponsors.sponsorshipConfidence, filters.minConfidence))
+  }
+
+  if (filters.industry) {
+    conditions.push(sql`${visaSponsors.metadata}->>'industry' ilike ${`%${escapeLike(filters.industry)}%`}`)
+  }
+
+  if (filters.state) {
+    conditions.push(sql`upper(${visaSponsors.metadata}->>'state') = ${filters.state.toUpperCase()}`)
+  }
+
+  if (filters.visaType) {
+    conditions.push(sql`${visaSponsors.sponsorshipTypes} @> array[${filters.visaType.toUpperCase()}]::text[]`)
+  }
+
+  if (filters.eVerifyOnly) {
+    conditions.push(eq(visaSponsors.eVerifyEnrolled, true))
+  }
+
+  if (filters.capExemptOnly) {
+    conditions.push(eq(visaSponsors.capExempt, true))
+  }
+
+  return conditions.length ? and(...conditions) : undefined
+}
+
+function directoryOrder(sort: SponsorDirectoryFilters['sort']) {
+  switch (sort) {
+    case 'confidence':
+      return [sql`${visaSponsors.sponsorshipConfidence} desc nulls last`, asc(visaSponsors.companyName)]
+    case 'recent':
+      return [sql`${visaSponsors.lastYearSponsored} desc nulls last`, desc(totalFilingsSql), asc(visaSponsors.companyName)]
+    case 'name':
+      return [asc(visaSponsors.companyName)]
+    case 'filings':
+    default:
+      return [desc(totalFilingsSql), asc(visaSponsors.companyName)]
+  }
+}
+
+/**
+ * Browsable sponsor directory: search by name or alias, filter by
+ * confidence, industry, state, visa type and employer flags.
+ */
+export async function listSponsors(filters: SponsorDirectoryFilters) {
+  const where = directoryFilters(filters)
+
+  const [sponsors, [{ total }]] = await Promise.all([
+    db
+      .select(directoryColumns)
+      .from(visaSponsors)
+      .where(where)
+      .orderBy(...directoryOrder(filters.sort), asc(visaSponsors.id))
+      .limit(filters.limit)
+      .offset(filters.offset),
+    db.select({ total: sql<number>`count(*)::int` }).from(visaSponsors).where(where),
+  ])
+
+  return { sponsors, total, hasMore: filters.offset + sponsors.length < total }
+}
+
+/**
+ * One sponsor with its directory fields plus the active jobs linked to it.
+ * Null when the sponsor does not exist.
+ */
+export async function getSponsorWithJobs(sponsorId: string) {
+  const [sponsor] = await db
+    .select({
+      ...directoryColumns,
+      aliases: visaSponsors.aliases,
+      notes: visaSponsors.notes,
+      source: visaSponsors.source,
+    })
+    .from(visaSponsors)
+    .where(eq(visaSponsors.id, sponsorId))
+    .limit(1)
+  if (!sponsor) return null
+
+  const sponsorJobs = await db
+    .select({
+      id: jobs.id,
+      title: jobs.title,
+      company: jobs.company,
+      location: jobs.location,
+      url: jobs.url,
+      jobType: jobs.jobType,
+      isRemote: jobs.isRemote,
+      visaStatus: jobs.visaStatus,
+      postedAt: jobs.postedAt,
+    })
+    .from(jobs)
+    .where(and(eq(jobs.visaSponsorId, sponsorId), ...activeJobFilters()))
+    .orderBy(sql`${jobs.postedAt} desc nulls last`, desc(jobs.scrapedAt))
+    .limit(SPONSOR_JOB_LIMIT)
+
+  return { sponsor, jobs: sponsorJobs }
+}
+
+/**
+ * Per-fiscal-year USCIS filings for a sponsor with a trend label. Null when
+ * the sponsor does not exist; an empty history when nothing was imported.
+ */
+export async function getSponsorHistory(sponsorId: string, now = new Date()) {
+  const [sponsor] = await db
+    .select({ id: visaSponsors.id, companyName: visaSponsors.companyName })
+    .from(visaSponsors)
+    .where(eq(visaSponsors.id, sponsorId))
+    .limit(1)
+  if (!sponsor) return null
+
+  const rows = await db
+    .select({
+      fiscalYear: sponsorFilingsByYear.fiscalYear,
+      petitionType: sponsorFilingsByYear.petitionType,
+      approvals: sponsorFilingsByYear.approvals,
+      denials: sponsorFilingsByYear.denials,
+    })
+    .from(sponsorFilingsByYear)
+    .where(eq(sponsorFilingsByYear.visaSponsorId, sponsorId))
+    .orderBy(asc(sponsorFilingsByYear.fiscalYear))
+
+  return { sponsor, ...buildSponsorHistory(rows, fiscalYearOf(now)) }
+}
+
+/**
+ * Adds a normalized alias to a sponsor unless it is already there or is the
+ * sponsor's own normalized name. Returns whether a row changed.
+ */
+export async function recordSponsorAlias(sponsorId: string, alias: string) {
+  const normalized = normalizeCompanyName(alias)
+  if (!normalized) return false
+
+  const existingAliases = sql`coalesce(${visaSponsors.aliases}, '{}'::text[])`
+  const updated = await db
+    .update(visaSponsors)
+    .set({ aliases: sql`array_append(${existingAliases}, ${normalized})`, updatedAt: new Date() })
+    .where(
+      and(
+        eq(visaSponsors.id, sponsorId),
+        sql`${visaSponsors.normalizedName} <> ${normalized}`,
+        sql`not (${normalized} = any(${existingAliases}))`
+      )
+    )
+    .returning({ id: visaSponsors.id })
+
+  return updated.length > 0
+}
@@ -0,0 +1,54 @@
+import { eq } from 'drizzle-orm'
+import { db } from '../db'
+import { immigrationTimelines } from '../db/schema'
+import type { ImmigrationTimelineUpdate } from '../lib/candidate-profile'
+import { computeTimeline } from './opt-timeline'
+
+export async function getImmigrationTimeline(userId: string) {
+  const [timeline] = await db
+    .select()
+    .from(immigrationTimelines)
+    .where(eq(immigrationTimelines.userId, userId))
+    .limit(1)
+  return timeline ?? null
+}
+
+export async function getTimelineSummary(userId: string, now = new Date()) {
+  const timeline = await getImmigrationTimeline(userId)
+  return timeline ? computeTimeline(timeline, now) : null
+}
+
+/**
+ * Saves the timeline. The unemployment count restarts from the saved value
+ * so the user's own tally always wins over what the server accrued.
+ */
+export async function saveImmigrationTimeline(userId: string, update: ImmigrationTimelineUpdate, now = new Date()) {
+  const values = {
+    programEndDate: update.programEndDate ?? null,
+    optStartDate: update.optStartDate ?? null,
+    optEndDate: update.optEndDate ?? null,
+    stemOptStartDate: update.stemOptStartDate ?? null,
+    stemOptEligible: update.stemOptEligible,
+    unemploymentDaysUsed: update.unemploymentDaysUsed,
+    unemploymentCountedAt: now,
+    currentlyEmployed: update.currentlyEmployed,
+    h1bLotteryStatus: update.h1bLotteryStatus,
+    updatedAt: now,
+  }
+
+  const [timeline] = await db
+    .insert(immigrationTimelines)
+    .values({ userId, ...values })
+    .onConflictDoUpdate({ target: immigrationTimelines.userId, set: values })
+    .returning()
+
+  return timeline
+}
+
+export async function deleteImmigrationTimeline(userId: string) {
+  const deleted = await db
+    .delete(immigrationTimelines)
+    .where(eq(immigrationTimelines.userId, userId))
+    .returning({ id: immigrationTimelines.id })
+  return deleted.length > 0
+}
@@ -0,0 +1,99 @@
+import { and, asc, eq, gt, isNotNull, sql } from 'drizzle-orm'
+import { db } from '../db'
+import { jobs } from '../db/schema'
+import { classifyVisaLanguage } from '../lib/openai'
+import { VisaStatus, deriveVisaStatus } from './ingestion-rules'
+import {
+  PostingVisaLanguage,
+  STANCE_VISA_STATUS,
+  applyPostingStance,
+  checkLlmVisaLanguage,
+  mentionsWorkAuthorization,
+  readPostingVisaLanguage,
+} from './visa-language'
+
+const BACKFILL_BATCH_SIZE = 200
+
+export function isVisaLanguageLlmEnabled() {
+  return process.env.VISA_LANGUAGE_LLM === 'true' && Boolean(process.env.OPENAI_API_KEY)
+}
+
+/**
+ * A posting's sponsorship stance from the rules, falling back to the LLM
+ * (when VISA_LANGUAGE_LLM=true) for descriptions that talk about work
+ * authorization in a way the rules cannot place.
+ */
+export async function extractPostingVisaLanguage(
+  description: string | null | undefined
+): Promise<PostingVisaLanguage | null> {
+  const fromRules = readPostingVisaLanguage(description)
+  if (fromRules || !description || !isVisaLanguageLlmEnabled() || !mentionsWorkAuthorization(description)) {
+    return fromRules
+  }
+  return checkLlmVisaLanguage(description, await classifyVisaLanguage(description))
+}
+
+/**
+ * applyPostingStance for bulk updates: the given company-level status unless
+ * the job's stored stance forces another.
+ */
+export function postingVisaStatusSql(companyStatus: VisaStatus | typeof jobs.visaStatus) {
+  const overrides = Object.entries(STANCE_VISA_STATUS).map(([stance, status]) => sql`when ${stance} then ${status}`)
+  return sql<VisaStatus>`case ${jobs.visaStance} ${sql.join(overrides, sql` `)} else ${companyStatus} end`
+}
+
+export interface VisaLanguageBackfillResult {
+  checked: number
+  withStance: number
+  updated: number
+}
+
+/**
+ * Re-reads every active job's description and stores the stance, evidence
+ * and resulting visa status where they changed. Safe to re-run after the
+ * rules change.
+ */
+export async function backfillVisaLanguage(): Promise<VisaLanguageBackfillResult> {
+  const result: VisaLanguageBackfillResult = { checked: 0, withStance: 0, updated: 0 }
+  let afterId: string | null = null
+
+  for (;;) {
+    const batch = await db
+      .select({
+        id: jobs.id,
+        description: jobs.description,
+        sponsorshipConfidence: jobs.sponsorshipConfidence,
+        visaStatus: jobs.visaStatus,
+        visaStance: jobs.visaStance,
+        visaRequirements: jobs.visaRequirements,
+      })
+      .from(jobs)
+      .where(and(eq(jobs.isActive, true), isNotNull(jobs.description), afterId ? gt(jobs.id, afterId) : undefined))
+      .orderBy(asc(jobs.id))
+      .limit(BACKFILL_BATCH_SIZE)
+    if (!batch.length) break
+    afterId = batch[batch.length - 1].id
+
+    for (const job of batch) {
+      result.checked += 1
+      const language = await extractPostingVisaLanguage(job.description)
+      if (language) result.withStance += 1
+
+      const visaStance = language?.stance ?? null
+      const visaRequirements = language?.evidence ?? null
+      const visaStatus = applyPostingStance(deriveVisaStatus(job.sponsorshipConfidence), visaStance)
+      if (
+        visaStance === job.visaStance &&
+        visaRequirements === job.visaRequirements &&
+        visaStatus === job.visaStatus
+      ) {
+        continue
+      }
+
+      await db.update(jobs).set({ visaStance, visaRequirements, visaStatus }).where(eq(jobs.id, job.id))
+      result.updated += 1
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,207 @@
+import type { VisaStatus } from './ingestion-rules'
+
+/**
+ * Reads a posting's own sponsorship stance from its description. Sponsor
+ * records say whether an employer sponsors at all; postings often narrow
+ * that for one role ("unable to sponsor", "OPT/CPT welcome"), and an explicit
+ * refusal there outranks the company-level record.
+ *
+ * A bare "must be authorized to work in the US" is deliberately not read as
+ * a refusal: plenty of sponsoring employers include it as boilerplate.
+ */
+
+export const POSTING_VISA_STANCES = ['no_sponsorship', 'opt_only', 'sponsors', 'opt_welcome'] as const
+export type PostingVisaStance = (typeof POSTING_VISA_STANCES)[number]
+
+export interface PostingVisaLanguage {
+  stance: PostingVisaStance
+  /** The sentence(s) the stance was read from, as written in the posting */
+  evidence: string
+}
+
+/**
+ * Visa status a stance forces onto a job regardless of its sponsor: a
+ * refusal overrides it, and an OPT-only posting (no H-1B for this role)
+ * downgrades it to unknown.
+ */
+export const STANCE_VISA_STATUS: Partial<Record<PostingVisaStance, VisaStatus>> = {
+  no_sponsorship: 'no_sponsorship',
+  opt_only: 'unknown',
+}
+
+/**
+ * Stances that rule out an H-1B for this role, whatever the employer's
+ * record: neither the company's confidence nor its verified status should
+ * count for these postings.
+ */
+export const NON_SPONSORING_STANCES: PostingVisaStance[] = ['no_sponsorship', 'opt_only']
+
+export function applyPostingStance(status: VisaStatus, stance: PostingVisaStance | null | undefined): VisaStatus {
+  return (stance && STANCE_VISA_STATUS[stance]) || status
+}
+
+const NEGATION =
+  "(?:unable to|not able to|not in a position to|cannot|can not|can't|won't|will not|do not|don't|does not|doesn't|are not|aren't|is not|isn't)"
+
+// Negations only count when they govern the sponsoring itself: "is not
+// remote, and we sponsor H-1B visas" says nothing against sponsorship
+const REFUSAL_PATTERNS = [
+  new RegExp(`\\b${NEGATION}\\s+(?:currently\\s+|presently\\s+|be able to\\s+)*sponsor`),
+  new RegExp(`\\b${NEGATION}\\s+(?:currently\\s+)?(?:provide|offer|support|consider)\\b[^.]{0,25}?\\bsponsorship\\b`),
+  new RegExp(`\\b${NEGATION}\\s+(?:now or in the future\\s+)?require\\b[^.]{0,30}?\\bsponsorship\\b`),
+  /\bsponsorship\s+(?:is|are|will be)\s+(?:currently\s+)?(?:not\s+(?:available|offered|provided|possible|supported|an option)|unavailable)\b/,
+  /\bsponsorship\s+(?:cannot|can't|won't|will not)\s+be\s+(?:provided|offered|supported|considered)\b/,
+  /\b(?:not eligible|ineligible) for (?:visa |h1b |immigration )?sponsorship\b/,
+  /\bno\s+(?:visa|h1b|immigration|employment)\s+sponsorship\b(?!\s+(?:is\s+)?(?:required|needed|necessary))/,
+  /\bno\s+sponsorship\s+(?:is\s+)?(?:available|offered|provided|possible)\b/,
+  /\b(?:must|required to|should)\s+(?:be|hold)\s+(?:an?\s+)?(?:us|united states)\s+citizen/,
+  /\b(?:us|united states)\s+citizenship\s+(?:is\s+)?(?:required|mandatory|a requirement)\b/,
+  /\b(?:us|united states)\s+citizens?\b[^.]{0,50}?\bonly\b/,
+  /\bonly\b[^.]{0,20}?\b(?:us|united states)\s+citizens\b/,
+  /\b(?:security|secret|top secret|ts sci|ts\/sci)\s+clearance\b[^.]{0,30}?\b(?:required|must|needed)\b/,
+  /\b(?:must|required to|able to)\s+(?:obtain|hold|maintain|possess)\b[^.]{0,30}?\bclearance\b/,
+  /\b(?:itar|export control)\b[^.]{0,80}?\bus persons?\b|\bus persons?\b[^.]{0,80}?\b(?:itar|export control)\b/,
+]
+
+const SPONSOR_PATTERNS = [
+  /\b(?:will|can|able to|happy to|glad to|willing to|does|we)\s+(?:also\s+)?(?:provide\s+|offer\s+|support\s+)?(?:visa\s+|h1b\s+)?sponsor(?:s|ship)?\b/,
+  /\b(?:offers?|provides?|supports?)\s+(?:visa\s+|h1b\s+|immigration\s+)sponsorship\b/,
+  /\bsponsorship\s+(?:is\s+|will be\s+)?(?:available|offered|provided|supported)\b/,
+]
+// "We sponsor" also covers hackathons and travel
+const SPONSOR_CONTEXT = /\b(?:visas?|h1b|immigration|sponsorship|green cards?|work authori[sz]ation)\b/
+// A negation in the two words before a sponsor statement ("not able to provide sponsorship", "no visa sponsorship available")
+const NEGATED_BEFORE = /(?:\b(?:no|not|never|unable)|n't|\bcannot)\s+(?:\S+\s+){0,2}$/
+
+// "Without sponsorship" only refuses when it is about visas or work
+// authorization, not "without a sponsor on the team"
+const WITHOUT_SPONSOR = /\bwithout\b[^.]{0,50}?\bsponsor/
+const WORK_AUTHORIZATION_CONTEXT =
+  /\b(?:visas?|h1b|immigration|work authori[sz]ation|employment authori[sz]ation|authori[sz]ed to work|legally)\b/
+
+// "opt" also appears in "opt in" / "opt-out"
+const OPT_TERM = "\\b(?:opt|cpt)\\b(?![ -](?:in|out)\\b)"
+const OPT_PATTERNS = [
+  new RegExp(`${OPT_TERM}[^.]{0,40}?\\b(?:welcome|welcomed|encouraged|eligible|accepted|considered|ok|okay|friendly)\\b`),
+  new RegExp(`\\b(?:welcomes?|accepts?|considers?|open to|hires?|supports?)\\b[^.]{0,40}?${OPT_TERM}`),
+]
+const OPT_NEGATION = /\b(?:not|no|cannot|unable|ineligible)\b|n't\b/
+
+// Wording that is worth an LLM read when the rules find nothing
+const WORK_AUTHORIZATION_TERMS =
+  /sponsor|\bvisas?\b|h-?1b|work authori[sz]ation|authori[sz]ed to work|citizen|clearance|\b(?:opt|cpt)\b/i
+
+const MAX_EVIDENCE_LENGTH = 200
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&lt;': '<',
+  '&gt;': '>',
+  '&amp;': '&',
+  '&quot;': '"',
+  '&#39;': "'",
+  '&nbsp;': ' ',
+}
+
+function toPlainText(description: string) {
+  return description
+    .replace(/&(?:lt|gt|amp|quot|#39|nbsp);/g, (entity) => HTML_ENTITIES[entity])
+    .replace(/<\/?(?:p|div|li|ul|ol|br|h[1-6]|tr)\b[^>]*>/gi, '\n')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/\bU\.\s?S\.(?:\s?A\.)?/gi, 'US')
+}
+
+/** Sentences of a description, whitespace collapsed */
+export function splitSentences(description: string) {
+  return toPlainText(description)
+    .split(/\n+|;\s+|\s[•·]\s|(?<=[.!?])\s+(?=[A-Z(])/)
+    .map((sentence) => sentence.replace(/\s+/g, ' ').replace(/^[-*•·\s]+/, '').trim())
+    .filter(Boolean)
+}
+
+function normalizeSentence(sentence: string) {
+  return sentence
+    .toLowerCase()
+    .replace(/[’‘]/g, "'")
+    .replace(/\bh[\s-]?1[\s-]?b\b/g, 'h1b')
+}
+
+function clip(sentence: string) {
+  if (sentence.length <= MAX_EVIDENCE_LENGTH) return sentence
+  const cut = sentence.slice(0, MAX_EVIDENCE_LENGTH)
+  return `${cut.slice(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : cut.length)}…`
+}
+
+function statesSponsorship(text: string) {
+  if (!SPONSOR_CONTEXT.test(text)) return false
+  return SPONSOR_PATTERNS.some((pattern) => {
+    const match = pattern.exec(text)
+    return match && !NEGATED_BEFORE.test(text.slice(0, match.index))
+  })
+}
+
+function statesRefusal(text: string) {
+  if (WITHOUT_SPONSOR.test(text) && WORK_AUTHORIZATION_CONTEXT.test(text)) return true
+  return REFUSAL_PATTERNS.some((pattern) => pattern.test(text))
+}
+
+function mentionsOpt(text: string) {
+  return OPT_PATTERNS.some((pattern) => {
+    const match = text.match(pattern)
+    return match && !OPT_NEGATION.test(match[0])
+  })
+}
+
+/**
+ * The stance a description states, or null when it says nothing explicit.
+ * Within a sentence a sponsor statement is read first, since a nearby
+ * negation is usually about something else; across sentences a refusal wins
+ * over anything positive. A refusal alongside OPT/CPT being welcome means
+ * the role takes students but will not file an H-1B.
+ */
+export function readPostingVisaLanguage(description: string | null | undefined): PostingVisaLanguage | null {
+  if (!description) return null
+
+  let refusal: string | null = null
+  let sponsors: string | null = null
+  let opt: string | null = null
+  for (const sentence of splitSentences(description)) {
+    const text = normalizeSentence(sentence)
+    if (statesSponsorship(text)) {
+      sponsors ??= sentence
+    } else if (statesRefusal(text)) {
+      refusal ??= sentence
+    }
+    if (!opt && mentionsOpt(text)) opt = sentence
+  }
+
+  if (refusal && opt) {
+    const evidence = refusal === opt ? clip(refusal) : `${clip(refusal)} … ${clip(opt)}`
+    return { stance: 'opt_only', evidence }
+  }
+  if (refusal) return { stance: 'no_sponsorship', evidence: clip(refusal) }
+  if (sponsors) return { stance: 'sponsors', evidence: clip(sponsors) }
+  if (opt) return { stance: 'opt_welcome', evidence: clip(opt) }
+  return null
+}
+
+export function mentionsWorkAuthorization(description: string | null | undefined) {
+  return !!description && WORK_AUTHORIZATION_TERMS.test(description)
+}
+
+/**
+ * Accepts an LLM classification only when the stance is known and the
+ * quoted evidence really appears in the description, so a made-up quote
+ * never overrides a job's visa status.
+ */
+export function checkLlmVisaLanguage(
+  description: string,
+  result: { stance?: unknown; evidence?: unknown } | null
+): PostingVisaLanguage | null {
+  if (!result || typeof result.evidence !== 'string' || !result.evidence.trim()) return null
+  if (!POSTING_VISA_STANCES.includes(result.stance as PostingVisaStance)) return null
+
+  const flatten = (text: string) => toPlainText(text).replace(/\s+/g, ' ').trim().toLowerCase()
+  const evidence = result.evidence.replace(/\s+/g, ' ').trim()
+  if (!flatten(description).includes(flatten(evidence))) return null
+  return { stance: result.stance as PostingVisaStance, evidence: clip(evidence) }
+}
@@ -1,4 +1,4 @@
-import { eq, inArray, sql } from 'drizzle-orm'
+import { eq, inArray, or, sql } from 'drizzle-orm'
 import { db } from '../db'
 import { jobs, visaSponsors } from '../db/schema'
 import { normalizeCompanyName } from '../lib/normalize'
@@ -7,6 +7,8 @@ import {
   isLandingClubConfigured,
   LandingClubSponsor,
 } from '../lib/landing-club'
+import { deriveVisaStatus } from './ingestion-rules'
+import { postingVisaStatusSql } from './visa-language-service'
 
 const REMOTE_SYNC_LIMIT_PER_REQUEST = 5
 const STALE_THRESHOLD_HOURS = 6
@@ -205,6 +207,9 @@ export interface SponsorSummary {
   } | null
   totalFilings?: number | null
   source?: string | null
+  /** null when we have no E-Verify data for the employer */
+  eVerifyEnrolled?: boolean | null
+  capExempt?: boolean | null
 }
 
 function buildSponsorSummary(record: VisaSponsorRecord | null, landingClub?: LandingClubSponsor | null): SponsorSummary | null {
@@ -230,6 +235,8 @@ function buildSponsorSummary(record: VisaSponsorRecord | null, landingClub?: Lan
     latestUpdate: lc?.latestUpdate ?? null,
     totalFilings: lc?.totalFilings ?? null,
     source: record?.source ?? (lc ? 'landing_club' : null),
+    eVerifyEnrolled: record?.eVerifyEnrolled ?? null,
+    capExempt: record?.capExempt ?? null,
   }
 }
 
@@ -254,21 +261,41 @@ export async function enrichJobsWithSponsors<T extends JobSearchRow>(jobRows: T[
     return jobRows
   }
 
+  // Crawlers link jobs by fuzzy match, so the stored sponsor id wins over the name
+  const linkedSponsorIds = Array.from(
+    new Set(jobRows.map((job) => job.visaSponsorId).filter((id): id is string => !!id))
+  )
+
   const existingSponsors = await db
     .select()
     .from(visaSponsors)
-    .where(inArray(visaSponsors.normalizedName, normalizedNames))
+    .where(
+      or(
+        inArray(visaSponsors.normalizedName, normalizedNames),
+        sql`${visaSponsors.aliases} && ARRAY[${sql.join(normalizedNames.map((name) => sql`${name}`), sql`, `)}]::text[]`,
+        linkedSponsorIds.length ? inArray(visaSponsors.id, linkedSponsorIds) : undefined
+      )
+    )
 
+  const sponsorsById = new Map<string, VisaSponsorRecord>()
   const sponsorsByNormalized = new Map<string, VisaSponsorRecord>()
   for (const sponsor of existingSponsors) {
+    sponsorsById.set(sponsor.id, sponsor)
     sponsorsByNormalized.set(sponsor.normalizedName, sponsor)
   }
+  for (const sponsor of existingSponsors) {
+    for (const alias of sponsor.aliases ?? []) {
+      if (!sponsorsByNormalized.has(alias)) sponsorsByNormalized.set(alias, sponsor)
+    }
+  }
 
   let remoteCallsRemaining = REMOTE_SYNC_LIMIT_PER_REQUEST
   const sponsorByJobId = new Map<string, SponsorSummary | null>()
 
   for (const [normalized, jobsForCompany] of normalizedToJobs.entries()) {
-    let sponsorRecord = sponsorsByNormalized.get(normalized) ?? null
+    const linkedSponsorId = jobsForCompany.find((job) => job.visaSponsorId)?.visaSponsorId
+    let sponsorRecord =
+      (linkedSponsorId && sponsorsById.get(linkedSponsorId)) || sponsorsByNormalized.get(normalized) || null
     let metadata = extractMetadata(sponsorRecord)
 
     const needsRemote =
@@ -315,11 +342,7 @@ export async function linkJobToSponsor(jobId: string, companyName: string) {
     .set({
       visaSponsorId: enrichment.sponsor.id,
       sponsorshipConfidence: enrichment.sponsor.sponsorshipConfidence ?? null,
-      visaStatus: enrichment.sponsor.sponsorshipConfidence
-        ? enrichment.sponsor.sponsorshipConfidence >= 75
-          ? 'sponsor_verified'
-          : 'likely_sponsor'
-        : 'unknown',
+      visaStatus: postingVisaStatusSql(deriveVisaStatus(enrichment.sponsor.sponsorshipConfidence)),
       visaNotes: enrichment.sponsor.notes ?? enrichment.landingClub?.latestUpdate?.summary ?? null,
     })
     .where(eq(jobs.id, jobId))
@@ -0,0 +1,11 @@
+const HTML_SPECIAL_CHARS: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+}
+
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (match) => HTML_SPECIAL_CHARS[match] ?? match)
+}
@@ -0,0 +1,4 @@
+/** Escapes LIKE/ILIKE wildcards so user input only matches literally */
+export function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&')
+}
@@ -3,6 +3,7 @@ import { Dashboard } from './pages/Dashboard'
 import { Login } from './pages/Login'
 import { Profile } from './pages/Profile'
 import { Applications } from './pages/Applications'
+import { Sponsors } from './pages/Sponsors'
 import { useAuth } from './providers/AuthProvider'
 
 function ProtectedRoute({ element }: { element: JSX.Element }) {
@@ -31,6 +32,7 @@ function App() {
         <Route path="/dashboard" element={<ProtectedRoute element={<Dashboard />} />} />
         <Route path="/profile" element={<ProtectedRoute element={<Profile />} />} />
         <Route path="/applications" element={<ProtectedRoute element={<Applications />} />} />
+        <Route path="/sponsors" element={<ProtectedRoute element={<Sponsors />} />} />
         <Route path="/" element={<Navigate to="/dashboard" />} />
       </Routes>
     </BrowserRouter>
@@ -4,6 +4,7 @@ interface ApplicationCardProps {
     status: string
     appliedAt: string
     notes?: string
+    closedSinceSaved?: boolean
     job?: {
       id: string
       title: string | null
@@ -11,6 +12,8 @@ interface ApplicationCardProps {
       url: string | null
       visaStatus?: string | null
       sponsorshipConfidence?: number | null
+      isActive?: boolean | null
+      expiresAt?: string | null
     } | null
   }
 }
@@ -41,6 +44,13 @@ export function ApplicationCard({ application }: ApplicationCardProps) {
           <p className="text-sm text-gray-600">
             {new Date(application.appliedAt).toLocaleDateString()}
           </p>
+          {application.closedSinceSaved && (
+            <p className="mt-1 text-xs font-medium text-red-600">
+              Closed since you saved it
+              {application.job?.expiresAt &&
+                ` · ${new Date(application.job.expiresAt).toLocaleDateString()}`}
+            </p>
+          )}
           {application.notes && (
             <p className="text-sm text-gray-700 mt-2">{application.notes}</p>
           )}
@@ -0,0 +1,203 @@
+import clsx from 'clsx'
+
+export type DegreeLevel = 'bachelors' | 'masters' | 'phd'
+export type VisaType = 'f1_opt' | 'stem_opt' | 'h1b_transfer'
+
+export interface CandidateProfile {
+  degree?: DegreeLevel | null
+  fieldOfStudy?: string | null
+  graduationDate?: string | null
+  visaType?: VisaType | null
+  targetRoles: string[]
+  skills: string[]
+  preferredLocations: string[]
+  salaryFloor?: number | null
+}
+
+// List fields are edited as comma-separated text and split on save
+export interface CandidateProfileFormValue {
+  degree: DegreeLevel | ''
+  fieldOfStudy: string
+  graduationMonth: string
+  visaType: VisaType | ''
+  targetRoles: string
+  skills: string
+  preferredLocations: string
+  salaryFloor: string
+}
+
+const DEGREE_OPTIONS: Array<{ value: DegreeLevel; label: string }> = [
+  { value: 'bachelors', label: "Bachelor's" },
+  { value: 'masters', label: "Master's" },
+  { value: 'phd', label: 'PhD' },
+]
+
+const VISA_OPTIONS: Array<{ value: VisaType; label: string }> = [
+  { value: 'f1_opt', label: 'F-1 OPT' },
+  { value: 'stem_opt', label: 'STEM OPT' },
+  { value: 'h1b_transfer', label: 'H-1B transfer' },
+]
+
+const splitList = (value: string) =>
+  value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean)
+
+export function toCandidateProfileFormValue(profile?: CandidateProfile | null): CandidateProfileFormValue {
+  return {
+    degree: profile?.degree ?? '',
+    fieldOfStudy: profile?.fieldOfStudy ?? '',
+    graduationMonth: profile?.graduationDate?.slice(0, 7) ?? '',
+    visaType: profile?.visaType ?? '',
+    targetRoles: profile?.targetRoles.join(', ') ?? '',
+    skills: profile?.skills.join(', ') ?? '',
+    preferredLocations: profile?.preferredLocations.join(', ') ?? '',
+    salaryFloor: profile?.salaryFloor ? String(profile.salaryFloor) : '',
+  }
+}
+
+export function toCandidateProfile(value: CandidateProfileFormValue): CandidateProfile {
+  const salaryFloor = parseInt(value.salaryFloor, 10)
+  return {
+    degree: value.degree || null,
+    fieldOfStudy: value.fieldOfStudy.trim() || null,
+    graduationDate: value.graduationMonth || null,
+    visaType: value.visaType || null,
+    targetRoles: splitList(value.targetRoles),
+    skills: splitList(value.skills),
+    preferredLocations: splitList(value.preferredLocations),
+    salaryFloor: Number.isFinite(salaryFloor) && salaryFloor > 0 ? salaryFloor : null,
+  }
+}
+
+interface CandidateProfileFormProps {
+  value: CandidateProfileFormValue
+  onChange: (value: CandidateProfileFormValue) => void
+  disabled?: boolean
+  className?: string
+}
+
+const inputClass =
+  'w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-primary-500 focus:border-primary-500'
+
+export function CandidateProfileForm({ value, onChange, disabled = false, className }: CandidateProfileFormProps) {
+  const update = <K extends keyof CandidateProfileFormValue>(key: K, next: CandidateProfileFormValue[K]) =>
+    onChange({ ...value, [key]: next })
+
+  return (
+    <div className={clsx('grid grid-cols-1 gap-4 sm:grid-cols-2', className)}>
+      <label className="block text-sm font-medium text-gray-700">
+        Degree
+        <select
+          value={value.degree}
+          onChange={(e) => update('degree', e.target.value as CandidateProfileFormValue['degree'])}
+          disabled={disabled}
+          className={clsx(inputClass, 'mt-1')}
+        >
+          <option value="">Select degree</option>
+          {DEGREE_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="block text-sm font-medium text-gray-700">
+        Field of study
+        <input
+          type="text"
+          value={value.fieldOfStudy}
+          onChange={(e) => update('fieldOfStudy', e.target.value)}
+          disabled={disabled}
+          placeholder="Computer Science"
+          className={clsx(inputClass, 'mt-1')}
+        />
+      </label>
+
+      <label className="block text-sm font-medium text-gray-700">
+        Graduation
+        <input
+          type="month"
+          value={value.graduationMonth}
+          onChange={(e) => update('graduationMonth', e.target.value)}
+          disabled={disabled}
+          className={clsx(inputClass, 'mt-1')}
+        />
+      </label>
+
+      <label className="block text-sm font-medium text-gray-700">
+        Visa status
+        <select
+          value={value.visaType}
+          onChange={(e) => update('visaType', e.target.value as CandidateProfileFormValue['visaType'])}
+          disabled={disabled}
+          className={clsx(inputClass, 'mt-1')}
+        >
+          <option value="">Select visa status</option>
+          {VISA_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="block text-sm font-medium text-gray-700 sm:col-span-2">
+        Target roles
+        <input
+          type="text"
+          value={value.targetRoles}
+          onChange={(e) => update('targetRoles', e.target.value)}
+          disabled={disabled}
+          placeholder="Backend Engineer, Data Engineer"
+          className={clsx(inputClass, 'mt-1')}
+        />
+      </label>
+
+      <label className="block text-sm font-medium text-gray-700 sm:col-span-2">
+        Skills
+        <input
+          type="text"
+          value={value.skills}
+          onChange={(e) => update('skills', e.target.value)}
+          disabled={disabled}
+          placeholder="Python, PostgreSQL, Kubernetes"
+          className={clsx(inputClass, 'mt-1')}
+        />
+      </label>
+
+      <label className="block text-sm font-medium text-gray-700">
+        Preferred locations
+        <input
+          type="text"
+          value={value.preferredLocations}
+          onChange={(e) => update('preferredLocations', e.target.value)}
+          disabled={disabled}
+          placeholder="New York, Seattle, Remote"
+          className={clsx(inputClass, 'mt-1')}
+        />
+      </label>
+
+      <label className="block text-sm font-medium text-gray-700">
+        Salary floor (USD / year)
+        <input
+          type="number"
+          min={0}
+          step={5000}
+          value={value.salaryFloor}
+          onChange={(e) => update('salaryFloor', e.target.value)}
+          disabled={disabled}
+          placeholder="90000"
+          className={clsx(inputClass, 'mt-1')}
+        />
+      </label>
+
+      <p className="text-xs text-gray-500 sm:col-span-2">
+        Separate roles, skills and locations with commas. Graduated candidates stop seeing internships, and jobs that
+        publish a salary below your floor are hidden.
+      </p>
+    </div>
+  )
+}
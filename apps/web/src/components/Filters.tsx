@@ -8,6 +8,8 @@ interface FiltersProps {
     visaStatus?: string
     minConfidence?: number
     requiresVerifiedSponsor?: boolean
+    eVerifyOnly?: boolean
+    capExemptOnly?: boolean
   }
   onChange: (filters: any) => void
   className?: string
@@ -83,6 +85,7 @@ export function Filters({ filters, onChange, className, withContainer = true }:
           <option value="sponsor_verified">Sponsor Verified</option>
           <option value="likely_sponsor">Likely Sponsor</option>
           <option value="unknown">Unknown</option>
+          <option value="no_sponsorship">No Sponsorship</option>
         </select>
       </div>
 
@@ -124,6 +127,32 @@ export function Filters({ filters, onChange, className, withContainer = true }:
           Verified sponsors only
         </label>
       </div>
+
+      <div className="flex items-center">
+        <input
+          id="eVerifyOnly"
+          type="checkbox"
+          checked={filters.eVerifyOnly ?? false}
+          onChange={(e) => onChange({ ...filters, eVerifyOnly: e.target.checked || undefined })}
+          className="h-4 w-4 text-sky-500 border-slate-300 rounded focus:ring-sky-400"
+        />
+        <label htmlFor="eVerifyOnly" className="ml-2 text-sm text-slate-600">
+          E-Verify employers (STEM OPT)
+        </label>
+      </div>
+
+      <div className="flex items-center">
+        <input
+          id="capExemptOnly"
+          type="checkbox"
+          checked={filters.capExemptOnly ?? false}
+          onChange={(e) => onChange({ ...filters, capExemptOnly: e.target.checked || undefined })}
+          className="h-4 w-4 text-sky-500 border-slate-300 rounded focus:ring-sky-400"
+        />
+        <label htmlFor="capExemptOnly" className="ml-2 text-sm text-slate-600">
+          Cap-exempt (no H-1B lottery)
+        </label>
+      </div>
     </div>
   )
 
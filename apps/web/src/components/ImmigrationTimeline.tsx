@@ -0,0 +1,213 @@
+import clsx from 'clsx'
+import { CalendarClock } from 'lucide-react'
+
+export type H1bLotteryStatus = 'not_registered' | 'registered' | 'selected' | 'not_selected'
+
+export interface ImmigrationTimelineValue {
+  programEndDate: string
+  optStartDate: string
+  optEndDate: string
+  stemOptStartDate: string
+  stemOptEligible: boolean
+  unemploymentDaysUsed: number
+  currentlyEmployed: boolean
+  h1bLotteryStatus: H1bLotteryStatus
+}
+
+export interface TimelineSummary {
+  phase: 'in_program' | 'post_completion' | 'opt' | 'stem_opt' | 'expired'
+  urgency: 'none' | 'moderate' | 'high' | 'critical'
+  daysUntilDeadline: number | null
+  unemploymentLimit: number
+  unemploymentDaysUsed: number
+  unemploymentDaysRemaining: number
+  authorizationEndDate: string | null
+  keyDates: Array<{ key: string; label: string; date: string; daysFromNow: number }>
+}
+
+export const EMPTY_TIMELINE: ImmigrationTimelineValue = {
+  programEndDate: '',
+  optStartDate: '',
+  optEndDate: '',
+  stemOptStartDate: '',
+  stemOptEligible: false,
+  unemploymentDaysUsed: 0,
+  currentlyEmployed: false,
+  h1bLotteryStatus: 'not_registered',
+}
+
+const PHASE_LABELS: Record<TimelineSummary['phase'], string> = {
+  in_program: 'In program',
+  post_completion: 'Post-completion, OPT not started',
+  opt: 'On OPT',
+  stem_opt: 'On STEM OPT',
+  expired: 'Authorization ended',
+}
+
+const URGENCY_STYLES: Record<TimelineSummary['urgency'], string> = {
+  none: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+  moderate: 'bg-amber-50 text-amber-700 border-amber-200',
+  high: 'bg-orange-50 text-orange-700 border-orange-200',
+  critical: 'bg-red-50 text-red-700 border-red-200',
+}
+
+const LOTTERY_OPTIONS: Array<{ value: H1bLotteryStatus; label: string }> = [
+  { value: 'not_registered', label: 'Not registered' },
+  { value: 'registered', label: 'Registered, awaiting results' },
+  { value: 'selected', label: 'Selected' },
+  { value: 'not_selected', label: 'Not selected' },
+]
+
+const DATE_FIELDS: Array<{ key: 'programEndDate' | 'optStartDate' | 'optEndDate' | 'stemOptStartDate'; label: string }> = [
+  { key: 'programEndDate', label: 'Program end date' },
+  { key: 'optStartDate', label: 'OPT start date' },
+  { key: 'optEndDate', label: 'OPT EAD end date (optional)' },
+  { key: 'stemOptStartDate', label: 'STEM OPT start date' },
+]
+
+interface ImmigrationTimelineProps {
+  value: ImmigrationTimelineValue
+  summary?: TimelineSummary | null
+  onChange: (value: ImmigrationTimelineValue) => void
+  onSave: () => void
+  isSaving?: boolean
+  disabled?: boolean
+  className?: string
+}
+
+const inputClass =
+  'mt-1 w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-primary-500 focus:border-primary-500'
+
+export function ImmigrationTimeline({
+  value,
+  summary,
+  onChange,
+  onSave,
+  isSaving = false,
+  disabled = false,
+  className,
+}: ImmigrationTimelineProps) {
+  const update = <K extends keyof ImmigrationTimelineValue>(key: K, next: ImmigrationTimelineValue[K]) =>
+    onChange({ ...value, [key]: next })
+
+  const upcoming = summary?.keyDates.filter((date) => date.daysFromNow >= 0).slice(0, 5) ?? []
+
+  return (
+    <div className={clsx('space-y-5', className)}>
+      {summary && (
+        <div className={clsx('rounded-lg border px-4 py-3', URGENCY_STYLES[summary.urgency])}>
+          <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+            <span className="font-semibold">{PHASE_LABELS[summary.phase]}</span>
+            {(summary.phase === 'opt' || summary.phase === 'stem_opt') && (
+              <span>
+                {summary.unemploymentDaysRemaining} of {summary.unemploymentLimit} unemployment days left
+              </span>
+            )}
+          </div>
+          {summary.daysUntilDeadline !== null && (
+            <p className="mt-1 text-xs">
+              Next hard deadline in {summary.daysUntilDeadline} days.
+              {summary.urgency !== 'none' && ' Matches now favour E-Verify, cap-exempt and quick-start roles.'}
+            </p>
+          )}
+        </div>
+      )}
+
+      {upcoming.length > 0 && (
+        <ul className="space-y-1.5 text-sm text-gray-700">
+          {upcoming.map((date) => (
+            <li key={date.key} className="flex items-center justify-between gap-3">
+              <span className="inline-flex items-center gap-2">
+                <CalendarClock className="w-4 h-4 text-gray-400" />
+                {date.label}
+              </span>
+              <span className="text-gray-500">
+                {new Date(`${date.date}T00:00:00`).toLocaleDateString()} · {date.daysFromNow}d
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        {DATE_FIELDS.map((field) => (
+          <label key={field.key} className="block text-sm font-medium text-gray-700">
+            {field.label}
+            <input
+              type="date"
+              value={value[field.key]}
+              onChange={(e) => update(field.key, e.target.value)}
+              disabled={disabled}
+              className={inputClass}
+            />
+          </label>
+        ))}
+
+        <label className="block text-sm font-medium text-gray-700">
+          Unemployment days used so far
+          <input
+            type="number"
+            min={0}
+            max={365}
+            value={value.unemploymentDaysUsed}
+            onChange={(e) => update('unemploymentDaysUsed', Math.max(0, parseInt(e.target.value, 10) || 0))}
+            disabled={disabled}
+            className={inputClass}
+          />
+        </label>
+
+        <label className="block text-sm font-medium text-gray-700">
+          H-1B lottery
+          <select
+            value={value.h1bLotteryStatus}
+            onChange={(e) => update('h1bLotteryStatus', e.target.value as H1bLotteryStatus)}
+            disabled={disabled}
+            className={inputClass}
+          >
+            {LOTTERY_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={value.stemOptEligible}
+            onChange={(e) => update('stemOptEligible', e.target.checked)}
+            disabled={disabled}
+            className="rounded border-gray-300"
+          />
+          My degree qualifies for the STEM OPT extension
+        </label>
+
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={value.currentlyEmployed}
+            onChange={(e) => update('currentlyEmployed', e.target.checked)}
+            disabled={disabled}
+            className="rounded border-gray-300"
+          />
+          Currently employed (pauses the unemployment clock)
+        </label>
+      </div>
+
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-xs text-gray-500">
+          Estimates only, based on standard OPT rules. Confirm dates with your DSO.
+        </p>
+        <button
+          type="button"
+          onClick={onSave}
+          disabled={disabled || isSaving}
+          className="bg-primary-600 hover:bg-primary-700 disabled:bg-gray-300 text-white font-medium py-2 px-6 rounded-lg transition-colors"
+        >
+          {isSaving ? 'Saving...' : 'Save Timeline'}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -1,5 +1,5 @@
 import { Link, useLocation } from 'react-router-dom'
-import { Search, User, Briefcase, LogOut } from 'lucide-react'
+import { Search, User, Briefcase, Building2, LogOut } from 'lucide-react'
 import { useAuth } from '../providers/AuthProvider'
 
 export function Layout({ children }: { children: React.ReactNode }) {
@@ -47,6 +47,17 @@ export function Layout({ children }: { children: React.ReactNode }) {
                 <Briefcase className="w-4 h-4" />
                 Applications
               </Link>
+              <Link
+                to="/sponsors"
+                className={`inline-flex items-center gap-2 rounded-full px-4 py-2 transition-all ${
+                  isActive('/sponsors')
+                    ? 'bg-sky-500/10 text-sky-600 shadow-sm'
+                    : 'text-slate-500 hover:text-slate-900 hover:bg-slate-100'
+                }`}
+              >
+                <Building2 className="w-4 h-4" />
+                Sponsors
+              </Link>
               <Link
                 to="/profile"
                 className={`inline-flex items-center gap-2 rounded-full px-4 py-2 transition-all ${
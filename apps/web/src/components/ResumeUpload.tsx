@@ -0,0 +1,135 @@
+import { ChangeEvent, useRef } from 'react'
+import clsx from 'clsx'
+import { FileText, Trash2, Upload } from 'lucide-react'
+
+export interface ResumeEntry {
+  title: string
+  details: string[]
+}
+
+export interface ResumeSummary {
+  id: string
+  fileName: string
+  format: 'pdf' | 'docx'
+  sizeBytes: number
+  uploadedAt: string
+  parsed: {
+    summary: string | null
+    education: ResumeEntry[]
+    experience: ResumeEntry[]
+    projects: ResumeEntry[]
+    skills: string[]
+  }
+}
+
+interface ResumeUploadProps {
+  resume?: ResumeSummary | null
+  onUpload: (file: File) => void
+  onDelete: () => void
+  isBusy?: boolean
+  className?: string
+}
+
+const SECTIONS: Array<{ key: 'experience' | 'projects' | 'education'; label: string }> = [
+  { key: 'experience', label: 'Experience' },
+  { key: 'projects', label: 'Projects' },
+  { key: 'education', label: 'Education' },
+]
+
+export function ResumeUpload({ resume, onUpload, onDelete, isBusy = false, className }: ResumeUploadProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  const handleChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (file) {
+      onUpload(file)
+    }
+    // Allow re-selecting the same file after a failed upload
+    event.target.value = ''
+  }
+
+  return (
+    <div className={clsx('space-y-4', className)}>
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        {resume ? (
+          <div className="flex items-center gap-3 text-sm text-gray-700">
+            <FileText className="w-5 h-5 text-primary-600" />
+            <div>
+              <p className="font-medium">{resume.fileName}</p>
+              <p className="text-xs text-gray-500">
+                Uploaded {new Date(resume.uploadedAt).toLocaleDateString()} · {Math.ceil(resume.sizeBytes / 1024)} KB
+              </p>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-600">PDF or DOCX, up to 5 MB. The text is extracted on our server only.</p>
+        )}
+
+        <div className="flex items-center gap-2">
+          <input
+            ref={inputRef}
+            type="file"
+            accept=".pdf,.docx,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+            onChange={handleChange}
+            className="hidden"
+          />
+          <button
+            type="button"
+            onClick={() => inputRef.current?.click()}
+            disabled={isBusy}
+            className="inline-flex items-center gap-2 rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Upload className="w-4 h-4" />
+            {isBusy ? 'Processing…' : resume ? 'Replace' : 'Upload resume'}
+          </button>
+          {resume && (
+            <button
+              type="button"
+              onClick={onDelete}
+              disabled={isBusy}
+              aria-label="Remove resume"
+              className="rounded-lg p-2 text-gray-400 hover:text-red-600 disabled:opacity-50"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {resume && (
+        <div className="grid grid-cols-1 gap-4 text-sm sm:grid-cols-3">
+          {SECTIONS.map((section) => (
+            <div key={section.key}>
+              <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">{section.label}</p>
+              {resume.parsed[section.key].length ? (
+                <ul className="mt-1 space-y-1 text-gray-700">
+                  {resume.parsed[section.key].slice(0, 4).map((entry, index) => (
+                    <li key={`${index}-${entry.title}`} className="truncate" title={entry.title}>
+                      {entry.title}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="mt-1 text-gray-400">Not found</p>
+              )}
+            </div>
+          ))}
+          <div className="sm:col-span-3">
+            <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">Skills</p>
+            {resume.parsed.skills.length ? (
+              <div className="mt-1 flex flex-wrap gap-1.5">
+                {resume.parsed.skills.map((skill) => (
+                  <span key={skill} className="rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-700">
+                    {skill}
+                  </span>
+                ))}
+              </div>
+            ) : (
+              <p className="mt-1 text-gray-400">Not found</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
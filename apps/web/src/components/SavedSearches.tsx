@@ -0,0 +1,135 @@
+import { FormEvent, useState } from 'react'
+import clsx from 'clsx'
+import { Bell, BookmarkPlus, X } from 'lucide-react'
+
+export interface SavedSearchFilters {
+  description?: string
+  jobType?: string
+  isRemote?: boolean
+  location?: string
+  visaStatus?: string
+  minSponsorshipConfidence?: number
+  requiresVerifiedSponsor?: boolean
+  eVerifyOnly?: boolean
+  capExemptOnly?: boolean
+  similarityWeight?: number
+  recencyWeight?: number
+  sponsorshipWeight?: number
+}
+
+export interface SavedSearch {
+  id: string
+  name: string
+  filters: SavedSearchFilters
+  lastRunAt?: string | null
+  newMatchCount: number
+}
+
+interface SavedSearchesProps {
+  savedSearches: SavedSearch[]
+  onApply: (savedSearch: SavedSearch) => void
+  onSave: (name: string) => Promise<void> | void
+  onDelete: (id: string) => void
+  isSaving?: boolean
+  className?: string
+}
+
+export function SavedSearches({
+  savedSearches,
+  onApply,
+  onSave,
+  onDelete,
+  isSaving = false,
+  className,
+}: SavedSearchesProps) {
+  const [isNaming, setIsNaming] = useState(false)
+  const [name, setName] = useState('')
+  const totalNew = savedSearches.reduce((sum, search) => sum + search.newMatchCount, 0)
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault()
+    if (!name.trim()) return
+    await onSave(name.trim())
+    setName('')
+    setIsNaming(false)
+  }
+
+  return (
+    <div className={clsx('flex flex-wrap items-center gap-2', className)}>
+      <span className="inline-flex items-center gap-1.5 text-xs font-semibold uppercase tracking-[0.2em] text-slate-400">
+        <Bell className="w-3.5 h-3.5" />
+        Saved
+        {totalNew > 0 && (
+          <span className="rounded-full bg-sky-500 px-2 py-0.5 text-[10px] font-semibold tracking-normal text-white">
+            {totalNew} new
+          </span>
+        )}
+      </span>
+
+      {savedSearches.map((savedSearch) => (
+        <span
+          key={savedSearch.id}
+          className="group inline-flex items-center gap-1 rounded-full border border-slate-200 bg-white pl-3 pr-1 py-1 text-xs text-slate-600 shadow-sm"
+        >
+          <button
+            type="button"
+            onClick={() => onApply(savedSearch)}
+            className="inline-flex items-center gap-1.5 font-medium hover:text-sky-600"
+          >
+            {savedSearch.name}
+            {savedSearch.newMatchCount > 0 && (
+              <span className="rounded-full bg-sky-100 px-1.5 text-[10px] font-semibold text-sky-700">
+                {savedSearch.newMatchCount}
+              </span>
+            )}
+          </button>
+          <button
+            type="button"
+            onClick={() => onDelete(savedSearch.id)}
+            aria-label={`Delete saved search ${savedSearch.name}`}
+            className="rounded-full p-1 text-slate-300 transition-colors hover:text-rose-500"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </span>
+      ))}
+
+      {isNaming ? (
+        <form onSubmit={handleSubmit} className="inline-flex items-center gap-2">
+          <input
+            autoFocus
+            type="text"
+            value={name}
+            maxLength={100}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name this search"
+            className="rounded-full border border-slate-200 px-3 py-1 text-xs focus:border-sky-400 focus:ring-2 focus:ring-sky-400"
+          />
+          <button
+            type="submit"
+            disabled={isSaving || !name.trim()}
+            className="rounded-full bg-sky-600 px-3 py-1 text-xs font-semibold text-white disabled:opacity-50"
+          >
+            {isSaving ? 'Saving…' : 'Save'}
+          </button>
+          <button
+            type="button"
+            onClick={() => setIsNaming(false)}
+            className="text-xs text-slate-400 hover:text-slate-600"
+          >
+            Cancel
+          </button>
+        </form>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setIsNaming(true)}
+          className="inline-flex items-center gap-1.5 rounded-full border border-dashed border-slate-300 px-3 py-1 text-xs font-medium text-slate-500 transition-colors hover:border-sky-300 hover:text-sky-600"
+        >
+          <BookmarkPlus className="w-3.5 h-3.5" />
+          Save this search
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,107 @@
+import clsx from 'clsx'
+
+export interface ScoringWeightsValue {
+  similarity: number
+  recency: number
+  sponsorship: number
+}
+
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeightsValue = {
+  similarity: 0.6,
+  recency: 0.25,
+  sponsorship: 0.15,
+}
+
+const PRESETS: Array<{ label: string; weights: ScoringWeightsValue }> = [
+  { label: 'Balanced', weights: DEFAULT_SCORING_WEIGHTS },
+  { label: 'Sponsorship first', weights: { similarity: 0.3, recency: 0.15, sponsorship: 0.55 } },
+  { label: 'Freshest first', weights: { similarity: 0.35, recency: 0.5, sponsorship: 0.15 } },
+]
+
+const SLIDERS: Array<{ key: keyof ScoringWeightsValue; label: string; accent: string }> = [
+  { key: 'similarity', label: 'Profile fit', accent: 'accent-sky-500' },
+  { key: 'recency', label: 'Recency', accent: 'accent-amber-500' },
+  { key: 'sponsorship', label: 'Visa confidence', accent: 'accent-emerald-500' },
+]
+
+interface ScoringWeightsProps {
+  weights: ScoringWeightsValue
+  onChange: (weights: ScoringWeightsValue) => void
+  onSave: () => void
+  onReset: () => void
+  isSaving?: boolean
+  isDirty?: boolean
+  className?: string
+}
+
+export function ScoringWeights({
+  weights,
+  onChange,
+  onSave,
+  onReset,
+  isSaving = false,
+  isDirty = false,
+  className,
+}: ScoringWeightsProps) {
+  const total = weights.similarity + weights.recency + weights.sponsorship
+
+  return (
+    <div className={clsx('space-y-4', className)}>
+      <div className="flex flex-wrap gap-2">
+        {PRESETS.map((preset) => (
+          <button
+            key={preset.label}
+            type="button"
+            onClick={() => onChange(preset.weights)}
+            className="rounded-full border border-slate-200 px-3 py-1 text-xs font-medium text-slate-600 transition-colors hover:border-sky-300 hover:text-sky-600"
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        {SLIDERS.map(({ key, label, accent }) => {
+          const share = total > 0 ? Math.round((weights[key] / total) * 100) : 0
+          return (
+            <div key={key} className="space-y-1">
+              <div className="flex items-center justify-between text-xs text-slate-500">
+                <label htmlFor={`weight-${key}`} className="font-medium text-slate-600">
+                  {label}
+                </label>
+                <span>{share}% of score</span>
+              </div>
+              <input
+                id={`weight-${key}`}
+                type="range"
+                min={0}
+                max={100}
+                value={Math.round(weights[key] * 100)}
+                onChange={(e) => onChange({ ...weights, [key]: Number(e.target.value) / 100 })}
+                className={clsx('w-full', accent)}
+              />
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={onSave}
+          disabled={!isDirty || isSaving || total === 0}
+          className="rounded-full bg-sky-600 px-4 py-1.5 text-xs font-semibold text-white shadow-sm transition-colors hover:bg-sky-700 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {isSaving ? 'Saving…' : 'Save as my default'}
+        </button>
+        <button
+          type="button"
+          onClick={onReset}
+          className="rounded-full border border-slate-200 px-4 py-1.5 text-xs font-medium text-slate-500 transition-colors hover:border-slate-300 hover:text-slate-700"
+        >
+          Reset
+        </button>
+      </div>
+    </div>
+  )
+}
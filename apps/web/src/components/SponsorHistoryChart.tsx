@@ -0,0 +1,87 @@
+import clsx from 'clsx'
+import { TrendingDown, TrendingUp, Minus, CircleSlash } from 'lucide-react'
+
+export type TrendDirection = 'growing' | 'steady' | 'shrinking' | 'stopped' | 'insufficient_data'
+
+export interface SponsorHistoryValue {
+  years: Array<{ fiscalYear: number; approvals: number; denials: number }>
+  lastYearSponsored: number | null
+  trend: { direction: TrendDirection; change: number }
+}
+
+const TREND_LABELS: Record<TrendDirection, { label: string; className: string; icon: typeof TrendingUp }> = {
+  growing: { label: 'Sponsorship growing', className: 'bg-emerald-100 text-emerald-700', icon: TrendingUp },
+  steady: { label: 'Sponsorship steady', className: 'bg-sky-100 text-sky-700', icon: Minus },
+  shrinking: { label: 'Sponsorship shrinking', className: 'bg-amber-100 text-amber-700', icon: TrendingDown },
+  stopped: { label: 'No recent approvals', className: 'bg-rose-100 text-rose-700', icon: CircleSlash },
+  insufficient_data: { label: 'Not enough history', className: 'bg-slate-100 text-slate-600', icon: Minus },
+}
+
+// Last N fiscal years keep the bars readable in the side panel
+const MAX_YEARS = 8
+const CHART_HEIGHT = 96
+
+interface SponsorHistoryChartProps {
+  history: SponsorHistoryValue
+  className?: string
+}
+
+export function SponsorHistoryChart({ history, className }: SponsorHistoryChartProps) {
+  const years = history.years.slice(-MAX_YEARS)
+  if (!years.length) return null
+
+  const peak = Math.max(1, ...years.map((year) => year.approvals + year.denials))
+  const trend = TREND_LABELS[history.trend.direction]
+  const TrendIcon = trend.icon
+
+  return (
+    <div className={clsx('space-y-2', className)}>
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs font-medium text-emerald-700">H-1B petitions by fiscal year</span>
+        <span className={clsx('inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-[11px] font-medium', trend.className)}>
+          <TrendIcon className="h-3 w-3" />
+          {trend.label}
+        </span>
+      </div>
+
+      <div className="flex items-end gap-1.5" style={{ height: CHART_HEIGHT }}>
+        {years.map((year) => {
+          const total = year.approvals + year.denials
+          return (
+            <div
+              key={year.fiscalYear}
+              className="flex flex-1 flex-col justify-end"
+              style={{ height: `${(total / peak) * 100}%` }}
+              title={`FY${year.fiscalYear}: ${year.approvals} approved, ${year.denials} denied`}
+            >
+              {year.denials > 0 && (
+                <div className="rounded-t bg-rose-300" style={{ height: `${(year.denials / total) * 100}%` }} />
+              )}
+              <div
+                className={clsx('bg-emerald-500', year.denials > 0 ? '' : 'rounded-t')}
+                style={{ height: `${(year.approvals / Math.max(1, total)) * 100}%` }}
+              />
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="flex gap-1.5 text-[10px] text-emerald-600">
+        {years.map((year) => (
+          <span key={year.fiscalYear} className="flex-1 text-center">
+            {String(year.fiscalYear).slice(2)}
+          </span>
+        ))}
+      </div>
+
+      <p className="flex items-center gap-3 text-[11px] text-emerald-600">
+        <span className="inline-flex items-center gap-1">
+          <span className="h-2 w-2 rounded-sm bg-emerald-500" /> Approved
+        </span>
+        <span className="inline-flex items-center gap-1">
+          <span className="h-2 w-2 rounded-sm bg-rose-300" /> Denied
+        </span>
+      </p>
+    </div>
+  )
+}
@@ -1,18 +1,38 @@
 import { useState, useEffect, useCallback, useMemo } from 'react'
-import { useQuery } from '@tanstack/react-query'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
 import { Layout } from '../components/Layout'
 import { SearchBar } from '../components/SearchBar'
 import { Filters } from '../components/Filters'
+import {
+  DEFAULT_SCORING_WEIGHTS,
+  ScoringWeights,
+  ScoringWeightsValue,
+} from '../components/ScoringWeights'
+import { SavedSearch, SavedSearchFilters, SavedSearches } from '../components/SavedSearches'
+import { SponsorHistoryChart, SponsorHistoryValue } from '../components/SponsorHistoryChart'
 import { useAuth } from '../providers/AuthProvider'
 import {
   Bookmark,
   ExternalLink,
   ShieldCheck,
+  ShieldOff,
   Sparkles,
   SlidersHorizontal,
   X,
 } from 'lucide-react'
 
+type PostingVisaStance = 'no_sponsorship' | 'opt_only' | 'sponsors' | 'opt_welcome'
+
+const POSTING_STANCE_LABELS: Record<PostingVisaStance, string> = {
+  no_sponsorship: 'This role does not sponsor visas',
+  opt_only: 'OPT/CPT considered, no H-1B sponsorship',
+  sponsors: 'This role offers visa sponsorship',
+  opt_welcome: 'OPT/CPT candidates welcome',
+}
+
+// The posting rules out an H-1B for the role, whatever the company's record
+const NON_SPONSORING_STANCES: PostingVisaStance[] = ['no_sponsorship', 'opt_only']
+
 interface Job {
   id: string
   title: string
@@ -27,6 +47,8 @@ interface Job {
   visaStatus?: string
   sponsorshipConfidence?: number
   visaNotes?: string | null
+  visaStance?: PostingVisaStance | null
+  visaRequirements?: string | null
   postedAt?: string | null
   similarity?: number
   matchScore?: number
@@ -34,8 +56,13 @@ interface Job {
     similarity: number
     recency: number
     sponsorship: number
+    fused?: number
+    vectorRank?: number | null
+    lexicalRank?: number | null
+    weights?: ScoringWeightsValue
   }
   matchReasons?: string[]
+  alternateLinks?: Array<{ url: string; source: string | null }>
   visaSponsor?: {
     id: string
     companyName: string
@@ -45,6 +72,8 @@ interface Job {
     latestUpdate?: { summary: string; occurredAt?: string } | null
     totalFilings?: number | null
     source?: string | null
+    eVerifyEnrolled?: boolean | null
+    capExempt?: boolean | null
   } | null
 }
 
@@ -54,6 +83,31 @@ interface JobsResponse {
   jobs: Job[]
   total: number
   hasMore?: boolean
+  nextCursor?: string | null
+}
+
+interface ProfileResponse {
+  profile: {
+    scoringWeights?: ScoringWeightsValue | null
+  }
+}
+
+interface SavedSearchesResponse {
+  savedSearches: SavedSearch[]
+  newMatchCount: number
+}
+
+interface LcaEvidence {
+  jobTitle: string
+  worksiteCity: string | null
+  worksiteState: string | null
+  fiscalYear: number
+  filingCount: number
+  summary: string
+}
+
+interface JobDetailResponse {
+  job: Job & { lcaEvidence?: LcaEvidence[] }
 }
 
 interface ApplicationsResponse {
@@ -72,6 +126,8 @@ export function Dashboard() {
   const [filtersOpen, setFiltersOpen] = useState(false)
   const [selectedJobId, setSelectedJobId] = useState<string | null>(null)
   const [currentPage, setCurrentPage] = useState(1)
+  // Cursor that fetches each page, learned from the page before it
+  const [pageCursors, setPageCursors] = useState<Record<number, string>>({})
   const [markingApplied, setMarkingApplied] = useState<Record<string, boolean>>({})
   const [filters, setFilters] = useState({
     jobType: 'all',
@@ -80,8 +136,17 @@ export function Dashboard() {
     visaStatus: undefined as string | undefined,
     minConfidence: undefined as number | undefined,
     requiresVerifiedSponsor: undefined as boolean | undefined,
+    eVerifyOnly: undefined as boolean | undefined,
+    capExemptOnly: undefined as boolean | undefined,
   })
+  // Unsaved slider edits; null means the stored weights apply
+  const [weightOverrides, setWeightOverrides] = useState<ScoringWeightsValue | null>(null)
+  const [debouncedWeights, setDebouncedWeights] = useState<ScoringWeightsValue | null>(null)
+  const [weightsOpen, setWeightsOpen] = useState(false)
+  const [isSavingWeights, setIsSavingWeights] = useState(false)
+  const [isSavingSearch, setIsSavingSearch] = useState(false)
   const { session, getAccessToken } = useAuth()
+  const queryClient = useQueryClient()
 
   useEffect(() => {
     const timer = setTimeout(() => {
@@ -90,6 +155,13 @@ export function Dashboard() {
     return () => clearTimeout(timer)
   }, [searchQuery])
 
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedWeights(weightOverrides)
+    }, 300)
+    return () => clearTimeout(timer)
+  }, [weightOverrides])
+
   useEffect(() => {
     if (typeof window !== 'undefined' && window.innerWidth >= 1024) {
       setFiltersOpen(true)
@@ -98,12 +170,64 @@ export function Dashboard() {
 
   useEffect(() => {
     setCurrentPage(1)
-  }, [debouncedSearch, filters])
+    setPageCursors({})
+  }, [debouncedSearch, filters, debouncedWeights])
+
+  const { data: profileData } = useQuery<ProfileResponse>({
+    queryKey: ['profile', session?.user?.id],
+    enabled: !!session,
+    queryFn: async () => {
+      const token = await getAccessToken()
+      if (!token) {
+        throw new Error('Authentication token unavailable')
+      }
+      const response = await fetch('/api/profile', {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      })
+      if (!response.ok) throw new Error('Failed to fetch profile')
+      return response.json()
+    },
+  })
+
+  const storedWeights = profileData?.profile?.scoringWeights ?? DEFAULT_SCORING_WEIGHTS
+  const displayedWeights = weightOverrides ?? storedWeights
+  const weightsDirty =
+    weightOverrides !== null &&
+    (Object.keys(weightOverrides) as Array<keyof ScoringWeightsValue>).some(
+      (key) => Math.abs(weightOverrides[key] - storedWeights[key]) > 0.001
+    )
 
   const PAGE_SIZE = 30
 
-  const { data, error, isLoading, isFetching } = useQuery<JobsResponse>({
-    queryKey: ['jobs', session?.user?.id, debouncedSearch, filters, currentPage],
+  const pageCursor = currentPage > 1 ? pageCursors[currentPage] : undefined
+
+  // The same fields /api/jobs/search takes; saved searches store this object
+  const searchFilters = useMemo<SavedSearchFilters>(
+    () => ({
+      ...(debouncedSearch && { description: debouncedSearch }),
+      ...(filters.jobType !== 'all' && { jobType: filters.jobType }),
+      ...(filters.isRemote !== undefined && { isRemote: filters.isRemote }),
+      ...(filters.location && { location: filters.location }),
+      ...(filters.visaStatus && { visaStatus: filters.visaStatus }),
+      ...(filters.minConfidence !== undefined && {
+        minSponsorshipConfidence: filters.minConfidence,
+      }),
+      ...(filters.requiresVerifiedSponsor && { requiresVerifiedSponsor: true }),
+      ...(filters.eVerifyOnly && { eVerifyOnly: true }),
+      ...(filters.capExemptOnly && { capExemptOnly: true }),
+      ...(debouncedWeights && {
+        similarityWeight: debouncedWeights.similarity,
+        recencyWeight: debouncedWeights.recency,
+        sponsorshipWeight: debouncedWeights.sponsorship,
+      }),
+    }),
+    [debouncedSearch, filters, debouncedWeights]
+  )
+
+  const { data, error, isLoading, isFetching, isPlaceholderData } = useQuery<JobsResponse>({
+    queryKey: ['jobs', session?.user?.id, searchFilters, currentPage, pageCursor],
     queryFn: async () => {
       const token = await getAccessToken()
       if (!token) {
@@ -111,17 +235,13 @@ export function Dashboard() {
       }
 
       const params = new URLSearchParams({
-        ...(debouncedSearch && { description: debouncedSearch }),
-        ...(filters.jobType !== 'all' && { jobType: filters.jobType }),
-        ...(filters.isRemote !== undefined && { isRemote: String(filters.isRemote) }),
-        ...(filters.location && { location: filters.location }),
-        ...(filters.visaStatus && { visaStatus: filters.visaStatus }),
-        ...(filters.minConfidence !== undefined && {
-          minSponsorshipConfidence: String(filters.minConfidence),
-        }),
-        ...(filters.requiresVerifiedSponsor && { requiresVerifiedSponsor: 'true' }),
+        ...Object.fromEntries(
+          Object.entries(searchFilters).map(([key, value]) => [key, String(value)])
+        ),
         limit: String(PAGE_SIZE),
-        offset: String((currentPage - 1) * PAGE_SIZE),
+        ...(pageCursor
+          ? { cursor: pageCursor }
+          : { offset: String((currentPage - 1) * PAGE_SIZE) }),
       })
 
       const response = await fetch(`/api/jobs/search?${params}`, {
@@ -138,6 +258,25 @@ export function Dashboard() {
     placeholderData: (previousData) => previousData,
   })
 
+  const { data: savedSearchesData, refetch: refetchSavedSearches } = useQuery<SavedSearchesResponse>({
+    queryKey: ['saved-searches', session?.user?.id],
+    enabled: !!session,
+    queryFn: async () => {
+      const token = await getAccessToken()
+      if (!token) {
+        throw new Error('Authentication token unavailable')
+      }
+      const response = await fetch('/api/saved-searches', {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      })
+      if (!response.ok) throw new Error('Failed to fetch saved searches')
+      return response.json()
+    },
+    staleTime: 1000 * 60 * 2,
+  })
+
   const { data: applicationsData, refetch: refetchApplications } = useQuery<ApplicationsResponse>({
     queryKey: ['applications', session?.user?.id],
     enabled: !!session,
@@ -178,6 +317,17 @@ export function Dashboard() {
     [jobs, selectedJobId]
   )
 
+  useEffect(() => {
+    const nextCursor = data?.nextCursor
+    if (!nextCursor || isPlaceholderData) return
+    setPageCursors((prev) =>
+      prev[currentPage + 1] === nextCursor ? prev : { ...prev, [currentPage + 1]: nextCursor }
+    )
+  }, [data, isPlaceholderData, currentPage])
+
+  // Pages past the furthest known cursor can only be reached with "Next"
+  const reachablePages = Math.max(currentPage, ...Object.keys(pageCursors).map(Number))
+
   useEffect(() => {
     if (totalPages > 0 && currentPage > totalPages) {
       setCurrentPage(totalPages)
@@ -226,6 +376,114 @@ export function Dashboard() {
     [getAccessToken, appliedJobIds, refetchApplications]
   )
 
+  const saveScoringWeights = useCallback(
+    async (weights: ScoringWeightsValue | null) => {
+      setIsSavingWeights(true)
+      try {
+        const token = await getAccessToken()
+        if (!token) {
+          throw new Error('Authentication required')
+        }
+        const response = await fetch('/api/profile/scoring-weights', {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify({ weights }),
+        })
+        if (!response.ok) throw new Error('Failed to save scoring weights')
+        await queryClient.invalidateQueries({ queryKey: ['profile', session?.user?.id] })
+        await queryClient.invalidateQueries({ queryKey: ['jobs'] })
+        setWeightOverrides(null)
+      } catch (saveError) {
+        console.error('Failed to save scoring weights', saveError)
+      } finally {
+        setIsSavingWeights(false)
+      }
+    },
+    [getAccessToken, queryClient, session?.user?.id]
+  )
+
+  const savedSearchRequest = useCallback(
+    async (path: string, init: RequestInit = {}) => {
+      const token = await getAccessToken()
+      if (!token) {
+        throw new Error('Authentication required')
+      }
+      const response = await fetch(`/api/saved-searches${path}`, {
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+      })
+      if (!response.ok) throw new Error('Saved search request failed')
+      await refetchSavedSearches()
+    },
+    [getAccessToken, refetchSavedSearches]
+  )
+
+  const handleSaveSearch = useCallback(
+    async (name: string) => {
+      setIsSavingSearch(true)
+      try {
+        await savedSearchRequest('', {
+          method: 'POST',
+          body: JSON.stringify({ name, filters: searchFilters }),
+        })
+      } catch (saveError) {
+        console.error('Failed to save search', saveError)
+      } finally {
+        setIsSavingSearch(false)
+      }
+    },
+    [savedSearchRequest, searchFilters]
+  )
+
+  const handleApplySavedSearch = useCallback(
+    (savedSearch: SavedSearch) => {
+      const saved = savedSearch.filters
+      setSearchQuery(saved.description ?? '')
+      setFilters({
+        jobType: saved.jobType ?? 'all',
+        isRemote: saved.isRemote,
+        location: saved.location ?? '',
+        visaStatus: saved.visaStatus,
+        minConfidence: saved.minSponsorshipConfidence,
+        requiresVerifiedSponsor: saved.requiresVerifiedSponsor,
+        eVerifyOnly: saved.eVerifyOnly,
+        capExemptOnly: saved.capExemptOnly,
+      })
+      setWeightOverrides(
+        saved.similarityWeight !== undefined &&
+          saved.recencyWeight !== undefined &&
+          saved.sponsorshipWeight !== undefined
+          ? {
+              similarity: saved.similarityWeight,
+              recency: saved.recencyWeight,
+              sponsorship: saved.sponsorshipWeight,
+            }
+          : null
+      )
+      if (savedSearch.newMatchCount > 0) {
+        savedSearchRequest(`/${savedSearch.id}/matches/seen`, { method: 'POST' }).catch((seenError) =>
+          console.error('Failed to clear saved search badge', seenError)
+        )
+      }
+    },
+    [savedSearchRequest]
+  )
+
+  const handleDeleteSavedSearch = useCallback(
+    (id: string) => {
+      savedSearchRequest(`/${id}`, { method: 'DELETE' }).catch((deleteError) =>
+        console.error('Failed to delete saved search', deleteError)
+      )
+    },
+    [savedSearchRequest]
+  )
+
   return (
     <Layout>
       <div className="w-full max-w-7xl mx-auto px-6 lg:px-10 xl:px-12 py-10 space-y-8">
@@ -254,6 +512,14 @@ export function Dashboard() {
           </div>
         </div>
 
+        <SavedSearches
+          savedSearches={savedSearchesData?.savedSearches ?? []}
+          onApply={handleApplySavedSearch}
+          onSave={handleSaveSearch}
+          onDelete={handleDeleteSavedSearch}
+          isSaving={isSavingSearch}
+        />
+
         {filtersOpen && (
           <div className="rounded-3xl border border-slate-200 bg-white/90 shadow-sm p-6 transition-all">
             <div className="flex items-center justify-between mb-4">
@@ -286,12 +552,31 @@ export function Dashboard() {
                   <div>
                     <p className="text-sm font-semibold text-slate-800">Smart matching is live</p>
                     <p className="text-xs text-slate-500">
-                      Scores blend profile fit, recency, and visa confidence. Update your profile to steer the feed.
+                      Scores blend profile fit, recency, and visa confidence. Tune the mix or update your profile to steer the feed.
                     </p>
                   </div>
                 </div>
-                <p className="text-xs text-slate-500">Showing {jobs.length} of {totalJobs} matches</p>
+                <div className="flex items-center gap-3">
+                  <p className="text-xs text-slate-500">Showing {jobs.length} of {totalJobs} matches</p>
+                  <button
+                    onClick={() => setWeightsOpen((prev) => !prev)}
+                    className="rounded-full border border-sky-200 bg-white px-3 py-1 text-xs font-medium text-sky-600 transition-colors hover:border-sky-300"
+                  >
+                    {weightsOpen ? 'Done' : 'Tune weights'}
+                  </button>
+                </div>
               </div>
+              {weightsOpen && (
+                <ScoringWeights
+                  weights={displayedWeights}
+                  onChange={setWeightOverrides}
+                  onSave={() => saveScoringWeights(displayedWeights)}
+                  onReset={() => saveScoringWeights(null)}
+                  isSaving={isSavingWeights}
+                  isDirty={weightsDirty}
+                  className="mt-4 rounded-2xl bg-white/80 p-4"
+                />
+              )}
             </div>
 
             {isLoading && !data && (
@@ -355,6 +640,8 @@ export function Dashboard() {
               <Pagination
                 currentPage={currentPage}
                 totalPages={totalPages}
+                reachablePages={reachablePages}
+                hasMore={Boolean(data?.hasMore)}
                 onPageChange={setCurrentPage}
                 isFetching={isFetching}
               />
@@ -391,8 +678,11 @@ function JobListItem({
   const matchScore = Math.round((job.matchScore ?? 0) * 100)
   const { primaryLocation, extraCount } = parseLocation(job)
   const relativePosted = formatRelativeDate(job.postedAt)
-  const badgeLabel =
-    job.visaSponsor?.sponsorshipConfidence && job.visaSponsor.sponsorshipConfidence >= 75
+  const refusesSponsorship =
+    job.visaStatus === 'no_sponsorship' || (!!job.visaStance && NON_SPONSORING_STANCES.includes(job.visaStance))
+  const badgeLabel = refusesSponsorship
+    ? null
+    : job.visaSponsor?.sponsorshipConfidence && job.visaSponsor.sponsorshipConfidence >= 75
       ? 'Verified sponsor'
       : job.visaSponsor
         ? 'Visa friendly'
@@ -484,6 +774,12 @@ function JobListItem({
               {badgeLabel}
             </span>
           )}
+          {refusesSponsorship && (
+            <span className="inline-flex items-center gap-1 rounded-full bg-rose-50 px-3 py-1 text-rose-600">
+              <ShieldOff className="w-3 h-3" />
+              {job.visaStance === 'opt_only' ? 'OPT only' : 'No sponsorship'}
+            </span>
+          )}
           {(job.matchReasons ?? []).slice(0, 2).map((reason, index) => (
             <span
               key={index}
@@ -513,6 +809,36 @@ function JobDetailPanel({
   const [isSaving, setIsSaving] = useState(false)
   const [isApplying, setIsApplying] = useState(false)
 
+  // Search results leave out the sponsor's LCA filings; they come with the full job
+  const { data: jobDetail } = useQuery<JobDetailResponse>({
+    queryKey: ['job', job?.id],
+    enabled: !!job,
+    queryFn: async () => {
+      const token = await getAccessToken()
+      const response = await fetch(`/api/jobs/${job!.id}`, {
+        headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+      })
+      if (!response.ok) throw new Error('Failed to fetch job')
+      return response.json()
+    },
+    staleTime: 1000 * 60 * 10,
+  })
+  const lcaEvidence = jobDetail?.job.lcaEvidence ?? []
+
+  const sponsorId = job?.visaSponsor?.id
+  const { data: sponsorHistory } = useQuery<SponsorHistoryValue>({
+    queryKey: ['sponsor-history', sponsorId],
+    enabled: !!sponsorId,
+    queryFn: async () => {
+      const response = await fetch(`/api/sponsors/${sponsorId}/history`)
+      if (!response.ok) throw new Error('Failed to fetch sponsor history')
+      return response.json()
+    },
+    // Sponsors without imported USCIS data 404; nothing to retry
+    retry: false,
+    staleTime: 1000 * 60 * 60,
+  })
+
   const handleSave = useCallback(async () => {
     if (!job) return
     setIsSaving(true)
@@ -593,6 +919,9 @@ function JobDetailPanel({
             Match breakdown
           </p>
           <MatchMeter label="Profile fit" value={job.scoreDetails.similarity} accent="from-sky-500 to-blue-500" />
+          {typeof job.scoreDetails.fused === 'number' && (
+            <MatchMeter label="Search relevance" value={job.scoreDetails.fused} accent="from-indigo-500 to-violet-500" />
+          )}
           <MatchMeter label="Recency" value={job.scoreDetails.recency} accent="from-amber-400 to-orange-500" />
           <MatchMeter label="Visa confidence" value={job.scoreDetails.sponsorship} accent="from-emerald-400 to-emerald-500" />
         </div>
@@ -622,6 +951,44 @@ function JobDetailPanel({
         </p>
       </div>
 
+      {!!(job.alternateLinks && job.alternateLinks.length) && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold text-slate-800">Also listed on</h3>
+          <ul className="space-y-1 text-sm">
+            {job.alternateLinks.map((link) => (
+              <li key={link.url}>
+                <a
+                  href={link.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1 text-sky-600 hover:text-sky-700"
+                >
+                  <ExternalLink className="w-3.5 h-3.5" />
+                  {formatSourceLabel(link.source, link.url)}
+                </a>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {job.visaStance && (
+        <div
+          className={`space-y-2 rounded-2xl border p-4 ${
+            NON_SPONSORING_STANCES.includes(job.visaStance)
+              ? 'border-rose-100 bg-rose-50/60 text-rose-700'
+              : 'border-sky-100 bg-sky-50/60 text-sky-700'
+          }`}
+        >
+          <h3 className="text-sm font-semibold">{POSTING_STANCE_LABELS[job.visaStance]}</h3>
+          {job.visaRequirements && (
+            <blockquote className="border-l-2 border-current pl-3 text-xs italic opacity-80">
+              “{job.visaRequirements}”
+            </blockquote>
+          )}
+        </div>
+      )}
+
       {job.visaSponsor && (
         <div className="space-y-3 rounded-2xl border border-emerald-100 bg-emerald-50/60 p-4">
           <h3 className="text-sm font-semibold text-emerald-700 flex items-center gap-2">
@@ -643,6 +1010,14 @@ function JobDetailPanel({
             {job.visaSponsor.visaTypes && job.visaSponsor.visaTypes.length > 0 && (
               <li>Supports: {job.visaSponsor.visaTypes.join(', ')}</li>
             )}
+            {job.visaSponsor.eVerifyEnrolled !== null && job.visaSponsor.eVerifyEnrolled !== undefined && (
+              <li>
+                {job.visaSponsor.eVerifyEnrolled
+                  ? 'E-Verify employer, can hire on STEM OPT'
+                  : 'Not enrolled in E-Verify, cannot hire on STEM OPT'}
+              </li>
+            )}
+            {job.visaSponsor.capExempt && <li>Cap-exempt, H-1B without the lottery</li>}
             {job.visaSponsor.latestUpdate?.summary && (
               <li className="text-xs text-emerald-600">
                 {job.visaSponsor.latestUpdate.summary}
@@ -653,6 +1028,21 @@ function JobDetailPanel({
                 )}
               </li>
             )}
+            {sponsorHistory && sponsorHistory.years.length > 0 && (
+              <li className="pt-1">
+                <SponsorHistoryChart history={sponsorHistory} />
+              </li>
+            )}
+            {lcaEvidence.length > 0 && (
+              <li className="pt-1">
+                <span className="font-medium">Labor Condition Applications</span>
+                <ul className="mt-1 space-y-1 text-xs text-emerald-600">
+                  {lcaEvidence.map((filing) => (
+                    <li key={filing.summary}>{filing.summary}</li>
+                  ))}
+                </ul>
+              </li>
+            )}
           </ul>
         </div>
       )}
@@ -693,6 +1083,18 @@ function JobDetailPanel({
   )
 }
 
+function formatSourceLabel(source: string | null, url: string) {
+  if (source) {
+    const [platform] = source.split('_')
+    return platform.charAt(0).toUpperCase() + platform.slice(1)
+  }
+  try {
+    return new URL(url).hostname
+  } catch {
+    return url
+  }
+}
+
 function MatchMeter({ label, value, accent }: { label: string; value: number; accent: string }) {
   const percentage = Math.round(Math.min(Math.max(value, 0), 1) * 100)
   return (
@@ -750,11 +1152,15 @@ function formatRelativeDate(date: string | null | undefined) {
 function Pagination({
   currentPage,
   totalPages,
+  reachablePages,
+  hasMore,
   onPageChange,
   isFetching,
 }: {
   currentPage: number
   totalPages: number
+  reachablePages: number
+  hasMore: boolean
   onPageChange: (page: number) => void
   isFetching: boolean
 }) {
@@ -790,7 +1196,8 @@ function Pagination({
             key={page}
             type="button"
             onClick={() => onPageChange(page)}
-            className={`h-9 w-9 rounded-full text-sm font-medium transition-colors ${
+            disabled={page > reachablePages}
+            className={`h-9 w-9 rounded-full text-sm font-medium transition-colors disabled:cursor-not-allowed disabled:opacity-40 ${
               page === currentPage
                 ? 'bg-sky-500 text-white shadow-sm'
                 : 'border border-slate-200 text-slate-600 hover:border-sky-300 hover:text-sky-600'
@@ -806,7 +1213,7 @@ function Pagination({
       <button
         type="button"
         onClick={() => onPageChange(Math.min(currentPage + 1, totalPages))}
-        disabled={currentPage === totalPages}
+        disabled={currentPage === totalPages || !hasMore}
         className="inline-flex items-center rounded-full border border-slate-200 px-3 py-1.5 text-sm text-slate-600 transition-all hover:border-sky-300 hover:text-sky-600 disabled:cursor-not-allowed disabled:opacity-60"
       >
         Next
@@ -2,6 +2,20 @@ import { useEffect, useMemo, useState } from 'react'
 import { useQuery, useQueryClient } from '@tanstack/react-query'
 import { Layout } from '../components/Layout'
 import { useAuth } from '../providers/AuthProvider'
+import {
+  CandidateProfile,
+  CandidateProfileForm,
+  CandidateProfileFormValue,
+  toCandidateProfile,
+  toCandidateProfileFormValue,
+} from '../components/CandidateProfileForm'
+import { ResumeSummary, ResumeUpload } from '../components/ResumeUpload'
+import {
+  EMPTY_TIMELINE,
+  ImmigrationTimeline,
+  ImmigrationTimelineValue,
+  TimelineSummary,
+} from '../components/ImmigrationTimeline'
 
 interface ProfileResponse {
   profile: {
@@ -10,14 +24,58 @@ interface ProfileResponse {
     profileDescription?: string | null
     createdAt?: string | null
     visaSponsorId?: string | null
+    digestFrequency?: DigestFrequency | null
+    candidateProfile?: CandidateProfile | null
+    resume?: ResumeSummary | null
   }
 }
 
+interface TimelineResponse {
+  timeline: (Omit<ImmigrationTimelineValue, 'programEndDate' | 'optStartDate' | 'optEndDate' | 'stemOptStartDate'> & {
+    programEndDate: string | null
+    optStartDate: string | null
+    optEndDate: string | null
+    stemOptStartDate: string | null
+  }) | null
+  summary: TimelineSummary | null
+}
+
+type DigestFrequency = 'daily' | 'weekly' | 'off'
+
+function toTimelineValue(timeline: TimelineResponse['timeline']): ImmigrationTimelineValue {
+  if (!timeline) return EMPTY_TIMELINE
+  return {
+    programEndDate: timeline.programEndDate ?? '',
+    optStartDate: timeline.optStartDate ?? '',
+    optEndDate: timeline.optEndDate ?? '',
+    stemOptStartDate: timeline.stemOptStartDate ?? '',
+    stemOptEligible: timeline.stemOptEligible,
+    unemploymentDaysUsed: timeline.unemploymentDaysUsed,
+    currentlyEmployed: timeline.currentlyEmployed,
+    h1bLotteryStatus: timeline.h1bLotteryStatus,
+  }
+}
+
+const DIGEST_OPTIONS: Array<{ value: DigestFrequency; label: string }> = [
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'off', label: 'Off' },
+]
+
 export function Profile() {
   const [description, setDescription] = useState('')
+  const [candidateForm, setCandidateForm] = useState<CandidateProfileFormValue>(() =>
+    toCandidateProfileFormValue(null)
+  )
   const [isSaving, setIsSaving] = useState(false)
   const [feedback, setFeedback] = useState<{ type: 'success' | 'error'; message: string } | null>(null)
   const [hasInitialized, setHasInitialized] = useState(false)
+  const [isSavingDigest, setIsSavingDigest] = useState(false)
+  const [isResumeBusy, setIsResumeBusy] = useState(false)
+  const [timelineForm, setTimelineForm] = useState<ImmigrationTimelineValue>(EMPTY_TIMELINE)
+  const [hasLoadedTimeline, setHasLoadedTimeline] = useState(false)
+  const [isSavingTimeline, setIsSavingTimeline] = useState(false)
+  const [timelineError, setTimelineError] = useState<string | null>(null)
   const { session, getAccessToken } = useAuth()
   const queryClient = useQueryClient()
 
@@ -41,11 +99,39 @@ export function Profile() {
     },
   })
 
+  const timelineQuery = useQuery({
+    queryKey: ['profile-timeline', session?.user?.id],
+    enabled: !!session,
+    queryFn: async (): Promise<TimelineResponse> => {
+      const token = await getAccessToken()
+      if (!token) {
+        throw new Error('Unable to load timeline without an access token')
+      }
+      const response = await fetch('/api/profile/timeline', {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      })
+      if (!response.ok) {
+        throw new Error('Failed to fetch timeline')
+      }
+      return response.json()
+    },
+  })
+
   const profile = useMemo(() => profileQuery.data?.profile, [profileQuery.data])
 
+  useEffect(() => {
+    if (timelineQuery.data && !hasLoadedTimeline) {
+      setTimelineForm(toTimelineValue(timelineQuery.data.timeline))
+      setHasLoadedTimeline(true)
+    }
+  }, [timelineQuery.data, hasLoadedTimeline])
+
   useEffect(() => {
     if (profile && !hasInitialized) {
       setDescription(profile.profileDescription ?? '')
+      setCandidateForm(toCandidateProfileFormValue(profile.candidateProfile))
       setHasInitialized(true)
     }
   }, [profile, hasInitialized])
@@ -64,12 +150,16 @@ export function Profile() {
           'Content-Type': 'application/json',
           Authorization: `Bearer ${token}`,
         },
-        body: JSON.stringify({ description }),
+        body: JSON.stringify({
+          ...(description.trim() && { description }),
+          candidateProfile: toCandidateProfile(candidateForm),
+        }),
       })
       if (!response.ok) throw new Error('Failed to save profile')
       const data: ProfileResponse = await response.json()
       setFeedback({ type: 'success', message: 'Profile updated successfully.' })
       setDescription(data.profile.profileDescription ?? '')
+      setCandidateForm(toCandidateProfileFormValue(data.profile.candidateProfile))
       profileQuery.refetch()
       queryClient.invalidateQueries({ queryKey: ['jobs'] })
     } catch (error) {
@@ -80,6 +170,118 @@ export function Profile() {
     }
   }
 
+  const handleDigestChange = async (frequency: DigestFrequency) => {
+    setIsSavingDigest(true)
+    setFeedback(null)
+    try {
+      const token = await getAccessToken()
+      if (!token) {
+        throw new Error('Authentication required')
+      }
+      const response = await fetch('/api/profile/digest', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ frequency }),
+      })
+      if (!response.ok) throw new Error('Failed to save digest preference')
+      await profileQuery.refetch()
+    } catch (error) {
+      console.error('Failed to save digest preference', error)
+      setFeedback({ type: 'error', message: 'Failed to update email digest. Please try again.' })
+    } finally {
+      setIsSavingDigest(false)
+    }
+  }
+
+  const handleTimelineSave = async () => {
+    setIsSavingTimeline(true)
+    setTimelineError(null)
+    try {
+      const token = await getAccessToken()
+      if (!token) {
+        throw new Error('Authentication required')
+      }
+      const response = await fetch('/api/profile/timeline', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          ...timelineForm,
+          programEndDate: timelineForm.programEndDate || null,
+          optStartDate: timelineForm.optStartDate || null,
+          optEndDate: timelineForm.optEndDate || null,
+          stemOptStartDate: timelineForm.stemOptStartDate || null,
+        }),
+      })
+      if (!response.ok) throw new Error('Failed to save timeline')
+      const data: TimelineResponse = await response.json()
+      queryClient.setQueryData(['profile-timeline', session?.user?.id], data)
+      setTimelineForm(toTimelineValue(data.timeline))
+      queryClient.invalidateQueries({ queryKey: ['jobs'] })
+    } catch (error) {
+      console.error('Failed to save timeline', error)
+      setTimelineError('Failed to save timeline. Please try again.')
+    } finally {
+      setIsSavingTimeline(false)
+    }
+  }
+
+  const handleResumeRequest = async (request: (token: string) => Promise<Response>, successMessage: string) => {
+    setIsResumeBusy(true)
+    setFeedback(null)
+    try {
+      const token = await getAccessToken()
+      if (!token) {
+        throw new Error('Authentication required')
+      }
+      const response = await request(token)
+      if (!response.ok) {
+        const data = await response.json().catch(() => null)
+        throw new Error(data?.error ?? 'Resume request failed')
+      }
+      setFeedback({ type: 'success', message: successMessage })
+      await profileQuery.refetch()
+      queryClient.invalidateQueries({ queryKey: ['jobs'] })
+    } catch (error) {
+      console.error('Resume request failed', error)
+      setFeedback({
+        type: 'error',
+        message: error instanceof Error ? error.message : 'Resume request failed. Please try again.',
+      })
+    } finally {
+      setIsResumeBusy(false)
+    }
+  }
+
+  const handleResumeUpload = (file: File) => {
+    const body = new FormData()
+    body.append('file', file)
+    return handleResumeRequest(
+      (token) =>
+        fetch('/api/profile/resume', {
+          method: 'POST',
+          headers: { Authorization: `Bearer ${token}` },
+          body,
+        }),
+      'Resume uploaded. Your matches now use it.'
+    )
+  }
+
+  const handleResumeDelete = () =>
+    handleResumeRequest(
+      (token) =>
+        fetch('/api/profile/resume', {
+          method: 'DELETE',
+          headers: { Authorization: `Bearer ${token}` },
+        }),
+      'Resume removed.'
+    )
+
   return (
     <Layout>
       <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -110,6 +312,31 @@ export function Profile() {
             </div>
           )}
 
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Resume</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              We pull out your education, experience, projects and skills to sharpen matches and tailored collateral.
+            </p>
+            <ResumeUpload
+              resume={profile?.resume}
+              onUpload={handleResumeUpload}
+              onDelete={handleResumeDelete}
+              isBusy={isResumeBusy || profileQuery.isLoading}
+            />
+          </div>
+
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Background &amp; preferences</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              These details shape your match ranking and filter out roles you can't take.
+            </p>
+            <CandidateProfileForm
+              value={candidateForm}
+              onChange={setCandidateForm}
+              disabled={profileQuery.isLoading}
+            />
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
               What are you looking for?
@@ -138,13 +365,56 @@ export function Profile() {
           <div className="flex justify-end">
             <button
               onClick={handleSave}
-              disabled={isSaving || description.length < 10}
+              disabled={isSaving || (description.trim().length > 0 && description.length < 10)}
               className="bg-primary-600 hover:bg-primary-700 disabled:bg-gray-300 text-white font-medium py-2 px-6 rounded-lg transition-colors"
             >
               {isSaving ? 'Saving...' : 'Save Profile'}
             </button>
           </div>
         </div>
+
+        <div className="bg-white rounded-lg shadow-sm p-6 mt-6 space-y-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Work authorization timeline</h2>
+            <p className="text-sm text-gray-600">
+              Track your OPT clock. When time is short, matches lean toward employers you can start with quickly.
+            </p>
+          </div>
+          {timelineError && (
+            <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+              {timelineError}
+            </div>
+          )}
+          <ImmigrationTimeline
+            value={timelineForm}
+            summary={timelineQuery.data?.summary}
+            onChange={setTimelineForm}
+            onSave={handleTimelineSave}
+            isSaving={isSavingTimeline}
+            disabled={timelineQuery.isLoading}
+          />
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm p-6 mt-6 flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Email digest</h2>
+            <p className="text-sm text-gray-600">
+              Top new sponsor-friendly matches and saved-search hits, sent to {profile?.email ?? 'your email'}.
+            </p>
+          </div>
+          <select
+            value={profile?.digestFrequency ?? 'weekly'}
+            onChange={(e) => handleDigestChange(e.target.value as DigestFrequency)}
+            disabled={profileQuery.isLoading || isSavingDigest}
+            className="border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+          >
+            {DIGEST_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
       </div>
     </Layout>
   )
@@ -0,0 +1,433 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import clsx from 'clsx'
+import { Building2, ExternalLink, MapPin, Search } from 'lucide-react'
+import { Layout } from '../components/Layout'
+import { SponsorHistoryChart, SponsorHistoryValue } from '../components/SponsorHistoryChart'
+
+const PAGE_SIZE = 30
+
+const SORT_OPTIONS = [
+  { value: 'filings', label: 'Most filings' },
+  { value: 'confidence', label: 'Highest confidence' },
+  { value: 'recent', label: 'Most recent sponsorship' },
+  { value: 'name', label: 'Name (A–Z)' },
+]
+
+interface DirectorySponsor {
+  id: string
+  companyName: string
+  sponsorshipConfidence: number | null
+  lastYearSponsored: number | null
+  visaTypes: string[] | null
+  eVerifyEnrolled: boolean | null
+  capExempt: boolean | null
+  industry: string | null
+  city: string | null
+  state: string | null
+  totalFilings: number
+  activeJobCount: number
+}
+
+interface SponsorsResponse {
+  sponsors: DirectorySponsor[]
+  total: number
+  hasMore: boolean
+}
+
+interface SponsorDetailResponse {
+  sponsor: DirectorySponsor & { aliases: string[] | null; notes: string | null; source: string | null }
+  jobs: Array<{
+    id: string
+    title: string
+    company: string
+    location: string | null
+    url: string
+    jobType: string | null
+    isRemote: boolean | null
+    visaStatus: string | null
+    postedAt: string | null
+  }>
+}
+
+const inputClassName =
+  'w-full border border-slate-200 rounded-lg px-3 py-2 focus:ring-2 focus:ring-sky-400 focus:border-sky-400'
+
+export function Sponsors() {
+  const [searchQuery, setSearchQuery] = useState('')
+  const [debouncedSearch, setDebouncedSearch] = useState('')
+  const [offset, setOffset] = useState(0)
+  const [selectedSponsorId, setSelectedSponsorId] = useState<string | null>(null)
+  const [filters, setFilters] = useState({
+    minConfidence: undefined as number | undefined,
+    industry: '',
+    state: '',
+    visaType: '',
+    eVerifyOnly: false,
+    capExemptOnly: false,
+    sort: 'filings',
+  })
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedSearch(searchQuery)
+    }, 400)
+    return () => clearTimeout(timer)
+  }, [searchQuery])
+
+  useEffect(() => {
+    setOffset(0)
+  }, [debouncedSearch, filters])
+
+  const params = useMemo(() => {
+    const search = new URLSearchParams({ sort: filters.sort, limit: String(PAGE_SIZE), offset: String(offset) })
+    if (debouncedSearch) search.set('q', debouncedSearch)
+    if (filters.minConfidence !== undefined) search.set('minConfidence', String(filters.minConfidence))
+    if (filters.industry) search.set('industry', filters.industry)
+    if (filters.state) search.set('state', filters.state)
+    if (filters.visaType) search.set('visaType', filters.visaType)
+    if (filters.eVerifyOnly) search.set('eVerifyOnly', 'true')
+    if (filters.capExemptOnly) search.set('capExemptOnly', 'true')
+    return search.toString()
+  }, [debouncedSearch, filters, offset])
+
+  const { data, isLoading, isError, isFetching } = useQuery<SponsorsResponse>({
+    queryKey: ['sponsors', params],
+    queryFn: async () => {
+      const response = await fetch(`/api/sponsors?${params}`)
+      if (!response.ok) throw new Error('Failed to fetch sponsors')
+      return response.json()
+    },
+    placeholderData: (previousData) => previousData,
+  })
+
+  const sponsors = data?.sponsors ?? []
+  const total = data?.total ?? 0
+
+  return (
+    <Layout>
+      <div className="w-full max-w-7xl mx-auto px-4 sm:px-6 lg:px-10 py-10 space-y-8">
+        <header className="space-y-2">
+          <p className="text-sm uppercase tracking-[0.2em] text-slate-400">Sponsor Directory</p>
+          <h1 className="text-3xl font-semibold text-slate-900">Employers with an H-1B track record</h1>
+          <p className="text-sm text-slate-500 max-w-2xl">
+            Browse sponsors by filing history, confidence and location, then see which of their roles are open right now.
+          </p>
+        </header>
+
+        <section className="rounded-3xl border border-slate-200 bg-white/90 p-6 shadow-sm space-y-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-slate-400" />
+            <input
+              type="text"
+              placeholder="Search by company name or alias"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className={clsx(inputClassName, 'pl-9')}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-5 gap-4">
+            <div className="flex flex-col">
+              <label className="block text-sm font-medium text-slate-600 mb-1">Min Confidence</label>
+              <select
+                value={filters.minConfidence ?? ''}
+                onChange={(e) =>
+                  setFilters({ ...filters, minConfidence: e.target.value ? Number(e.target.value) : undefined })
+                }
+                className={inputClassName}
+              >
+                <option value="">Any</option>
+                <option value="50">50+</option>
+                <option value="70">70+</option>
+                <option value="85">85+</option>
+              </select>
+            </div>
+
+            <div className="flex flex-col">
+              <label className="block text-sm font-medium text-slate-600 mb-1">Industry</label>
+              <input
+                type="text"
+                placeholder="e.g., Professional, Education"
+                value={filters.industry}
+                onChange={(e) => setFilters({ ...filters, industry: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+
+            <div className="flex flex-col">
+              <label className="block text-sm font-medium text-slate-600 mb-1">State</label>
+              <input
+                type="text"
+                placeholder="e.g., CA"
+                maxLength={2}
+                value={filters.state}
+                onChange={(e) => setFilters({ ...filters, state: e.target.value.toUpperCase() })}
+                className={inputClassName}
+              />
+            </div>
+
+            <div className="flex flex-col">
+              <label className="block text-sm font-medium text-slate-600 mb-1">Visa Type</label>
+              <select
+                value={filters.visaType}
+                onChange={(e) => setFilters({ ...filters, visaType: e.target.value })}
+                className={inputClassName}
+              >
+                <option value="">Any</option>
+                <option value="H1B">H-1B</option>
+                <option value="OPT">OPT</option>
+                <option value="STEM-OPT">STEM OPT</option>
+              </select>
+            </div>
+
+            <div className="flex flex-col">
+              <label className="block text-sm font-medium text-slate-600 mb-1">Sort By</label>
+              <select
+                value={filters.sort}
+                onChange={(e) => setFilters({ ...filters, sort: e.target.value })}
+                className={inputClassName}
+              >
+                {SORT_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-6 text-sm text-slate-600">
+            <label className="inline-flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={filters.eVerifyOnly}
+                onChange={(e) => setFilters({ ...filters, eVerifyOnly: e.target.checked })}
+                className="rounded border-slate-300 text-sky-500 focus:ring-sky-400"
+              />
+              E-Verify enrolled
+            </label>
+            <label className="inline-flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={filters.capExemptOnly}
+                onChange={(e) => setFilters({ ...filters, capExemptOnly: e.target.checked })}
+                className="rounded border-slate-300 text-sky-500 focus:ring-sky-400"
+              />
+              Cap-exempt
+            </label>
+          </div>
+        </section>
+
+        {isError && (
+          <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-3">
+            Unable to load sponsors right now.
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 gap-6 lg:grid-cols-[minmax(0,1fr)_minmax(0,1fr)]">
+          <section className="space-y-4">
+            <p className="text-sm text-slate-500">
+              {isLoading ? 'Loading sponsors...' : `${total.toLocaleString()} ${total === 1 ? 'sponsor' : 'sponsors'}`}
+            </p>
+
+            {sponsors.map((sponsor) => (
+              <button
+                key={sponsor.id}
+                type="button"
+                onClick={() => setSelectedSponsorId(sponsor.id)}
+                className={clsx(
+                  'w-full rounded-2xl border bg-white p-4 text-left shadow-sm transition-all',
+                  sponsor.id === selectedSponsorId
+                    ? 'border-sky-400 ring-2 ring-sky-100'
+                    : 'border-slate-200 hover:border-sky-300'
+                )}
+              >
+                <SponsorSummary sponsor={sponsor} />
+              </button>
+            ))}
+
+            {!isLoading && !sponsors.length && !isError && (
+              <p className="rounded-2xl border border-dashed border-slate-300 bg-slate-50/80 px-4 py-6 text-sm text-slate-500">
+                No sponsors match these filters.
+              </p>
+            )}
+
+            {total > PAGE_SIZE && (
+              <nav className="flex items-center justify-between gap-3 rounded-2xl border border-slate-200 bg-white px-4 py-3 shadow-sm">
+                <button
+                  type="button"
+                  onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}
+                  disabled={offset === 0}
+                  className="inline-flex items-center rounded-full border border-slate-200 px-3 py-1.5 text-sm text-slate-600 transition-all hover:border-sky-300 hover:text-sky-600 disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  Previous
+                </button>
+                <span className="text-sm text-slate-500">
+                  {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total.toLocaleString()}
+                  {isFetching && <span className="ml-2 text-xs text-slate-400">Refreshing…</span>}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => setOffset(offset + PAGE_SIZE)}
+                  disabled={!data?.hasMore}
+                  className="inline-flex items-center rounded-full border border-slate-200 px-3 py-1.5 text-sm text-slate-600 transition-all hover:border-sky-300 hover:text-sky-600 disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  Next
+                </button>
+              </nav>
+            )}
+          </section>
+
+          <section className="lg:sticky lg:top-6 lg:self-start">
+            {selectedSponsorId ? (
+              <SponsorDetail sponsorId={selectedSponsorId} />
+            ) : (
+              <div className="rounded-3xl border border-dashed border-slate-300 bg-white px-6 py-10 text-sm text-slate-500 shadow-sm">
+                Select a sponsor to see its filing history and open roles.
+              </div>
+            )}
+          </section>
+        </div>
+      </div>
+    </Layout>
+  )
+}
+
+function SponsorSummary({ sponsor }: { sponsor: DirectorySponsor }) {
+  const place = [sponsor.city, sponsor.state].filter(Boolean).join(', ')
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-start justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Building2 className="h-4 w-4 text-slate-400" />
+          <span className="font-semibold text-slate-900">{sponsor.companyName}</span>
+        </div>
+        {sponsor.sponsorshipConfidence !== null && (
+          <span className="rounded-full bg-emerald-100 px-2 py-0.5 text-xs font-medium text-emerald-700">
+            {sponsor.sponsorshipConfidence}% confidence
+          </span>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-500">
+        <span>{sponsor.totalFilings.toLocaleString()} filings</span>
+        {sponsor.lastYearSponsored && <span>Last sponsored {sponsor.lastYearSponsored}</span>}
+        {place && (
+          <span className="inline-flex items-center gap-1">
+            <MapPin className="h-3 w-3" />
+            {place}
+          </span>
+        )}
+        {sponsor.industry && <span>{sponsor.industry}</span>}
+        <span>
+          {sponsor.activeJobCount} open {sponsor.activeJobCount === 1 ? 'role' : 'roles'}
+        </span>
+      </div>
+      <div className="flex flex-wrap gap-1.5">
+        {sponsor.visaTypes?.map((visaType) => (
+          <span key={visaType} className="rounded-full bg-sky-100 px-2 py-0.5 text-[11px] font-medium text-sky-700">
+            {visaType}
+          </span>
+        ))}
+        {sponsor.eVerifyEnrolled && (
+          <span className="rounded-full bg-slate-100 px-2 py-0.5 text-[11px] font-medium text-slate-600">E-Verify</span>
+        )}
+        {sponsor.capExempt && (
+          <span className="rounded-full bg-violet-100 px-2 py-0.5 text-[11px] font-medium text-violet-700">
+            Cap-exempt
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function SponsorDetail({ sponsorId }: { sponsorId: string }) {
+  const { data, isLoading, isError } = useQuery<SponsorDetailResponse>({
+    queryKey: ['sponsor', sponsorId],
+    queryFn: async () => {
+      const response = await fetch(`/api/sponsors/${sponsorId}`)
+      if (!response.ok) throw new Error('Failed to fetch sponsor')
+      return response.json()
+    },
+  })
+
+  const { data: history } = useQuery<SponsorHistoryValue>({
+    queryKey: ['sponsor-history', sponsorId],
+    queryFn: async () => {
+      const response = await fetch(`/api/sponsors/${sponsorId}/history`)
+      if (!response.ok) throw new Error('Failed to fetch sponsor history')
+      return response.json()
+    },
+    // Sponsors without imported USCIS data 404; nothing to retry
+    retry: false,
+    staleTime: 1000 * 60 * 60,
+  })
+
+  if (isLoading) {
+    return (
+      <div className="rounded-3xl border border-slate-200 bg-white p-6 text-sm text-slate-500 shadow-sm">
+        Loading sponsor...
+      </div>
+    )
+  }
+
+  if (isError || !data) {
+    return (
+      <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg p-3">
+        Unable to load this sponsor right now.
+      </div>
+    )
+  }
+
+  const { sponsor, jobs } = data
+
+  return (
+    <div className="rounded-3xl border border-slate-200 bg-white/90 p-6 shadow-sm space-y-6">
+      <SponsorSummary sponsor={sponsor} />
+
+      {!!sponsor.aliases?.length && (
+        <p className="text-xs text-slate-500">Also known as {sponsor.aliases.join(', ')}</p>
+      )}
+      {sponsor.notes && <p className="text-sm text-slate-600">{sponsor.notes}</p>}
+
+      {history && (
+        <div className="rounded-2xl border border-emerald-100 bg-emerald-50/60 p-4">
+          <SponsorHistoryChart history={history} />
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <h2 className="text-base font-semibold text-slate-800">Open roles</h2>
+        {jobs.length ? (
+          <ul className="divide-y divide-slate-100">
+            {jobs.map((job) => (
+              <li key={job.id} className="flex items-start justify-between gap-3 py-3">
+                <div>
+                  <p className="text-sm font-medium text-slate-900">{job.title}</p>
+                  <p className="text-xs text-slate-500">
+                    {[job.location, job.isRemote ? 'Remote' : null, job.jobType?.replace(/_/g, ' ')]
+                      .filter(Boolean)
+                      .join(' · ')}
+                  </p>
+                </div>
+                <a
+                  href={job.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex shrink-0 items-center gap-1 text-xs font-medium text-sky-600 hover:text-sky-700"
+                >
+                  Apply
+                  <ExternalLink className="h-3 w-3" />
+                </a>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-slate-500">No open roles from this sponsor right now.</p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1 @@
+ALTER TABLE "jobs" ADD COLUMN "department" text;
\ No newline at end of file
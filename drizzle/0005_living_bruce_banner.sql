@@ -0,0 +1,34 @@
+CREATE TABLE "crawl_runs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"crawler" text NOT NULL,
+	"status" text DEFAULT 'running' NOT NULL,
+	"started_at" timestamp DEFAULT now() NOT NULL,
+	"finished_at" timestamp,
+	"jobs_seen" integer DEFAULT 0,
+	"jobs_inserted" integer DEFAULT 0,
+	"jobs_updated" integer DEFAULT 0,
+	"jobs_deactivated" integer DEFAULT 0,
+	"http_failures" integer DEFAULT 0,
+	"error_count" integer DEFAULT 0,
+	"error_message" text
+);
+--> statement-breakpoint
+CREATE TABLE "crawl_source_results" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"run_id" uuid NOT NULL,
+	"source" text NOT NULL,
+	"platform" text NOT NULL,
+	"started_at" timestamp NOT NULL,
+	"finished_at" timestamp,
+	"jobs_seen" integer DEFAULT 0,
+	"jobs_inserted" integer DEFAULT 0,
+	"jobs_updated" integer DEFAULT 0,
+	"jobs_deactivated" integer DEFAULT 0,
+	"http_failures" integer DEFAULT 0,
+	"errors" text[]
+);
+--> statement-breakpoint
+ALTER TABLE "crawl_source_results" ADD CONSTRAINT "crawl_source_results_run_id_crawl_runs_id_fk" FOREIGN KEY ("run_id") REFERENCES "public"."crawl_runs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "crawlRunsStartedIdx" ON "crawl_runs" USING btree ("started_at");--> statement-breakpoint
+CREATE INDEX "crawlSourceResultsRunIdx" ON "crawl_source_results" USING btree ("run_id");--> statement-breakpoint
+CREATE INDEX "crawlSourceResultsSourceIdx" ON "crawl_source_results" USING btree ("source");
\ No newline at end of file
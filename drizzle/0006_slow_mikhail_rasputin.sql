@@ -0,0 +1,3 @@
+ALTER TABLE "crawl_runs" ADD COLUMN "jobs_unchanged" integer DEFAULT 0;--> statement-breakpoint
+ALTER TABLE "crawl_source_results" ADD COLUMN "jobs_unchanged" integer DEFAULT 0;--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN "content_hash" text;
\ No newline at end of file
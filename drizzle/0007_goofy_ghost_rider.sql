@@ -0,0 +1,5 @@
+ALTER TABLE "jobs" ADD COLUMN "dedupe_key" text;--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN "canonical_job_id" uuid;--> statement-breakpoint
+ALTER TABLE "jobs" ADD CONSTRAINT "jobs_canonical_job_id_jobs_id_fk" FOREIGN KEY ("canonical_job_id") REFERENCES "public"."jobs"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "jobsDedupeKeyIdx" ON "jobs" USING btree ("dedupe_key");--> statement-breakpoint
+CREATE INDEX "jobsCanonicalJobIdx" ON "jobs" USING btree ("canonical_job_id");
\ No newline at end of file
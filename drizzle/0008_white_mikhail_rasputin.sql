@@ -0,0 +1,2 @@
+ALTER TABLE "jobs" ADD COLUMN "search_vector" "tsvector" GENERATED ALWAYS AS (setweight(to_tsvector('english', coalesce(title, '')), 'A') || setweight(to_tsvector('english', coalesce(company, '')), 'B') || setweight(to_tsvector('english', coalesce(description, '')), 'C')) STORED;--> statement-breakpoint
+CREATE INDEX "jobsSearchVectorIdx" ON "jobs" USING gin ("search_vector");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "users" ADD COLUMN "scoring_weights" jsonb;
\ No newline at end of file
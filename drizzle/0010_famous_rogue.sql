@@ -0,0 +1,25 @@
+CREATE TABLE "saved_search_matches" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"saved_search_id" uuid NOT NULL,
+	"job_id" uuid NOT NULL,
+	"match_score" real,
+	"matched_at" timestamp DEFAULT now() NOT NULL,
+	"seen_at" timestamp,
+	CONSTRAINT "savedSearchMatchesSearchJobUnique" UNIQUE("saved_search_id","job_id")
+);
+--> statement-breakpoint
+CREATE TABLE "saved_searches" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"name" text NOT NULL,
+	"filters" jsonb NOT NULL,
+	"last_run_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "saved_search_matches" ADD CONSTRAINT "saved_search_matches_saved_search_id_saved_searches_id_fk" FOREIGN KEY ("saved_search_id") REFERENCES "public"."saved_searches"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "saved_search_matches" ADD CONSTRAINT "saved_search_matches_job_id_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."jobs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "saved_searches" ADD CONSTRAINT "saved_searches_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "savedSearchMatchesUnseenIdx" ON "saved_search_matches" USING btree ("saved_search_id","seen_at");--> statement-breakpoint
+CREATE INDEX "savedSearchesUserIdx" ON "saved_searches" USING btree ("user_id");
\ No newline at end of file
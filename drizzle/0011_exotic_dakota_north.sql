@@ -0,0 +1,4 @@
+ALTER TABLE "users" ADD COLUMN "digest_frequency" text DEFAULT 'weekly' NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "last_digest_at" timestamp;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "unsubscribe_token" text;--> statement-breakpoint
+ALTER TABLE "users" ADD CONSTRAINT "users_unsubscribe_token_unique" UNIQUE("unsubscribe_token");
\ No newline at end of file
@@ -0,0 +1,25 @@
+CREATE TABLE "candidate_profile_items" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"profile_id" uuid NOT NULL,
+	"kind" text NOT NULL,
+	"value" text NOT NULL,
+	"position" integer DEFAULT 0 NOT NULL,
+	CONSTRAINT "candidateProfileItemsValueUnique" UNIQUE("profile_id","kind","value")
+);
+--> statement-breakpoint
+CREATE TABLE "candidate_profiles" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"degree" text,
+	"field_of_study" text,
+	"graduation_date" date,
+	"visa_type" text,
+	"salary_floor" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "candidate_profiles_user_id_unique" UNIQUE("user_id")
+);
+--> statement-breakpoint
+ALTER TABLE "candidate_profile_items" ADD CONSTRAINT "candidate_profile_items_profile_id_candidate_profiles_id_fk" FOREIGN KEY ("profile_id") REFERENCES "public"."candidate_profiles"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "candidate_profiles" ADD CONSTRAINT "candidate_profiles_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "candidateProfileItemsProfileIdx" ON "candidate_profile_items" USING btree ("profile_id");
\ No newline at end of file
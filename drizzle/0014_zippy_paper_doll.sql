@@ -0,0 +1,20 @@
+CREATE TABLE "immigration_timelines" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"program_end_date" date,
+	"opt_start_date" date,
+	"opt_end_date" date,
+	"stem_opt_start_date" date,
+	"stem_opt_eligible" boolean DEFAULT false NOT NULL,
+	"unemployment_days_used" integer DEFAULT 0 NOT NULL,
+	"unemployment_counted_at" timestamp,
+	"currently_employed" boolean DEFAULT false NOT NULL,
+	"h1b_lottery_status" text DEFAULT 'not_registered' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "immigration_timelines_user_id_unique" UNIQUE("user_id")
+);
+--> statement-breakpoint
+ALTER TABLE "visa_sponsors" ADD COLUMN "e_verify_enrolled" boolean;--> statement-breakpoint
+ALTER TABLE "visa_sponsors" ADD COLUMN "cap_exempt" boolean;--> statement-breakpoint
+ALTER TABLE "immigration_timelines" ADD CONSTRAINT "immigration_timelines_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,24 @@
+CREATE TABLE "lca_filings" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"visa_sponsor_id" uuid,
+	"employer_name" text NOT NULL,
+	"employer_key" text NOT NULL,
+	"job_title" text NOT NULL,
+	"soc_code" text,
+	"soc_title" text,
+	"worksite_city" text,
+	"worksite_state" text,
+	"wage_level" text,
+	"fiscal_year" integer NOT NULL,
+	"filing_count" integer NOT NULL,
+	"certified_count" integer NOT NULL,
+	"annual_wage_min" integer,
+	"annual_wage_median" integer,
+	"annual_wage_max" integer,
+	"imported_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "lca_filings" ADD CONSTRAINT "lca_filings_visa_sponsor_id_visa_sponsors_id_fk" FOREIGN KEY ("visa_sponsor_id") REFERENCES "public"."visa_sponsors"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "lcaFilingsSponsorIdx" ON "lca_filings" USING btree ("visa_sponsor_id","fiscal_year");--> statement-breakpoint
+CREATE INDEX "lcaFilingsEmployerKeyIdx" ON "lca_filings" USING btree ("employer_key");--> statement-breakpoint
+CREATE INDEX "lcaFilingsFiscalYearIdx" ON "lca_filings" USING btree ("fiscal_year");
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "sponsor_filings_by_year" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"visa_sponsor_id" uuid NOT NULL,
+	"fiscal_year" integer NOT NULL,
+	"petition_type" text NOT NULL,
+	"approvals" integer DEFAULT 0 NOT NULL,
+	"denials" integer DEFAULT 0 NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "sponsorFilingsByYearUnique" UNIQUE("visa_sponsor_id","fiscal_year","petition_type")
+);
+--> statement-breakpoint
+ALTER TABLE "sponsor_filings_by_year" ADD CONSTRAINT "sponsor_filings_by_year_visa_sponsor_id_visa_sponsors_id_fk" FOREIGN KEY ("visa_sponsor_id") REFERENCES "public"."visa_sponsors"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,19 @@
+CREATE TABLE "sponsor_match_reviews" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"normalized_company" text NOT NULL,
+	"company_name" text NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"reasons" text[] NOT NULL,
+	"candidates" jsonb NOT NULL,
+	"suggested_sponsor_id" uuid,
+	"match_confidence" real,
+	"visa_sponsor_id" uuid,
+	"decided_by" text,
+	"decided_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "sponsor_match_reviews_normalized_company_unique" UNIQUE("normalized_company")
+);
+--> statement-breakpoint
+ALTER TABLE "sponsor_match_reviews" ADD CONSTRAINT "sponsor_match_reviews_suggested_sponsor_id_visa_sponsors_id_fk" FOREIGN KEY ("suggested_sponsor_id") REFERENCES "public"."visa_sponsors"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sponsor_match_reviews" ADD CONSTRAINT "sponsor_match_reviews_visa_sponsor_id_visa_sponsors_id_fk" FOREIGN KEY ("visa_sponsor_id") REFERENCES "public"."visa_sponsors"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "sponsorMatchReviewsStatusIdx" ON "sponsor_match_reviews" USING btree ("status","created_at");
\ No newline at end of file
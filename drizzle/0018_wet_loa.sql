@@ -0,0 +1 @@
+ALTER TABLE "jobs" ADD COLUMN "visa_stance" text;
\ No newline at end of file
@@ -0,0 +1,28 @@
+/**
+ * Cap-exempt classifier
+ * Flags visa sponsors that are likely H-1B cap-exempt (universities,
+ * nonprofit research orgs) from their USCIS industry and name.
+ *
+ * Usage: tsx scripts/classify-cap-exempt.ts
+ * Safe to re-run; the reason for each call is kept in sponsor metadata.
+ */
+
+import 'dotenv/config'
+import { classifySponsorsCapExempt } from '../apps/api/src/services/employer-flags-service'
+
+async function main() {
+  console.log('🎓 Classifying cap-exempt sponsors...')
+
+  try {
+    const result = await classifySponsorsCapExempt()
+    console.log(`✅ Checked ${result.checked} sponsors`)
+    console.log(`   Cap-exempt: ${result.matched}`)
+    console.log(`   Changed: ${result.updated}`)
+    process.exit(0)
+  } catch (error) {
+    console.error('❌ Cap-exempt classification failed:', error)
+    process.exit(1)
+  }
+}
+
+main()
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest'
+import { getAdapter, getAdapters, registerAdapter } from '../adapters'
+
+describe('ATS adapter registry', () => {
+  it('registers every built-in platform', () => {
+    const platforms = getAdapters().map((adapter) => adapter.platform)
+    expect(platforms).toEqual(
+      expect.arrayContaining(['lever', 'greenhouse', 'smartrecruiters', 'workable'])
+    )
+    for (const adapter of getAdapters()) {
+      expect(adapter.accounts.length).toBeGreaterThan(0)
+    }
+  })
+
+  it('rejects duplicate platform registrations', () => {
+    const lever = getAdapter('lever')!
+    expect(() => registerAdapter(lever)).toThrow(/already registered/)
+  })
+
+  it('returns null for unknown platforms', () => {
+    expect(getAdapter('taleo')).toBeNull()
+  })
+})
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest'
+import { ashbyAdapter, mapAshbyJob } from '../adapters/ashby'
+import { collectAdapterJobs } from '../adapters'
+
+describe('Ashby adapter', () => {
+  const boardResponse = {
+    apiVersion: '1',
+    jobs: [
+      {
+        id: 'job-1',
+        title: 'Software Engineer, New Grad',
+        department: 'Engineering',
+        team: 'Platform',
+        employmentType: 'FullTime',
+        location: 'San Francisco, CA',
+        isListed: true,
+        isRemote: false,
+        workplaceType: 'OnSite',
+        descriptionPlain: 'Build the core platform.',
+        publishedAt: '2024-05-01T16:00:00.000Z',
+        jobUrl: 'https://jobs.ashbyhq.com/acme/job-1',
+        applyUrl: 'https://jobs.ashbyhq.com/acme/job-1/application',
+        compensation: {
+          compensationTierSummary: '$140K – $160K • Offers Equity',
+          scrapeableCompensationSalarySummary: '$140K - $160K',
+          summaryComponents: [
+            {
+              compensationType: 'Salary',
+              interval: '1 YEAR',
+              currencyCode: 'USD',
+              minValue: 140000,
+              maxValue: 160000,
+            },
+            { compensationType: 'EquityPercentage', currencyCode: null },
+          ],
+        },
+      },
+      {
+        id: 'job-2',
+        title: 'Senior Staff Engineer',
+        department: 'Engineering',
+        isListed: true,
+        jobUrl: 'https://jobs.ashbyhq.com/acme/job-2',
+      },
+      {
+        id: 'job-3',
+        title: 'Machine Learning Intern',
+        team: 'Research',
+        employmentType: 'Intern',
+        isListed: true,
+        isRemote: true,
+        address: { postalAddress: { addressCountry: 'United States' } },
+        jobUrl: 'https://jobs.ashbyhq.com/acme/job-3',
+      },
+      {
+        id: 'job-4',
+        title: 'Junior Designer',
+        isListed: false,
+        jobUrl: 'https://jobs.ashbyhq.com/acme/job-4',
+      },
+    ],
+  }
+
+  it('normalizes listed early career jobs with compensation and department', async () => {
+    const jobs = await collectAdapterJobs(ashbyAdapter, 'acme', {
+      fetchJson: async <T>(url: string) => {
+        expect(url).toBe('https://api.ashbyhq.com/posting-api/job-board/acme?includeCompensation=true')
+        return boardResponse as T
+      },
+    })
+
+    expect(jobs).toHaveLength(2)
+
+    const [newGrad, intern] = jobs
+    expect(newGrad.company).toBe('Acme')
+    expect(newGrad.location).toBe('San Francisco, CA')
+    expect(newGrad.url).toBe('https://jobs.ashbyhq.com/acme/job-1')
+    expect(newGrad.jobType).toBe('new_grad')
+    expect(newGrad.isRemote).toBe(false)
+    expect(newGrad.department).toBe('Engineering')
+    expect(newGrad.salaryRange).toBe('$140K - $160K')
+    expect(newGrad.salaryCurrency).toBe('USD')
+    expect(newGrad.description).toBe('Build the core platform.')
+    expect(newGrad.postedAt?.toISOString()).toBe('2024-05-01T16:00:00.000Z')
+
+    expect(intern.jobType).toBe('internship')
+    expect(intern.isRemote).toBe(true)
+    expect(intern.location).toBe('United States')
+    expect(intern.department).toBe('Research')
+    expect(intern.salaryRange).toBeUndefined()
+  })
+
+  it('falls back to the tier summary and remote workplace type', () => {
+    const job = mapAshbyJob(
+      {
+        id: 'job-5',
+        title: 'Associate Product Manager',
+        workplaceType: 'Remote',
+        applyUrl: 'https://jobs.ashbyhq.com/acme/job-5/application',
+        compensation: { compensationTierSummary: '€60K – €70K' },
+      },
+      'Acme'
+    )
+
+    expect(job?.url).toBe('https://jobs.ashbyhq.com/acme/job-5/application')
+    expect(job?.isRemote).toBe(true)
+    expect(job?.location).toBe('Not specified')
+    expect(job?.salaryRange).toBe('€60K – €70K')
+    expect(job?.salaryCurrency).toBeUndefined()
+  })
+})
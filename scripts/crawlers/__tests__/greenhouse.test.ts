@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import { greenhouseAdapter, greenhouseContentToText } from '../adapters/greenhouse'
+import { collectAdapterJobs } from '../adapters'
+
+describe('Greenhouse adapter', () => {
+  const listResponse = {
+    jobs: [
+      {
+        id: 101,
+        title: 'University Grad - Software Engineer',
+        absolute_url: 'https://boards.greenhouse.io/acme/jobs/101',
+        updated_at: '2024-04-02T10:00:00-04:00',
+        location: { name: 'Remote - US' },
+      },
+      {
+        id: 102,
+        title: 'Engineering Manager',
+        absolute_url: 'https://boards.greenhouse.io/acme/jobs/102',
+        location: { name: 'Seattle, WA' },
+      },
+      {
+        id: 103,
+        title: 'Software Engineering Intern',
+        absolute_url: 'https://boards.greenhouse.io/acme/jobs/103',
+        location: { name: 'Seattle, WA' },
+      },
+    ],
+  }
+
+  const details: Record<string, unknown> = {
+    'https://boards-api.greenhouse.io/v1/boards/acme/jobs/101': {
+      id: 101,
+      content: '&lt;p&gt;Ship features &amp;amp; learn fast.&lt;/p&gt;',
+    },
+  }
+
+  it('fetches detail for matching roles and decodes content', async () => {
+    const requested: string[] = []
+    const jobs = await collectAdapterJobs(greenhouseAdapter, 'acme', {
+      fetchJson: async <T>(url: string) => {
+        requested.push(url)
+        if (url === 'https://boards-api.greenhouse.io/v1/boards/acme/jobs') {
+          return listResponse as T
+        }
+        if (details[url]) {
+          return details[url] as T
+        }
+        throw new Error(`Unexpected request ${url}`)
+      },
+    })
+
+    expect(requested).not.toContain('https://boards-api.greenhouse.io/v1/boards/acme/jobs/102')
+    expect(jobs).toHaveLength(2)
+
+    const [newGrad, intern] = jobs
+    expect(newGrad.company).toBe('Acme')
+    expect(newGrad.isRemote).toBe(true)
+    expect(newGrad.jobType).toBe('new_grad')
+    expect(newGrad.description).toBe('Ship features & learn fast.')
+    expect(newGrad.postedAt?.toISOString()).toBe('2024-04-02T14:00:00.000Z')
+
+    // Detail request for 103 failed, so the posting falls back to list data.
+    expect(intern.jobType).toBe('internship')
+    expect(intern.description).toBe('')
+  })
+
+  it('returns empty text for missing content', () => {
+    expect(greenhouseContentToText(undefined)).toBe('')
+  })
+})
@@ -0,0 +1,207 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http'
+import { AddressInfo } from 'net'
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import {
+  DEFAULT_USER_AGENT,
+  HttpError,
+  RobotsDisallowedError,
+  createLimiter,
+  createPoliteClient,
+  parseRetryAfter,
+} from '../http'
+
+type Handler = (req: IncomingMessage, res: ServerResponse) => void
+
+describe('polite HTTP client', () => {
+  let server: Server
+  let baseUrl: string
+  let routes: Map<string, Handler>
+  let hits: { path: string; userAgent?: string; at: number }[]
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const path = req.url ?? '/'
+      hits.push({ path, userAgent: req.headers['user-agent'], at: Date.now() })
+      const handler = routes.get(path.split('?')[0])
+      if (handler) {
+        handler(req, res)
+      } else {
+        res.writeHead(404).end()
+      }
+    })
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  beforeEach(() => {
+    hits = []
+    routes = new Map([
+      ['/robots.txt', (_req, res) => res.writeHead(200).end('User-agent: *\nDisallow: /private\n')],
+      ['/jobs', (_req, res) => res.writeHead(200, { 'Content-Type': 'application/json' }).end('{"ok":true}')],
+    ])
+  })
+
+  const requestsTo = (path: string) => hits.filter((hit) => hit.path === path)
+
+  it('sends the crawler User-Agent on every request', async () => {
+    const client = createPoliteClient({ requestsPerSecond: 100 })
+    await client.fetchJson(`${baseUrl}/jobs`)
+
+    expect(requestsTo('/robots.txt')[0].userAgent).toBe(DEFAULT_USER_AGENT)
+    expect(requestsTo('/jobs')[0].userAgent).toBe(DEFAULT_USER_AGENT)
+  })
+
+  it('blocks disallowed paths without requesting them and caches robots.txt', async () => {
+    const client = createPoliteClient({ requestsPerSecond: 100 })
+
+    await expect(client.fetch(`${baseUrl}/private/jobs`)).rejects.toBeInstanceOf(RobotsDisallowedError)
+    await client.fetch(`${baseUrl}/jobs`)
+    await client.fetch(`${baseUrl}/jobs`)
+
+    expect(requestsTo('/private/jobs')).toHaveLength(0)
+    expect(requestsTo('/robots.txt')).toHaveLength(1)
+  })
+
+  it('treats a missing robots.txt as allow-all', async () => {
+    routes.delete('/robots.txt')
+    routes.set('/private', (_req, res) => res.writeHead(200).end('ok'))
+    const client = createPoliteClient({ requestsPerSecond: 100 })
+
+    const response = await client.fetch(`${baseUrl}/private`)
+    expect(response.status).toBe(200)
+  })
+
+  it('skips robots.txt when asked to for a single resource', async () => {
+    routes.set('/private/readme', (_req, res) => res.writeHead(200).end('# Jobs'))
+    const client = createPoliteClient({ requestsPerSecond: 100 })
+
+    const response = await client.fetch(`${baseUrl}/private/readme`, {}, { ignoreRobots: true })
+    expect(await response.text()).toBe('# Jobs')
+    expect(requestsTo('/robots.txt')).toHaveLength(0)
+  })
+
+  it('waits for Retry-After before retrying', async () => {
+    let calls = 0
+    routes.set('/limited', (_req, res) => {
+      calls++
+      if (calls === 1) {
+        res.writeHead(429, { 'Retry-After': '1' }).end()
+      } else {
+        res.writeHead(200).end('ok')
+      }
+    })
+    const client = createPoliteClient({ requestsPerSecond: 100 })
+
+    const response = await client.fetch(`${baseUrl}/limited`, {}, { retries: 1, backoffMs: 1 })
+    const [first, second] = requestsTo('/limited')
+
+    expect(response.status).toBe(200)
+    expect(second.at - first.at).toBeGreaterThanOrEqual(950)
+  })
+
+  it('surfaces non-2xx JSON responses as HttpError', async () => {
+    routes.set('/missing', (_req, res) => res.writeHead(410, 'Gone').end())
+    const client = createPoliteClient({ requestsPerSecond: 100 })
+
+    await expect(client.fetchJson(`${baseUrl}/missing`)).rejects.toMatchObject({
+      name: 'HttpError',
+      status: 410,
+    })
+    await expect(client.fetchJson(`${baseUrl}/missing`)).rejects.toBeInstanceOf(HttpError)
+  })
+
+  it('spaces requests to the same host with a token bucket', async () => {
+    const client = createPoliteClient({ requestsPerSecond: 20, burst: 1 })
+    await client.isAllowed(`${baseUrl}/jobs`)
+    hits = []
+
+    await Promise.all([1, 2, 3, 4].map(() => client.fetch(`${baseUrl}/jobs`)))
+    const times = requestsTo('/jobs').map((hit) => hit.at)
+
+    // Four requests at 20/s after the robots fetch drained the burst: ~200ms.
+    expect(times[times.length - 1] - times[0]).toBeGreaterThanOrEqual(120)
+  })
+
+  it('gives every retry its own timeout', async () => {
+    let calls = 0
+    routes.set('/stalls-once', (_req, res) => {
+      calls++
+      if (calls === 1) {
+        setTimeout(() => res.writeHead(200).end('late'), 300)
+      } else {
+        setTimeout(() => res.writeHead(200).end('ok'), 100)
+      }
+    })
+    const client = createPoliteClient({ requestsPerSecond: 100 })
+
+    const response = await client.fetch(`${baseUrl}/stalls-once`, {}, { retries: 1, backoffMs: 1, timeoutMs: 200 })
+
+    expect(await response.text()).toBe('ok')
+    expect(calls).toBe(2)
+  })
+
+  it('caps concurrent requests per host', async () => {
+    let inFlight = 0
+    let peak = 0
+    routes.set('/slow', (_req, res) => {
+      inFlight++
+      peak = Math.max(peak, inFlight)
+      setTimeout(() => {
+        inFlight--
+        res.writeHead(200).end('ok')
+      }, 30)
+    })
+    const client = createPoliteClient({ requestsPerSecond: 1000, burst: 10, maxConcurrentPerHost: 2 })
+
+    await Promise.all(Array.from({ length: 6 }, () => client.fetch(`${baseUrl}/slow`)))
+    expect(peak).toBe(2)
+  })
+})
+
+describe('parseRetryAfter', () => {
+  const now = Date.parse('2024-05-01T00:00:00Z')
+
+  it('parses delta seconds and HTTP dates', () => {
+    expect(parseRetryAfter('3', now)).toBe(3000)
+    expect(parseRetryAfter('Wed, 01 May 2024 00:00:10 GMT', now)).toBe(10_000)
+  })
+
+  it('caps long waits and ignores garbage', () => {
+    expect(parseRetryAfter('86400', now)).toBe(60_000)
+    expect(parseRetryAfter('soon', now)).toBeNull()
+    expect(parseRetryAfter(null, now)).toBeNull()
+  })
+})
+
+describe('createLimiter', () => {
+  it('never runs more tasks than the limit at once', async () => {
+    const run = createLimiter(2)
+    let active = 0
+    let peak = 0
+
+    const results = await Promise.all(
+      Array.from({ length: 6 }, (_, index) =>
+        run(async () => {
+          active++
+          peak = Math.max(peak, active)
+          await new Promise((resolve) => setTimeout(resolve, 5))
+          active--
+          return index
+        })
+      )
+    )
+
+    expect(peak).toBe(2)
+    expect(results).toEqual([0, 1, 2, 3, 4, 5])
+  })
+
+  it('releases the slot when a task fails', async () => {
+    const run = createLimiter(1)
+    await expect(run(async () => { throw new Error('boom') })).rejects.toThrow('boom')
+    await expect(run(async () => 'ok')).resolves.toBe('ok')
+  })
+})
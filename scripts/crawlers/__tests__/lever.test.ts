@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import { leverAdapter, LeverPosting } from '../adapters/lever'
+import { collectAdapterJobs } from '../adapters'
+
+describe('Lever adapter', () => {
+  it('filters to early career roles and normalizes postings', async () => {
+    const postings: LeverPosting[] = [
+      {
+        id: 'a1',
+        text: 'Software Engineer, New Grad',
+        hostedUrl: 'https://jobs.lever.co/acme/a1',
+        categories: { location: 'New York, NY', team: 'Engineering' },
+        description: '<p>Build payments infrastructure.</p>',
+        descriptionPlain: 'Build payments infrastructure.',
+        createdAt: Date.parse('2024-03-05T00:00:00Z'),
+        workplaceType: 'onsite',
+      },
+      {
+        id: 'b2',
+        text: 'Staff Software Engineer',
+        hostedUrl: 'https://jobs.lever.co/acme/b2',
+        categories: { location: 'New York, NY' },
+      },
+      {
+        id: 'c3',
+        text: 'Data Science Intern',
+        hostedUrl: 'https://jobs.lever.co/acme/c3',
+        categories: { location: 'United States' },
+        description: '<p>Model things.</p>',
+        workplaceType: 'remote',
+      },
+    ]
+
+    const jobs = await collectAdapterJobs(leverAdapter, 'acme', {
+      fetchJson: async <T>(url: string) => {
+        expect(url).toBe('https://api.lever.co/v0/postings/acme?mode=json')
+        return postings as T
+      },
+    })
+
+    expect(jobs).toHaveLength(2)
+
+    const [newGrad, intern] = jobs
+    expect(newGrad.company).toBe('Acme')
+    expect(newGrad.location).toBe('New York, NY')
+    expect(newGrad.jobType).toBe('new_grad')
+    expect(newGrad.isRemote).toBe(false)
+    expect(newGrad.description).toBe('Build payments infrastructure.')
+    expect(newGrad.postedAt?.toISOString()).toBe('2024-03-05T00:00:00.000Z')
+
+    expect(intern.jobType).toBe('internship')
+    expect(intern.isRemote).toBe(true)
+    expect(intern.description).toBe('<p>Model things.</p>')
+    expect(intern.postedAt).toBeUndefined()
+  })
+})
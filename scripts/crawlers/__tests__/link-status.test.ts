@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import { classifyLinkResponse } from '../link-status'
+
+describe('classifyLinkResponse', () => {
+  const base = {
+    requestedUrl: 'https://boards.greenhouse.io/acme/jobs/101',
+    finalUrl: 'https://boards.greenhouse.io/acme/jobs/101',
+    httpStatus: 200,
+    body: '<h1>Software Engineer, New Grad</h1><p>Join our payments team.</p>',
+  }
+
+  it('keeps live postings active', () => {
+    expect(classifyLinkResponse(base)).toEqual({ status: 'active', reason: 'http_200' })
+  })
+
+  it('marks 404 and 410 responses dead', () => {
+    expect(classifyLinkResponse({ ...base, httpStatus: 404 }).status).toBe('dead')
+    expect(classifyLinkResponse({ ...base, httpStatus: 410 }).status).toBe('dead')
+  })
+
+  it('treats rate limits and server errors as inconclusive', () => {
+    expect(classifyLinkResponse({ ...base, httpStatus: 429 }).status).toBe('unknown')
+    expect(classifyLinkResponse({ ...base, httpStatus: 503 }).status).toBe('unknown')
+    expect(classifyLinkResponse({ ...base, httpStatus: 403 }).status).toBe('unknown')
+  })
+
+  it('detects Greenhouse redirects back to the board', () => {
+    expect(
+      classifyLinkResponse({ ...base, finalUrl: 'https://boards.greenhouse.io/acme?error=true' })
+    ).toEqual({ status: 'dead', reason: 'redirected_to_board' })
+  })
+
+  it('detects Lever redirects to the company page', () => {
+    expect(
+      classifyLinkResponse({
+        ...base,
+        requestedUrl: 'https://jobs.lever.co/acme/0b1c2d3e',
+        finalUrl: 'https://jobs.lever.co/acme',
+      }).status
+    ).toBe('dead')
+  })
+
+  it('does not treat same-depth redirects as closed', () => {
+    expect(
+      classifyLinkResponse({
+        ...base,
+        requestedUrl: 'https://acme.wd5.myworkdayjobs.com/External/job/NYC/Engineer_R1',
+        finalUrl: 'https://acme.wd5.myworkdayjobs.com/en-US/External/job/NYC/Engineer_R1',
+      }).status
+    ).toBe('active')
+  })
+
+  it.each([
+    ['The job you are looking for is no longer open.', 'greenhouse_closed'],
+    ['Sorry, we couldn\'t find anything here', 'lever_not_found'],
+    ['This job posting is no longer available', 'workday_closed'],
+    ['Sorry, this job has expired.', 'smartrecruiters_expired'],
+    ['Job not found', 'ashby_not_found'],
+    ['This position is no longer available.', 'no_longer_available'],
+    ['We are no longer accepting applications for this role', 'not_accepting'],
+  ])('detects closed pages: %s', (text, reason) => {
+    expect(classifyLinkResponse({ ...base, body: `<div>${text}</div>` })).toEqual({ status: 'dead', reason })
+  })
+})
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { isPathAllowed, parseRobotsTxt } from '../robots'
+
+const USER_AGENT = 'JobSearchH1BBot/1.0 (+https://example.com)'
+
+describe('parseRobotsTxt', () => {
+  const robots = `
+# Generic rules
+User-agent: *
+Disallow: /private
+Allow: /private/jobs
+Crawl-delay: 2
+
+User-agent: BadBot
+User-agent: jobsearchh1bbot
+Disallow: /search
+Disallow: /*.pdf$
+`
+
+  it('prefers the group naming our product token', () => {
+    const rules = parseRobotsTxt(robots, USER_AGENT)
+    expect(rules.rules).toEqual([
+      { allow: false, pattern: '/search' },
+      { allow: false, pattern: '/*.pdf$' },
+    ])
+    expect(rules.crawlDelaySeconds).toBeUndefined()
+  })
+
+  it('falls back to the wildcard group', () => {
+    const rules = parseRobotsTxt(robots, 'OtherCrawler/2.0')
+    expect(rules.crawlDelaySeconds).toBe(2)
+    expect(isPathAllowed(rules, '/private/settings')).toBe(false)
+    expect(isPathAllowed(rules, '/private/jobs/123')).toBe(true)
+    expect(isPathAllowed(rules, '/search?q=intern')).toBe(true)
+  })
+
+  it('supports wildcards and end anchors', () => {
+    const rules = parseRobotsTxt(robots, USER_AGENT)
+    expect(isPathAllowed(rules, '/files/offer.pdf')).toBe(false)
+    expect(isPathAllowed(rules, '/files/offer.pdf?download=1')).toBe(true)
+    expect(isPathAllowed(rules, '/search/jobs')).toBe(false)
+  })
+
+  it('allows everything for empty or missing rules', () => {
+    expect(isPathAllowed(parseRobotsTxt('', USER_AGENT), '/anything')).toBe(true)
+    expect(isPathAllowed(parseRobotsTxt('User-agent: *\nDisallow:', USER_AGENT), '/anything')).toBe(true)
+  })
+
+  it('lets Allow win ties against Disallow', () => {
+    const rules = parseRobotsTxt('User-agent: *\nDisallow: /jobs\nAllow: /jobs', USER_AGENT)
+    expect(isPathAllowed(rules, '/jobs/1')).toBe(true)
+  })
+})
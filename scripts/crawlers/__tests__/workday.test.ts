@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest'
+import {
+  WORKDAY_SEARCH_TERMS,
+  mapWorkdayJob,
+  parseWorkdayAccount,
+  parseWorkdayPostedOn,
+  workdayAdapter,
+} from '../adapters/workday'
+import { collectAdapterJobs } from '../adapters'
+import type { FetchOptions } from '../adapters/types'
+
+const ACCOUNT = 'acme.wd5/AcmeCareers'
+const SEARCH_URL = 'https://acme.wd5.myworkdayjobs.com/wday/cxs/acme/AcmeCareers/jobs'
+
+function posting(index: number, title: string) {
+  return {
+    title,
+    externalPath: `/job/Austin-TX/${title.replace(/\W+/g, '-')}_R${index}`,
+    locationsText: 'Austin, TX',
+    postedOn: 'Posted 2 Days Ago',
+    bulletFields: [`R${index}`],
+  }
+}
+
+describe('Workday adapter', () => {
+  it('parses tenant accounts', () => {
+    expect(parseWorkdayAccount(ACCOUNT)).toEqual({
+      tenant: 'acme',
+      host: 'acme.wd5.myworkdayjobs.com',
+      site: 'AcmeCareers',
+    })
+    expect(() => parseWorkdayAccount('acme')).toThrow(/Invalid Workday account/)
+  })
+
+  it('converts relative posted labels', () => {
+    const now = new Date('2024-06-10T12:00:00Z')
+    expect(parseWorkdayPostedOn('Posted Today', now)?.toISOString()).toBe('2024-06-10T12:00:00.000Z')
+    expect(parseWorkdayPostedOn('Posted Yesterday', now)?.toISOString()).toBe('2024-06-09T12:00:00.000Z')
+    expect(parseWorkdayPostedOn('Posted 30+ Days Ago', now)?.toISOString()).toBe('2024-05-11T12:00:00.000Z')
+    expect(parseWorkdayPostedOn('Recently', now)).toBeUndefined()
+  })
+
+  it('pages through search results, dedupes, and enriches with detail', async () => {
+    const firstPage = Array.from({ length: 20 }, (_, index) =>
+      posting(index, index % 2 === 0 ? `Software Engineer New Grad ${index}` : `Senior Engineer ${index}`)
+    )
+    const secondPage = [posting(20, 'Software Engineer New Grad 20')]
+    const internPage = [posting(0, 'Software Engineer New Grad 0'), posting(99, 'Hardware Intern')]
+
+    const searches: Array<{ searchText: string; offset: number }> = []
+    const details: string[] = []
+
+    const jobs = await collectAdapterJobs(workdayAdapter, ACCOUNT, {
+      fetchJson: async <T>(url: string, options?: FetchOptions) => {
+        if (url === SEARCH_URL) {
+          expect(options?.method).toBe('POST')
+          const body = options?.body as { searchText: string; offset: number; limit: number }
+          searches.push({ searchText: body.searchText, offset: body.offset })
+
+          if (body.searchText === 'new grad') {
+            return (body.offset === 0
+              ? { total: 21, jobPostings: firstPage }
+              : { total: 0, jobPostings: secondPage }) as T
+          }
+          if (body.searchText === 'intern') {
+            return { total: 2, jobPostings: internPage } as T
+          }
+          return { total: 0, jobPostings: [] } as T
+        }
+
+        details.push(url)
+        if (url.endsWith('_R0')) {
+          return {
+            jobPostingInfo: {
+              title: 'Software Engineer New Grad 0',
+              jobDescription: '<p>Write <b>firmware</b>.</p><ul><li>C++</li></ul>',
+              location: 'Austin, TX',
+              additionalLocations: ['Remote - US'],
+              startDate: '2024-06-01',
+              externalUrl: 'https://acme.wd5.myworkdayjobs.com/AcmeCareers/job/Austin-TX/R0',
+            },
+            hiringOrganization: { name: 'Acme Semiconductor' },
+          } as T
+        }
+        return { jobPostingInfo: {} } as T
+      },
+    })
+
+    expect(searches.filter((search) => search.searchText === 'new grad')).toEqual([
+      { searchText: 'new grad', offset: 0 },
+      { searchText: 'new grad', offset: 20 },
+    ])
+    expect(new Set(searches.map((search) => search.searchText))).toEqual(new Set(WORKDAY_SEARCH_TERMS))
+
+    // 10 new grad roles on page one, one on page two, one intern; the duplicate is merged.
+    expect(jobs).toHaveLength(12)
+    expect(details).toHaveLength(12)
+
+    const enriched = jobs.find((job) => job.title === 'Software Engineer New Grad 0')!
+    expect(enriched.company).toBe('Acme Semiconductor')
+    expect(enriched.location).toBe('Austin, TX | Remote - US')
+    expect(enriched.isRemote).toBe(true)
+    expect(enriched.description).toContain('Write firmware.')
+    expect(enriched.url).toBe('https://acme.wd5.myworkdayjobs.com/AcmeCareers/job/Austin-TX/R0')
+    expect(enriched.postedAt?.toISOString()).toBe('2024-06-01T00:00:00.000Z')
+
+    const intern = jobs.find((job) => job.title === 'Hardware Intern')!
+    expect(intern.jobType).toBe('internship')
+    expect(intern.company).toBe('Acme')
+    expect(intern.url).toBe('https://acme.wd5.myworkdayjobs.com/en-US/AcmeCareers/job/Austin-TX/Hardware-Intern_R99')
+  })
+
+  it('keeps paging a search until the reported total is reached', async () => {
+    const all = Array.from({ length: 250 }, (_, index) => posting(index, `Software Engineer Intern ${index}`))
+
+    const listings = await workdayAdapter.fetchListings(ACCOUNT, {
+      fetchJson: async <T>(_url: string, options?: FetchOptions) => {
+        const body = options?.body as { searchText: string; offset: number; limit: number }
+        if (body.searchText !== 'intern') return { total: 0, jobPostings: [] } as T
+        return {
+          total: body.offset === 0 ? all.length : 0,
+          jobPostings: all.slice(body.offset, body.offset + body.limit),
+        } as T
+      },
+    })
+
+    expect(listings).toHaveLength(250)
+  })
+
+  it('falls back to listing fields without detail', () => {
+    const now = new Date('2024-06-10T00:00:00Z')
+    const job = mapWorkdayJob(posting(5, 'Associate Analyst'), ACCOUNT, null, now)
+
+    expect(job?.location).toBe('Austin, TX')
+    expect(job?.description).toBe('')
+    expect(job?.isRemote).toBe(false)
+    expect(job?.postedAt?.toISOString()).toBe('2024-06-08T00:00:00.000Z')
+  })
+})
@@ -0,0 +1,133 @@
+import { AtsAdapter, NormalizedJob, formatAccountName, resolveJobType, toDate } from './types'
+
+interface AshbyPostalAddress {
+  addressLocality?: string
+  addressRegion?: string
+  addressCountry?: string
+}
+
+interface AshbyCompensationComponent {
+  compensationType?: string
+  interval?: string
+  currencyCode?: string | null
+  minValue?: number | null
+  maxValue?: number | null
+}
+
+interface AshbyCompensation {
+  compensationTierSummary?: string | null
+  scrapeableCompensationSalarySummary?: string | null
+  summaryComponents?: AshbyCompensationComponent[]
+}
+
+export interface AshbyJob {
+  id: string
+  title: string
+  department?: string
+  team?: string
+  employmentType?: string
+  location?: string
+  secondaryLocations?: { location?: string }[]
+  address?: {
+    postalAddress?: AshbyPostalAddress
+  }
+  isListed?: boolean
+  isRemote?: boolean
+  workplaceType?: string
+  descriptionPlain?: string
+  descriptionHtml?: string
+  publishedAt?: string
+  jobUrl?: string
+  applyUrl?: string
+  compensation?: AshbyCompensation
+}
+
+export interface AshbyJobBoardResponse {
+  jobs?: AshbyJob[]
+}
+
+function buildLocationString(job: AshbyJob) {
+  if (job.location?.trim()) {
+    return job.location.trim()
+  }
+
+  const address = job.address?.postalAddress
+  const parts = [address?.addressLocality, address?.addressRegion, address?.addressCountry].filter(Boolean)
+  if (parts.length) {
+    return parts.join(', ')
+  }
+
+  return job.isRemote ? 'Remote' : 'Not specified'
+}
+
+function resolveCompensation(compensation?: AshbyCompensation) {
+  if (!compensation) {
+    return { salaryRange: undefined, salaryCurrency: undefined }
+  }
+
+  const salaryComponent = compensation.summaryComponents?.find(
+    (component) => component.compensationType === 'Salary'
+  )
+
+  const salaryRange =
+    compensation.scrapeableCompensationSalarySummary?.trim() ||
+    compensation.compensationTierSummary?.trim() ||
+    undefined
+
+  return {
+    salaryRange,
+    salaryCurrency: salaryComponent?.currencyCode ?? undefined,
+  }
+}
+
+export function mapAshbyJob(job: AshbyJob, companyName: string): NormalizedJob | null {
+  const title = job.title?.trim()
+  const url = job.jobUrl || job.applyUrl
+  if (!title || !url) return null
+
+  const location = buildLocationString(job)
+  const isRemote =
+    Boolean(job.isRemote) ||
+    job.workplaceType?.toLowerCase() === 'remote' ||
+    location.toLowerCase().includes('remote')
+
+  const jobType = job.employmentType === 'Intern' ? 'internship' : resolveJobType(title)
+  const { salaryRange, salaryCurrency } = resolveCompensation(job.compensation)
+
+  return {
+    title,
+    company: companyName,
+    location,
+    url,
+    description: job.descriptionPlain ?? '',
+    jobType,
+    isRemote,
+    postedAt: toDate(job.publishedAt),
+    department: job.department?.trim() || job.team?.trim() || undefined,
+    salaryRange,
+    salaryCurrency,
+  }
+}
+
+export const ashbyAdapter: AtsAdapter<AshbyJob> = {
+  platform: 'ashby',
+  label: 'Ashby',
+  accounts: [
+    'openai',
+    'ramp',
+    'notion',
+    'linear',
+    'vanta',
+    'replit',
+    'posthog',
+    'mercury',
+  ],
+  async fetchListings(account, context) {
+    const response = await context.fetchJson<AshbyJobBoardResponse>(
+      `https://api.ashbyhq.com/posting-api/job-board/${account}?includeCompensation=true`
+    )
+    return (response.jobs ?? []).filter((job) => job.isListed !== false)
+  },
+  getTitle: (job) => job.title ?? '',
+  toNormalizedJob: (job, account) => mapAshbyJob(job, formatAccountName(account)),
+}
@@ -0,0 +1,85 @@
+import { load } from 'cheerio'
+import { AtsAdapter, NormalizedJob, formatAccountName, resolveJobType, toDate } from './types'
+
+export interface GreenhouseJob {
+  id: number
+  title: string
+  absolute_url?: string
+  updated_at?: string
+  location?: {
+    name?: string
+  }
+  content?: string
+}
+
+export interface GreenhouseJobsResponse {
+  jobs?: GreenhouseJob[]
+}
+
+export interface GreenhouseJobDetail {
+  id?: number
+  content?: string
+}
+
+/**
+ * Greenhouse returns job content as entity-encoded HTML, so decode the
+ * entities first and then strip the resulting markup down to plain text.
+ */
+export function greenhouseContentToText(content?: string | null) {
+  if (!content) return ''
+  const decoded = load(content).text()
+  return load(decoded)
+    .text()
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+export function mapGreenhouseJob(
+  job: GreenhouseJob,
+  companyName: string,
+  detail?: GreenhouseJobDetail | null
+): NormalizedJob | null {
+  const title = job.title?.trim()
+  if (!title || !job.absolute_url) return null
+
+  const location = job.location?.name || 'Not specified'
+  const locationLower = location.toLowerCase()
+  const isRemote = locationLower.includes('remote') || locationLower.includes('anywhere')
+
+  return {
+    title,
+    company: companyName,
+    location,
+    url: job.absolute_url,
+    description: greenhouseContentToText(detail?.content ?? job.content),
+    jobType: resolveJobType(title),
+    isRemote,
+    postedAt: toDate(job.updated_at),
+  }
+}
+
+export const greenhouseAdapter: AtsAdapter<GreenhouseJob, GreenhouseJobDetail> = {
+  platform: 'greenhouse',
+  label: 'Greenhouse',
+  accounts: [
+    'stripe', 'airbnb', 'uber', 'lyft', 'doordash', 'instacart',
+    'square', 'shopify', 'twilio', 'plaid', 'brex', 'ramp',
+    'mercury', 'retool', 'superhuman', 'notion', 'coursera',
+    'udemy', 'edx', 'canva', 'figma', 'linear', 'vercel',
+    'netlify', 'supabase', 'planetscale', 'railway', 'render',
+  ],
+  async fetchListings(account, context) {
+    const response = await context.fetchJson<GreenhouseJobsResponse>(
+      `https://boards-api.greenhouse.io/v1/boards/${account}/jobs`
+    )
+    return response.jobs ?? []
+  },
+  getTitle: (job) => job.title ?? '',
+  async fetchDetail(job, account, context) {
+    if (job.content) return null
+    return context.fetchJson<GreenhouseJobDetail>(
+      `https://boards-api.greenhouse.io/v1/boards/${account}/jobs/${job.id}`
+    )
+  },
+  toNormalizedJob: (job, account, detail) => mapGreenhouseJob(job, formatAccountName(account), detail),
+}
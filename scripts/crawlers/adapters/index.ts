@@ -0,0 +1,79 @@
+/**
+ * ATS adapter registry.
+ * The multi-platform crawler iterates whatever is registered here, so new
+ * applicant tracking systems plug in without touching the orchestrator.
+ */
+
+import { AdapterContext, AtsAdapter, NormalizedJob, isEarlyCareerRole } from './types'
+import { ashbyAdapter } from './ashby'
+import { greenhouseAdapter } from './greenhouse'
+import { leverAdapter } from './lever'
+import { smartRecruitersAdapter } from './smartrecruiters'
+import { workableAdapter } from './workable'
+import { workdayAdapter } from './workday'
+
+const registry = new Map<string, AtsAdapter>()
+
+export function registerAdapter<TListing, TDetail>(adapter: AtsAdapter<TListing, TDetail>) {
+  if (registry.has(adapter.platform)) {
+    throw new Error(`An adapter for "${adapter.platform}" is already registered`)
+  }
+  registry.set(adapter.platform, adapter)
+}
+
+export function getAdapter(platform: string) {
+  return registry.get(platform) ?? null
+}
+
+export function getAdapters(): AtsAdapter[] {
+  return Array.from(registry.values())
+}
+
+/**
+ * Runs one adapter against a single account: lists postings, keeps early
+ * career roles, loads detail where the adapter supports it, and normalizes.
+ * Detail failures are logged and the posting is kept with list data only.
+ */
+export async function collectAdapterJobs<TListing, TDetail>(
+  adapter: AtsAdapter<TListing, TDetail>,
+  account: string,
+  context: AdapterContext
+): Promise<NormalizedJob[]> {
+  const listings = await adapter.fetchListings(account, context)
+  const results: NormalizedJob[] = []
+
+  for (const listing of listings) {
+    const title = adapter.getTitle(listing)
+    if (!title || !isEarlyCareerRole(title)) {
+      continue
+    }
+
+    let detail: TDetail | null = null
+    if (adapter.fetchDetail) {
+      try {
+        detail = await adapter.fetchDetail(listing, account, context)
+      } catch (error) {
+        console.warn(
+          `⚠️  ${adapter.label} detail unavailable for ${account} (${title}):`,
+          error instanceof Error ? error.message : error
+        )
+      }
+    }
+
+    const job = adapter.toNormalizedJob(listing, account, detail)
+    if (job) {
+      results.push(job)
+    }
+  }
+
+  return results
+}
+
+registerAdapter(leverAdapter)
+registerAdapter(greenhouseAdapter)
+registerAdapter(smartRecruitersAdapter)
+registerAdapter(workableAdapter)
+registerAdapter(ashbyAdapter)
+registerAdapter(workdayAdapter)
+
+export type { AdapterContext, AtsAdapter } from './types'
@@ -0,0 +1,65 @@
+import { AtsAdapter, NormalizedJob, formatAccountName, resolveJobType, toDate } from './types'
+
+interface LeverCategories {
+  commitment?: string
+  team?: string
+  department?: string
+  location?: string
+  allLocations?: string[]
+}
+
+export interface LeverPosting {
+  id: string
+  text: string
+  hostedUrl?: string
+  applyUrl?: string
+  categories?: LeverCategories
+  description?: string
+  descriptionPlain?: string
+  createdAt?: number
+  workplaceType?: string
+}
+
+export function mapLeverPosting(posting: LeverPosting, companyName: string): NormalizedJob | null {
+  const title = posting.text?.trim()
+  const url = posting.hostedUrl || posting.applyUrl
+  if (!title || !url) return null
+
+  const location = posting.categories?.location || 'Not specified'
+  const locationLower = location.toLowerCase()
+  const isRemote =
+    posting.workplaceType === 'remote' ||
+    locationLower.includes('remote') ||
+    locationLower.includes('anywhere')
+
+  return {
+    title,
+    company: companyName,
+    location,
+    url,
+    description: posting.descriptionPlain || posting.description || '',
+    jobType: resolveJobType(title),
+    isRemote,
+    postedAt: toDate(posting.createdAt),
+  }
+}
+
+export const leverAdapter: AtsAdapter<LeverPosting> = {
+  platform: 'lever',
+  label: 'Lever',
+  accounts: [
+    'stripe', 'airbnb', 'uber', 'lyft', 'doordash', 'instacart',
+    'square', 'shopify', 'twilio', 'plaid', 'brex', 'ramp',
+    'mercury', 'retool', 'superhuman', 'notion', 'coursera',
+    'udemy', 'edx', 'canva', 'figma', 'linear', 'vercel',
+    'netlify', 'supabase', 'planetscale', 'railway', 'render',
+  ],
+  async fetchListings(account, context) {
+    const postings = await context.fetchJson<LeverPosting[]>(
+      `https://api.lever.co/v0/postings/${account}?mode=json`
+    )
+    return Array.isArray(postings) ? postings : []
+  },
+  getTitle: (posting) => posting.text ?? '',
+  toNormalizedJob: (posting, account) => mapLeverPosting(posting, formatAccountName(account)),
+}
@@ -1,4 +1,4 @@
-import { NormalizedJob, isEarlyCareerRole } from './types'
+import { AtsAdapter, NormalizedJob, isEarlyCareerRole, resolveJobType, toDate } from './types'
 
 interface SmartRecruitersLocation {
   city?: string
@@ -52,10 +52,46 @@ function buildLocationString(location?: SmartRecruitersLocation) {
 }
 
 function coercePostedAt(posting: SmartRecruitersPosting) {
-  const timestamp = posting.publishedOn || posting.updatedOn || posting.createdOn
-  if (!timestamp) return undefined
-  const parsed = new Date(timestamp)
-  return Number.isNaN(parsed.getTime()) ? undefined : parsed
+  return toDate(posting.publishedOn || posting.updatedOn || posting.createdOn)
+}
+
+export function mapSmartRecruitersPosting(
+  posting: SmartRecruitersPosting,
+  fallbackCompanyName: string
+): NormalizedJob | null {
+  const title = posting.name?.trim()
+  if (!title) return null
+
+  const companyName =
+    posting.company?.name?.trim() ||
+    posting.company?.id?.trim() ||
+    fallbackCompanyName
+
+  const url = posting.applyUrl || posting.postingUrl
+  if (!url) return null
+
+  const description =
+    posting.jobAd?.sections?.jobDescription?.text ||
+    posting.jobAd?.sections?.qualifications?.text ||
+    ''
+
+  const location = buildLocationString(posting.location)
+  const isRemote = Boolean(
+    posting.location?.remote ||
+      title.toLowerCase().includes('remote') ||
+      location.toLowerCase().includes('remote')
+  )
+
+  return {
+    title,
+    company: companyName,
+    location,
+    url,
+    description,
+    jobType: resolveJobType(title),
+    isRemote,
+    postedAt: coercePostedAt(posting),
+  }
 }
 
 export function extractSmartRecruitersJobs(
@@ -66,44 +102,40 @@ export function extractSmartRecruitersJobs(
   const results: NormalizedJob[] = []
 
   for (const posting of postings) {
-    const title = posting.name?.trim()
-    if (!title || !isEarlyCareerRole(title)) {
+    if (!posting.name || !isEarlyCareerRole(posting.name)) {
       continue
     }
 
-    const companyName =
-      posting.company?.name?.trim() ||
-      posting.company?.id?.trim() ||
-      fallbackCompanyName
-
-    const url = posting.applyUrl || posting.postingUrl
-    if (!url) {
-      continue
+    const job = mapSmartRecruitersPosting(posting, fallbackCompanyName)
+    if (job) {
+      results.push(job)
     }
-
-    const description =
-      posting.jobAd?.sections?.jobDescription?.text ||
-      posting.jobAd?.sections?.qualifications?.text ||
-      ''
-
-    const location = buildLocationString(posting.location)
-    const isRemote = Boolean(
-      posting.location?.remote ||
-        title.toLowerCase().includes('remote') ||
-        location.toLowerCase().includes('remote')
-    )
-
-    results.push({
-      title,
-      company: companyName,
-      location,
-      url,
-      description,
-      jobType: title.toLowerCase().includes('intern') ? 'internship' : 'new_grad',
-      isRemote,
-      postedAt: coercePostedAt(posting),
-    })
   }
 
   return results
 }
+
+export const smartRecruitersAdapter: AtsAdapter<SmartRecruitersPosting> = {
+  platform: 'smartrecruiters',
+  label: 'SmartRecruiters',
+  accounts: [
+    'ns1',
+    'palantir',
+    'affirm',
+    'doordash',
+    'pinterest',
+    'spotify',
+    'snowflake',
+    'coinbase',
+    'datadog',
+    'instacart',
+  ],
+  async fetchListings(account, context) {
+    const response = await context.fetchJson<SmartRecruitersResponse>(
+      `https://api.smartrecruiters.com/v1/companies/${account}/postings`
+    )
+    return response.content ?? []
+  },
+  getTitle: (posting) => posting.name ?? '',
+  toNormalizedJob: (posting, account) => mapSmartRecruitersPosting(posting, account),
+}
@@ -9,6 +9,9 @@ export interface NormalizedJob {
   jobType: JobCategory
   isRemote: boolean
   postedAt?: Date
+  department?: string
+  salaryRange?: string
+  salaryCurrency?: string
 }
 
 export function isEarlyCareerRole(title: string) {
@@ -28,3 +31,56 @@ export function isEarlyCareerRole(title: string) {
     normalized.includes('early career')
   )
 }
+
+export function resolveJobType(title: string): JobCategory {
+  return title.toLowerCase().includes('intern') ? 'internship' : 'new_grad'
+}
+
+export function toDate(value?: string | number | null) {
+  if (value === undefined || value === null || value === '') return undefined
+  const parsed = new Date(value)
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed
+}
+
+/**
+ * Turns an ATS account slug (e.g. "stripe") into a display name ("Stripe").
+ */
+export function formatAccountName(account: string) {
+  return account.charAt(0).toUpperCase() + account.slice(1)
+}
+
+export interface FetchOptions {
+  retries?: number
+  backoffMs?: number
+  method?: 'GET' | 'POST'
+  body?: unknown
+}
+
+/**
+ * Network access handed to adapters by the orchestrator. Tests swap in a
+ * fixture-backed implementation so adapters never hit the network directly.
+ */
+export interface AdapterContext {
+  fetchJson<T>(url: string, options?: FetchOptions): Promise<T>
+}
+
+/**
+ * A self-contained integration with one applicant tracking system.
+ *
+ * The orchestrator lists postings for each account, filters them by title,
+ * optionally loads per-posting detail, and maps the result into a
+ * NormalizedJob. Adding a new ATS only requires implementing this interface
+ * and registering it in adapters/index.ts.
+ */
+export interface AtsAdapter<TListing = unknown, TDetail = unknown> {
+  /** Stable identifier used as the job source prefix, e.g. "lever". */
+  platform: string
+  /** Human readable name for logs. */
+  label: string
+  /** Accounts (board tokens, company slugs) crawled by default. */
+  accounts: string[]
+  fetchListings(account: string, context: AdapterContext): Promise<TListing[]>
+  getTitle(listing: TListing): string
+  fetchDetail?(listing: TListing, account: string, context: AdapterContext): Promise<TDetail | null>
+  toNormalizedJob(listing: TListing, account: string, detail?: TDetail | null): NormalizedJob | null
+}
@@ -1,4 +1,4 @@
-import { NormalizedJob, JobCategory, isEarlyCareerRole } from './types'
+import { AtsAdapter, NormalizedJob, isEarlyCareerRole, resolveJobType, toDate } from './types'
 
 interface WorkableLocation {
   city?: string
@@ -55,16 +55,37 @@ function buildLocationString(locations?: WorkableLocation[]) {
   return parts.join(', ')
 }
 
-function resolveJobType(title: string): JobCategory {
-  const lower = title.toLowerCase()
-  if (lower.includes('intern')) return 'internship'
-  return 'new_grad'
-}
-
-function toUtcDate(timestamp?: string) {
-  if (!timestamp) return undefined
-  const parsed = new Date(timestamp)
-  return Number.isNaN(parsed.getTime()) ? undefined : parsed
+export function mapWorkableJob(
+  job: WorkableJob,
+  companyName: string,
+  detail?: WorkableJobDetail | null
+): NormalizedJob | null {
+  const title = job.title?.trim()
+  if (!title || !job.url) return null
+
+  const description =
+    detail?.description ??
+    job.description ??
+    [job.requirements, detail?.requirements, detail?.benefits, job.benefits]
+      .filter(Boolean)
+      .join('\n\n')
+
+  const location = buildLocationString(job.locations)
+  const isRemote =
+    Boolean(job.locations?.some((loc) => loc.remote)) ||
+    location.toLowerCase().includes('remote') ||
+    title.toLowerCase().includes('remote')
+
+  return {
+    title,
+    company: companyName,
+    location,
+    url: job.url,
+    description,
+    jobType: resolveJobType(title),
+    isRemote,
+    postedAt: toDate(job.published ?? job.updated_at),
+  }
 }
 
 export async function extractWorkableJobs(
@@ -76,36 +97,49 @@ export async function extractWorkableJobs(
   const results: NormalizedJob[] = []
 
   for (const job of jobs) {
-    const title = job.title?.trim()
-    if (!title || !isEarlyCareerRole(title)) {
+    if (!job.title || !isEarlyCareerRole(job.title)) {
       continue
     }
 
     const detail = detailFetcher ? await detailFetcher(job) : null
-    const description =
-      detail?.description ??
-      job.description ??
-      [job.requirements, detail?.requirements, detail?.benefits, job.benefits]
-        .filter(Boolean)
-        .join('\n\n')
-
-    const location = buildLocationString(job.locations)
-    const isRemote =
-      Boolean(job.locations?.some((loc) => loc.remote)) ||
-      location.toLowerCase().includes('remote') ||
-      title.toLowerCase().includes('remote')
-
-    results.push({
-      title,
-      company: companyName,
-      location,
-      url: job.url,
-      description,
-      jobType: resolveJobType(title),
-      isRemote,
-      postedAt: toUtcDate(job.published ?? job.updated_at),
-    })
+    const normalized = mapWorkableJob(job, companyName, detail)
+    if (normalized) {
+      results.push(normalized)
+    }
   }
 
   return results
 }
+
+export const workableAdapter: AtsAdapter<WorkableJob, WorkableJobDetail> = {
+  platform: 'workable',
+  label: 'Workable',
+  accounts: [
+    'scaleai',
+    'brex',
+    'ramp',
+    'plaid',
+    'retool',
+    'figma',
+    'canva',
+    'vercel',
+    'netlify',
+    'linear',
+  ],
+  async fetchListings(account, context) {
+    const response = await context.fetchJson<WorkableJobsResponse>(
+      `https://apply.workable.com/api/v3/accounts/${account}/jobs?state=published`,
+      { retries: 3, backoffMs: 800 }
+    )
+    return response.jobs ?? []
+  },
+  getTitle: (job) => job.title ?? '',
+  async fetchDetail(job, account, context) {
+    if (!job.shortcode) return null
+    return context.fetchJson<WorkableJobDetail>(
+      `https://apply.workable.com/api/v3/accounts/${account}/jobs/${job.shortcode}`,
+      { retries: 2, backoffMs: 700 }
+    )
+  },
+  toNormalizedJob: (job, account, detail) => mapWorkableJob(job, account, detail),
+}
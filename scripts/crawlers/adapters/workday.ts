@@ -0,0 +1,194 @@
+import { load } from 'cheerio'
+import { AdapterContext, AtsAdapter, NormalizedJob, formatAccountName, resolveJobType, toDate } from './types'
+
+const PAGE_SIZE = 20
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Large Workday tenants list thousands of postings, so instead of paging the
+ * whole board we run the CXS search once per early-career keyword and merge.
+ */
+export const WORKDAY_SEARCH_TERMS = ['new grad', 'university', 'intern', 'entry level', 'early career']
+
+export interface WorkdayAccount {
+  tenant: string
+  host: string
+  site: string
+}
+
+export interface WorkdayJobPosting {
+  title: string
+  externalPath: string
+  locationsText?: string
+  postedOn?: string
+  bulletFields?: string[]
+}
+
+export interface WorkdaySearchResponse {
+  total?: number
+  jobPostings?: WorkdayJobPosting[]
+}
+
+export interface WorkdayJobDetail {
+  jobPostingInfo?: {
+    id?: string
+    title?: string
+    jobDescription?: string
+    location?: string
+    additionalLocations?: string[]
+    remoteType?: string
+    postedOn?: string
+    startDate?: string
+    timeType?: string
+    externalUrl?: string
+  }
+  hiringOrganization?: {
+    name?: string
+  }
+}
+
+/**
+ * Workday accounts are written as "<tenant>.<datacenter>/<site>", e.g.
+ * "nvidia.wd5/NVIDIAExternalCareerSite" for
+ * https://nvidia.wd5.myworkdayjobs.com/NVIDIAExternalCareerSite.
+ */
+export function parseWorkdayAccount(account: string): WorkdayAccount {
+  const match = account.match(/^([a-z0-9-]+)\.(wd\d+)\/([A-Za-z0-9_-]+)$/i)
+  if (!match) {
+    throw new Error(`Invalid Workday account "${account}", expected "<tenant>.<wdN>/<site>"`)
+  }
+  const [, tenant, datacenter, site] = match
+  return {
+    tenant,
+    host: `${tenant}.${datacenter}.myworkdayjobs.com`,
+    site,
+  }
+}
+
+function cxsBaseUrl({ tenant, host, site }: WorkdayAccount) {
+  return `https://${host}/wday/cxs/${tenant}/${site}`
+}
+
+/**
+ * Converts Workday's relative "Posted 3 Days Ago" labels into dates.
+ */
+export function parseWorkdayPostedOn(label: string | undefined, now = new Date()) {
+  if (!label) return undefined
+  const lower = label.toLowerCase()
+  if (lower.includes('today')) return new Date(now.getTime())
+  if (lower.includes('yesterday')) return new Date(now.getTime() - DAY_MS)
+
+  const match = lower.match(/(\d+)\+?\s*days?\s+ago/)
+  if (match) {
+    return new Date(now.getTime() - parseInt(match[1], 10) * DAY_MS)
+  }
+  return undefined
+}
+
+function descriptionToText(html?: string) {
+  if (!html) return ''
+  return load(html)
+    .text()
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+async function searchTerm(
+  workday: WorkdayAccount,
+  searchText: string,
+  context: AdapterContext
+): Promise<WorkdayJobPosting[]> {
+  const postings: WorkdayJobPosting[] = []
+  let total: number | undefined
+
+  // Pages through every result: stopping early would leave live postings
+  // out of the listing, and the crawler would then mark them missing.
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const response = await context.fetchJson<WorkdaySearchResponse>(`${cxsBaseUrl(workday)}/jobs`, {
+      method: 'POST',
+      body: { appliedFacets: {}, limit: PAGE_SIZE, offset, searchText },
+    })
+
+    // Workday only reports the total on the first page.
+    if (total === undefined) {
+      total = response.total ?? 0
+    }
+
+    const batch = response.jobPostings ?? []
+    postings.push(...batch)
+
+    if (batch.length < PAGE_SIZE || offset + PAGE_SIZE >= total) {
+      break
+    }
+  }
+
+  return postings
+}
+
+export function mapWorkdayJob(
+  posting: WorkdayJobPosting,
+  account: string,
+  detail?: WorkdayJobDetail | null,
+  now = new Date()
+): NormalizedJob | null {
+  const workday = parseWorkdayAccount(account)
+  const info = detail?.jobPostingInfo
+  const title = (info?.title ?? posting.title)?.trim()
+  if (!title || !posting.externalPath) return null
+
+  const locations = [info?.location, ...(info?.additionalLocations ?? [])].filter(Boolean)
+  const location = locations.length
+    ? locations.join(' | ')
+    : posting.locationsText?.trim() || 'Not specified'
+
+  const isRemote =
+    Boolean(info?.remoteType?.toLowerCase().includes('remote')) ||
+    location.toLowerCase().includes('remote')
+
+  return {
+    title,
+    company: detail?.hiringOrganization?.name?.trim() || formatAccountName(workday.tenant),
+    location,
+    url: info?.externalUrl || `https://${workday.host}/en-US/${workday.site}${posting.externalPath}`,
+    description: descriptionToText(info?.jobDescription),
+    jobType: resolveJobType(title),
+    isRemote,
+    postedAt: toDate(info?.startDate) ?? parseWorkdayPostedOn(info?.postedOn ?? posting.postedOn, now),
+  }
+}
+
+export const workdayAdapter: AtsAdapter<WorkdayJobPosting, WorkdayJobDetail> = {
+  platform: 'workday',
+  label: 'Workday',
+  accounts: [
+    'nvidia.wd5/NVIDIAExternalCareerSite',
+    'salesforce.wd12/External_Career_Site',
+    'adobe.wd5/external_experienced',
+    'workday.wd5/Workday',
+    'intel.wd1/External',
+    'pfizer.wd1/PfizerCareers',
+    'mastercard.wd1/CorporateCareers',
+    'capitalone.wd12/Capital_One',
+  ],
+  async fetchListings(account, context) {
+    const workday = parseWorkdayAccount(account)
+    const byPath = new Map<string, WorkdayJobPosting>()
+
+    for (const term of WORKDAY_SEARCH_TERMS) {
+      const postings = await searchTerm(workday, term, context)
+      for (const posting of postings) {
+        if (posting.externalPath && !byPath.has(posting.externalPath)) {
+          byPath.set(posting.externalPath, posting)
+        }
+      }
+    }
+
+    return Array.from(byPath.values())
+  },
+  getTitle: (posting) => posting.title ?? '',
+  async fetchDetail(posting, account, context) {
+    const workday = parseWorkdayAccount(account)
+    return context.fetchJson<WorkdayJobDetail>(`${cxsBaseUrl(workday)}${posting.externalPath}`)
+  },
+  toNormalizedJob: (posting, account, detail) => mapWorkdayJob(posting, account, detail),
+}
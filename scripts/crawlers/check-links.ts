@@ -0,0 +1,144 @@
+/**
+ * Dead-link checker
+ * Re-checks active job URLs outside of crawls so postings that closed on
+ * the employer's side stop showing on the dashboard. Jobs that users saved
+ * are checked first, then whichever were checked longest ago.
+ *
+ * Usage: tsx scripts/crawlers/check-links.ts [--limit 500] [--concurrency 8]
+ * Meant to run on a schedule (e.g. hourly cron) alongside the crawlers.
+ */
+
+import 'dotenv/config'
+import { desc, eq, sql } from 'drizzle-orm'
+import { db } from '../../apps/api/src/db'
+import { applications, jobs } from '../../apps/api/src/db/schema'
+import {
+  createSourceStats,
+  finishCrawlRun,
+  recordSourceError,
+  startCrawlRun,
+} from '../../apps/api/src/services/crawl-run-service'
+import { createLimiter, fetchWithRetry } from './http'
+import { LinkCheckResult, classifyLinkResponse } from './link-status'
+
+const DEFAULT_LIMIT = 500
+const DEFAULT_CONCURRENCY = 8
+const REQUEST_TIMEOUT_MS = 15_000
+
+function readNumberArg(name: string, fallback: number) {
+  const index = process.argv.indexOf(`--${name}`)
+  if (index === -1) return fallback
+  const value = parseInt(process.argv[index + 1] ?? '', 10)
+  return Number.isFinite(value) && value > 0 ? value : fallback
+}
+
+async function loadJobsToCheck(limit: number) {
+  const isSaved = sql<boolean>`exists (select 1 from ${applications} where ${applications.jobId} = ${jobs.id})`
+
+  return db
+    .select({
+      id: jobs.id,
+      url: jobs.url,
+      isLinkActive: jobs.isLinkActive,
+      isSaved,
+    })
+    .from(jobs)
+    .where(eq(jobs.isActive, true))
+    .orderBy(desc(isSaved), sql`${jobs.linkCheckedAt} asc nulls first`)
+    .limit(limit)
+}
+
+async function checkLink(url: string): Promise<LinkCheckResult> {
+  try {
+    const response = await fetchWithRetry(
+      url,
+      {
+        redirect: 'follow',
+        headers: { Accept: 'text/html' },
+      },
+      { retries: 1, timeoutMs: REQUEST_TIMEOUT_MS }
+    )
+    const body = response.ok ? await response.text() : ''
+
+    return classifyLinkResponse({
+      requestedUrl: url,
+      finalUrl: response.url || url,
+      httpStatus: response.status,
+      body,
+    })
+  } catch (error) {
+    return {
+      status: 'unknown',
+      reason: error instanceof Error ? error.message : String(error),
+    }
+  }
+}
+
+async function checkLinks() {
+  const limit = readNumberArg('limit', DEFAULT_LIMIT)
+  const concurrency = readNumberArg('concurrency', DEFAULT_CONCURRENCY)
+
+  console.log(`🔗 Checking up to ${limit} job links (concurrency ${concurrency})...`)
+  const runId = await startCrawlRun('link_checker')
+  const stats = createSourceStats('link_checker', 'links')
+
+  // Per-host pacing and robots.txt are handled by the shared HTTP client.
+  const run = createLimiter(concurrency)
+
+  try {
+    const rows = await loadJobsToCheck(limit)
+    stats.jobsSeen = rows.length
+    console.log(`   ${rows.filter((row) => row.isSaved).length} of ${rows.length} are saved by users`)
+
+    await Promise.all(
+      rows.map((row) =>
+        run(async () => {
+          const result = await checkLink(row.url)
+          const checkedAt = new Date()
+
+          if (result.status === 'unknown') {
+            stats.httpFailures++
+            await db.update(jobs).set({ linkCheckedAt: checkedAt }).where(eq(jobs.id, row.id))
+            return
+          }
+
+          const isLinkActive = result.status === 'active'
+          await db.update(jobs).set({ linkCheckedAt: checkedAt, isLinkActive }).where(eq(jobs.id, row.id))
+
+          if (!isLinkActive && row.isLinkActive !== false) {
+            stats.jobsDeactivated++
+            console.log(`   ❌ Dead (${result.reason}): ${row.url}`)
+          } else if (isLinkActive && row.isLinkActive === false) {
+            stats.jobsUpdated++
+            console.log(`   ✅ Back online: ${row.url}`)
+          }
+        }).catch((error) => {
+          recordSourceError(stats, error)
+          console.error(`❌ Failed to record link check for ${row.url}:`, error)
+        })
+      )
+    )
+  } catch (error) {
+    recordSourceError(stats, error)
+    stats.finishedAt = new Date()
+    await finishCrawlRun(runId, [stats], error)
+    throw error
+  }
+
+  stats.finishedAt = new Date()
+  await finishCrawlRun(runId, [stats])
+
+  console.log('\n📊 Link check summary:')
+  console.log(`   Checked: ${stats.jobsSeen}`)
+  console.log(`   Newly dead: ${stats.jobsDeactivated}`)
+  console.log(`   Back online: ${stats.jobsUpdated}`)
+  console.log(`   Inconclusive: ${stats.httpFailures}`)
+  console.log(`   Run: ${runId}`)
+
+  process.exit(0)
+}
+
+checkLinks().catch((error) => {
+  console.error('❌ Link check failed:', error)
+  process.exit(1)
+})
@@ -7,6 +7,7 @@ import 'dotenv/config'
 import { db } from '../../apps/api/src/db'
 import { visaSponsors } from '../../apps/api/src/db/schema'
 import { sql } from 'drizzle-orm'
+import { fetchWithRetry } from './http'
 
 interface DiscoveredCompany {
   name: string
@@ -108,16 +109,16 @@ async function discoverFromRecentJobs() {
     
     for (const platform of platforms) {
       try {
-        const response = await fetch(platform.url, {
+        const response = await fetchWithRetry(platform.url, {
           method: 'HEAD', // Just check if it exists
           signal: AbortSignal.timeout(2000) // 2 second timeout
-        })
+        }, { retries: 0 })
         
         if (response.ok) {
           // If HEAD works, try to get actual job data
-          const jobResponse = await fetch(platform.url, {
+          const jobResponse = await fetchWithRetry(platform.url, {
             signal: AbortSignal.timeout(5000) // 5 second timeout
-          })
+          }, { retries: 0 })
           
           if (jobResponse.ok) {
             const data = await jobResponse.json()
@@ -198,10 +199,10 @@ async function discoverFromVisaSponsors() {
       
       for (const platform of platforms) {
         try {
-          const response = await fetch(platform.url, {
+          const response = await fetchWithRetry(platform.url, {
             method: 'HEAD',
             signal: AbortSignal.timeout(2000)
-          })
+          }, { retries: 0 })
           
           if (response.ok) {
             discovered.push({
@@ -5,24 +5,25 @@
  */
 
 import 'dotenv/config'
-import { drizzle } from 'drizzle-orm/postgres-js'
-import postgres from 'postgres'
-import { z } from 'zod'
 import { load } from 'cheerio'
 import isURL from 'validator/lib/isURL'
 import { parseISO } from 'date-fns'
-import { and, eq, lt, notInArray, sql } from 'drizzle-orm'
-import { jobs, visaSponsors } from '../../apps/api/src/db/schema'
-import { generateEmbedding } from '../../apps/api/src/lib/openai'
-
-const connectionString = process.env.DATABASE_URL
-
-if (!connectionString) {
-  throw new Error('DATABASE_URL environment variable is required for the GitHub crawler')
-}
-
-const client = postgres(connectionString, { max: 1 })
-const db = drizzle(client, { schema: { jobs, visaSponsors } })
+import {
+  CrawlSourceStats,
+  createSourceStats,
+  finishCrawlRun,
+  recordSourceError,
+  startCrawlRun,
+} from '../../apps/api/src/services/crawl-run-service'
+import { dedupeJobs } from '../../apps/api/src/services/dedupe-service'
+import { RobotsDisallowedError, fetchWithRetry } from './http'
+import {
+  PageEnrichment,
+  loadSponsorIndex,
+  markMissingJobs,
+  resolveSponsor,
+  upsertJob,
+} from '../../apps/api/src/services/ingestion-service'
 
 const REPOS = [
   {
@@ -31,21 +32,6 @@ const REPOS = [
   }
 ]
 
-const SponsorMatchSchema = z.object({
-  id: z.string(),
-  companyName: z.string(),
-  sponsorshipConfidence: z.number().int().min(0).max(100),
-  sponsorshipTypes: z.array(z.string()).optional(),
-  lastYearSponsored: z.number().optional(),
-})
-
-type SponsorMatch = z.infer<typeof SponsorMatchSchema>
-
-interface SponsorLookup {
-  sponsors: SponsorMatch[]
-  aliasMap: Map<string, SponsorMatch>
-}
-
 interface ParsedJob {
   title: string
   company: string
@@ -57,79 +43,6 @@ interface ParsedJob {
   isRemote?: boolean
 }
 
-function normalizeCompanyName(name: string) {
-  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, ' ')
-}
-
-async function loadSponsors(): Promise<SponsorLookup> {
-  const rows = await db
-    .select({
-      id: visaSponsors.id,
-      companyName: visaSponsors.companyName,
-      sponsorshipConfidence: visaSponsors.sponsorshipConfidence,
-      sponsorshipTypes: visaSponsors.sponsorshipTypes,
-      lastYearSponsored: visaSponsors.lastYearSponsored,
-      aliases: visaSponsors.aliases,
-      normalizedName: visaSponsors.normalizedName,
-    })
-    .from(visaSponsors)
-
-  const sponsors: SponsorMatch[] = []
-  const aliasMap = new Map<string, SponsorMatch>()
-
-  for (const row of rows) {
-    const sponsor = SponsorMatchSchema.parse({
-      id: row.id,
-      companyName: row.companyName,
-      sponsorshipConfidence: row.sponsorshipConfidence ?? 0,
-      sponsorshipTypes: row.sponsorshipTypes ?? [],
-      lastYearSponsored: row.lastYearSponsored ?? undefined,
-    })
-
-    sponsors.push(sponsor)
-
-    const normalized = row.normalizedName ? normalizeCompanyName(row.normalizedName) : normalizeCompanyName(row.companyName)
-    aliasMap.set(normalized, sponsor)
-
-    if (row.aliases) {
-      for (const alias of row.aliases) {
-        aliasMap.set(normalizeCompanyName(alias), sponsor)
-      }
-    }
-  }
-
-  return { sponsors, aliasMap }
-}
-
-function mapToSponsor(company: string, aliasMap: Map<string, SponsorMatch>) {
-  const normalized = normalizeCompanyName(company)
-  
-  // First try exact match
-  let sponsor = aliasMap.get(normalized)
-  if (sponsor) return sponsor
-  
-  // Try partial matching for common company name variations
-  const companyWords = normalized.split(' ').filter(word => word.length > 2)
-  
-  for (const [key, value] of aliasMap.entries()) {
-    const keyWords = key.split(' ').filter(word => word.length > 2)
-    
-    // Check if any significant words match
-    const matchingWords = companyWords.filter(word => 
-      keyWords.some(keyWord => 
-        keyWord.includes(word) || word.includes(keyWord)
-      )
-    )
-    
-    // If at least 50% of significant words match, consider it a match
-    if (matchingWords.length > 0 && matchingWords.length >= Math.ceil(companyWords.length * 0.5)) {
-      return value
-    }
-  }
-  
-  return null
-}
-
 function parseTable(table: string): ParsedJob[] {
   const jobs: ParsedJob[] = []
   
@@ -279,7 +192,8 @@ function inferJobType(title: string): 'new_grad' | 'internship' | undefined {
 }
 
 async function fetchGitHubContent(url: string): Promise<string> {
-  const response = await fetch(url)
+  // A single known file rather than a crawl, so robots.txt does not apply.
+  const response = await fetchWithRetry(url, {}, { ignoreRobots: true })
   if (!response.ok) {
     throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`)
   }
@@ -323,14 +237,9 @@ function extractTables(markdown: string): string[] {
   return tables
 }
 
-interface EnrichedPage {
-  description?: string
-  linkActive: boolean
-}
-
-async function enrichFromJobPage(url: string): Promise<EnrichedPage> {
+async function enrichFromJobPage(url: string): Promise<PageEnrichment> {
   try {
-    const response = await fetch(url)
+    const response = await fetchWithRetry(url, {}, { retries: 1 })
     if (!response.ok) {
       return { description: undefined, linkActive: false }
     }
@@ -346,150 +255,100 @@ async function enrichFromJobPage(url: string): Promise<EnrichedPage> {
     const paragraphText = $('p').slice(0, 3).map((_, el) => $(el).text()).get().join('\n')
     return { description: paragraphText || undefined, linkActive: true }
   } catch (error) {
+    if (error instanceof RobotsDisallowedError) {
+      // Not allowed to look, which says nothing about whether the job is live.
+      return { description: undefined, linkActive: true }
+    }
     console.warn(`Failed to fetch job page ${url}:`, error instanceof Error ? error.message : error)
     return { description: undefined, linkActive: false }
   }
 }
 
-async function upsertJob(job: ParsedJob, sponsor: SponsorMatch | null, source: string) {
-  const enrichment = job.url ? await enrichFromJobPage(job.url) : { description: job.description, linkActive: true }
-  const description = job.description ?? enrichment.description ?? ''
-  const embeddingText = `${job.title} ${job.company} ${description}`
-      const embedding = await generateEmbedding(embeddingText)
-
-  // Determine visa status based on sponsorship confidence
-  let visaStatus = 'unknown'
-  if (sponsor) {
-    if (sponsor.sponsorshipConfidence >= 80) {
-      visaStatus = 'sponsor_verified'
-    } else if (sponsor.sponsorshipConfidence >= 50) {
-      visaStatus = 'likely_sponsor'
-    } else {
-      visaStatus = 'unknown'
-    }
-  }
-  const now = new Date()
-  const locationLower = (job.location || '').toLowerCase()
-
-      await db
-        .insert(jobs)
-        .values({
-          title: job.title,
-          company: job.company,
-          location: job.location,
-          url: job.url,
-      description,
-      postedAt: job.postedAt,
-      lastSeenAt: now,
-      linkCheckedAt: now,
-      isLinkActive: enrichment.linkActive,
-          jobType: job.jobType,
-      isRemote: job.isRemote ?? locationLower.includes('remote'),
-      source,
-          embedding,
-      visaSponsorId: sponsor?.id ?? null,
-      visaStatus,
-      sponsorshipConfidence: sponsor?.sponsorshipConfidence ?? 0,
-      visaNotes: sponsor ? `Matched to ${sponsor.companyName}` : null,
-    })
-    .onConflictDoUpdate({
-      target: jobs.url,
-      set: {
-        title: job.title,
-        company: job.company,
-        location: job.location,
-        description,
-        postedAt: job.postedAt,
-        lastSeenAt: now,
-        linkCheckedAt: now,
-        isLinkActive: enrichment.linkActive,
-        jobType: job.jobType,
-        isRemote: job.isRemote ?? locationLower.includes('remote'),
-        source,
-        visaSponsorId: sponsor?.id ?? null,
-        visaStatus,
-        sponsorshipConfidence: sponsor?.sponsorshipConfidence ?? 0,
-        visaNotes: sponsor ? `Matched to ${sponsor.companyName}` : null,
-        updatedAt: sql`now()`,
-      },
-    })
-}
-
-async function markMissingJobs(source: string, seenUrls: Set<string>) {
-  const now = new Date()
-  const staleThreshold = new Date(now.getTime() - 1000 * 60 * 60 * 24 * 30) // 30 days
-
-  if (seenUrls.size === 0) {
-    return
-  }
-
-  await db
-    .update(jobs)
-    .set({
-      isActive: false,
-      isLinkActive: false,
-      lastSeenAt: now,
-    })
-    .where(
-      and(
-        eq(jobs.source, source),
-        notInArray(jobs.url, Array.from(seenUrls)),
-        lt(jobs.lastSeenAt, staleThreshold)
-      )
-    )
-}
-
 async function crawl() {
   console.log('🕷️  Starting GitHub job crawler...')
-  const { aliasMap } = await loadSponsors()
+  const runId = await startCrawlRun('github')
+  const sourceStats: CrawlSourceStats[] = []
 
   let totalSaved = 0
   let totalErrors = 0
 
-  for (const repo of REPOS) {
-    console.log(`\n📥 Fetching ${repo.url}`)
-
-    try {
-      const markdown = await fetchGitHubContent(repo.url)
-      const tables = extractTables(markdown)
-      console.log(`   Found ${tables.length} tables`)
-      const seenUrls = new Set<string>()
-
-      for (const table of tables) {
-        const parsedJobs = parseTable(table)
-        for (const job of parsedJobs) {
-          if (!job.url) continue
-          seenUrls.add(job.url)
-
-          try {
-            const sponsor = mapToSponsor(job.company, aliasMap)
-            await upsertJob(job, sponsor, repo.source)
-            totalSaved++
-          } catch (error) {
-            totalErrors++
-            console.error(`❌ Failed to upsert ${job.company} – ${job.title}:`, error instanceof Error ? error.message : error)
+  try {
+    const sponsorIndex = await loadSponsorIndex()
+
+    for (const repo of REPOS) {
+      console.log(`\n📥 Fetching ${repo.url}`)
+      const stats = createSourceStats(repo.source, 'github')
+      sourceStats.push(stats)
+
+      try {
+        const markdown = await fetchGitHubContent(repo.url).catch((error) => {
+          stats.httpFailures++
+          throw error
+        })
+        const tables = extractTables(markdown)
+        console.log(`   Found ${tables.length} tables`)
+        const seenUrls = new Set<string>()
+
+        for (const table of tables) {
+          const parsedJobs = parseTable(table)
+          for (const job of parsedJobs) {
+            if (!job.url) continue
+            seenUrls.add(job.url)
+            stats.jobsSeen++
+
+            try {
+              const sponsorMatch = await resolveSponsor(job.company, sponsorIndex)
+              const outcome = await upsertJob(job, {
+                source: repo.source,
+                ...sponsorMatch,
+                enrich: (listing) => enrichFromJobPage(listing.url),
+              })
+              if (outcome === 'inserted') {
+                stats.jobsInserted++
+              } else if (outcome === 'unchanged') {
+                stats.jobsUnchanged++
+              } else {
+                stats.jobsUpdated++
+              }
+              totalSaved++
+            } catch (error) {
+              totalErrors++
+              recordSourceError(stats, error)
+              console.error(`❌ Failed to upsert ${job.company} – ${job.title}:`, error instanceof Error ? error.message : error)
+            }
           }
         }
-      }
 
-      await markMissingJobs(repo.source, seenUrls)
-    } catch (error) {
-      totalErrors++
-      console.error(`❌ Failed processing repo ${repo.url}:`, error instanceof Error ? error.message : error)
+        const lifecycle = await markMissingJobs(repo.source, 'github', seenUrls)
+        stats.jobsDeactivated = lifecycle.expired
+        console.log(`   ${lifecycle.missing} newly missing, ${lifecycle.expired} expired`)
+      } catch (error) {
+        totalErrors++
+        recordSourceError(stats, error)
+        console.error(`❌ Failed processing repo ${repo.url}:`, error instanceof Error ? error.message : error)
+      } finally {
+        stats.finishedAt = new Date()
+      }
     }
+
+    const dedupe = await dedupeJobs()
+    console.log(`🔁 Dedupe: ${dedupe.duplicates} duplicates across ${dedupe.candidates} candidates (${dedupe.updated} changed)`)
+  } catch (error) {
+    await finishCrawlRun(runId, sourceStats, error)
+    throw error
   }
 
+  await finishCrawlRun(runId, sourceStats)
+
   console.log('\n📊 Crawl Summary:')
   console.log(`   Jobs processed: ${totalSaved}`)
   console.log(`   Errors: ${totalErrors}`)
+  console.log(`   Run: ${runId}`)
 
-  await client.end()
   process.exit(0)
 }
 
-crawl().catch(async (error) => {
+crawl().catch((error) => {
   console.error('Unhandled crawler error:', error)
-  await client.end()
   process.exit(1)
 })
-
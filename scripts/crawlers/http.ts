@@ -0,0 +1,348 @@
+/**
+ * Shared HTTP client for crawlers.
+ * Every request goes through per-host token buckets and concurrency limits,
+ * honours Retry-After and robots.txt, and identifies itself with a
+ * descriptive User-Agent. Transient failures are retried with backoff and
+ * non-2xx JSON responses surface as typed errors.
+ */
+
+import { ALLOW_ALL, DISALLOW_ALL, RobotsRules, isPathAllowed, parseRobotsTxt } from './robots'
+
+const DEFAULT_RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504])
+
+export const DEFAULT_USER_AGENT =
+  'JobSearchH1BBot/1.0 (+https://github.com/OnePercentBetter/job-search-h1b)'
+
+const ROBOTS_TTL_MS = 60 * 60 * 1000
+const ROBOTS_ERROR_TTL_MS = 5 * 60 * 1000
+const MAX_RETRY_AFTER_MS = 60 * 1000
+
+export interface FetchRetryConfig {
+  retries?: number
+  backoffMs?: number
+  retryOnStatuses?: Set<number>
+  /** Skip the robots.txt check for a single known resource (not a crawl). */
+  ignoreRobots?: boolean
+  /** Abort each attempt after this long; every retry gets a fresh timeout. */
+  timeoutMs?: number
+}
+
+export class HttpError extends Error {
+  constructor(
+    public readonly url: string,
+    public readonly status: number,
+    public readonly statusText: string
+  ) {
+    super(`HTTP ${status} ${statusText} for ${url}`)
+    this.name = 'HttpError'
+  }
+}
+
+export class RobotsDisallowedError extends Error {
+  constructor(public readonly url: string) {
+    super(`robots.txt disallows ${url}`)
+    this.name = 'RobotsDisallowedError'
+  }
+}
+
+export function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+/**
+ * Caps how many tasks run at once. Freed slots are handed straight to the
+ * next waiter so the limit holds even under bursts.
+ */
+export function createLimiter(limit: number) {
+  let active = 0
+  const waiting: (() => void)[] = []
+
+  return async function run<T>(task: () => Promise<T>): Promise<T> {
+    if (active < limit) {
+      active++
+    } else {
+      await new Promise<void>((resolve) => waiting.push(resolve))
+    }
+
+    try {
+      return await task()
+    } finally {
+      const next = waiting.shift()
+      if (next) {
+        next()
+      } else {
+        active--
+      }
+    }
+  }
+}
+
+/**
+ * Classic token bucket: `burst` requests may go out back to back, after
+ * which callers are spaced at `ratePerSecond`. Takes are served in order.
+ */
+export function createTokenBucket(ratePerSecond: number, burst: number) {
+  let rate = ratePerSecond
+  let tokens = burst
+  let lastRefill = Date.now()
+  let queue: Promise<void> = Promise.resolve()
+
+  const refill = () => {
+    const now = Date.now()
+    tokens = Math.min(burst, tokens + ((now - lastRefill) / 1000) * rate)
+    lastRefill = now
+  }
+
+  return {
+    take() {
+      const next = queue.then(async () => {
+        refill()
+        if (tokens < 1) {
+          await sleep(((1 - tokens) / rate) * 1000)
+          refill()
+        }
+        tokens -= 1
+      })
+      queue = next.catch(() => undefined)
+      return next
+    },
+    setRate(ratePerSecondOverride: number) {
+      refill()
+      rate = ratePerSecondOverride
+    },
+  }
+}
+
+/**
+ * Parses Retry-After as delta-seconds or an HTTP date, capped so a hostile
+ * header cannot park the crawler for hours.
+ */
+export function parseRetryAfter(header: string | null, now = Date.now(), maxMs = MAX_RETRY_AFTER_MS) {
+  if (!header) return null
+  const trimmed = header.trim()
+
+  const seconds = Number(trimmed)
+  if (trimmed !== '' && Number.isFinite(seconds)) {
+    return Math.min(Math.max(0, seconds * 1000), maxMs)
+  }
+
+  const date = Date.parse(trimmed)
+  if (!Number.isNaN(date)) {
+    return Math.min(Math.max(0, date - now), maxMs)
+  }
+  return null
+}
+
+export interface PoliteClientOptions {
+  userAgent?: string
+  requestsPerSecond?: number
+  burst?: number
+  maxConcurrentPerHost?: number
+  respectRobots?: boolean
+  maxRetryAfterMs?: number
+}
+
+interface HostState {
+  bucket: ReturnType<typeof createTokenBucket>
+  run: ReturnType<typeof createLimiter>
+}
+
+interface CachedRobots {
+  rules: RobotsRules
+  expiresAt: number
+}
+
+export function createPoliteClient(options: PoliteClientOptions = {}) {
+  const {
+    userAgent = process.env.CRAWLER_USER_AGENT || DEFAULT_USER_AGENT,
+    requestsPerSecond = 2,
+    burst = 2,
+    maxConcurrentPerHost = 2,
+    respectRobots = true,
+    maxRetryAfterMs = MAX_RETRY_AFTER_MS,
+  } = options
+
+  const hosts = new Map<string, HostState>()
+  const robotsCache = new Map<string, CachedRobots>()
+  const robotsInFlight = new Map<string, Promise<RobotsRules>>()
+
+  const hostState = (host: string) => {
+    let state = hosts.get(host)
+    if (!state) {
+      state = {
+        bucket: createTokenBucket(requestsPerSecond, burst),
+        run: createLimiter(maxConcurrentPerHost),
+      }
+      hosts.set(host, state)
+    }
+    return state
+  }
+
+  const withUserAgent = (init: RequestInit) => {
+    const headers = new Headers(init.headers)
+    if (!headers.has('User-Agent')) {
+      headers.set('User-Agent', userAgent)
+    }
+    return { ...init, headers }
+  }
+
+  async function loadRobots(origin: string, host: string): Promise<RobotsRules> {
+    let rules: RobotsRules
+    let ttl = ROBOTS_TTL_MS
+
+    try {
+      const response = await hostState(host).run(async () => {
+        await hostState(host).bucket.take()
+        return fetch(`${origin}/robots.txt`, withUserAgent({ redirect: 'follow' }))
+      })
+
+      if (response.ok) {
+        rules = parseRobotsTxt(await response.text(), userAgent)
+      } else if (response.status >= 400 && response.status < 500) {
+        // RFC 9309: an unavailable robots.txt means no restrictions.
+        rules = ALLOW_ALL
+      } else {
+        rules = DISALLOW_ALL
+        ttl = ROBOTS_ERROR_TTL_MS
+      }
+    } catch {
+      // Unreachable robots.txt is treated as a temporary full disallow.
+      rules = DISALLOW_ALL
+      ttl = ROBOTS_ERROR_TTL_MS
+    }
+
+    if (rules.crawlDelaySeconds) {
+      hostState(host).bucket.setRate(Math.min(requestsPerSecond, 1 / rules.crawlDelaySeconds))
+    }
+    robotsCache.set(origin, { rules, expiresAt: Date.now() + ttl })
+    return rules
+  }
+
+  async function getRobots(url: URL) {
+    const cached = robotsCache.get(url.origin)
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.rules
+    }
+
+    let pending = robotsInFlight.get(url.origin)
+    if (!pending) {
+      pending = loadRobots(url.origin, url.host).finally(() => robotsInFlight.delete(url.origin))
+      robotsInFlight.set(url.origin, pending)
+    }
+    return pending
+  }
+
+  async function isAllowed(url: string) {
+    const parsed = new URL(url)
+    const rules = await getRobots(parsed)
+    return isPathAllowed(rules, `${parsed.pathname}${parsed.search}`)
+  }
+
+  async function request(url: string, init: RequestInit = {}, config: FetchRetryConfig = {}) {
+    const {
+      retries = 2,
+      backoffMs = 500,
+      retryOnStatuses = DEFAULT_RETRYABLE_STATUSES,
+      ignoreRobots = false,
+      timeoutMs,
+    } = config
+
+    const parsed = new URL(url)
+    if (respectRobots && !ignoreRobots && !(await isAllowed(url))) {
+      throw new RobotsDisallowedError(url)
+    }
+
+    const host = hostState(parsed.host)
+    let attempt = 0
+    let lastError: unknown = null
+
+    while (attempt <= retries) {
+      let delayMs = backoffMs * (attempt + 1)
+
+      try {
+        const response = await host.run(async () => {
+          await host.bucket.take()
+          const signal = timeoutMs ? AbortSignal.timeout(timeoutMs) : init.signal
+          return fetch(url, withUserAgent({ ...init, signal }))
+        })
+
+        if (response.ok) {
+          return response
+        }
+
+        if (attempt === retries || !retryOnStatuses.has(response.status)) {
+          return response
+        }
+
+        const retryAfter = parseRetryAfter(response.headers.get('retry-after'), Date.now(), maxRetryAfterMs)
+        if (retryAfter !== null) {
+          delayMs = retryAfter
+        }
+
+        console.warn(
+          `⏳ Retry ${attempt + 1}/${retries + 1} for ${url} (HTTP ${response.status} ${response.statusText})`
+        )
+      } catch (error) {
+        lastError = error
+        if (attempt === retries) {
+          throw error
+        }
+
+        console.warn(
+          `⚠️  Network error fetching ${url} (attempt ${attempt + 1}): ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        )
+      }
+
+      attempt++
+      await sleep(delayMs)
+    }
+
+    throw lastError instanceof Error
+      ? lastError
+      : new Error(`Failed to fetch ${url} after ${retries + 1} attempts`)
+  }
+
+  async function requestJson<T>(url: string, options: JsonRequestOptions = {}): Promise<T> {
+    const { method = 'GET', body, ...config } = options
+    const init: RequestInit = {
+      method,
+      headers: {
+        Accept: 'application/json',
+        ...(body !== undefined && { 'Content-Type': 'application/json' }),
+      },
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+    }
+
+    const response = await request(url, init, config)
+    if (!response.ok) {
+      throw new HttpError(url, response.status, response.statusText)
+    }
+    return (await response.json()) as T
+  }
+
+  return {
+    fetch: request,
+    fetchJson: requestJson,
+    isAllowed,
+  }
+}
+
+export interface JsonRequestOptions extends FetchRetryConfig {
+  method?: 'GET' | 'POST'
+  body?: unknown
+}
+
+const sharedClient = createPoliteClient()
+
+export function fetchWithRetry(url: string, init: RequestInit = {}, config: FetchRetryConfig = {}) {
+  return sharedClient.fetch(url, init, config)
+}
+
+/**
+ * Fetches and parses a JSON payload, throwing HttpError on non-2xx responses.
+ */
+export function fetchJson<T>(url: string, options: JsonRequestOptions = {}): Promise<T> {
+  return sharedClient.fetchJson<T>(url, options)
+}
@@ -5,9 +5,8 @@
  */
 
 import 'dotenv/config'
-import { db } from '../../apps/api/src/db'
-import { jobs } from '../../apps/api/src/db/schema'
-import { generateEmbedding } from '../../apps/api/src/lib/openai'
+import { loadSponsorIndex, markMissingJobs, resolveSponsor, upsertJob } from '../../apps/api/src/services/ingestion-service'
+import { fetchWithRetry } from './http'
 
 // NYC-focused startups using Lever
 const COMPANIES = [
@@ -56,15 +55,19 @@ interface LeverJob {
 async function crawlLeverJobs() {
   console.log('🕷️  Starting Lever API crawler...')
 
+  const sponsorIndex = await loadSponsorIndex()
+  const seenUrls = new Set<string>()
+  let hadFailures = false
   let savedCount = 0
 
   for (const company of COMPANIES) {
     try {
       const url = `https://api.lever.co/v0/postings/${company}`
-      const response = await fetch(url)
+      const response = await fetchWithRetry(url)
 
       if (!response.ok) {
         console.log(`⚠️  Skipping ${company} (API unavailable)`)
+        hadFailures = true
         continue
       }
 
@@ -86,33 +89,37 @@ async function crawlLeverJobs() {
           location.toLowerCase().includes('remote') ||
           location.toLowerCase().includes('anywhere')
 
-        // Generate embedding
-        const embeddingText = `${leverJob.text} ${company} ${leverJob.description}`
-        const embedding = await generateEmbedding(embeddingText)
-
-        await db
-          .insert(jobs)
-          .values({
+        const companyName = company.charAt(0).toUpperCase() + company.slice(1)
+        seenUrls.add(leverJob.hostedUrl)
+        await upsertJob(
+          {
             title: leverJob.text,
-            company: company.charAt(0).toUpperCase() + company.slice(1),
+            company: companyName,
             location,
             url: leverJob.hostedUrl,
             isRemote,
             jobType: 'new_grad',
             description: leverJob.description,
-            source: 'lever',
-            embedding,
-          })
-          .onConflictDoNothing({ target: jobs.url })
+          },
+          { source: 'lever', ...(await resolveSponsor(companyName, sponsorIndex)) }
+        )
 
         savedCount++
         console.log(`✅ ${company}: ${leverJob.text}`)
       }
     } catch (error) {
       console.error(`❌ Error crawling ${company}:`, error)
+      hadFailures = true
     }
   }
 
+  // Every company shares the "lever" source, so one failed board would
+  // expire all of its jobs; only run the lifecycle after a clean pass.
+  if (!hadFailures) {
+    const lifecycle = await markMissingJobs('lever', 'lever', seenUrls)
+    console.log(`   ${lifecycle.missing} newly missing, ${lifecycle.expired} expired`)
+  }
+
   console.log(`\n✨ Saved ${savedCount} jobs from Lever`)
   process.exit(0)
 }
@@ -0,0 +1,79 @@
+/**
+ * Classifies job posting responses for the dead-link checker.
+ * ATS boards often answer 200 with a "this job is closed" page or redirect
+ * back to the board index, so status codes alone are not enough.
+ */
+
+export type LinkStatus = 'active' | 'dead' | 'unknown'
+
+export interface LinkCheckResult {
+  status: LinkStatus
+  reason: string
+}
+
+export interface LinkResponse {
+  requestedUrl: string
+  finalUrl: string
+  httpStatus: number
+  body: string
+}
+
+const DEAD_STATUSES = new Set([404, 410])
+
+const CLOSED_PAGE_PATTERNS: { pattern: RegExp; reason: string }[] = [
+  { pattern: /job you are looking for is no longer open/i, reason: 'greenhouse_closed' },
+  { pattern: /couldn['’]t find anything here/i, reason: 'lever_not_found' },
+  { pattern: /job posting is no longer available/i, reason: 'workday_closed' },
+  { pattern: /page you are looking for doesn['’]t exist/i, reason: 'workday_not_found' },
+  { pattern: /this job has expired/i, reason: 'smartrecruiters_expired' },
+  { pattern: /job (?:posting )?not found/i, reason: 'ashby_not_found' },
+  { pattern: /(?:job|position|posting|role) is no longer available/i, reason: 'no_longer_available' },
+  { pattern: /no longer accepting applications/i, reason: 'not_accepting' },
+  { pattern: /(?:position|role|job) has (?:been filled|closed)/i, reason: 'position_filled' },
+]
+
+function redirectedToBoardIndex(requestedUrl: string, finalUrl: string) {
+  try {
+    const requested = new URL(requestedUrl)
+    const final = new URL(finalUrl)
+
+    // Greenhouse sends closed jobs to the board root with ?error=true.
+    if (final.searchParams.get('error') === 'true') return true
+
+    const requestedPath = requested.pathname.replace(/\/+$/, '')
+    const finalPath = final.pathname.replace(/\/+$/, '')
+    return (
+      final.host === requested.host &&
+      finalPath !== requestedPath &&
+      requestedPath.startsWith(`${finalPath}/`) &&
+      finalPath.split('/').filter(Boolean).length <= 1
+    )
+  } catch {
+    return false
+  }
+}
+
+export function classifyLinkResponse(response: LinkResponse): LinkCheckResult {
+  const { requestedUrl, finalUrl, httpStatus, body } = response
+
+  if (DEAD_STATUSES.has(httpStatus)) {
+    return { status: 'dead', reason: `http_${httpStatus}` }
+  }
+
+  // Rate limits, bot walls and outages say nothing about the posting itself.
+  if (httpStatus < 200 || httpStatus >= 300) {
+    return { status: 'unknown', reason: `http_${httpStatus}` }
+  }
+
+  if (redirectedToBoardIndex(requestedUrl, finalUrl)) {
+    return { status: 'dead', reason: 'redirected_to_board' }
+  }
+
+  for (const { pattern, reason } of CLOSED_PAGE_PATTERNS) {
+    if (pattern.test(body)) {
+      return { status: 'dead', reason }
+    }
+  }
+
+  return { status: 'active', reason: `http_${httpStatus}` }
+}
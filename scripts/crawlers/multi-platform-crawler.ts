@@ -1,85 +1,28 @@
 /**
  * Multi-Platform Job Crawler
- * Crawls jobs from multiple sources: GitHub, Lever, Greenhouse, etc.
+ * Crawls jobs from GitHub README sources plus every ATS adapter registered
+ * in ./adapters (Lever, Greenhouse, SmartRecruiters, Workable, Ashby, Workday).
  */
 
 import 'dotenv/config'
-import { db } from '../../apps/api/src/db'
-import { jobs, visaSponsors } from '../../apps/api/src/db/schema'
-import { generateEmbedding } from '../../apps/api/src/lib/openai'
-import { drizzle } from 'drizzle-orm/postgres-js'
-import postgres from 'postgres'
-import { extractSmartRecruitersJobs } from './adapters/smartrecruiters'
-import { extractWorkableJobs } from './adapters/workable'
-
-const client = postgres(process.env.DATABASE_URL!)
-const dbConnection = drizzle(client, { schema: { jobs, visaSponsors } })
-
-const DEFAULT_RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504])
-
-interface FetchRetryConfig {
-  retries?: number
-  backoffMs?: number
-  retryOnStatuses?: Set<number>
-}
-
-function sleep(ms: number) {
-  return new Promise((resolve) => setTimeout(resolve, ms))
-}
-
-async function fetchWithRetry(
-  url: string,
-  init: RequestInit = {},
-  config: FetchRetryConfig = {}
-) {
-  const {
-    retries = 2,
-    backoffMs = 500,
-    retryOnStatuses = DEFAULT_RETRYABLE_STATUSES,
-  } = config
-
-  let attempt = 0
-  let lastError: unknown = null
-
-  while (attempt <= retries) {
-    try {
-      const response = await fetch(url, init)
-
-      if (response.ok) {
-        return response
-      }
-
-      if (
-        attempt === retries ||
-        !retryOnStatuses.has(response.status)
-      ) {
-        return response
-      }
-
-      console.warn(
-        `⏳ Retry ${attempt + 1}/${retries + 1} for ${url} (HTTP ${response.status} ${response.statusText})`
-      )
-    } catch (error) {
-      lastError = error
-      if (attempt === retries) {
-        throw error
-      }
-
-      console.warn(
-        `⚠️  Network error fetching ${url} (attempt ${attempt + 1}): ${
-          error instanceof Error ? error.message : String(error)
-        }`
-      )
-    }
-
-    attempt++
-    await sleep(backoffMs * attempt)
-  }
-
-  throw lastError instanceof Error
-    ? lastError
-    : new Error(`Failed to fetch ${url} after ${retries + 1} attempts`)
-}
+import {
+  CrawlSourceStats,
+  createSourceStats,
+  finishCrawlRun,
+  recordSourceError,
+  startCrawlRun,
+} from '../../apps/api/src/services/crawl-run-service'
+import { dedupeJobs } from '../../apps/api/src/services/dedupe-service'
+import {
+  IngestJob,
+  UpsertOutcome,
+  loadSponsorIndex,
+  markMissingJobs,
+  resolveSponsor,
+  upsertJob,
+} from '../../apps/api/src/services/ingestion-service'
+import { AdapterContext, AtsAdapter, collectAdapterJobs, getAdapters } from './adapters'
+import { HttpError, RobotsDisallowedError, fetchJson, fetchWithRetry } from './http'
 
 const GITHUB_SOURCES = [
   {
@@ -105,152 +48,27 @@ const GITHUB_SOURCES = [
   }
 ]
 
-const LEVER_COMPANIES = [
-  'stripe', 'airbnb', 'uber', 'lyft', 'doordash', 'instacart',
-  'square', 'shopify', 'twilio', 'plaid', 'brex', 'ramp',
-  'mercury', 'retool', 'superhuman', 'notion', 'coursera',
-  'udemy', 'edx', 'canva', 'figma', 'linear', 'vercel',
-  'netlify', 'supabase', 'planetscale', 'railway', 'render'
-]
-
-const GREENHOUSE_COMPANIES = [
-  'stripe', 'airbnb', 'uber', 'lyft', 'doordash', 'instacart',
-  'square', 'shopify', 'twilio', 'plaid', 'brex', 'ramp',
-  'mercury', 'retool', 'superhuman', 'notion', 'coursera',
-  'udemy', 'edx', 'canva', 'figma', 'linear', 'vercel',
-  'netlify', 'supabase', 'planetscale', 'railway', 'render'
-]
-
-const SMARTRECRUITERS_COMPANIES = [
-  'ns1',
-  'palantir',
-  'affirm',
-  'doordash',
-  'pinterest',
-  'spotify',
-  'snowflake',
-  'coinbase',
-  'datadog',
-  'instacart',
-]
-
-const WORKABLE_ACCOUNTS = [
-  'scaleai',
-  'brex',
-  'ramp',
-  'plaid',
-  'retool',
-  'figma',
-  'canva',
-  'vercel',
-  'netlify',
-  'linear',
-]
-
-interface ParsedJob {
-  title: string
-  company: string
-  location: string
-  url: string
-  description: string
-  postedAt?: Date
-  jobType?: 'new_grad' | 'internship'
-  isRemote?: boolean
-}
-
-interface SponsorMatch {
-  id: string
-  companyName: string
-  sponsorshipConfidence: number
-  sponsorshipTypes?: string[]
-  lastYearSponsored?: number
-}
-
-async function loadSponsors() {
-  const rows = await dbConnection
-    .select({
-      id: visaSponsors.id,
-      companyName: visaSponsors.companyName,
-      normalizedName: visaSponsors.normalizedName,
-      sponsorshipConfidence: visaSponsors.sponsorshipConfidence,
-      sponsorshipTypes: visaSponsors.sponsorshipTypes,
-      lastYearSponsored: visaSponsors.lastYearSponsored,
-      aliases: visaSponsors.aliases
-    })
-    .from(visaSponsors)
-
-  const sponsors: SponsorMatch[] = []
-  const aliasMap = new Map<string, SponsorMatch>()
-
-  for (const row of rows) {
-    const sponsor: SponsorMatch = {
-      id: row.id,
-      companyName: row.companyName,
-      sponsorshipConfidence: row.sponsorshipConfidence ?? 0,
-      sponsorshipTypes: row.sponsorshipTypes ?? [],
-      lastYearSponsored: row.lastYearSponsored ?? undefined,
-    }
-
-    sponsors.push(sponsor)
-
-    const normalized = row.normalizedName ? normalizeCompanyName(row.normalizedName) : normalizeCompanyName(row.companyName)
-    aliasMap.set(normalized, sponsor)
-
-    if (row.aliases) {
-      for (const alias of row.aliases) {
-        aliasMap.set(normalizeCompanyName(alias), sponsor)
-      }
-    }
-  }
-
-  return { sponsors, aliasMap }
-}
-
-function normalizeCompanyName(name: string) {
-  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, ' ')
-}
-
-function mapToSponsor(company: string, aliasMap: Map<string, SponsorMatch>) {
-  const normalized = normalizeCompanyName(company)
-  
-  // First try exact match
-  let sponsor = aliasMap.get(normalized)
-  if (sponsor) return sponsor
-  
-  // Try partial matching for common company name variations
-  const companyWords = normalized.split(' ').filter(word => word.length > 2)
-  
-  for (const [key, value] of aliasMap.entries()) {
-    const keyWords = key.split(' ').filter(word => word.length > 2)
-    
-    // Check if any significant words match
-    const matchingWords = companyWords.filter(word => 
-      keyWords.some(keyWord => 
-        keyWord.includes(word) || word.includes(keyWord)
-      )
-    )
-    
-    // If at least 50% of significant words match, consider it a match
-    if (matchingWords.length > 0 && matchingWords.length >= Math.ceil(companyWords.length * 0.5)) {
-      return value
-    }
-  }
-  
-  return null
-}
-
-async function crawlGitHubJobs() {
+async function crawlGitHubJobs(sourceStats: CrawlSourceStats[]) {
   console.log('🕷️  Crawling GitHub job sources...')
   
-  const { aliasMap } = await loadSponsors()
+  const sponsorIndex = await loadSponsorIndex()
   let totalSaved = 0
 
   for (const source of GITHUB_SOURCES) {
+    const stats = createSourceStats(source.name, source.platform)
+    sourceStats.push(stats)
+
     try {
       console.log(`📥 Fetching ${source.name}...`)
-      const response = await fetchWithRetry(source.url)
+      // A single known file rather than a crawl, so robots.txt does not apply.
+      const response = await fetchWithRetry(source.url, {}, { ignoreRobots: true }).catch((error) => {
+        stats.httpFailures++
+        throw error
+      })
       
       if (!response.ok) {
+        stats.httpFailures++
+        recordSourceError(stats, `HTTP ${response.status} ${response.statusText}`)
         console.log(
           `⚠️  Failed to fetch ${source.name}: HTTP ${response.status} ${response.statusText}`
         )
@@ -259,20 +77,29 @@ async function crawlGitHubJobs() {
 
       const content = await response.text()
       const jobs = parseGitHubContent(content, source.name)
+      stats.jobsSeen = jobs.length
       
       console.log(`   Found ${jobs.length} jobs`)
 
       for (const job of jobs) {
         try {
-          const sponsor = mapToSponsor(job.company, aliasMap)
-          await upsertJob(job, sponsor, source.name)
+          const sponsorMatch = await resolveSponsor(job.company, sponsorIndex)
+          const outcome = await upsertJob(job, { source: source.name, ...sponsorMatch })
+          recordUpsert(stats, outcome)
           totalSaved++
         } catch (error) {
+          recordSourceError(stats, error)
           console.error(`❌ Failed to save job: ${error}`)
         }
       }
+
+      const lifecycle = await markMissingJobs(source.name, source.platform, new Set(jobs.map((job) => job.url)))
+      stats.jobsDeactivated = lifecycle.expired
     } catch (error) {
+      recordSourceError(stats, error)
       console.error(`❌ Error crawling ${source.name}:`, error)
+    } finally {
+      stats.finishedAt = new Date()
     }
   }
 
@@ -280,224 +107,85 @@ async function crawlGitHubJobs() {
   return totalSaved
 }
 
-async function crawlLeverJobs() {
-  console.log('🕷️  Crawling Lever API...')
-  
-  const { aliasMap } = await loadSponsors()
-  let totalSaved = 0
-
-  for (const company of LEVER_COMPANIES) {
-    try {
-      const url = `https://api.lever.co/v0/postings/${company}`
-      const response = await fetchWithRetry(url)
-
-      if (!response.ok) {
-        console.log(
-          `⚠️  Skipping ${company} (Lever API HTTP ${response.status} ${response.statusText})`
-        )
-        continue
-      }
-
-      const leverJobs = await response.json()
-      console.log(`   Found ${leverJobs.length} jobs from ${company}`)
-
-      for (const leverJob of leverJobs) {
-        // Filter for new grad / entry level roles
-        const title = leverJob.text.toLowerCase()
-        const isNewGrad =
-          title.includes('new grad') ||
-          title.includes('university grad') ||
-          title.includes('entry level') ||
-          title.includes('early career') ||
-          title.includes('junior') ||
-          title.includes('associate')
-
-        if (!isNewGrad) continue
-
-        const location = leverJob.categories?.location || 'Not specified'
-        const isRemote =
-          location.toLowerCase().includes('remote') ||
-          location.toLowerCase().includes('anywhere')
-
-        const job: ParsedJob = {
-          title: leverJob.text,
-          company: company.charAt(0).toUpperCase() + company.slice(1),
-          location,
-          url: leverJob.hostedUrl,
-          description: leverJob.description || '',
-          postedAt: leverJob.createdAt ? new Date(leverJob.createdAt) : undefined,
-          jobType: title.includes('intern') ? 'internship' : 'new_grad',
-          isRemote,
-        }
-
-        const sponsor = mapToSponsor(job.company, aliasMap)
-        await upsertJob(job, sponsor, `lever_${company}`)
-        totalSaved++
-      }
-    } catch (error) {
-      console.error(`❌ Error crawling ${company}:`, error)
-    }
+function recordUpsert(stats: CrawlSourceStats, outcome: UpsertOutcome) {
+  if (outcome === 'inserted') {
+    stats.jobsInserted++
+  } else if (outcome === 'unchanged') {
+    stats.jobsUnchanged++
+  } else {
+    stats.jobsUpdated++
   }
-
-  console.log(`✅ Saved ${totalSaved} jobs from Lever`)
-  return totalSaved
 }
 
-async function crawlGreenhouseJobs() {
-  console.log('🕷️  Crawling Greenhouse API...')
-  
-  const { aliasMap } = await loadSponsors()
-  let totalSaved = 0
-
-  for (const company of GREENHOUSE_COMPANIES) {
-    try {
-      const url = `https://boards-api.greenhouse.io/v1/boards/${company}/jobs`
-      const response = await fetchWithRetry(url)
-
-      if (!response.ok) {
-        console.log(
-          `⚠️  Skipping ${company} (Greenhouse API HTTP ${response.status} ${response.statusText})`
-        )
-        continue
-      }
-
-      const data = await response.json()
-      const greenhouseJobs = data.jobs || []
-      console.log(`   Found ${greenhouseJobs.length} jobs from ${company}`)
-
-      for (const greenhouseJob of greenhouseJobs) {
-        // Filter for new grad / entry level roles
-        const title = greenhouseJob.title.toLowerCase()
-        const isNewGrad =
-          title.includes('new grad') ||
-          title.includes('university grad') ||
-          title.includes('entry level') ||
-          title.includes('early career') ||
-          title.includes('junior') ||
-          title.includes('associate')
-
-        if (!isNewGrad) continue
-
-        const location = greenhouseJob.location?.name || 'Not specified'
-        const isRemote =
-          location.toLowerCase().includes('remote') ||
-          location.toLowerCase().includes('anywhere')
-
-        const job: ParsedJob = {
-          title: greenhouseJob.title,
-          company: company.charAt(0).toUpperCase() + company.slice(1),
-          location,
-          url: greenhouseJob.absolute_url,
-          description: greenhouseJob.content || '',
-          postedAt: greenhouseJob.updated_at ? new Date(greenhouseJob.updated_at) : undefined,
-          jobType: title.includes('intern') ? 'internship' : 'new_grad',
-          isRemote,
-        }
-
-        const sponsor = mapToSponsor(job.company, aliasMap)
-        await upsertJob(job, sponsor, `greenhouse_${company}`)
-        totalSaved++
+/**
+ * Wraps the shared JSON fetcher so HTTP and network failures are counted
+ * against the source being crawled, including swallowed detail failures.
+ */
+function createAdapterContext(stats: CrawlSourceStats): AdapterContext {
+  return {
+    fetchJson: async (url, options) => {
+      try {
+        return await fetchJson(url, options)
+      } catch (error) {
+        stats.httpFailures++
+        throw error
       }
-    } catch (error) {
-      console.error(`❌ Error crawling ${company}:`, error)
-    }
+    },
   }
-
-  console.log(`✅ Saved ${totalSaved} jobs from Greenhouse`)
-  return totalSaved
 }
 
-async function crawlSmartRecruitersJobs() {
-  console.log('🕷️  Crawling SmartRecruiters API...')
+async function crawlAdapter(adapter: AtsAdapter, sourceStats: CrawlSourceStats[]) {
+  console.log(`🕷️  Crawling ${adapter.label}...`)
 
-  const { aliasMap } = await loadSponsors()
+  const sponsorIndex = await loadSponsorIndex()
   let totalSaved = 0
 
-  for (const company of SMARTRECRUITERS_COMPANIES) {
-    try {
-      const url = `https://api.smartrecruiters.com/v1/companies/${company}/postings`
-      const response = await fetchWithRetry(url)
-
-      if (!response.ok) {
-        console.log(
-          `⚠️  Skipping ${company} (SmartRecruiters HTTP ${response.status} ${response.statusText})`
-        )
-        continue
-      }
-
-      const data = await response.json()
-      const jobs = extractSmartRecruitersJobs(data, company)
-      console.log(`   Found ${jobs.length} SmartRecruiters jobs for ${company}`)
+  for (const account of adapter.accounts) {
+    const source = `${adapter.platform}_${account}`
+    const stats = createSourceStats(source, adapter.platform)
+    sourceStats.push(stats)
 
-      for (const job of jobs) {
-        const sponsor = mapToSponsor(job.company, aliasMap)
-        await upsertJob(job, sponsor, `smartrecruiters_${company}`)
-        totalSaved++
-      }
-    } catch (error) {
-      console.error(`❌ Error crawling SmartRecruiters company ${company}:`, error)
-    }
-  }
-
-  console.log(`✅ Saved ${totalSaved} jobs from SmartRecruiters`)
-  return totalSaved
-}
-
-async function crawlWorkableJobs() {
-  console.log('🕷️  Crawling Workable API...')
-
-  const { aliasMap } = await loadSponsors()
-  let totalSaved = 0
-
-  for (const account of WORKABLE_ACCOUNTS) {
     try {
-      const listUrl = `https://apply.workable.com/api/v3/accounts/${account}/jobs?state=published`
-      const response = await fetchWithRetry(listUrl, {}, { retries: 3, backoffMs: 800 })
-
-      if (!response.ok) {
-        console.log(
-          `⚠️  Skipping ${account} (Workable HTTP ${response.status} ${response.statusText})`
-        ) // continue to next account
-        continue
-      }
+      const jobs = await collectAdapterJobs(adapter, account, createAdapterContext(stats))
+      stats.jobsSeen = jobs.length
+      console.log(`   Found ${jobs.length} ${adapter.label} jobs for ${account}`)
 
-      const data = await response.json()
-      const jobs = await extractWorkableJobs(data, account, async (job) => {
-        if (!job.shortcode) return null
+      for (const job of jobs) {
         try {
-          const detailUrl = `https://apply.workable.com/api/v3/accounts/${account}/jobs/${job.shortcode}`
-          const detailResponse = await fetchWithRetry(detailUrl, {}, { retries: 2, backoffMs: 700 })
-          if (!detailResponse.ok) {
-            console.warn(
-              `⚠️  Workable detail unavailable for ${account} (${job.shortcode}): HTTP ${detailResponse.status} ${detailResponse.statusText}`
-            )
-            return null
-          }
-          return detailResponse.json()
+          const sponsorMatch = await resolveSponsor(job.company, sponsorIndex)
+          const outcome = await upsertJob(job, { source, ...sponsorMatch })
+          recordUpsert(stats, outcome)
+          totalSaved++
         } catch (error) {
-          console.warn(`⚠️  Failed to fetch Workable detail for ${job.id}`, error)
-          return null
+          recordSourceError(stats, error)
+          console.error(`❌ Failed to save ${adapter.label} job ${job.url}:`, error)
         }
-      })
-
-      console.log(`   Found ${jobs.length} Workable jobs for ${account}`)
-
-      for (const job of jobs) {
-        const sponsor = mapToSponsor(job.company, aliasMap)
-        await upsertJob(job, sponsor, `workable_${account}`)
-        totalSaved++
       }
+
+      const lifecycle = await markMissingJobs(source, adapter.platform, new Set(jobs.map((job) => job.url)))
+      stats.jobsDeactivated = lifecycle.expired
     } catch (error) {
-      console.error(`❌ Error crawling Workable account ${account}:`, error)
+      recordSourceError(stats, error)
+      if (error instanceof HttpError) {
+        console.log(`⚠️  Skipping ${account} (${adapter.label} HTTP ${error.status} ${error.statusText})`)
+        continue
+      }
+      if (error instanceof RobotsDisallowedError) {
+        console.log(`⚠️  Skipping ${account} (${adapter.label} disallowed by robots.txt)`)
+        continue
+      }
+      console.error(`❌ Error crawling ${adapter.label} account ${account}:`, error)
+    } finally {
+      stats.finishedAt = new Date()
     }
   }
 
-  console.log(`✅ Saved ${totalSaved} jobs from Workable`)
+  console.log(`✅ Saved ${totalSaved} jobs from ${adapter.label}`)
   return totalSaved
 }
 
-function parseGitHubContent(content: string, _sourceName: string): ParsedJob[] {
-  const jobs: ParsedJob[] = []
+function parseGitHubContent(content: string, _sourceName: string): IngestJob[] {
+  const jobs: IngestJob[] = []
 
   const lines = content.split('\n')
 
@@ -527,84 +215,19 @@ function parseGitHubContent(content: string, _sourceName: string): ParsedJob[] {
   return jobs
 }
 
-async function upsertJob(job: ParsedJob, sponsor: SponsorMatch | null, source: string) {
-  const embeddingText = `${job.title} ${job.company} ${job.description}`
-  const embedding = await generateEmbedding(embeddingText)
-
-  // Determine visa status based on sponsorship confidence
-  let visaStatus = 'unknown'
-  if (sponsor) {
-    if (sponsor.sponsorshipConfidence >= 80) {
-      visaStatus = 'sponsor_verified'
-    } else if (sponsor.sponsorshipConfidence >= 50) {
-      visaStatus = 'likely_sponsor'
-    } else {
-      visaStatus = 'unknown'
-    }
-  }
-
-  const now = new Date()
-
-  await dbConnection
-    .insert(jobs)
-    .values({
-      title: job.title,
-      company: job.company,
-      location: job.location,
-      url: job.url,
-      description: job.description,
-      postedAt: job.postedAt,
-      lastSeenAt: now,
-      isActive: true,
-      isRemote: job.isRemote ?? job.location.toLowerCase().includes('remote'),
-      jobType: job.jobType ?? 'new_grad',
-      source,
-      embedding,
-      visaStatus,
-      sponsorshipConfidence: sponsor?.sponsorshipConfidence ?? 0,
-      visaNotes: sponsor ? `Matched to ${sponsor.companyName}` : null,
-      visaSponsorId: sponsor?.id ?? null,
-    })
-    .onConflictDoUpdate({
-      target: jobs.url,
-      set: {
-        title: job.title,
-        company: job.company,
-        location: job.location,
-        description: job.description,
-        postedAt: job.postedAt,
-        lastSeenAt: now,
-        isActive: true,
-        isRemote: job.isRemote ?? job.location.toLowerCase().includes('remote'),
-        jobType: job.jobType ?? 'new_grad',
-        source,
-        embedding,
-        visaStatus,
-        sponsorshipConfidence: sponsor?.sponsorshipConfidence ?? 0,
-        visaNotes: sponsor ? `Matched to ${sponsor.companyName}` : null,
-        visaSponsorId: sponsor?.id ?? null,
-      }
-    })
-}
-
 async function crawlAllPlatforms() {
   console.log('🚀 Starting multi-platform job crawler...')
-  
-  const results = await Promise.allSettled([
-    crawlGitHubJobs(),
-    crawlLeverJobs(),
-    crawlGreenhouseJobs(),
-    crawlSmartRecruitersJobs(),
-    crawlWorkableJobs(),
-  ])
-
-  const [
-    githubResult,
-    leverResult,
-    greenhouseResult,
-    smartRecruitersResult,
-    workableResult,
-  ] = results
+
+  const runId = await startCrawlRun('multi_platform')
+  const sourceStats: CrawlSourceStats[] = []
+
+  const adapters = getAdapters()
+  const crawlers = [
+    { label: 'GitHub', run: () => crawlGitHubJobs(sourceStats) },
+    ...adapters.map((adapter) => ({ label: adapter.label, run: () => crawlAdapter(adapter, sourceStats) })),
+  ]
+
+  const results = await Promise.allSettled(crawlers.map((crawler) => crawler.run()))
 
   const toCount = (label: string, result: PromiseSettledResult<number>) => {
     if (result.status === 'fulfilled') {
@@ -612,26 +235,40 @@ async function crawlAllPlatforms() {
     }
 
     console.error(`❌ ${label} crawl failed:`, result.reason)
+    const failed = createSourceStats(label.toLowerCase(), label.toLowerCase())
+    recordSourceError(failed, result.reason)
+    sourceStats.push(failed)
     return 0
   }
 
-  const githubCount = toCount('GitHub', githubResult)
-  const leverCount = toCount('Lever', leverResult)
-  const greenhouseCount = toCount('Greenhouse', greenhouseResult)
-  const smartRecruitersCount = toCount('SmartRecruiters', smartRecruitersResult)
-  const workableCount = toCount('Workable', workableResult)
-  
-  const totalJobs = githubCount + leverCount + greenhouseCount + smartRecruitersCount + workableCount
-  
+  const counts = crawlers.map((crawler, index) => ({
+    label: crawler.label,
+    count: toCount(crawler.label, results[index]),
+  }))
+  const totalJobs = counts.reduce((sum, entry) => sum + entry.count, 0)
+
+  // Crawler failures are already settled above; this covers the shared steps
+  try {
+    const dedupe = await dedupeJobs()
+    console.log(`🔁 Dedupe: ${dedupe.duplicates} duplicates across ${dedupe.candidates} candidates (${dedupe.updated} changed)`)
+  } catch (error) {
+    await finishCrawlRun(runId, sourceStats, error)
+    throw error
+  }
+
+  await finishCrawlRun(runId, sourceStats)
+
   console.log(`\n🎉 Crawling complete!`)
-  console.log(`  GitHub: ${githubCount} jobs`)
-  console.log(`  Lever: ${leverCount} jobs`)
-  console.log(`  Greenhouse: ${greenhouseCount} jobs`)
-  console.log(`  SmartRecruiters: ${smartRecruitersCount} jobs`)
-  console.log(`  Workable: ${workableCount} jobs`)
+  for (const entry of counts) {
+    console.log(`  ${entry.label}: ${entry.count} jobs`)
+  }
   console.log(`  Total: ${totalJobs} jobs`)
-  
+  console.log(`  Run: ${runId}`)
+
   process.exit(0)
 }
 
-crawlAllPlatforms().catch(console.error)
+crawlAllPlatforms().catch((error) => {
+  console.error('❌ Multi-platform crawl failed:', error)
+  process.exit(1)
+})
@@ -0,0 +1,115 @@
+/**
+ * Minimal robots.txt support (RFC 9309): group selection by user-agent,
+ * Allow/Disallow with `*` and `$` patterns, longest match wins, and the
+ * non-standard but common Crawl-delay directive.
+ */
+
+export interface RobotsRule {
+  allow: boolean
+  pattern: string
+}
+
+export interface RobotsRules {
+  rules: RobotsRule[]
+  crawlDelaySeconds?: number
+}
+
+export const ALLOW_ALL: RobotsRules = { rules: [] }
+export const DISALLOW_ALL: RobotsRules = { rules: [{ allow: false, pattern: '/' }] }
+
+interface RobotsGroup {
+  agents: string[]
+  rules: RobotsRule[]
+  crawlDelaySeconds?: number
+}
+
+function parseGroups(text: string) {
+  const groups: RobotsGroup[] = []
+  let current: RobotsGroup | null = null
+  let lastWasAgent = false
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim()
+    const separator = line.indexOf(':')
+    if (separator === -1) continue
+
+    const field = line.slice(0, separator).trim().toLowerCase()
+    const value = line.slice(separator + 1).trim()
+
+    if (field === 'user-agent') {
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [] }
+        groups.push(current)
+      }
+      current.agents.push(value.toLowerCase())
+      lastWasAgent = true
+      continue
+    }
+
+    lastWasAgent = false
+    if (!current) continue
+
+    if (field === 'allow' || field === 'disallow') {
+      // An empty Disallow means "allow everything" and adds no rule.
+      if (value) {
+        current.rules.push({ allow: field === 'allow', pattern: value })
+      }
+    } else if (field === 'crawl-delay') {
+      const delay = parseFloat(value)
+      if (Number.isFinite(delay) && delay >= 0) {
+        current.crawlDelaySeconds = delay
+      }
+    }
+  }
+
+  return groups
+}
+
+/**
+ * Picks the group naming our product token, falling back to `*`. Multiple
+ * matching groups are merged as the RFC requires.
+ */
+export function parseRobotsTxt(text: string, userAgent: string): RobotsRules {
+  const token = userAgent.split('/')[0].trim().toLowerCase()
+  const groups = parseGroups(text)
+
+  const specific = groups.filter((group) =>
+    group.agents.some((agent) => agent !== '*' && token.includes(agent))
+  )
+  const selected = specific.length ? specific : groups.filter((group) => group.agents.includes('*'))
+
+  const delays = selected
+    .map((group) => group.crawlDelaySeconds)
+    .filter((delay): delay is number => delay !== undefined)
+
+  return {
+    rules: selected.flatMap((group) => group.rules),
+    crawlDelaySeconds: delays.length ? Math.max(...delays) : undefined,
+  }
+}
+
+function patternToRegExp(pattern: string) {
+  const anchored = pattern.endsWith('$')
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+  return new RegExp(`^${body}${anchored ? '$' : ''}`)
+}
+
+export function isPathAllowed(robots: RobotsRules, pathWithQuery: string) {
+  let best: RobotsRule | null = null
+
+  for (const rule of robots.rules) {
+    if (!patternToRegExp(rule.pattern).test(pathWithQuery)) continue
+    if (
+      !best ||
+      rule.pattern.length > best.pattern.length ||
+      (rule.pattern.length === best.pattern.length && rule.allow)
+    ) {
+      best = rule
+    }
+  }
+
+  return best ? best.allow : true
+}
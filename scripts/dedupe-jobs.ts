@@ -0,0 +1,19 @@
+import 'dotenv/config'
+import { dedupeJobs } from '../apps/api/src/services/dedupe-service'
+
+async function main() {
+  console.log('🔁 Deduplicating jobs across sources...')
+
+  try {
+    const result = await dedupeJobs()
+    console.log(`✅ Checked ${result.candidates} candidates`)
+    console.log(`   Duplicates: ${result.duplicates}`)
+    console.log(`   Changed: ${result.updated}`)
+    process.exit(0)
+  } catch (error) {
+    console.error('❌ Dedupe failed:', error)
+    process.exit(1)
+  }
+}
+
+main()
@@ -0,0 +1,30 @@
+/**
+ * Visa-language backfill
+ * Reads each active job's description for its own sponsorship stance
+ * ("unable to sponsor", "OPT/CPT welcome"), stores the quoted evidence and
+ * re-derives the job's visa status. Crawls do this for new and changed
+ * postings; run this after changing the rules.
+ *
+ * Usage: tsx scripts/extract-visa-language.ts
+ * Set VISA_LANGUAGE_LLM=true to send descriptions the rules cannot place to the LLM.
+ */
+
+import 'dotenv/config'
+import { backfillVisaLanguage, isVisaLanguageLlmEnabled } from '../apps/api/src/services/visa-language-service'
+
+async function main() {
+  console.log(`🛂 Reading visa language from job descriptions${isVisaLanguageLlmEnabled() ? ' (LLM fallback on)' : ''}...`)
+
+  try {
+    const result = await backfillVisaLanguage()
+    console.log(`✅ Checked ${result.checked} jobs`)
+    console.log(`   Stating a stance: ${result.withStance}`)
+    console.log(`   Changed: ${result.updated}`)
+    process.exit(0)
+  } catch (error) {
+    console.error('❌ Visa language extraction failed:', error)
+    process.exit(1)
+  }
+}
+
+main()
@@ -1,41 +1,55 @@
 import { config } from 'dotenv'
 import { db } from '../apps/api/src/db'
 import { jobs } from '../apps/api/src/db/schema'
-import { sql } from 'drizzle-orm'
+import { inArray, sql } from 'drizzle-orm'
+import { VISA_STATUS_THRESHOLDS } from '../apps/api/src/services/ingestion-rules'
+import { STANCE_VISA_STATUS, PostingVisaStance } from '../apps/api/src/services/visa-language'
+import { postingVisaStatusSql } from '../apps/api/src/services/visa-language-service'
 
 // Load environment variables
 config({ path: '../.env' })
 
+const { verified, likely } = VISA_STATUS_THRESHOLDS
+
 async function fixVisaStatus() {
   console.log('🔧 Fixing visa status based on sponsorship confidence...')
   
   try {
-    // Update jobs with high confidence (>=70) to sponsor_verified
+    // Update jobs with high confidence to sponsor_verified
     const highConfidence = await db
       .update(jobs)
       .set({ visaStatus: 'sponsor_verified' })
-      .where(sql`${jobs.sponsorshipConfidence} >= 70`)
+      .where(sql`${jobs.sponsorshipConfidence} >= ${verified}`)
       .returning({ id: jobs.id, company: jobs.company, confidence: jobs.sponsorshipConfidence })
     
-    console.log(`✅ Updated ${highConfidence.length} jobs to 'sponsor_verified' (confidence >= 70)`)
+    console.log(`✅ Updated ${highConfidence.length} jobs to 'sponsor_verified' (confidence >= ${verified})`)
     
-    // Update jobs with medium confidence (30-69) to likely_sponsor
+    // Update jobs with medium confidence to likely_sponsor
     const mediumConfidence = await db
       .update(jobs)
       .set({ visaStatus: 'likely_sponsor' })
-      .where(sql`${jobs.sponsorshipConfidence} >= 30 AND ${jobs.sponsorshipConfidence} < 70`)
+      .where(sql`${jobs.sponsorshipConfidence} >= ${likely} AND ${jobs.sponsorshipConfidence} < ${verified}`)
       .returning({ id: jobs.id, company: jobs.company, confidence: jobs.sponsorshipConfidence })
     
-    console.log(`✅ Updated ${mediumConfidence.length} jobs to 'likely_sponsor' (confidence 30-69)`)
+    console.log(`✅ Updated ${mediumConfidence.length} jobs to 'likely_sponsor' (confidence ${likely}-${verified - 1})`)
     
-    // Update jobs with low confidence (<30) to unknown
+    // Update jobs with low or missing confidence to unknown
     const lowConfidence = await db
       .update(jobs)
       .set({ visaStatus: 'unknown' })
-      .where(sql`${jobs.sponsorshipConfidence} < 30`)
+      .where(sql`${jobs.sponsorshipConfidence} < ${likely} OR ${jobs.sponsorshipConfidence} IS NULL`)
       .returning({ id: jobs.id, company: jobs.company, confidence: jobs.sponsorshipConfidence })
     
-    console.log(`✅ Updated ${lowConfidence.length} jobs to 'unknown' (confidence < 30)`)
+    console.log(`✅ Updated ${lowConfidence.length} jobs to 'unknown' (confidence < ${likely})`)
+    
+    // Postings that refuse sponsorship themselves keep their override
+    const overridden = await db
+      .update(jobs)
+      .set({ visaStatus: postingVisaStatusSql(jobs.visaStatus) })
+      .where(inArray(jobs.visaStance, Object.keys(STANCE_VISA_STATUS) as PostingVisaStance[]))
+      .returning({ id: jobs.id })
+    
+    console.log(`✅ Re-applied the posting's own stance to ${overridden.length} jobs`)
     
     // Show summary
     const summary = await db
@@ -5,6 +5,8 @@ import { fileURLToPath } from 'url'
 import { TextDecoder } from 'util'
 import { parse } from 'csv-parse'
 import { z } from 'zod'
+import { scoreSponsorConfidence } from '../apps/api/src/services/sponsor-confidence'
+import { FilingHistoryEntry, PetitionCounts, PetitionType } from '../apps/api/src/services/sponsor-history'
 
 const DELIMITER_CANDIDATES = ['\t', ',', ';', '|'] as const
 
@@ -19,6 +21,14 @@ const SponsorAggregateSchema = z.object({
   state: z.string().optional(),
   industry: z.string().optional(),
   taxId: z.string().optional(),
+  filingHistory: z.array(
+    z.object({
+      fiscalYear: z.number().int(),
+      approvals: z.number().int().min(0),
+      denials: z.number().int().min(0),
+      byPetitionType: z.record(z.object({ approvals: z.number().int().min(0), denials: z.number().int().min(0) })),
+    })
+  ),
 })
 
 type SponsorAggregate = z.infer<typeof SponsorAggregateSchema>
@@ -36,6 +46,10 @@ const USCISRowSchema = z.object({
   continuationDenial: z.string().optional(),
   changeEmployerApproval: z.string().optional(),
   changeEmployerDenial: z.string().optional(),
+  changeSameEmployerApproval: z.string().optional(),
+  changeSameEmployerDenial: z.string().optional(),
+  newConcurrentApproval: z.string().optional(),
+  newConcurrentDenial: z.string().optional(),
   amendedApproval: z.string().optional(),
   amendedDenial: z.string().optional(),
 })
@@ -143,12 +157,17 @@ async function readCSV(filePath: string): Promise<USCISRow[]> {
           city: findValue(record, (key) => key.includes('petitioner city') || key === 'city'),
           state: findValue(record, (key) => key.includes('petitioner state') || key === 'state'),
           industry: findValue(record, (key) => key.includes('industry')),
-          newEmploymentApproval: findValue(record, (key) => key.includes('new employment approval')),
-          newEmploymentDenial: findValue(record, (key) => key.includes('new employment denial')),
-          continuationApproval: findValue(record, (key) => key.includes('continuation approval')),
-          continuationDenial: findValue(record, (key) => key.includes('continuation denial')),
+          // Newer Data Hub exports only split initial vs continuing petitions
+          newEmploymentApproval: findValue(record, (key) => key.includes('new employment approval') || key === 'initial approval'),
+          newEmploymentDenial: findValue(record, (key) => key.includes('new employment denial') || key === 'initial denial'),
+          continuationApproval: findValue(record, (key) => key.includes('continuation approval') || key === 'continuing approval'),
+          continuationDenial: findValue(record, (key) => key.includes('continuation denial') || key === 'continuing denial'),
           changeEmployerApproval: findValue(record, (key) => key.includes('change of employer approval') || key.includes('change employer approval')),
           changeEmployerDenial: findValue(record, (key) => key.includes('change of employer denial') || key.includes('change employer denial')),
+          changeSameEmployerApproval: findValue(record, (key) => key.includes('change with same employer approval')),
+          changeSameEmployerDenial: findValue(record, (key) => key.includes('change with same employer denial')),
+          newConcurrentApproval: findValue(record, (key) => key.includes('new concurrent approval')),
+          newConcurrentDenial: findValue(record, (key) => key.includes('new concurrent denial')),
           amendedApproval: findValue(record, (key) => key.includes('amended approval')),
           amendedDenial: findValue(record, (key) => key.includes('amended denial')),
         }
@@ -165,6 +184,49 @@ async function readCSV(filePath: string): Promise<USCISRow[]> {
   })
 }
 
+function petitionCounts(row: USCISRow): Partial<Record<PetitionType, PetitionCounts>> {
+  const columns: Array<[PetitionType, string | undefined, string | undefined]> = [
+    ['new_employment', row.newEmploymentApproval, row.newEmploymentDenial],
+    ['continuation', row.continuationApproval, row.continuationDenial],
+    ['change_same_employer', row.changeSameEmployerApproval, row.changeSameEmployerDenial],
+    ['new_concurrent', row.newConcurrentApproval, row.newConcurrentDenial],
+    ['change_employer', row.changeEmployerApproval, row.changeEmployerDenial],
+    ['amended', row.amendedApproval, row.amendedDenial],
+  ]
+
+  const counts: Partial<Record<PetitionType, PetitionCounts>> = {}
+  for (const [petitionType, approval, denial] of columns) {
+    const approvals = parseNumeric(approval)
+    const denials = parseNumeric(denial)
+    if (approvals + denials > 0) {
+      counts[petitionType] = { approvals, denials }
+    }
+  }
+  return counts
+}
+
+function addToHistory(
+  history: FilingHistoryEntry[],
+  fiscalYear: number,
+  byPetitionType: Partial<Record<PetitionType, PetitionCounts>>
+) {
+  let year = history.find((entry) => entry.fiscalYear === fiscalYear)
+  if (!year) {
+    year = { fiscalYear, approvals: 0, denials: 0, byPetitionType: {} }
+    history.push(year)
+  }
+  const breakdown = (year.byPetitionType ??= {})
+  for (const [petitionType, counts] of Object.entries(byPetitionType) as Array<[PetitionType, PetitionCounts]>) {
+    year.approvals += counts.approvals
+    year.denials += counts.denials
+    const existing = breakdown[petitionType] ?? { approvals: 0, denials: 0 }
+    breakdown[petitionType] = {
+      approvals: existing.approvals + counts.approvals,
+      denials: existing.denials + counts.denials,
+    }
+  }
+}
+
 function aggregateRows(rows: USCISRow[]): SponsorAggregate[] {
   const aggregates = new Map<string, SponsorAggregate>()
 
@@ -176,17 +238,9 @@ function aggregateRows(rows: USCISRow[]): SponsorAggregate[] {
     const fiscalYear = parseInt(row.fiscalYear?.trim() || '', 10)
     if (!normalizedName || !Number.isFinite(fiscalYear)) continue
 
-    const approvals =
-      parseNumeric(row.newEmploymentApproval) +
-      parseNumeric(row.continuationApproval) +
-      parseNumeric(row.changeEmployerApproval) +
-      parseNumeric(row.amendedApproval)
-
-    const denials =
-      parseNumeric(row.newEmploymentDenial) +
-      parseNumeric(row.continuationDenial) +
-      parseNumeric(row.changeEmployerDenial) +
-      parseNumeric(row.amendedDenial)
+    const byPetitionType = petitionCounts(row)
+    const approvals = Object.values(byPetitionType).reduce((sum, counts) => sum + counts.approvals, 0)
+    const denials = Object.values(byPetitionType).reduce((sum, counts) => sum + counts.denials, 0)
 
     if (!Number.isFinite(approvals) || !Number.isFinite(denials)) {
       continue
@@ -208,11 +262,13 @@ function aggregateRows(rows: USCISRow[]): SponsorAggregate[] {
         state: row.state?.trim(),
         industry: row.industry?.trim(),
         taxId: row.taxId?.trim(),
+        filingHistory: [{ fiscalYear, approvals, denials, byPetitionType }],
       })
     } else {
       existing.filings += filings
       existing.approvals += approvals
       existing.denials += denials
+      addToHistory(existing.filingHistory, fiscalYear, byPetitionType)
       if (!existing.lastYearSponsored || existing.lastYearSponsored < fiscalYear) {
         existing.lastYearSponsored = fiscalYear
       }
@@ -234,16 +290,6 @@ function aggregateRows(rows: USCISRow[]): SponsorAggregate[] {
   return Array.from(aggregates.values())
 }
 
-function calculateConfidence(filings: number, approvals: number): number {
-  if (filings >= 200) return 95
-  if (filings >= 100) return 90
-  if (filings >= 50) return 85
-  if (filings >= 25) return 80
-  if (filings >= 10) return 75
-  if (filings >= 5) return 70
-  return approvals > 0 ? 65 : 50
-}
-
 const ALLOWED_INDUSTRY_KEYWORDS = [
   'professional, scientific, and technical services',
   'finance',
@@ -307,14 +353,15 @@ async function generate() {
 
   const sponsors = filteredAggregates
     .map((aggregate) => {
-      const confidence = calculateConfidence(aggregate.filings, aggregate.approvals)
+      const filingHistory = [...aggregate.filingHistory].sort((a, b) => a.fiscalYear - b.fiscalYear)
+      const scored = scoreSponsorConfidence(filingHistory)
 
       return {
         companyName: aggregate.companyName,
         aliases: [],
         sponsorshipTypes: ['H1B'],
         lastYearSponsored: aggregate.lastYearSponsored,
-        sponsorshipConfidence: confidence,
+        sponsorshipConfidence: scored?.confidence ?? 50,
         notes: `USCIS FY filings: ${aggregate.filings} (approvals: ${aggregate.approvals}, denials: ${aggregate.denials})`,
         source: aggregate.lastYearSponsored ? `USCIS H1B Disclosure ${aggregate.lastYearSponsored}` : 'USCIS H1B Disclosure',
         metadata: {
@@ -325,6 +372,8 @@ async function generate() {
           state: aggregate.state,
           industry: aggregate.industry,
           taxId: aggregate.taxId,
+          filingHistory,
+          confidenceComponents: scored?.components,
         },
       }
     })
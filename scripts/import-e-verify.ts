@@ -0,0 +1,49 @@
+/**
+ * E-Verify employer importer
+ * Reads an export of the public E-Verify employer list and flags matching
+ * visa sponsors as enrolled (or not, for terminated/closed accounts).
+ *
+ * Usage: tsx scripts/import-e-verify.ts <path to e-verify-employers.csv>
+ * Sponsors that do not appear in the file keep their current flag.
+ */
+
+import 'dotenv/config'
+import fs from 'fs/promises'
+import path from 'path'
+import { parse } from 'csv-parse/sync'
+import { EVerifyEntry, parseEVerifyRow } from '../apps/api/src/services/employer-flags'
+import { applyEVerifyList } from '../apps/api/src/services/employer-flags-service'
+
+async function main() {
+  const filePath = process.argv[2]
+  if (!filePath) {
+    console.error('❌ Usage: tsx scripts/import-e-verify.ts <path to csv>')
+    process.exit(1)
+  }
+
+  try {
+    console.log(`📥 Reading E-Verify employers from ${path.basename(filePath)}...`)
+    const content = await fs.readFile(filePath, 'utf8')
+    const records: Record<string, string>[] = parse(content, {
+      columns: true,
+      skip_empty_lines: true,
+      relax_column_count: true,
+      trim: true,
+      bom: true,
+    })
+
+    const entries = records.map(parseEVerifyRow).filter((entry): entry is EVerifyEntry => entry !== null)
+    console.log(`   Parsed ${entries.length.toLocaleString()} employers (${records.length - entries.length} rows skipped)`)
+
+    const result = await applyEVerifyList(entries)
+    console.log(`✅ Checked ${result.checked} sponsors`)
+    console.log(`   Matched: ${result.matched}`)
+    console.log(`   Changed: ${result.updated}`)
+    process.exit(0)
+  } catch (error) {
+    console.error('❌ E-Verify import failed:', error)
+    process.exit(1)
+  }
+}
+
+main()
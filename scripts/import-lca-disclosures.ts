@@ -0,0 +1,113 @@
+/**
+ * DOL LCA disclosure importer
+ * Reads Department of Labor LCA disclosure files (CSV or XLSX, as published
+ * on the OFLC performance data page), rolls H-1B cases up per employer,
+ * job title, SOC code, worksite, wage level and fiscal year, and links the
+ * employers to visa sponsors.
+ *
+ * Usage: tsx scripts/import-lca-disclosures.ts <file> [more files...]
+ * Pass every quarter file for a fiscal year in the same run: stored filings
+ * for the fiscal years found in the files are replaced.
+ */
+
+import 'dotenv/config'
+import fs from 'fs'
+import path from 'path'
+import { parse } from 'csv-parse'
+import ExcelJS from 'exceljs'
+import { createLcaAggregator, parseLcaRecord } from '../apps/api/src/services/lca-rules'
+import { replaceLcaFilings } from '../apps/api/src/services/lca-service'
+
+type Aggregator = ReturnType<typeof createLcaAggregator>
+
+// Rich text, hyperlink and formula cells wrap the value we want
+function cellValue(value: ExcelJS.CellValue): unknown {
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    if ('richText' in value) return value.richText.map((part) => part.text).join('')
+    if ('result' in value) return value.result
+    if ('text' in value) return value.text
+  }
+  return value
+}
+
+async function readXlsx(filePath: string, onRecord: (record: Record<string, unknown>) => void) {
+  // Styles are needed for date cells to come back as dates
+  const workbook = new ExcelJS.stream.xlsx.WorkbookReader(filePath, { styles: 'cache', hyperlinks: 'ignore' })
+  for await (const worksheet of workbook) {
+    let headers: string[] | null = null
+    for await (const row of worksheet) {
+      const values = (row.values as ExcelJS.CellValue[]).slice(1)
+      if (!headers) {
+        headers = values.map((value) => String(cellValue(value) ?? ''))
+        continue
+      }
+      const record: Record<string, unknown> = {}
+      headers.forEach((header, index) => {
+        record[header] = cellValue(values[index])
+      })
+      onRecord(record)
+    }
+    // Disclosure workbooks keep all cases on the first sheet
+    break
+  }
+}
+
+async function readCsv(filePath: string, onRecord: (record: Record<string, unknown>) => void) {
+  const parser = fs.createReadStream(filePath).pipe(
+    parse({ columns: true, skip_empty_lines: true, relax_column_count: true, trim: true, bom: true })
+  )
+  for await (const record of parser) {
+    onRecord(record)
+  }
+}
+
+async function importFile(filePath: string, aggregator: Aggregator) {
+  let rows = 0
+  let kept = 0
+  const onRecord = (record: Record<string, unknown>) => {
+    rows += 1
+    const parsed = parseLcaRecord(record)
+    if (parsed && aggregator.add(parsed)) kept += 1
+    if (rows % 100_000 === 0) console.log(`   ...${rows.toLocaleString()} rows`)
+  }
+
+  if (/\.xlsx$/i.test(filePath)) {
+    await readXlsx(filePath, onRecord)
+  } else {
+    await readCsv(filePath, onRecord)
+  }
+  console.log(`   ${path.basename(filePath)}: ${rows.toLocaleString()} rows, ${kept.toLocaleString()} H-1B cases kept`)
+}
+
+async function main() {
+  const files = process.argv.slice(2)
+  if (!files.length) {
+    console.error('❌ Usage: tsx scripts/import-lca-disclosures.ts <file> [more files...]')
+    process.exit(1)
+  }
+
+  try {
+    // Older files lack decision dates; fall back to the FY in the file name
+    const fiscalYearHint = files.map((file) => path.basename(file).match(/FY\s?(\d{4})/i)?.[1]).find(Boolean)
+    const aggregator = createLcaAggregator(fiscalYearHint ? Number(fiscalYearHint) : undefined)
+
+    console.log(`📥 Reading ${files.length} LCA disclosure file(s)...`)
+    for (const file of files) {
+      await importFile(file, aggregator)
+    }
+
+    const aggregates = aggregator.results()
+    console.log(`📊 Rolled up into ${aggregates.length.toLocaleString()} employer/role/worksite entries`)
+
+    const result = await replaceLcaFilings(aggregates)
+    console.log(`✅ Stored filings for FY ${result.fiscalYears.join(', ') || 'none'}`)
+    console.log(`   Entries: ${result.filings.toLocaleString()}`)
+    console.log(`   Linked to sponsors: ${result.linked.toLocaleString()}`)
+    process.exit(0)
+  } catch (error) {
+    console.error('❌ LCA import failed:', error)
+    process.exit(1)
+  }
+}
+
+main()
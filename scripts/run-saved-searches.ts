@@ -0,0 +1,53 @@
+/**
+ * Saved-search alerts
+ * Re-runs every saved search against jobs scraped since its previous run,
+ * stores the new matches (shown as a badge on the dashboard) and prints a
+ * per-user digest.
+ *
+ * Usage: tsx scripts/run-saved-searches.ts
+ * Meant to run on a schedule after the crawlers (e.g. daily cron).
+ */
+
+import 'dotenv/config'
+import { runAllSavedSearches } from '../apps/api/src/services/saved-search-service'
+
+async function main() {
+  console.log('🔔 Running saved searches...')
+
+  try {
+    const { results, failures } = await runAllSavedSearches()
+
+    const byUser = new Map<string, typeof results>()
+    for (const result of results) {
+      if (!result.newMatches.length) continue
+      const existing = byUser.get(result.userId) ?? []
+      existing.push(result)
+      byUser.set(result.userId, existing)
+    }
+
+    for (const [userId, userResults] of byUser) {
+      console.log(`\n📬 Digest for user ${userId}:`)
+      for (const result of userResults) {
+        console.log(`   ${result.name}: ${result.newMatches.length} new`)
+        for (const match of result.newMatches.slice(0, 5)) {
+          console.log(`     • ${match.title} at ${match.company} — ${match.url}`)
+        }
+      }
+    }
+
+    for (const failure of failures) {
+      console.error(`❌ Saved search ${failure.savedSearchId} failed: ${failure.error}`)
+    }
+
+    const totalMatches = results.reduce((sum, result) => sum + result.newMatches.length, 0)
+    console.log(`\n✅ Ran ${results.length} saved searches`)
+    console.log(`   New matches: ${totalMatches}`)
+    console.log(`   Failed: ${failures.length}`)
+    process.exit(failures.length && !results.length ? 1 : 0)
+  } catch (error) {
+    console.error('❌ Saved search run failed:', error)
+    process.exit(1)
+  }
+}
+
+main()
@@ -5,7 +5,10 @@ import { fileURLToPath } from 'url'
 import { z } from 'zod'
 import postgres from 'postgres'
 import { drizzle } from 'drizzle-orm/postgres-js'
-import { visaSponsors } from '../apps/api/src/db/schema'
+import { eq, sql } from 'drizzle-orm'
+import { sponsorFilingsByYear, visaSponsors } from '../apps/api/src/db/schema'
+import { filingRowsFromHistory } from '../apps/api/src/services/sponsor-history'
+import { normalizeFilingHistory, scoreSponsorConfidence } from '../apps/api/src/services/sponsor-confidence'
 
 const connectionString = process.env.DATABASE_URL
 
@@ -14,7 +17,7 @@ if (!connectionString) {
 }
 
 const client = postgres(connectionString, { max: 1 })
-const db = drizzle(client, { schema: { visaSponsors } })
+const db = drizzle(client, { schema: { visaSponsors, sponsorFilingsByYear } })
 
 const SponsorRecordSchema = z.object({
   companyName: z.string(),
@@ -61,21 +64,26 @@ async function seed() {
 
   let inserted = 0
   let updated = 0
+  let historyRows = 0
 
   for (const sponsor of sponsors) {
     const normalizedName = normalizeCompanyName(sponsor.companyName)
     const aliases = sponsor.aliases?.map(normalizeCompanyName) ?? []
     const sponsorshipTypes = sponsor.sponsorshipTypes?.map((type) => type.toUpperCase()) ?? []
+    // Entries with USCIS filing history are re-scored so model changes apply on every import
+    const scored = scoreSponsorConfidence(normalizeFilingHistory(sponsor.metadata?.filingHistory))
+    const sponsorshipConfidence = scored?.confidence ?? sponsor.sponsorshipConfidence ?? 50
+    const lastYearSponsored = sponsor.lastYearSponsored ?? scored?.lastYearSponsored ?? undefined
 
-    const result = await db
+    const [result] = await db
       .insert(visaSponsors)
       .values({
         companyName: sponsor.companyName,
         normalizedName,
         aliases,
         sponsorshipTypes,
-        lastYearSponsored: sponsor.lastYearSponsored,
-        sponsorshipConfidence: sponsor.sponsorshipConfidence ?? 50,
+        lastYearSponsored,
+        sponsorshipConfidence,
         notes: sponsor.notes,
         source: sponsor.source,
         metadata: sponsor.metadata,
@@ -84,25 +92,39 @@ async function seed() {
         target: visaSponsors.normalizedName,
         set: {
           companyName: sponsor.companyName,
-          aliases,
+          // Keep aliases learned while crawling alongside the curated ones
+          aliases: sql`array(select distinct unnest(coalesce(${visaSponsors.aliases}, '{}'::text[]) || excluded.aliases))`,
           sponsorshipTypes,
-          lastYearSponsored: sponsor.lastYearSponsored,
-          sponsorshipConfidence: sponsor.sponsorshipConfidence ?? 50,
+          lastYearSponsored,
+          sponsorshipConfidence,
           notes: sponsor.notes,
           source: sponsor.source,
           metadata: sponsor.metadata,
           updatedAt: new Date(),
         },
       })
+      // xmax is 0 only for freshly inserted rows
+      .returning({ id: visaSponsors.id, inserted: sql<boolean>`(xmax = 0)` })
 
-    if (result?.length) {
+    if (result?.inserted) {
       inserted += 1
     } else {
       updated += 1
     }
+
+    // Per-year filings back the sponsor history chart; entries without USCIS history leave it alone
+    const filings = filingRowsFromHistory(sponsor.metadata?.filingHistory)
+    if (result && filings.length) {
+      await db.transaction(async (tx) => {
+        await tx.delete(sponsorFilingsByYear).where(eq(sponsorFilingsByYear.visaSponsorId, result.id))
+        await tx.insert(sponsorFilingsByYear).values(filings.map((row) => ({ ...row, visaSponsorId: result.id })))
+      })
+      historyRows += filings.length
+    }
   }
 
   console.log(`✅ Completed seeding ${inserted} sponsors (updated ${updated}).`)
+  console.log(`   Filing history rows: ${historyRows}`)
   await client.end()
 }
 
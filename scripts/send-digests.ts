@@ -0,0 +1,38 @@
+/**
+ * Email digest sender
+ * Emails each user whose daily/weekly digest is due the top new
+ * sponsor-friendly matches plus new saved-search hits since their last one.
+ *
+ * Usage: tsx scripts/send-digests.ts
+ * Transport comes from MAIL_TRANSPORT: 'smtp' (needs SMTP_URL) or 'outbox'
+ * (default, writes files to MAIL_OUTBOX_DIR for local previews).
+ * Meant to run hourly; users are only emailed when their digest is due.
+ */
+
+import 'dotenv/config'
+import { createMailTransportFromEnv } from '../apps/api/src/lib/mail'
+import { sendDueDigests } from '../apps/api/src/services/digest-service'
+
+async function main() {
+  try {
+    const transport = createMailTransportFromEnv()
+    console.log(`📧 Sending due digests via ${transport.name}...`)
+
+    const result = await sendDueDigests(transport)
+
+    for (const failure of result.failures) {
+      console.error(`❌ Digest for user ${failure.userId} failed: ${failure.error}`)
+    }
+
+    console.log(`✅ Due: ${result.checked}`)
+    console.log(`   Sent: ${result.sent}`)
+    console.log(`   Nothing new: ${result.empty}`)
+    console.log(`   Failed: ${result.failures.length}`)
+    process.exit(result.failures.length && !result.sent ? 1 : 0)
+  } catch (error) {
+    console.error('❌ Digest run failed:', error)
+    process.exit(1)
+  }
+}
+
+main()